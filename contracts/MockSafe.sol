@@ -0,0 +1,53 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.24;
+
+import "@openzeppelin/contracts/utils/Address.sol";
+
+/**
+ * @title MockSafe
+ * @notice Minimal stand-in for a Safe multisig for testing purposes only
+ * @dev Exposes the Safe owner views used by the Safe batch helpers and lets any owner execute a
+ *      call directly, without signatures or a threshold check.
+ *      DO NOT use in production environments.
+ */
+contract MockSafe {
+    address[] private _owners;
+    uint256 private immutable _threshold;
+
+    error NotSafeOwner();
+
+    constructor(address[] memory owners, uint256 threshold) {
+        _owners = owners;
+        _threshold = threshold;
+    }
+
+    /**
+     * @notice Safe owners (same signature as Safe.getOwners)
+     */
+    function getOwners() external view returns (address[] memory) {
+        return _owners;
+    }
+
+    /**
+     * @notice Required confirmations (same signature as Safe.getThreshold)
+     */
+    function getThreshold() external view returns (uint256) {
+        return _threshold;
+    }
+
+    /**
+     * @notice Execute one call of a Transaction Builder batch as the Safe
+     * @dev Only callable by an owner. Reverts bubble up from the target.
+     * @param to Target contract
+     * @param data Calldata
+     */
+    function execute(address to, bytes calldata data) external returns (bytes memory) {
+        bool isOwner = false;
+        for (uint256 i = 0; i < _owners.length; i++) {
+            if (_owners[i] == msg.sender) isOwner = true;
+        }
+        if (!isOwner) revert NotSafeOwner();
+
+        return Address.functionCall(to, data);
+    }
+}
@@ -0,0 +1,783 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+
+/**
+ * @title MultiLockup
+ * @notice Token lockups for many beneficiaries in one contract, any number of lockups each
+ * @dev Same vesting model as SimpleLockup (linear, periodic, cliff unlock, custom checkpoints,
+ *      contractual start time, top-ups), with each lockup selected by its ID.
+ *
+ * Key Design Decisions:
+ * - Lockup IDs: Lockups are keyed by an incrementing ID (0, 1, 2, ...), so a beneficiary can hold
+ *   several grants (initial, refresher, bonus) with different schedules. This saves deploying a
+ *   contract per grant and makes a separate registry unnecessary.
+ * - Same semantics as SimpleLockup: Creation variants, release, revoke and top-up behave the same
+ *   and use the same errors; events and functions carry the lockup ID
+ * - Release across grants: releaseAll() claims everything releasable from all of the caller's
+ *   lockups in one transfer; releaseRange(offset, limit) does the same for a page of them so
+ *   beneficiaries with many grants stay under the block gas limit
+ * - Accounted balance: totalAccounted is the sum of all tokens still owed to beneficiaries.
+ *   Releases and refunds are computed from a single lockup's own figures, so one grant's revoke
+ *   or release can never move tokens belonging to another grant. Tokens held above
+ *   totalAccounted (e.g. sent directly to the contract) are surplus that only
+ *   withdrawSurplus() can move.
+ * - Enumeration: Lockup IDs per beneficiary (getLockupIds) and beneficiaries in order of their
+ *   first lockup (beneficiaryAt / getBeneficiaries)
+ * - No beneficiary rotation and no clone support: use SimpleLockup for grants that need them
+ *
+ * @custom:security-considerations
+ * - Same token compatibility rules as SimpleLockup (standard ERC-20 only)
+ * - ReentrancyGuard: Applied for defense-in-depth despite Checks-Effects-Interactions pattern
+ * - Ownable: Only contract owner can create, top up and revoke lockups
+ */
+contract MultiLockup is Ownable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    struct LockupInfo {
+        address beneficiary;
+        uint256 totalAmount;
+        uint256 releasedAmount;
+        uint256 startTime;
+        uint256 cliffDuration;
+        uint256 vestingDuration;
+        uint256 releaseInterval; // Step length in seconds (0 = per-second linear vesting)
+        uint256 cliffUnlockBps; // Share of totalAmount unlocked at the cliff end, in basis points
+        bool revocable;
+        bool revoked;
+        uint256 vestedAtRevoke; // Amount vested at revocation time (0 if not revoked)
+    }
+
+    /// @notice Point of a custom vesting schedule
+    struct Checkpoint {
+        uint128 offset; // Seconds after startTime
+        uint128 cumulativeBps; // Share of totalAmount vested at offset, in basis points
+    }
+
+    IERC20 public immutable token;
+    mapping(uint256 => LockupInfo) public lockups;
+
+    // Number of lockups created, which is also the ID of the next lockup
+    uint256 public lockupCount;
+
+    // Tokens held for beneficiaries: unreleased totalAmount, or unreleased vestedAtRevoke once revoked
+    uint256 public totalAccounted;
+
+    // Beneficiaries in order of their first lockup
+    address[] private _beneficiaries;
+
+    // Lockup IDs of each beneficiary in creation order
+    mapping(address => uint256[]) private _lockupIds;
+
+    // Custom vesting schedules (empty for linear and periodic lockups)
+    mapping(uint256 => Checkpoint[]) private _checkpoints;
+
+    // Constants
+    uint256 public constant MAX_VESTING_DURATION = 10 * 365 days; // 10 years
+    uint256 public constant BASIS_POINTS = 10_000;
+    uint256 public constant MAX_CHECKPOINTS = 32;
+    uint256 public constant MAX_START_BACKDATE = 365 days;
+    uint256 public constant MAX_START_DELAY = 365 days;
+
+    event TokensLocked(
+        uint256 indexed lockupId,
+        address indexed beneficiary,
+        uint256 amount,
+        uint256 startTime,
+        uint256 cliffDuration,
+        uint256 vestingDuration,
+        bool revocable
+    );
+    event TokensReleased(
+        uint256 indexed lockupId,
+        address indexed beneficiary,
+        address indexed recipient,
+        uint256 amount
+    );
+    event LockupRevoked(uint256 indexed lockupId, address indexed beneficiary, uint256 refundAmount);
+    event LockupToppedUp(uint256 indexed lockupId, address indexed beneficiary, uint256 amount, uint256 newTotalAmount);
+    event SurplusWithdrawn(address indexed to, uint256 amount);
+
+    error InvalidAmount();
+    error InvalidDuration();
+    error InvalidBeneficiary();
+    error InvalidTokenAddress();
+    error NoLockupFound();
+    error NoTokensAvailable();
+    error NotRevocable();
+    error AlreadyRevoked();
+    error NotBeneficiary();
+    error InsufficientBalance();
+    error InsufficientAllowance();
+    error InsufficientTokensReceived(uint256 received, uint256 expected);
+    error NothingToRevoke();
+    error InvalidRecipient();
+    error AmountExceedsReleasable(uint256 amount, uint256 releasable);
+    error InvalidSchedule();
+    error InvalidStartTime();
+    error NoSurplus();
+
+    /**
+     * @notice Constructor
+     * @param _token Address of the ERC20 token to be locked
+     * @dev Validates that token address contains contract code.
+     *      Same token compatibility rules as SimpleLockup: standard ERC-20 tokens only.
+     */
+    constructor(address _token) Ownable(msg.sender) {
+        if (_token == address(0)) revert InvalidTokenAddress();
+
+        // Verify contract code exists at the address
+        uint256 size;
+        assembly {
+            size := extcodesize(_token)
+        }
+        if (size == 0) revert InvalidTokenAddress();
+
+        token = IERC20(_token);
+    }
+
+    /**
+     * @notice Create a new lockup for a beneficiary
+     * @param _beneficiary Address that will receive the tokens (cannot be zero or this contract)
+     * @param amount Total amount of tokens to lock (must be > 0, no maximum enforced)
+     * @param cliffDuration Duration of cliff period in seconds (must be < vestingDuration)
+     * @param vestingDuration Total vesting duration in seconds (must be > 0, max = 10 years)
+     * @param revocable Whether the lockup can be revoked by owner
+     * @return lockupId ID of the new lockup
+     * @dev Same validations as SimpleLockup.createLockup(); a beneficiary may hold any number of
+     *      lockups
+     */
+    function createLockup(
+        address _beneficiary,
+        uint256 amount,
+        uint256 cliffDuration,
+        uint256 vestingDuration,
+        bool revocable
+    ) external onlyOwner nonReentrant returns (uint256 lockupId) {
+        return _createLockup(_beneficiary, amount, block.timestamp, cliffDuration, vestingDuration, 0, 0, revocable);
+    }
+
+    /**
+     * @notice Create a new lockup that vests in discrete steps
+     * @param releaseInterval Step length in seconds (must be > 0 and <= vestingDuration)
+     * @dev See SimpleLockup.createPeriodicLockup()
+     */
+    function createPeriodicLockup(
+        address _beneficiary,
+        uint256 amount,
+        uint256 cliffDuration,
+        uint256 vestingDuration,
+        uint256 releaseInterval,
+        bool revocable
+    ) external onlyOwner nonReentrant returns (uint256 lockupId) {
+        if (releaseInterval == 0) revert InvalidDuration();
+        if (releaseInterval > vestingDuration) revert InvalidDuration();
+
+        return
+            _createLockup(
+                _beneficiary,
+                amount,
+                block.timestamp,
+                cliffDuration,
+                vestingDuration,
+                releaseInterval,
+                0,
+                revocable
+            );
+    }
+
+    /**
+     * @notice Create a new lockup that unlocks a share of the tokens at the cliff end
+     * @param cliffUnlockBps Share unlocked at the cliff end (must be > 0 and <= BASIS_POINTS)
+     * @dev See SimpleLockup.createCliffUnlockLockup()
+     */
+    function createCliffUnlockLockup(
+        address _beneficiary,
+        uint256 amount,
+        uint256 cliffDuration,
+        uint256 vestingDuration,
+        uint256 cliffUnlockBps,
+        bool revocable
+    ) external onlyOwner nonReentrant returns (uint256 lockupId) {
+        if (cliffUnlockBps == 0 || cliffUnlockBps > BASIS_POINTS) revert InvalidSchedule();
+
+        return
+            _createLockup(
+                _beneficiary,
+                amount,
+                block.timestamp,
+                cliffDuration,
+                vestingDuration,
+                0,
+                cliffUnlockBps,
+                revocable
+            );
+    }
+
+    /**
+     * @notice Create a new lockup with a contractual start time
+     * @param startTime Vesting start (at most MAX_START_BACKDATE in the past, MAX_START_DELAY ahead)
+     * @param releaseInterval Step length in seconds, 0 for per-second linear vesting
+     * @param cliffUnlockBps Share unlocked at the cliff end in basis points, 0 for none
+     * @dev See SimpleLockup.createScheduledLockup()
+     */
+    function createScheduledLockup(
+        address _beneficiary,
+        uint256 amount,
+        uint256 startTime,
+        uint256 cliffDuration,
+        uint256 vestingDuration,
+        uint256 releaseInterval,
+        uint256 cliffUnlockBps,
+        bool revocable
+    ) external onlyOwner nonReentrant returns (uint256 lockupId) {
+        if (releaseInterval > vestingDuration) revert InvalidDuration();
+        if (cliffUnlockBps > BASIS_POINTS) revert InvalidSchedule();
+        if (releaseInterval > 0 && cliffUnlockBps > 0) revert InvalidSchedule();
+
+        return
+            _createLockup(
+                _beneficiary,
+                amount,
+                startTime,
+                cliffDuration,
+                vestingDuration,
+                releaseInterval,
+                cliffUnlockBps,
+                revocable
+            );
+    }
+
+    /**
+     * @notice Create a new lockup that follows a custom checkpoint schedule
+     * @param checkpoints Ordered (offset, cumulativeBps) points, at most MAX_CHECKPOINTS
+     * @dev Same checkpoint rules as SimpleLockup.createCustomLockup()
+     */
+    function createCustomLockup(
+        address _beneficiary,
+        uint256 amount,
+        Checkpoint[] calldata checkpoints,
+        bool revocable
+    ) external onlyOwner nonReentrant returns (uint256 lockupId) {
+        uint256 count = checkpoints.length;
+        if (count == 0 || count > MAX_CHECKPOINTS) revert InvalidSchedule();
+        if (checkpoints[count - 1].cumulativeBps != BASIS_POINTS) revert InvalidSchedule();
+
+        for (uint256 i = 1; i < count; i++) {
+            if (checkpoints[i].offset < checkpoints[i - 1].offset) revert InvalidSchedule();
+            if (checkpoints[i].cumulativeBps < checkpoints[i - 1].cumulativeBps) revert InvalidSchedule();
+        }
+
+        // Stored under the next ID before _createLockup() pulls the tokens (Checks-Effects-Interactions)
+        Checkpoint[] storage schedule = _checkpoints[lockupCount];
+        for (uint256 i = 0; i < count; i++) {
+            schedule.push(checkpoints[i]);
+        }
+
+        return
+            _createLockup(
+                _beneficiary,
+                amount,
+                block.timestamp,
+                checkpoints[0].offset,
+                checkpoints[count - 1].offset,
+                0,
+                0,
+                revocable
+            );
+    }
+
+    /**
+     * @notice Release all vested tokens of a lockup to its beneficiary
+     * @param lockupId Lockup to release from (caller must be its beneficiary)
+     * @dev Same rules as SimpleLockup.release()
+     * @custom:security Protected by ReentrancyGuard
+     */
+    function release(uint256 lockupId) external nonReentrant {
+        _release(lockupId, msg.sender, 0);
+    }
+
+    /**
+     * @notice Release a specific amount of a lockup's vested tokens to its beneficiary
+     * @param lockupId Lockup to release from (caller must be its beneficiary)
+     * @param amount Amount to release (must be > 0 and <= releasableAmount(lockupId))
+     * @custom:security Protected by ReentrancyGuard
+     */
+    function release(uint256 lockupId, uint256 amount) external nonReentrant {
+        if (amount == 0) revert InvalidAmount();
+        _release(lockupId, msg.sender, amount);
+    }
+
+    /**
+     * @notice Release all releasable tokens of a lockup to another address
+     * @param lockupId Lockup to release from (caller must be its beneficiary)
+     * @param recipient Address receiving the tokens (cannot be zero or this contract)
+     * @custom:security Protected by ReentrancyGuard
+     */
+    function releaseTo(uint256 lockupId, address recipient) external nonReentrant {
+        _release(lockupId, recipient, 0);
+    }
+
+    /**
+     * @notice Release part of a lockup's releasable tokens to another address
+     * @param lockupId Lockup to release from (caller must be its beneficiary)
+     * @param recipient Address receiving the tokens (cannot be zero or this contract)
+     * @param amount Amount to release (must be > 0 and <= releasableAmount(lockupId))
+     * @custom:security Protected by ReentrancyGuard
+     */
+    function releaseTo(uint256 lockupId, address recipient, uint256 amount) external nonReentrant {
+        if (amount == 0) revert InvalidAmount();
+        _release(lockupId, recipient, amount);
+    }
+
+    /**
+     * @notice Release everything releasable from all of the caller's lockups to the caller
+     * @dev Emits TokensReleased for every lockup with releasable tokens and transfers the sum
+     *      once. Reverts with NoLockupFound if the caller holds no lockup and with
+     *      NoTokensAvailable if none of them has releasable tokens.
+     *      Gas grows with the number of lockups the caller holds; use releaseRange() once that
+     *      no longer fits in a block.
+     * @custom:security Protected by ReentrancyGuard
+     */
+    function releaseAll() external nonReentrant {
+        _releaseRange(0, _lockupIds[msg.sender].length);
+    }
+
+    /**
+     * @notice Release everything releasable from a page of the caller's lockups to the caller
+     * @param offset Zero-based index into getLockupIds(caller) of the first lockup
+     * @param limit Maximum number of lockups to release from
+     * @dev Same as releaseAll() restricted to getLockupIds(caller)[offset:offset + limit], so the
+     *      gas of one call is bounded by limit. Reverts with NoLockupFound if the page is empty (offset
+     *      past the caller's last lockup, or limit 0) and with NoTokensAvailable if nothing in
+     *      the page is releasable.
+     * @custom:security Protected by ReentrancyGuard
+     */
+    function releaseRange(uint256 offset, uint256 limit) external nonReentrant {
+        uint256 count = _lockupIds[msg.sender].length;
+        if (offset >= count) revert NoLockupFound();
+        _releaseRange(offset, offset + Math.min(limit, count - offset));
+    }
+
+    /**
+     * @notice Revoke a lockup and return its unvested tokens to owner
+     * @param lockupId Lockup to revoke
+     * @dev Same behavior as SimpleLockup.revoke(): vesting freezes at vestedAtRevoke, the
+     *      beneficiary keeps the vested tokens and the refund is totalAmount - vested of this
+     *      lockup only. Other lockups, including other grants of the same beneficiary, are not
+     *      affected.
+     * @custom:security Protected by ReentrancyGuard
+     */
+    function revoke(uint256 lockupId) external onlyOwner nonReentrant {
+        LockupInfo storage lockup = lockups[lockupId];
+        if (lockup.totalAmount == 0) revert NoLockupFound();
+        if (lockup.revoked) revert AlreadyRevoked();
+        if (!lockup.revocable) revert NotRevocable();
+
+        uint256 vested = _vestedAmount(lockupId);
+        uint256 refund = lockup.totalAmount - vested;
+
+        // Prevent meaningless revocation when nothing to revoke
+        if (refund == 0) revert NothingToRevoke();
+
+        lockup.revoked = true;
+        lockup.vestedAtRevoke = vested;
+        totalAccounted -= refund;
+
+        token.safeTransfer(owner(), refund);
+
+        emit LockupRevoked(lockupId, lockup.beneficiary, refund);
+    }
+
+    /**
+     * @notice Add tokens to an existing lockup on its original schedule
+     * @param lockupId Lockup to top up
+     * @param amount Amount of tokens to add (must be > 0)
+     * @dev Same behavior as SimpleLockup.topUp(). A refresher grant with its own cliff and
+     *      duration is a new lockup for the same beneficiary instead.
+     * @custom:security Revoked lockups cannot be topped up. Protected by ReentrancyGuard.
+     */
+    function topUp(uint256 lockupId, uint256 amount) external onlyOwner nonReentrant {
+        LockupInfo storage lockup = lockups[lockupId];
+        if (lockup.totalAmount == 0) revert NoLockupFound();
+        if (lockup.revoked) revert AlreadyRevoked();
+        if (amount == 0) revert InvalidAmount();
+
+        _checkFunding(amount);
+
+        uint256 newTotalAmount = lockup.totalAmount + amount;
+        lockup.totalAmount = newTotalAmount;
+        totalAccounted += amount;
+
+        _pullTokens(amount);
+
+        emit LockupToppedUp(lockupId, lockup.beneficiary, amount, newTotalAmount);
+    }
+
+    /**
+     * @notice Send tokens held above totalAccounted to the owner
+     * @return amount Surplus withdrawn
+     * @dev Recovers tokens transferred to the contract outside createLockup() and topUp().
+     *      Tokens owed to beneficiaries (totalAccounted) are never touched.
+     * @custom:security Protected by ReentrancyGuard
+     */
+    function withdrawSurplus() external onlyOwner nonReentrant returns (uint256 amount) {
+        uint256 balance = token.balanceOf(address(this));
+        if (balance <= totalAccounted) revert NoSurplus();
+
+        amount = balance - totalAccounted;
+        token.safeTransfer(owner(), amount);
+
+        emit SurplusWithdrawn(owner(), amount);
+    }
+
+    /**
+     * @notice Get the IDs of all lockups held by a beneficiary
+     * @param _beneficiary Beneficiary address
+     * @return Lockup IDs in creation order (empty if the address holds no lockup)
+     */
+    function getLockupIds(address _beneficiary) external view returns (uint256[] memory) {
+        return _lockupIds[_beneficiary];
+    }
+
+    /**
+     * @notice Get the number of distinct beneficiaries
+     * @return Number of addresses holding at least one lockup
+     */
+    function beneficiaryCount() external view returns (uint256) {
+        return _beneficiaries.length;
+    }
+
+    /**
+     * @notice Get a beneficiary by the order of their first lockup
+     * @param index Zero-based index
+     * @return Beneficiary address
+     */
+    function beneficiaryAt(uint256 index) external view returns (address) {
+        return _beneficiaries[index];
+    }
+
+    /**
+     * @notice Get a page of beneficiaries in order of their first lockup
+     * @param offset Zero-based index of the first beneficiary
+     * @param limit Maximum number of beneficiaries to return
+     * @return page Beneficiary addresses (shorter than limit on the last page, empty past the end)
+     */
+    function getBeneficiaries(uint256 offset, uint256 limit) external view returns (address[] memory page) {
+        uint256 count = _beneficiaries.length;
+        if (offset >= count) {
+            return page;
+        }
+
+        uint256 end = Math.min(offset + limit, count);
+        page = new address[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = _beneficiaries[i];
+        }
+    }
+
+    /**
+     * @notice Get a lockup's custom vesting schedule
+     * @return Checkpoints in order (empty for linear and periodic lockups)
+     */
+    function getCheckpoints(uint256 lockupId) external view returns (Checkpoint[] memory) {
+        return _checkpoints[lockupId];
+    }
+
+    /**
+     * @notice Get the amount of tokens that can be released from a lockup
+     * @return Amount of releasable tokens
+     */
+    function releasableAmount(uint256 lockupId) external view returns (uint256) {
+        return _releasableAmount(lockupId);
+    }
+
+    /**
+     * @notice Get the amount of a lockup's vested tokens
+     * @return Amount of vested tokens
+     */
+    function vestedAmount(uint256 lockupId) external view returns (uint256) {
+        return _vestedAmount(lockupId);
+    }
+
+    /**
+     * @notice Get a lockup's vesting progress as percentage
+     * @return Vesting progress (0-100)
+     * @dev Same rules as SimpleLockup.getVestingProgress()
+     */
+    function getVestingProgress(uint256 lockupId) external view returns (uint256) {
+        LockupInfo storage lockup = lockups[lockupId];
+
+        if (lockup.totalAmount == 0) {
+            return 0;
+        }
+
+        if (lockup.revoked) {
+            return 100;
+        }
+
+        if (block.timestamp < lockup.startTime + lockup.cliffDuration) {
+            return 0;
+        }
+
+        if (block.timestamp >= lockup.startTime + lockup.vestingDuration) {
+            return 100;
+        }
+
+        (uint256 numerator, uint256 denominator) = _vestedFraction(lockupId);
+        return (numerator * 100) / denominator;
+    }
+
+    /**
+     * @notice Get a lockup's remaining vesting time in seconds
+     * @return Remaining time in seconds (0 if completed, revoked, or non-existent)
+     */
+    function getRemainingVestingTime(uint256 lockupId) external view returns (uint256) {
+        LockupInfo storage lockup = lockups[lockupId];
+
+        if (lockup.totalAmount == 0 || lockup.revoked) {
+            return 0;
+        }
+
+        uint256 endTime = lockup.startTime + lockup.vestingDuration;
+        if (block.timestamp >= endTime) {
+            return 0;
+        }
+
+        return endTime - block.timestamp;
+    }
+
+    /**
+     * @notice Validate parameters, record the lockup and pull the tokens
+     * @param startTime Vesting start, block.timestamp unless set through createScheduledLockup()
+     * @param releaseInterval Step length in seconds, 0 for per-second linear vesting
+     * @param cliffUnlockBps Share unlocked at the cliff end in basis points, 0 for none
+     * @return lockupId ID of the new lockup (the previous lockupCount)
+     */
+    function _createLockup(
+        address _beneficiary,
+        uint256 amount,
+        uint256 startTime,
+        uint256 cliffDuration,
+        uint256 vestingDuration,
+        uint256 releaseInterval,
+        uint256 cliffUnlockBps,
+        bool revocable
+    ) private returns (uint256 lockupId) {
+        // 1. Simple parameter checks
+        if (amount == 0) revert InvalidAmount();
+        if (vestingDuration == 0) revert InvalidDuration();
+
+        // 2. Comparison operations
+        if (cliffDuration >= vestingDuration) revert InvalidDuration();
+        if (vestingDuration > MAX_VESTING_DURATION) revert InvalidDuration();
+        if (startTime > block.timestamp + MAX_START_DELAY) revert InvalidStartTime();
+        if (startTime + MAX_START_BACKDATE < block.timestamp) revert InvalidStartTime();
+        if (startTime + vestingDuration <= block.timestamp) revert InvalidStartTime();
+
+        // 3. Address validations
+        if (_beneficiary == address(0)) revert InvalidBeneficiary();
+        if (_beneficiary == address(this)) revert InvalidBeneficiary();
+
+        // 4. External calls (most expensive validations)
+        _checkFunding(amount);
+
+        lockupId = lockupCount++;
+        lockups[lockupId] = LockupInfo({
+            beneficiary: _beneficiary,
+            totalAmount: amount,
+            releasedAmount: 0,
+            startTime: startTime,
+            cliffDuration: cliffDuration,
+            vestingDuration: vestingDuration,
+            releaseInterval: releaseInterval,
+            cliffUnlockBps: cliffUnlockBps,
+            revocable: revocable,
+            revoked: false,
+            vestedAtRevoke: 0
+        });
+        if (_lockupIds[_beneficiary].length == 0) {
+            _beneficiaries.push(_beneficiary);
+        }
+        _lockupIds[_beneficiary].push(lockupId);
+        totalAccounted += amount;
+
+        _pullTokens(amount);
+
+        emit TokensLocked(lockupId, _beneficiary, amount, startTime, cliffDuration, vestingDuration, revocable);
+    }
+
+    /**
+     * @notice Check that the owner holds and approved enough tokens
+     */
+    function _checkFunding(uint256 amount) private view {
+        uint256 ownerBalance = token.balanceOf(msg.sender);
+        uint256 allowance = token.allowance(msg.sender, address(this));
+
+        if (ownerBalance < amount) revert InsufficientBalance();
+        if (allowance < amount) revert InsufficientAllowance();
+    }
+
+    /**
+     * @notice Pull tokens from the owner and verify the amount actually received
+     * @dev Compares the balance before and after the transfer (handles deflationary tokens)
+     */
+    function _pullTokens(uint256 amount) private {
+        uint256 balanceBefore = token.balanceOf(address(this));
+
+        token.safeTransferFrom(msg.sender, address(this), amount);
+
+        uint256 actualReceived = token.balanceOf(address(this)) - balanceBefore;
+        if (actualReceived < amount) {
+            revert InsufficientTokensReceived(actualReceived, amount);
+        }
+    }
+
+    /**
+     * @notice Release everything releasable from a slice of the caller's lockups in one transfer
+     * @param start Index into _lockupIds[msg.sender] of the first lockup
+     * @param end Index one past the last lockup (at most the caller's lockup count)
+     */
+    function _releaseRange(uint256 start, uint256 end) private {
+        if (start >= end) revert NoLockupFound();
+
+        uint256[] storage lockupIds = _lockupIds[msg.sender];
+        uint256 total = 0;
+        for (uint256 i = start; i < end; i++) {
+            uint256 lockupId = lockupIds[i];
+            uint256 releasable = _releasableAmount(lockupId);
+            if (releasable == 0) continue;
+
+            lockups[lockupId].releasedAmount += releasable;
+            total += releasable;
+
+            emit TokensReleased(lockupId, msg.sender, msg.sender, releasable);
+        }
+
+        if (total == 0) revert NoTokensAvailable();
+
+        totalAccounted -= total;
+        token.safeTransfer(msg.sender, total);
+    }
+
+    /**
+     * @notice Transfer released tokens from one of the caller's lockups
+     * @param lockupId Lockup to release from
+     * @param recipient Address receiving the tokens
+     * @param amount Amount to release, 0 for everything releasable
+     */
+    function _release(uint256 lockupId, address recipient, uint256 amount) private {
+        LockupInfo storage lockup = lockups[lockupId];
+        if (lockup.totalAmount == 0) revert NoLockupFound();
+        if (msg.sender != lockup.beneficiary) revert NotBeneficiary();
+        if (recipient == address(0) || recipient == address(this)) revert InvalidRecipient();
+
+        uint256 releasable = _releasableAmount(lockupId);
+        if (releasable == 0) revert NoTokensAvailable();
+
+        if (amount == 0) {
+            amount = releasable;
+        } else if (amount > releasable) {
+            revert AmountExceedsReleasable(amount, releasable);
+        }
+
+        lockup.releasedAmount += amount;
+        totalAccounted -= amount;
+        token.safeTransfer(recipient, amount);
+
+        emit TokensReleased(lockupId, msg.sender, recipient, amount);
+    }
+
+    /**
+     * @notice Internal function to calculate a lockup's releasable amount
+     * @dev At the end of vesting period, releases all remaining tokens to eliminate rounding dust
+     */
+    function _releasableAmount(uint256 lockupId) private view returns (uint256) {
+        LockupInfo storage lockup = lockups[lockupId];
+        uint256 vested = _vestedAmount(lockupId);
+
+        if (!lockup.revoked && block.timestamp >= lockup.startTime + lockup.vestingDuration) {
+            return lockup.totalAmount - lockup.releasedAmount;
+        }
+
+        return vested - lockup.releasedAmount;
+    }
+
+    /**
+     * @notice Internal function to calculate a lockup's vested amount
+     * @dev Same formula and rounding as SimpleLockup._vestedAmount()
+     */
+    function _vestedAmount(uint256 lockupId) private view returns (uint256) {
+        LockupInfo storage lockup = lockups[lockupId];
+
+        if (lockup.totalAmount == 0) {
+            return 0;
+        }
+
+        if (lockup.revoked) {
+            return lockup.vestedAtRevoke;
+        }
+
+        if (block.timestamp < lockup.startTime + lockup.cliffDuration) {
+            return 0;
+        }
+
+        if (block.timestamp >= lockup.startTime + lockup.vestingDuration) {
+            return lockup.totalAmount;
+        }
+
+        (uint256 numerator, uint256 denominator) = _vestedFraction(lockupId);
+        return Math.mulDiv(lockup.totalAmount, numerator, denominator);
+    }
+
+    /**
+     * @notice Internal function to calculate the vested share of a lockup's totalAmount
+     * @dev Only called between the cliff end and the vesting end. Mirrors
+     *      SimpleLockup._vestedFraction() (linear, periodic, cliff unlock and custom schedules).
+     */
+    function _vestedFraction(uint256 lockupId) private view returns (uint256 numerator, uint256 denominator) {
+        LockupInfo storage lockup = lockups[lockupId];
+        uint256 timeFromStart = block.timestamp - lockup.startTime;
+
+        Checkpoint[] storage checkpoints = _checkpoints[lockupId];
+        uint256 count = checkpoints.length;
+        if (count > 0) {
+            // Last checkpoint reached; the cliff check guarantees the first one is
+            uint256 index = 0;
+            while (index + 1 < count && checkpoints[index + 1].offset <= timeFromStart) {
+                index++;
+            }
+
+            Checkpoint memory reached = checkpoints[index];
+            if (index + 1 == count) {
+                return (reached.cumulativeBps, BASIS_POINTS);
+            }
+
+            // Offsets strictly increase here, since the next checkpoint was not reached yet
+            Checkpoint memory next = checkpoints[index + 1];
+            uint256 span = next.offset - reached.offset;
+            uint256 growth = (next.cumulativeBps - reached.cumulativeBps) * (timeFromStart - reached.offset);
+            return (reached.cumulativeBps * span + growth, BASIS_POINTS * span);
+        }
+
+        uint256 cliffUnlockBps = lockup.cliffUnlockBps;
+        if (cliffUnlockBps > 0) {
+            // Cliff share plus the rest interpolated from the cliff end to the vesting end
+            uint256 cliffDuration = lockup.cliffDuration;
+            uint256 span = lockup.vestingDuration - cliffDuration;
+            uint256 growth = (BASIS_POINTS - cliffUnlockBps) * (timeFromStart - cliffDuration);
+            return (cliffUnlockBps * span + growth, BASIS_POINTS * span);
+        }
+
+        if (lockup.releaseInterval > 0) {
+            timeFromStart -= timeFromStart % lockup.releaseInterval;
+        }
+
+        return (timeFromStart, lockup.vestingDuration);
+    }
+}
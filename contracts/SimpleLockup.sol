@@ -5,17 +5,44 @@ import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/Nonces.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import "@openzeppelin/contracts/utils/math/Math.sol";
 
 /**
  * @title SimpleLockup
- * @notice Minimal token lockup with linear vesting - one lockup per contract
+ * @notice Minimal token lockup with linear, periodic or custom vesting - one lockup per contract
  * @dev Implements linear vesting with cliff period, simplified from TokenLockup
  *
  * Key Design Decisions:
  * - One lockup per contract: Single beneficiary per deployment, simplifies state management
  * - Immutable token: Cannot be changed after deployment for security and predictability
+ * - Clone support: A deployed instance can serve as implementation for EIP-1167 minimal proxies
+ *   (see SimpleLockupFactory). Clones share the implementation's immutable token and set their
+ *   owner once through initialize().
+ * - Start time: Vesting starts at creation unless a contractual start is given, which may lie up
+ *   to MAX_START_BACKDATE in the past or MAX_START_DELAY in the future.
+ * - Top-ups: The owner can add tokens to an existing lockup; they vest over the original schedule.
  * - Pull payment pattern: Beneficiaries initiate withdrawals (gas-efficient, secure)
+ * - Periodic vesting: An optional release interval makes the vested amount move in discrete steps
+ *   (e.g. monthly unlocks) instead of every second. Steps are counted from startTime.
+ * - Cliff unlock: An optional share (basis points) unlocks the moment the cliff passes, the rest
+ *   vests linearly from the cliff end to the vesting end (e.g. 20% at TGE, then monthly linear).
+ * - Custom schedules: A lockup can follow a piecewise table of (offset, cumulative basis points)
+ *   checkpoints, interpolated linearly between checkpoints (e.g. 10% at start, then monthly steps,
+ *   then linear). cliffDuration/vestingDuration are the first/last checkpoint offsets.
+ * - Beneficiary rotation: The beneficiary can move the lockup to a new wallet in two steps
+ *   (propose + accept). If the beneficiary opted in beforehand and then lost its key, the owner can
+ *   recover the lockup to a new address after BENEFICIARY_RECOVERY_DELAY, which the beneficiary
+ *   can cancel in the meantime. Without the opt-in a lost key cannot be recovered.
+ * - Release operators: The beneficiary can approve operators (e.g. a payroll bot or custodian) that
+ *   trigger releases on its behalf. Operators can only send tokens to the beneficiary or to
+ *   recipients the beneficiary approved. Approvals belong to the beneficiary that set them and do
+ *   not carry over to a new beneficiary.
+ * - Signed release: The beneficiary can sign an EIP-712 Release message that anyone submits
+ *   through releaseWithSig(), so beneficiaries without gas tokens can claim via a relayer.
+ *   Per-beneficiary nonces prevent replay; every signature carries a deadline.
  * - Integer division: Uses standard Solidity division for vesting calculations
  *   * Sub-token precision loss is acceptable for simplicity and gas efficiency
  *   * No cumulative error: Each vesting calculation is independent
@@ -27,7 +54,7 @@ import "@openzeppelin/contracts/utils/math/Math.sol";
  * - Ownable: Only contract owner can create and revoke lockups
  * - Immutable design: No upgradeability to minimize attack surface
  */
-contract SimpleLockup is Ownable, ReentrancyGuard {
+contract SimpleLockup is Ownable, ReentrancyGuard, EIP712, Nonces {
     using SafeERC20 for IERC20;
 
     struct LockupInfo {
@@ -36,17 +63,50 @@ contract SimpleLockup is Ownable, ReentrancyGuard {
         uint256 startTime;
         uint256 cliffDuration;
         uint256 vestingDuration;
+        uint256 releaseInterval; // Step length in seconds (0 = per-second linear vesting)
+        uint256 cliffUnlockBps; // Share of totalAmount unlocked at the cliff end, in basis points
         bool revocable;
         bool revoked;
         uint256 vestedAtRevoke; // Amount vested at revocation time (0 if not revoked)
     }
 
+    /// @notice Point of a custom vesting schedule
+    struct Checkpoint {
+        uint128 offset; // Seconds after startTime
+        uint128 cumulativeBps; // Share of totalAmount vested at offset, in basis points
+    }
+
     IERC20 public immutable token;
     LockupInfo public lockupInfo;
     address public beneficiary;
 
+    // Set by the constructor for direct deployments, by initialize() for clones
+    bool private _initialized;
+
+    // Beneficiary rotation: address proposed by the beneficiary, waiting to accept
+    address public pendingBeneficiary;
+    // Owner-assisted recovery: address that becomes beneficiary once recoveryEta has passed
+    address public recoveryBeneficiary;
+    uint256 public recoveryEta;
+    // Beneficiary opt-in for owner-assisted recovery (reset whenever the beneficiary changes)
+    bool public recoveryEnabled;
+
+    // Custom vesting schedule (empty for linear and periodic lockups)
+    Checkpoint[] private _checkpoints;
+
+    // Release operators and operator-usable recipients, per beneficiary that approved them
+    mapping(address beneficiary => mapping(address operator => bool)) private _operators;
+    mapping(address beneficiary => mapping(address recipient => bool)) private _approvedRecipients;
+
     // Constants
     uint256 public constant MAX_VESTING_DURATION = 10 * 365 days; // 10 years
+    uint256 public constant BENEFICIARY_RECOVERY_DELAY = 30 days;
+    uint256 public constant BASIS_POINTS = 10_000;
+    uint256 public constant MAX_CHECKPOINTS = 32;
+    uint256 public constant MAX_START_BACKDATE = 365 days;
+    uint256 public constant MAX_START_DELAY = 365 days;
+    bytes32 public constant RELEASE_TYPEHASH =
+        keccak256("Release(address recipient,uint256 amount,uint256 nonce,uint256 deadline)");
 
     event TokensLocked(
         address indexed beneficiary,
@@ -56,8 +116,16 @@ contract SimpleLockup is Ownable, ReentrancyGuard {
         uint256 vestingDuration,
         bool revocable
     );
-    event TokensReleased(address indexed beneficiary, uint256 amount);
+    event TokensReleased(address indexed beneficiary, address indexed recipient, uint256 amount);
     event LockupRevoked(address indexed beneficiary, uint256 refundAmount);
+    event LockupToppedUp(address indexed beneficiary, uint256 amount, uint256 newTotalAmount);
+    event BeneficiaryChangeProposed(address indexed currentBeneficiary, address indexed proposedBeneficiary);
+    event BeneficiaryRecoveryInitiated(address indexed proposedBeneficiary, uint256 recoveryEta);
+    event BeneficiaryChangeCancelled(address indexed cancelledBy);
+    event BeneficiaryChanged(address indexed previousBeneficiary, address indexed newBeneficiary);
+    event RecoveryEnabledSet(address indexed beneficiary, bool enabled);
+    event OperatorSet(address indexed beneficiary, address indexed operator, bool approved);
+    event RecipientApprovalSet(address indexed beneficiary, address indexed recipient, bool approved);
 
     error InvalidAmount();
     error InvalidDuration();
@@ -73,6 +141,19 @@ contract SimpleLockup is Ownable, ReentrancyGuard {
     error InsufficientAllowance();
     error InsufficientTokensReceived(uint256 received, uint256 expected);
     error NothingToRevoke();
+    error AlreadyInitialized();
+    error NotPendingBeneficiary();
+    error NoBeneficiaryChangePending();
+    error RecoveryNotReady(uint256 recoveryEta);
+    error RecoveryNotEnabled();
+    error InvalidRecipient();
+    error AmountExceedsReleasable(uint256 amount, uint256 releasable);
+    error InvalidSchedule();
+    error InvalidStartTime();
+    error ExpiredSignature(uint256 deadline);
+    error InvalidSignature();
+    error InvalidOperator();
+    error RecipientNotApproved(address recipient);
 
     /**
      * @notice Constructor
@@ -93,7 +174,7 @@ contract SimpleLockup is Ownable, ReentrancyGuard {
      *
      *      Deployer must verify token contract source code before deployment.
      */
-    constructor(address _token) Ownable(msg.sender) {
+    constructor(address _token) Ownable(msg.sender) EIP712("SimpleLockup", "1") {
         if (_token == address(0)) revert InvalidTokenAddress();
 
         // Verify contract code exists at the address
@@ -105,6 +186,23 @@ contract SimpleLockup is Ownable, ReentrancyGuard {
 
         // Set token address (deployer must verify ERC20 compatibility)
         token = IERC20(_token);
+        _initialized = true;
+    }
+
+    /**
+     * @notice Initialize ownership of a minimal proxy clone
+     * @param initialOwner Address that will own the clone
+     * @dev Clones do not run the constructor, so their owner is unset until this is called.
+     *      Reverts on directly deployed contracts (initialized by the constructor) and on
+     *      clones that were already initialized. The factory deploys and initializes clones
+     *      in a single transaction, so initialization cannot be front-run.
+     */
+    function initialize(address initialOwner) external {
+        if (_initialized) revert AlreadyInitialized();
+        if (initialOwner == address(0)) revert OwnableInvalidOwner(address(0));
+
+        _initialized = true;
+        _transferOwnership(initialOwner);
     }
 
     /**
@@ -144,54 +242,183 @@ contract SimpleLockup is Ownable, ReentrancyGuard {
         uint256 vestingDuration,
         bool revocable
     ) external onlyOwner nonReentrant {
-        // 1. SLOAD checks (most important check first)
-        if (beneficiary != address(0)) revert LockupAlreadyExists();
-
-        // 2. Simple parameter checks
-        if (amount == 0) revert InvalidAmount();
-        if (vestingDuration == 0) revert InvalidDuration();
+        _createLockup(_beneficiary, amount, block.timestamp, cliffDuration, vestingDuration, 0, 0, revocable);
+    }
 
-        // 3. Comparison operations
-        if (cliffDuration >= vestingDuration) revert InvalidDuration();
-        if (vestingDuration > MAX_VESTING_DURATION) revert InvalidDuration();
+    /**
+     * @notice Create a new lockup that vests in discrete steps
+     * @param _beneficiary Address that will receive the tokens (cannot be zero or this contract)
+     * @param amount Total amount of tokens to lock (must be > 0, no maximum enforced)
+     * @param cliffDuration Duration of cliff period in seconds (must be < vestingDuration)
+     * @param vestingDuration Total vesting duration in seconds (must be > 0, max = 10 years)
+     * @param releaseInterval Step length in seconds (must be > 0 and <= vestingDuration)
+     * @param revocable Whether the lockup can be revoked by owner
+     *
+     * @dev Same validations as createLockup(). Steps are counted from startTime, so with a
+     *      12-month cliff and monthly steps the first 12 steps unlock together at the cliff end.
+     *      If vestingDuration is not a multiple of releaseInterval, the last step is shorter.
+     *
+     * @custom:example Monthly Unlocks
+     *      T=0: Lockup created (1200 tokens, 4-year vesting, 365 days / 12 release interval)
+     *      T=1.5 months: 25 tokens vested (1 step)
+     *      T=2 months: 50 tokens vested (2 steps)
+     */
+    function createPeriodicLockup(
+        address _beneficiary,
+        uint256 amount,
+        uint256 cliffDuration,
+        uint256 vestingDuration,
+        uint256 releaseInterval,
+        bool revocable
+    ) external onlyOwner nonReentrant {
+        if (releaseInterval == 0) revert InvalidDuration();
+        if (releaseInterval > vestingDuration) revert InvalidDuration();
 
-        // 4. Address validations
-        if (_beneficiary == address(0)) revert InvalidBeneficiary();
-        if (_beneficiary == address(this)) revert InvalidBeneficiary();
+        _createLockup(
+            _beneficiary,
+            amount,
+            block.timestamp,
+            cliffDuration,
+            vestingDuration,
+            releaseInterval,
+            0,
+            revocable
+        );
+    }
 
-        // 5. External calls (most expensive validations)
-        uint256 ownerBalance = token.balanceOf(msg.sender);
-        uint256 allowance = token.allowance(msg.sender, address(this));
+    /**
+     * @notice Create a new lockup that unlocks a share of the tokens at the cliff end
+     * @param _beneficiary Address that will receive the tokens (cannot be zero or this contract)
+     * @param amount Total amount of tokens to lock (must be > 0, no maximum enforced)
+     * @param cliffDuration Duration of cliff period in seconds (must be < vestingDuration, 0 = TGE)
+     * @param vestingDuration Total vesting duration in seconds (must be > 0, max = 10 years)
+     * @param cliffUnlockBps Share unlocked at the cliff end (must be > 0 and <= BASIS_POINTS)
+     * @param revocable Whether the lockup can be revoked by owner
+     *
+     * @dev Same validations as createLockup(). Nothing vests before the cliff end; the remaining
+     *      share vests linearly from the cliff end to the vesting end instead of from startTime.
+     *
+     * @custom:example 20% at cliff
+     *      T=0: Lockup created (1000 tokens, 3-month cliff, 12-month vesting, 2000 bps)
+     *      T=3 months: 200 tokens vested (cliff unlock)
+     *      T=7.5 months: 600 tokens vested (200 + 800 × 4.5 / 9)
+     *      T=12 months: 1000 tokens vested
+     */
+    function createCliffUnlockLockup(
+        address _beneficiary,
+        uint256 amount,
+        uint256 cliffDuration,
+        uint256 vestingDuration,
+        uint256 cliffUnlockBps,
+        bool revocable
+    ) external onlyOwner nonReentrant {
+        if (cliffUnlockBps == 0 || cliffUnlockBps > BASIS_POINTS) revert InvalidSchedule();
 
-        if (ownerBalance < amount) revert InsufficientBalance();
-        if (allowance < amount) revert InsufficientAllowance();
+        _createLockup(
+            _beneficiary,
+            amount,
+            block.timestamp,
+            cliffDuration,
+            vestingDuration,
+            0,
+            cliffUnlockBps,
+            revocable
+        );
+    }
 
-        // Record balance before transfer
-        uint256 balanceBefore = token.balanceOf(address(this));
+    /**
+     * @notice Create a new lockup with a contractual start time
+     * @param _beneficiary Address that will receive the tokens (cannot be zero or this contract)
+     * @param amount Total amount of tokens to lock (must be > 0, no maximum enforced)
+     * @param startTime Vesting start (at most MAX_START_BACKDATE in the past, MAX_START_DELAY ahead)
+     * @param cliffDuration Duration of cliff period in seconds, counted from startTime
+     * @param vestingDuration Total vesting duration in seconds, counted from startTime
+     * @param releaseInterval Step length in seconds, 0 for per-second linear vesting
+     * @param cliffUnlockBps Share unlocked at the cliff end in basis points, 0 for none
+     * @param revocable Whether the lockup can be revoked by owner
+     *
+     * @dev Same validations as createLockup(), plus the createPeriodicLockup() and
+     *      createCliffUnlockLockup() rules when releaseInterval or cliffUnlockBps is set (not
+     *      both). The tokens are pulled now whatever the start time:
+     *      - Backdated (e.g. employment start): the share vested up to now is releasable at once.
+     *        The vesting end must still be in the future.
+     *      - Future (e.g. TGE): nothing vests before startTime; progress is 0 and the remaining
+     *        time counts until the vesting end, including the wait for the start.
+     */
+    function createScheduledLockup(
+        address _beneficiary,
+        uint256 amount,
+        uint256 startTime,
+        uint256 cliffDuration,
+        uint256 vestingDuration,
+        uint256 releaseInterval,
+        uint256 cliffUnlockBps,
+        bool revocable
+    ) external onlyOwner nonReentrant {
+        if (releaseInterval > vestingDuration) revert InvalidDuration();
+        if (cliffUnlockBps > BASIS_POINTS) revert InvalidSchedule();
+        if (releaseInterval > 0 && cliffUnlockBps > 0) revert InvalidSchedule();
 
-        beneficiary = _beneficiary;
-        lockupInfo = LockupInfo({
-            totalAmount: amount,
-            releasedAmount: 0,
-            startTime: block.timestamp,
-            cliffDuration: cliffDuration,
-            vestingDuration: vestingDuration,
-            revocable: revocable,
-            revoked: false,
-            vestedAtRevoke: 0
-        });
+        _createLockup(
+            _beneficiary,
+            amount,
+            startTime,
+            cliffDuration,
+            vestingDuration,
+            releaseInterval,
+            cliffUnlockBps,
+            revocable
+        );
+    }
 
-        token.safeTransferFrom(msg.sender, address(this), amount);
+    /**
+     * @notice Create a new lockup that follows a custom checkpoint schedule
+     * @param _beneficiary Address that will receive the tokens (cannot be zero or this contract)
+     * @param amount Total amount of tokens to lock (must be > 0, no maximum enforced)
+     * @param checkpoints Ordered (offset, cumulativeBps) points, at most MAX_CHECKPOINTS
+     * @param revocable Whether the lockup can be revoked by owner
+     *
+     * @dev Checkpoint rules:
+     *      - Offsets and cumulative basis points never decrease
+     *      - The last checkpoint vests 100% (BASIS_POINTS)
+     *      - The first offset is the cliff: nothing vests before it
+     *      - The last offset is the vesting duration (> first offset, max = 10 years)
+     *      Between two checkpoints the vested share grows linearly. Two checkpoints with the
+     *      same offset form an instant unlock, so steps are written as (t, 10%), (t, 15%).
+     *
+     * @custom:example 10% at start, 5% per month for 6 months, linear for the rest over 2 years
+     *      (0, 1000), (30 days, 1000), (30 days, 1500), ..., (180 days, 4000), (730 days, 10000)
+     */
+    function createCustomLockup(
+        address _beneficiary,
+        uint256 amount,
+        Checkpoint[] calldata checkpoints,
+        bool revocable
+    ) external onlyOwner nonReentrant {
+        uint256 count = checkpoints.length;
+        if (count == 0 || count > MAX_CHECKPOINTS) revert InvalidSchedule();
+        if (checkpoints[count - 1].cumulativeBps != BASIS_POINTS) revert InvalidSchedule();
 
-        // Validate actual received amount (handles deflationary tokens)
-        uint256 balanceAfter = token.balanceOf(address(this));
-        uint256 actualReceived = balanceAfter - balanceBefore;
+        for (uint256 i = 1; i < count; i++) {
+            if (checkpoints[i].offset < checkpoints[i - 1].offset) revert InvalidSchedule();
+            if (checkpoints[i].cumulativeBps < checkpoints[i - 1].cumulativeBps) revert InvalidSchedule();
+        }
 
-        if (actualReceived < amount) {
-            revert InsufficientTokensReceived(actualReceived, amount);
+        // Stored before _createLockup() pulls the tokens (Checks-Effects-Interactions)
+        for (uint256 i = 0; i < count; i++) {
+            _checkpoints.push(checkpoints[i]);
         }
 
-        emit TokensLocked(_beneficiary, amount, block.timestamp, cliffDuration, vestingDuration, revocable);
+        _createLockup(
+            _beneficiary,
+            amount,
+            block.timestamp,
+            checkpoints[0].offset,
+            checkpoints[count - 1].offset,
+            0,
+            0,
+            revocable
+        );
     }
 
     /**
@@ -199,19 +426,77 @@ contract SimpleLockup is Ownable, ReentrancyGuard {
      * @dev Beneficiaries can claim vested tokens even after revocation.
      *      After full vesting period, all remaining tokens (including rounding dust) are released.
      *      Uses pull payment pattern for gas efficiency.
+     *      Callable by the beneficiary or an approved operator; tokens always go to the beneficiary.
      * @custom:security Protected by ReentrancyGuard
      */
     function release() external nonReentrant {
-        if (msg.sender != beneficiary) revert NotBeneficiary();
-        if (lockupInfo.totalAmount == 0) revert NoLockupFound();
+        _release(beneficiary, 0);
+    }
 
-        uint256 releasable = _releasableAmount();
-        if (releasable == 0) revert NoTokensAvailable();
+    /**
+     * @notice Release a specific amount of vested tokens to beneficiary
+     * @param amount Amount to release (must be > 0 and <= releasableAmount())
+     * @dev The unreleased remainder stays vested in the lockup and can be claimed later.
+     *      After revocation the remainder stays claimable up to vestedAtRevoke.
+     * @custom:security Protected by ReentrancyGuard
+     */
+    function release(uint256 amount) external nonReentrant {
+        if (amount == 0) revert InvalidAmount();
+        _release(beneficiary, amount);
+    }
+
+    /**
+     * @notice Release all releasable tokens to another address (e.g. cold storage or exchange deposit)
+     * @param recipient Address receiving the tokens (cannot be zero or this contract)
+     * @dev Callable by the beneficiary, same rules as release(). Operators can only release to
+     *      the beneficiary or a recipient approved with setRecipientApproval().
+     * @custom:security Protected by ReentrancyGuard
+     */
+    function releaseTo(address recipient) external nonReentrant {
+        _release(recipient, 0);
+    }
+
+    /**
+     * @notice Release part of the releasable tokens to another address
+     * @param recipient Address receiving the tokens (cannot be zero or this contract)
+     * @param amount Amount to release (must be > 0 and <= releasableAmount())
+     * @dev The unreleased remainder stays in the lockup and can be claimed later
+     * @custom:security Protected by ReentrancyGuard
+     */
+    function releaseTo(address recipient, uint256 amount) external nonReentrant {
+        if (amount == 0) revert InvalidAmount();
+        _release(recipient, amount);
+    }
+
+    /**
+     * @notice Release tokens on behalf of the beneficiary with an EIP-712 signature
+     * @param recipient Address receiving the tokens (cannot be zero or this contract)
+     * @param amount Amount to release, 0 for everything releasable at execution time
+     * @param deadline Timestamp after which the signature can no longer be used
+     * @param signature Beneficiary signature over Release(recipient, amount, nonce, deadline)
+     * @dev Callable by anyone (e.g. a relayer paying the gas). The signed nonce must equal
+     *      nonces(beneficiary) and is consumed, so each signature works once and other signatures
+     *      for the same nonce become unusable. Only EOA beneficiaries can sign.
+     *      Signatures are checked against the current beneficiary: after a beneficiary change,
+     *      older signatures no longer verify.
+     * @custom:security Protected by ReentrancyGuard
+     */
+    function releaseWithSig(
+        address recipient,
+        uint256 amount,
+        uint256 deadline,
+        bytes calldata signature
+    ) external nonReentrant {
+        if (block.timestamp > deadline) revert ExpiredSignature(deadline);
 
-        lockupInfo.releasedAmount += releasable;
-        token.safeTransfer(msg.sender, releasable);
+        address signer = beneficiary;
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(abi.encode(RELEASE_TYPEHASH, recipient, amount, _useNonce(signer), deadline))
+        );
+        (address recovered, ECDSA.RecoverError error, ) = ECDSA.tryRecover(digest, signature);
+        if (error != ECDSA.RecoverError.NoError || recovered != signer) revert InvalidSignature();
 
-        emit TokensReleased(msg.sender, releasable);
+        _releaseFor(recipient, amount);
     }
 
     /**
@@ -278,6 +563,195 @@ contract SimpleLockup is Ownable, ReentrancyGuard {
         emit LockupRevoked(beneficiary, refund);
     }
 
+    /**
+     * @notice Add tokens to the existing lockup (e.g. a refresher grant or a correction)
+     * @param amount Amount of tokens to add (must be > 0)
+     *
+     * @dev The added tokens follow the original schedule: totalAmount grows while the start
+     *      time, cliff, vesting duration, interval and checkpoints stay the same, so the vested
+     *      amount remains the same share of the (larger) total. The part of the top-up that
+     *      matches the time already elapsed vests immediately; after the vesting end the whole
+     *      top-up is releasable at once. The vested amount never decreases, so released tokens
+     *      stay covered.
+     *      Same balance, allowance and received-amount checks as createLockup().
+     *
+     * @custom:example Refresher Grant
+     *      T=0: Lockup created (1000 tokens, 1-year vesting)
+     *      T=6 months: 500 vested, owner tops up 1000 tokens
+     *      Result: totalAmount = 2000, vested = 1000 (500 of the top-up vest at once)
+     *      T=12 months: 2000 vested
+     *
+     * @custom:security Revoked lockups cannot be topped up. Protected by ReentrancyGuard.
+     */
+    function topUp(uint256 amount) external onlyOwner nonReentrant {
+        if (lockupInfo.totalAmount == 0) revert NoLockupFound();
+        if (lockupInfo.revoked) revert AlreadyRevoked();
+        if (amount == 0) revert InvalidAmount();
+
+        _checkFunding(amount);
+
+        uint256 newTotalAmount = lockupInfo.totalAmount + amount;
+        lockupInfo.totalAmount = newTotalAmount;
+
+        _pullTokens(amount);
+
+        emit LockupToppedUp(beneficiary, amount, newTotalAmount);
+    }
+
+    /**
+     * @notice Propose a new beneficiary address (step 1 of 2)
+     * @param newBeneficiary Address that takes over the lockup once it calls acceptBeneficiary()
+     * @dev Only the current beneficiary can propose. A new proposal replaces the previous one.
+     *      Rotation is allowed after revocation, since vested tokens remain claimable.
+     */
+    function proposeBeneficiary(address newBeneficiary) external {
+        if (msg.sender != beneficiary) revert NotBeneficiary();
+        if (lockupInfo.totalAmount == 0) revert NoLockupFound();
+        _validateNewBeneficiary(newBeneficiary);
+
+        pendingBeneficiary = newBeneficiary;
+
+        emit BeneficiaryChangeProposed(msg.sender, newBeneficiary);
+    }
+
+    /**
+     * @notice Accept a proposed beneficiary change (step 2 of 2)
+     * @dev Must be called from the proposed address, proving the new wallet is usable
+     */
+    function acceptBeneficiary() external {
+        if (pendingBeneficiary == address(0) || msg.sender != pendingBeneficiary) {
+            revert NotPendingBeneficiary();
+        }
+
+        _changeBeneficiary(msg.sender);
+    }
+
+    /**
+     * @notice Allow or forbid owner-assisted recovery of this lockup
+     * @param enabled True to opt in, false to opt out (also cancels a pending recovery)
+     * @dev Only callable by the beneficiary. Recovery is off by default, so the owner can never
+     *      redirect a lockup (in particular a non-revocable one) without the beneficiary's consent.
+     */
+    function setRecoveryEnabled(bool enabled) external {
+        if (msg.sender != beneficiary) revert NotBeneficiary();
+        if (lockupInfo.totalAmount == 0) revert NoLockupFound();
+
+        recoveryEnabled = enabled;
+        if (!enabled) {
+            recoveryBeneficiary = address(0);
+            recoveryEta = 0;
+        }
+
+        emit RecoveryEnabledSet(msg.sender, enabled);
+    }
+
+    /**
+     * @notice Start owner-assisted recovery to a new beneficiary address
+     * @param newBeneficiary Address that becomes beneficiary after BENEFICIARY_RECOVERY_DELAY
+     * @dev For beneficiaries that lost access to their wallet and opted in with
+     *      setRecoveryEnabled(true) beforehand. The timelock gives a beneficiary who still holds
+     *      their key time to cancel an unwanted recovery.
+     *      Starting a new recovery restarts the timelock.
+     */
+    function initiateBeneficiaryRecovery(address newBeneficiary) external onlyOwner {
+        if (lockupInfo.totalAmount == 0) revert NoLockupFound();
+        if (!recoveryEnabled) revert RecoveryNotEnabled();
+        _validateNewBeneficiary(newBeneficiary);
+
+        recoveryBeneficiary = newBeneficiary;
+        recoveryEta = block.timestamp + BENEFICIARY_RECOVERY_DELAY;
+
+        emit BeneficiaryRecoveryInitiated(newBeneficiary, recoveryEta);
+    }
+
+    /**
+     * @notice Complete owner-assisted recovery once the timelock has passed
+     */
+    function completeBeneficiaryRecovery() external onlyOwner {
+        if (recoveryBeneficiary == address(0)) revert NoBeneficiaryChangePending();
+        if (!recoveryEnabled) revert RecoveryNotEnabled();
+        if (block.timestamp < recoveryEta) revert RecoveryNotReady(recoveryEta);
+
+        _changeBeneficiary(recoveryBeneficiary);
+    }
+
+    /**
+     * @notice Approve or revoke an operator that may release on the beneficiary's behalf
+     * @param operator Address allowed to call release() / releaseTo() (cannot be zero or the beneficiary)
+     * @param approved True to approve, false to revoke
+     * @dev Only callable by the beneficiary. Operators cannot change recipients, operators or the
+     *      beneficiary; they only decide when vested tokens are released.
+     */
+    function setOperator(address operator, bool approved) external {
+        if (msg.sender != beneficiary) revert NotBeneficiary();
+        if (operator == address(0) || operator == msg.sender) revert InvalidOperator();
+
+        _operators[msg.sender][operator] = approved;
+
+        emit OperatorSet(msg.sender, operator, approved);
+    }
+
+    /**
+     * @notice Approve or remove a recipient that operators may release to
+     * @param recipient Address operators may send tokens to (cannot be zero or this contract)
+     * @param approved True to approve, false to remove
+     * @dev Only callable by the beneficiary, who can release to any address directly
+     */
+    function setRecipientApproval(address recipient, bool approved) external {
+        if (msg.sender != beneficiary) revert NotBeneficiary();
+        if (recipient == address(0) || recipient == address(this)) revert InvalidRecipient();
+
+        _approvedRecipients[msg.sender][recipient] = approved;
+
+        emit RecipientApprovalSet(msg.sender, recipient, approved);
+    }
+
+    /**
+     * @notice Check whether an address is an operator of the current beneficiary
+     */
+    function isOperator(address operator) external view returns (bool) {
+        return _operators[beneficiary][operator];
+    }
+
+    /**
+     * @notice Check whether operators may release to an address for the current beneficiary
+     * @dev The beneficiary itself is always an allowed recipient, without approval
+     */
+    function isApprovedRecipient(address recipient) external view returns (bool) {
+        return _approvedRecipients[beneficiary][recipient];
+    }
+
+    /**
+     * @notice Cancel a pending beneficiary change
+     * @dev The beneficiary cancels both its own proposal and an owner recovery. The owner can only
+     *      withdraw its own recovery, so it can never block the beneficiary's rotation.
+     *      Reverts with NotBeneficiary for anyone else.
+     */
+    function cancelBeneficiaryChange() external {
+        if (msg.sender == beneficiary) {
+            if (pendingBeneficiary == address(0) && recoveryBeneficiary == address(0)) {
+                revert NoBeneficiaryChangePending();
+            }
+            _clearBeneficiaryChange();
+        } else if (msg.sender == owner()) {
+            if (recoveryBeneficiary == address(0)) revert NoBeneficiaryChangePending();
+            recoveryBeneficiary = address(0);
+            recoveryEta = 0;
+        } else {
+            revert NotBeneficiary();
+        }
+
+        emit BeneficiaryChangeCancelled(msg.sender);
+    }
+
+    /**
+     * @notice Get the custom vesting schedule
+     * @return Checkpoints in order (empty for linear and periodic lockups)
+     */
+    function getCheckpoints() external view returns (Checkpoint[] memory) {
+        return _checkpoints;
+    }
+
     /**
      * @notice Get the amount of tokens that can be released
      * @return Amount of releasable tokens
@@ -298,7 +772,7 @@ contract SimpleLockup is Ownable, ReentrancyGuard {
      * @notice Get vesting progress as percentage
      * @return Vesting progress (0-100)
      * @dev Returns 100 for revoked or fully vested lockups
-     *      Returns 0 before cliff period or for non-existent lockups
+     *      Returns 0 before the start time, during the cliff period or for non-existent lockups
      */
     function getVestingProgress() external view returns (uint256) {
         // No lockup exists
@@ -321,14 +795,16 @@ contract SimpleLockup is Ownable, ReentrancyGuard {
             return 100;
         }
 
-        // During vesting period: calculate percentage
-        uint256 elapsed = block.timestamp - lockupInfo.startTime;
-        return (elapsed * 100) / lockupInfo.vestingDuration;
+        // During vesting period: calculate percentage of the vested share
+        (uint256 numerator, uint256 denominator) = _vestedFraction();
+        return (numerator * 100) / denominator;
     }
 
     /**
      * @notice Get remaining vesting time in seconds
      * @return Remaining time in seconds (0 if completed, revoked, or non-existent)
+     * @dev Counts until the vesting end, so before a future start time it is the wait for the
+     *      start plus the full vesting duration
      */
     function getRemainingVestingTime() external view returns (uint256) {
         // No lockup exists
@@ -352,6 +828,161 @@ contract SimpleLockup is Ownable, ReentrancyGuard {
         return endTime - block.timestamp;
     }
 
+    /**
+     * @notice Validate parameters, record the lockup and pull the tokens
+     * @param startTime Vesting start, block.timestamp unless set through createScheduledLockup()
+     * @param releaseInterval Step length in seconds, 0 for per-second linear vesting
+     * @param cliffUnlockBps Share unlocked at the cliff end in basis points, 0 for none
+     */
+    function _createLockup(
+        address _beneficiary,
+        uint256 amount,
+        uint256 startTime,
+        uint256 cliffDuration,
+        uint256 vestingDuration,
+        uint256 releaseInterval,
+        uint256 cliffUnlockBps,
+        bool revocable
+    ) private {
+        // 1. SLOAD checks (most important check first)
+        if (beneficiary != address(0)) revert LockupAlreadyExists();
+
+        // 2. Simple parameter checks
+        if (amount == 0) revert InvalidAmount();
+        if (vestingDuration == 0) revert InvalidDuration();
+
+        // 3. Comparison operations
+        if (cliffDuration >= vestingDuration) revert InvalidDuration();
+        if (vestingDuration > MAX_VESTING_DURATION) revert InvalidDuration();
+        if (startTime > block.timestamp + MAX_START_DELAY) revert InvalidStartTime();
+        if (startTime + MAX_START_BACKDATE < block.timestamp) revert InvalidStartTime();
+        if (startTime + vestingDuration <= block.timestamp) revert InvalidStartTime();
+
+        // 4. Address validations
+        if (_beneficiary == address(0)) revert InvalidBeneficiary();
+        if (_beneficiary == address(this)) revert InvalidBeneficiary();
+
+        // 5. External calls (most expensive validations)
+        _checkFunding(amount);
+
+        beneficiary = _beneficiary;
+        lockupInfo = LockupInfo({
+            totalAmount: amount,
+            releasedAmount: 0,
+            startTime: startTime,
+            cliffDuration: cliffDuration,
+            vestingDuration: vestingDuration,
+            releaseInterval: releaseInterval,
+            cliffUnlockBps: cliffUnlockBps,
+            revocable: revocable,
+            revoked: false,
+            vestedAtRevoke: 0
+        });
+
+        _pullTokens(amount);
+
+        emit TokensLocked(_beneficiary, amount, startTime, cliffDuration, vestingDuration, revocable);
+    }
+
+    /**
+     * @notice Check that the owner holds and approved enough tokens
+     */
+    function _checkFunding(uint256 amount) private view {
+        uint256 ownerBalance = token.balanceOf(msg.sender);
+        uint256 allowance = token.allowance(msg.sender, address(this));
+
+        if (ownerBalance < amount) revert InsufficientBalance();
+        if (allowance < amount) revert InsufficientAllowance();
+    }
+
+    /**
+     * @notice Pull tokens from the owner and verify the amount actually received
+     * @dev Compares the balance before and after the transfer (handles deflationary tokens)
+     */
+    function _pullTokens(uint256 amount) private {
+        uint256 balanceBefore = token.balanceOf(address(this));
+
+        token.safeTransferFrom(msg.sender, address(this), amount);
+
+        uint256 actualReceived = token.balanceOf(address(this)) - balanceBefore;
+        if (actualReceived < amount) {
+            revert InsufficientTokensReceived(actualReceived, amount);
+        }
+    }
+
+    /**
+     * @notice Release tokens when called by the beneficiary or one of its operators
+     * @param recipient Address receiving the tokens
+     * @param amount Amount to release, 0 for everything releasable
+     */
+    function _release(address recipient, uint256 amount) private {
+        address currentBeneficiary = beneficiary;
+        if (msg.sender != currentBeneficiary) {
+            if (!_operators[currentBeneficiary][msg.sender]) revert NotBeneficiary();
+            if (recipient != currentBeneficiary && !_approvedRecipients[currentBeneficiary][recipient]) {
+                revert RecipientNotApproved(recipient);
+            }
+        }
+        _releaseFor(recipient, amount);
+    }
+
+    /**
+     * @notice Transfer released tokens from the lockup
+     * @dev Caller must have authorized the beneficiary (msg.sender or signature)
+     * @param recipient Address receiving the tokens
+     * @param amount Amount to release, 0 for everything releasable
+     */
+    function _releaseFor(address recipient, uint256 amount) private {
+        if (lockupInfo.totalAmount == 0) revert NoLockupFound();
+        if (recipient == address(0) || recipient == address(this)) revert InvalidRecipient();
+
+        uint256 releasable = _releasableAmount();
+        if (releasable == 0) revert NoTokensAvailable();
+
+        if (amount == 0) {
+            amount = releasable;
+        } else if (amount > releasable) {
+            revert AmountExceedsReleasable(amount, releasable);
+        }
+
+        lockupInfo.releasedAmount += amount;
+        token.safeTransfer(recipient, amount);
+
+        emit TokensReleased(beneficiary, recipient, amount);
+    }
+
+    /**
+     * @notice Validate an address proposed as new beneficiary
+     */
+    function _validateNewBeneficiary(address newBeneficiary) private view {
+        if (newBeneficiary == address(0)) revert InvalidBeneficiary();
+        if (newBeneficiary == address(this)) revert InvalidBeneficiary();
+        if (newBeneficiary == beneficiary) revert InvalidBeneficiary();
+    }
+
+    /**
+     * @notice Move the lockup to a new beneficiary and clear any pending change
+     */
+    function _changeBeneficiary(address newBeneficiary) private {
+        address previousBeneficiary = beneficiary;
+
+        beneficiary = newBeneficiary;
+        // The new beneficiary decides again whether to allow recovery
+        recoveryEnabled = false;
+        _clearBeneficiaryChange();
+
+        emit BeneficiaryChanged(previousBeneficiary, newBeneficiary);
+    }
+
+    /**
+     * @notice Clear pending proposal and recovery state
+     */
+    function _clearBeneficiaryChange() private {
+        pendingBeneficiary = address(0);
+        recoveryBeneficiary = address(0);
+        recoveryEta = 0;
+    }
+
     /**
      * @notice Internal function to calculate releasable amount
      * @dev At the end of vesting period, releases all remaining tokens to eliminate rounding dust
@@ -370,6 +1001,8 @@ contract SimpleLockup is Ownable, ReentrancyGuard {
     /**
      * @notice Internal function to calculate vested amount
      * @dev Uses linear vesting formula: (totalAmount × timeFromStart) / vestingDuration
+     *      For periodic vesting, timeFromStart is rounded down to whole release intervals.
+     *      Custom schedules interpolate between checkpoints (see _vestedFraction()).
      *      Uses Math.mulDiv to prevent integer overflow for large amounts.
      *      Integer division rounds down. Any rounding dust is released at vesting end.
      *      For revoked lockups, returns the explicitly stored vestedAtRevoke amount.
@@ -411,11 +1044,59 @@ contract SimpleLockup is Ownable, ReentrancyGuard {
             return lockupInfo.totalAmount;
         }
 
-        uint256 timeFromStart = block.timestamp - lockupInfo.startTime;
-
         // Use Math.mulDiv to prevent overflow for large amounts
-        uint256 vested = Math.mulDiv(lockupInfo.totalAmount, timeFromStart, lockupInfo.vestingDuration);
+        (uint256 numerator, uint256 denominator) = _vestedFraction();
+        uint256 vested = Math.mulDiv(lockupInfo.totalAmount, numerator, denominator);
 
         return vested;
     }
+
+    /**
+     * @notice Internal function to calculate the vested share of totalAmount
+     * @return numerator Vested share is numerator / denominator
+     * @return denominator Never 0
+     * @dev Only called between the cliff end and the vesting end.
+     *      - Linear: timeFromStart / vestingDuration
+     *      - Periodic: timeFromStart rounded down to whole release intervals / vestingDuration
+     *      - Cliff unlock: cliffUnlockBps plus the rest linear from the cliff end
+     *      - Custom: interpolated between the last checkpoint reached and the next one
+     */
+    function _vestedFraction() private view returns (uint256 numerator, uint256 denominator) {
+        uint256 timeFromStart = block.timestamp - lockupInfo.startTime;
+
+        uint256 count = _checkpoints.length;
+        if (count > 0) {
+            // Last checkpoint reached; the cliff check guarantees the first one is
+            uint256 index = 0;
+            while (index + 1 < count && _checkpoints[index + 1].offset <= timeFromStart) {
+                index++;
+            }
+
+            Checkpoint memory reached = _checkpoints[index];
+            if (index + 1 == count) {
+                return (reached.cumulativeBps, BASIS_POINTS);
+            }
+
+            // Offsets strictly increase here, since the next checkpoint was not reached yet
+            Checkpoint memory next = _checkpoints[index + 1];
+            uint256 span = next.offset - reached.offset;
+            uint256 growth = (next.cumulativeBps - reached.cumulativeBps) * (timeFromStart - reached.offset);
+            return (reached.cumulativeBps * span + growth, BASIS_POINTS * span);
+        }
+
+        uint256 cliffUnlockBps = lockupInfo.cliffUnlockBps;
+        if (cliffUnlockBps > 0) {
+            // Cliff share plus the rest interpolated from the cliff end to the vesting end
+            uint256 cliffDuration = lockupInfo.cliffDuration;
+            uint256 span = lockupInfo.vestingDuration - cliffDuration;
+            uint256 growth = (BASIS_POINTS - cliffUnlockBps) * (timeFromStart - cliffDuration);
+            return (cliffUnlockBps * span + growth, BASIS_POINTS * span);
+        }
+
+        if (lockupInfo.releaseInterval > 0) {
+            timeFromStart -= timeFromStart % lockupInfo.releaseInterval;
+        }
+
+        return (timeFromStart, lockupInfo.vestingDuration);
+    }
 }
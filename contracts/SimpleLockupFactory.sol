@@ -0,0 +1,195 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/proxy/Clones.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./SimpleLockup.sol";
+
+/**
+ * @title SimpleLockupFactory
+ * @notice Deploys, funds and registers SimpleLockup instances in a single transaction
+ * @dev Each lockup is an EIP-1167 minimal proxy clone of a SimpleLockup implementation.
+ *
+ * Key Design Decisions:
+ * - One factory per token: Clones share the implementation's immutable token address
+ * - Permissionless: Any caller can create lockups and becomes the owner of the deployed clone
+ * - Registry: Lockups are indexed by beneficiary and by owner at creation time
+ *   * Ownership transferred later via Ownable is not reflected in the owner index
+ * - No custody: The factory forwards tokens to the clone within the same transaction
+ *
+ * @custom:security-considerations
+ * - Clone initialization happens in the deploying transaction and cannot be front-run
+ * - Lockup parameter validation is delegated to SimpleLockup.createLockup()
+ * - ReentrancyGuard: Applied for defense-in-depth around token transfers
+ */
+contract SimpleLockupFactory is ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    address public immutable implementation;
+    IERC20 public immutable token;
+
+    address[] private _lockups;
+    mapping(address => address[]) private _lockupsByBeneficiary;
+    mapping(address => address[]) private _lockupsByOwner;
+    mapping(address => bool) public isLockup;
+
+    event LockupDeployed(address indexed beneficiary, address indexed lockup, address indexed token);
+
+    error InvalidImplementation();
+    error InsufficientTokensReceived(uint256 received, uint256 expected);
+
+    /**
+     * @notice Constructor
+     * @param _implementation Deployed SimpleLockup used as the clone implementation
+     * @dev The factory token is read from the implementation, so all clones lock the same token.
+     *      The implementation itself is initialized by its constructor and cannot be re-initialized.
+     */
+    constructor(address _implementation) {
+        if (_implementation == address(0)) revert InvalidImplementation();
+
+        // Verify contract code exists at the address
+        uint256 size;
+        assembly {
+            size := extcodesize(_implementation)
+        }
+        if (size == 0) revert InvalidImplementation();
+
+        implementation = _implementation;
+        token = SimpleLockup(_implementation).token();
+    }
+
+    /**
+     * @notice Deploy a new lockup clone, fund it and create the lockup
+     * @param beneficiary Address that will receive the tokens
+     * @param amount Total amount of tokens to lock (pulled from caller, requires prior approval)
+     * @param cliffDuration Duration of cliff period in seconds
+     * @param vestingDuration Total vesting duration in seconds
+     * @param revocable Whether the lockup can be revoked by owner
+     * @return lockup Address of the deployed SimpleLockup clone
+     *
+     * @dev Flow:
+     *      1. Clone the implementation and initialize it with the factory as temporary owner
+     *      2. Pull tokens from caller and approve the clone
+     *      3. Call createLockup() on the clone (all SimpleLockup validations apply)
+     *      4. Transfer clone ownership to the caller
+     *      5. Register the clone for beneficiary and owner lookups
+     */
+    function createLockup(
+        address beneficiary,
+        uint256 amount,
+        uint256 cliffDuration,
+        uint256 vestingDuration,
+        bool revocable
+    ) external nonReentrant returns (address lockup) {
+        return _deployLockup(beneficiary, amount, cliffDuration, vestingDuration, 0, revocable);
+    }
+
+    /**
+     * @notice Deploy a new lockup clone that vests in discrete steps
+     * @param beneficiary Address that will receive the tokens
+     * @param amount Total amount of tokens to lock (pulled from caller, requires prior approval)
+     * @param cliffDuration Duration of cliff period in seconds
+     * @param vestingDuration Total vesting duration in seconds
+     * @param releaseInterval Step length in seconds (see SimpleLockup.createPeriodicLockup)
+     * @param revocable Whether the lockup can be revoked by owner
+     * @return lockup Address of the deployed SimpleLockup clone
+     * @dev Same flow as createLockup(), calling createPeriodicLockup() on the clone
+     */
+    function createPeriodicLockup(
+        address beneficiary,
+        uint256 amount,
+        uint256 cliffDuration,
+        uint256 vestingDuration,
+        uint256 releaseInterval,
+        bool revocable
+    ) external nonReentrant returns (address lockup) {
+        if (releaseInterval == 0) revert SimpleLockup.InvalidDuration();
+        return _deployLockup(beneficiary, amount, cliffDuration, vestingDuration, releaseInterval, revocable);
+    }
+
+    /**
+     * @notice Get all lockups deployed for a beneficiary
+     * @param beneficiary Beneficiary address used at creation time
+     * @return Array of lockup addresses in creation order
+     * @dev Not updated when a lockup's beneficiary is rotated (see SimpleLockup.BeneficiaryChanged)
+     */
+    function getLockupsByBeneficiary(address beneficiary) external view returns (address[] memory) {
+        return _lockupsByBeneficiary[beneficiary];
+    }
+
+    /**
+     * @notice Get all lockups created by an owner
+     * @param owner Caller of createLockup() at creation time
+     * @return Array of lockup addresses in creation order
+     */
+    function getLockupsByOwner(address owner) external view returns (address[] memory) {
+        return _lockupsByOwner[owner];
+    }
+
+    /**
+     * @notice Get the number of lockups deployed by this factory
+     * @return Total number of lockups
+     */
+    function lockupCount() external view returns (uint256) {
+        return _lockups.length;
+    }
+
+    /**
+     * @notice Get a lockup by its deployment index
+     * @param index Zero-based index in creation order
+     * @return Lockup address
+     */
+    function lockupAt(uint256 index) external view returns (address) {
+        return _lockups[index];
+    }
+
+    /**
+     * @notice Clone, fund and register a lockup
+     * @param releaseInterval Step length in seconds, 0 for per-second linear vesting
+     */
+    function _deployLockup(
+        address beneficiary,
+        uint256 amount,
+        uint256 cliffDuration,
+        uint256 vestingDuration,
+        uint256 releaseInterval,
+        bool revocable
+    ) private returns (address lockup) {
+        lockup = Clones.clone(implementation);
+        SimpleLockup instance = SimpleLockup(lockup);
+        instance.initialize(address(this));
+
+        // Pull tokens from caller and validate actual received amount (handles deflationary tokens)
+        uint256 balanceBefore = token.balanceOf(address(this));
+        token.safeTransferFrom(msg.sender, address(this), amount);
+        uint256 actualReceived = token.balanceOf(address(this)) - balanceBefore;
+
+        if (actualReceived < amount) {
+            revert InsufficientTokensReceived(actualReceived, amount);
+        }
+
+        token.forceApprove(lockup, amount);
+        if (releaseInterval == 0) {
+            instance.createLockup(beneficiary, amount, cliffDuration, vestingDuration, revocable);
+        } else {
+            instance.createPeriodicLockup(
+                beneficiary,
+                amount,
+                cliffDuration,
+                vestingDuration,
+                releaseInterval,
+                revocable
+            );
+        }
+        instance.transferOwnership(msg.sender);
+
+        _lockups.push(lockup);
+        _lockupsByBeneficiary[beneficiary].push(lockup);
+        _lockupsByOwner[msg.sender].push(lockup);
+        isLockup[lockup] = true;
+
+        emit LockupDeployed(beneficiary, lockup, address(token));
+    }
+}
@@ -2,6 +2,7 @@ import { HardhatUserConfig } from 'hardhat/config';
 import '@nomicfoundation/hardhat-toolbox';
 import '@nomicfoundation/hardhat-verify';
 import 'dotenv/config';
+import './tasks/lockup';
 
 const config: HardhatUserConfig = {
   solidity: {
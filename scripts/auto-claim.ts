@@ -0,0 +1,83 @@
+import { ethers } from 'hardhat';
+import { parseClaimTargets, planClaim, sendClaim } from './lib/claim';
+import { formatTokenAmount, loadLockupToken } from './lib/token';
+
+/**
+ * Release vested tokens as an operator across a list of lockups (for cron or a scheduler)
+ * Usage: AUTO_CLAIM_LOCKUPS=0x...,0x...:0xRecipient npx hardhat run scripts/auto-claim.ts --network amoy
+ *
+ * The signer must be an operator approved by each beneficiary (see operator-helper.ts) or the
+ * beneficiary itself. Tokens go to the beneficiary, or to the recipient after the colon, which the
+ * beneficiary must have approved. Lockups without releasable tokens are skipped without a
+ * transaction, so the script can run as often as needed.
+ *
+ * Optional:
+ *   DRY_RUN - "true" to print what would be released without sending
+ */
+
+async function main() {
+  const input = process.env.AUTO_CLAIM_LOCKUPS;
+
+  if (!input) {
+    throw new Error('AUTO_CLAIM_LOCKUPS environment variable is required');
+  }
+
+  const targets = parseClaimTargets(input);
+  const dryRun = process.env.DRY_RUN === 'true';
+
+  const [operator] = await ethers.getSigners();
+  console.log('=== Auto-Claim ===');
+  console.log('Operator Address:', operator.address);
+  console.log('Lockups:', targets.length);
+  if (dryRun) {
+    console.log('Dry run: nothing is sent');
+  }
+  console.log('');
+
+  let claimed = 0;
+  let skipped = 0;
+  let failed = 0;
+  for (const target of targets) {
+    console.log(`🔍 ${target.lockup}`);
+    try {
+      const simpleLockup = await ethers.getContractAt('SimpleLockup', target.lockup, operator);
+      const tokenInfo = await loadLockupToken(simpleLockup, ethers.provider);
+      const plan = await planClaim(simpleLockup, operator.address, target.recipient);
+
+      if (plan.skipReason) {
+        console.log('   ⏭️  Skipped:', plan.skipReason);
+        skipped++;
+        continue;
+      }
+
+      console.log('   Beneficiary:', plan.beneficiary);
+      console.log('   Recipient:', plan.recipient);
+      console.log('   Releasable:', formatTokenAmount(plan.releasable, tokenInfo));
+      if (dryRun) {
+        continue;
+      }
+
+      const tx = await sendClaim(simpleLockup, plan);
+      console.log('   Transaction:', tx.hash);
+      const receipt = await tx.wait();
+      console.log('   ✅ Released, gas used:', receipt?.gasUsed.toString());
+      claimed++;
+    } catch (error) {
+      console.log('   ❌ Failed:', error instanceof Error ? error.message : error);
+      failed++;
+    }
+  }
+
+  console.log('');
+  console.log(`Claimed: ${claimed}, skipped: ${skipped}, failed: ${failed}`);
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,238 @@
+import { ethers } from 'hardhat';
+import {
+  GrantResult,
+  assertResultsMatchGrants,
+  loadGrantSheet,
+  loadResults,
+  resolvePendingResult,
+  saveResults,
+  validateGrant,
+} from './lib/grants';
+import { formatTokenAmount, loadLockupToken, parseTokenAmount } from './lib/token';
+
+/**
+ * Non-interactive batch lockup creation from a CSV/JSON grant sheet
+ * Deploys and funds one lockup per row through SimpleLockupFactory.
+ *
+ * The run is resumable: progress is written to RESULTS_FILE after every row, and
+ * rerunning the command skips rows that are already created. A row whose transaction
+ * was sent but not confirmed is reconciled from its transaction hash and nonce: it is only
+ * sent again if the transaction reverted, or with the same nonce if that nonce is still unused.
+ *
+ * Usage:
+ *   FACTORY_ADDRESS=0x... GRANTS_FILE=grants.csv npx hardhat run scripts/batch-create-lockups.ts
+ *
+ * Optional:
+ *   RESULTS_FILE    - Output file (default: <GRANTS_FILE>.results.json)
+ *   PENDING_TIMEOUT - Seconds to wait for a transaction of a previous run that is still in the
+ *                     mempool before leaving its row pending (default: 120)
+ *
+ * Row numbers are line numbers in a CSV sheet (header = line 1) and positions in a JSON array.
+ */
+
+async function main() {
+  const factoryAddress = process.env.FACTORY_ADDRESS;
+  const grantsFile = process.env.GRANTS_FILE;
+
+  if (!factoryAddress) {
+    throw new Error('FACTORY_ADDRESS environment variable is required');
+  }
+  if (!grantsFile) {
+    throw new Error('GRANTS_FILE environment variable is required');
+  }
+
+  const resultsPath = process.env.RESULTS_FILE || `${grantsFile}.results.json`;
+  const pendingTimeout = parseInt(process.env.PENDING_TIMEOUT || '120');
+
+  console.log('=== Batch Lockup Creation ===');
+  console.log('Factory Contract:', factoryAddress);
+  console.log('Grant Sheet:', grantsFile);
+  console.log('Results File:', resultsPath);
+  console.log('');
+
+  const [deployer] = await ethers.getSigners();
+  console.log('Your Address:', deployer.address);
+
+  const factory = await ethers.getContractAt('SimpleLockupFactory', factoryAddress);
+  const implementation = await ethers.getContractAt('SimpleLockup', await factory.implementation());
+  const tokenAddress = await factory.token();
+  const token = await ethers.getContractAt('IERC20', tokenAddress);
+  const tokenInfo = await loadLockupToken(factory, ethers.provider);
+  const maxVestingDuration = Number(await implementation.MAX_VESTING_DURATION());
+
+  // 1. Load and validate every row before sending any transaction
+  const grants = loadGrantSheet(grantsFile, (value) => parseTokenAmount(value, tokenInfo));
+  console.log('Grants in Sheet:', grants.length);
+
+  const validationErrors: string[] = [];
+  for (const grant of grants) {
+    const errors = validateGrant(grant, {
+      maxVestingDuration,
+      forbiddenBeneficiaries: [factoryAddress],
+    });
+    for (const error of errors) {
+      validationErrors.push(`Row ${grant.row} (${grant.beneficiary}): ${error}`);
+    }
+  }
+
+  if (validationErrors.length > 0) {
+    console.log('');
+    console.log('❌ Grant sheet validation failed:');
+    validationErrors.forEach((error) => console.log('  -', error));
+    throw new Error(`${validationErrors.length} validation error(s), no lockups were created`);
+  }
+  console.log('✅ All rows passed validation');
+
+  // 2. Reconcile with previous runs
+  const results = loadResults(resultsPath, factoryAddress, grantsFile);
+  const resultByRow = new Map(results.results.map((result) => [result.row, result]));
+
+  assertResultsMatchGrants(grants, results);
+
+  // Rows to send again with the nonce of their unconfirmed transaction
+  const retryNonces = new Map<number, number>();
+  for (const result of results.results.filter((entry) => entry.status === 'pending')) {
+    console.log(`\n🔄 Row ${result.row}: checking pending transaction ${result.txHash}...`);
+    const knownLockups = new Set(
+      results.results.flatMap((entry) => (entry.lockup ? [entry.lockup.toLowerCase()] : []))
+    );
+    const resolution = await resolvePendingResult(ethers.provider, factory, result, knownLockups, {
+      timeoutMs: pendingTimeout * 1000,
+    });
+
+    if (resolution.status === 'created') {
+      result.status = 'created';
+      result.lockup = resolution.lockup;
+      result.blockNumber = resolution.blockNumber;
+      console.log(`✅ Row ${result.row}: confirmed lockup ${result.lockup}`);
+    } else if (resolution.status === 'failed') {
+      resultByRow.delete(result.row);
+      results.results = results.results.filter((entry) => entry !== result);
+      console.log(`⚠️  Row ${result.row}: transaction failed, will retry`);
+    } else if (resolution.status === 'unsent') {
+      retryNonces.set(result.row, resolution.nonce);
+      console.log(
+        `⚠️  Row ${result.row}: transaction dropped, will resend with nonce ${resolution.nonce}`
+      );
+    } else {
+      console.log(
+        `⚠️  Row ${result.row}: ${resolution.reason}; ` +
+          'check it and rerun, or remove the row from the results file to retry'
+      );
+    }
+    saveResults(resultsPath, results);
+  }
+
+  // Resent rows go first so no other row takes their nonce
+  const remaining = grants
+    .filter((grant) => !resultByRow.has(grant.row) || retryNonces.has(grant.row))
+    .sort((a, b) => Number(retryNonces.has(b.row)) - Number(retryNonces.has(a.row)));
+  const totalRequired = remaining.reduce((sum, grant) => sum + grant.amount, 0n);
+
+  console.log('');
+  console.log('📊 Batch Summary:');
+  console.log('─'.repeat(50));
+  console.log(
+    'Already Created:',
+    results.results.filter((result) => result.status === 'created').length
+  );
+  console.log('Remaining:', remaining.length);
+  console.log('Total Required:', formatTokenAmount(totalRequired, tokenInfo));
+  console.log('─'.repeat(50));
+
+  if (remaining.length === 0) {
+    console.log('✅ Nothing to do, all rows are already created');
+    return;
+  }
+
+  // 3. Check balance and approve the total once
+  const tokenBalance = await token.balanceOf(deployer.address);
+  if (tokenBalance < totalRequired) {
+    throw new Error(
+      `Insufficient balance. You have ${formatTokenAmount(tokenBalance, tokenInfo)}, ` +
+        `but need ${formatTokenAmount(totalRequired, tokenInfo)}`
+    );
+  }
+
+  const currentAllowance = await token.allowance(deployer.address, factoryAddress);
+  if (currentAllowance < totalRequired) {
+    console.log('');
+    console.log('⚠️  Insufficient allowance. Approving total required amount...');
+    // The approval takes the nonce of a dropped row, so that row can no longer be mined twice
+    const retryNonce = retryNonces.size > 0 ? Math.min(...retryNonces.values()) : undefined;
+    const approveTx = await token.approve(
+      factoryAddress,
+      totalRequired,
+      retryNonce === undefined ? {} : { nonce: retryNonce }
+    );
+    retryNonces.clear();
+    console.log('Approval transaction:', approveTx.hash);
+    await approveTx.wait();
+    console.log('✅ Tokens approved');
+  }
+
+  // 4. Create lockups one row at a time, persisting progress after each step
+  for (const grant of remaining) {
+    console.log('');
+    console.log(
+      `🔨 Row ${grant.row}: ${grant.beneficiary} (${grant.amountText} ${tokenInfo.symbol})`
+    );
+
+    const nonce = retryNonces.get(grant.row);
+    const overrides = nonce === undefined ? {} : { nonce };
+    const tx =
+      grant.releaseInterval > 0
+        ? await factory.createPeriodicLockup(
+            grant.beneficiary,
+            grant.amount,
+            grant.cliffDuration,
+            grant.vestingDuration,
+            grant.releaseInterval,
+            grant.revocable,
+            overrides
+          )
+        : await factory.createLockup(
+            grant.beneficiary,
+            grant.amount,
+            grant.cliffDuration,
+            grant.vestingDuration,
+            grant.revocable,
+            overrides
+          );
+
+    const result: GrantResult = {
+      row: grant.row,
+      beneficiary: grant.beneficiary,
+      amount: grant.amount.toString(),
+      status: 'pending',
+      txHash: tx.hash,
+      from: tx.from,
+      nonce: tx.nonce,
+    };
+    results.results = results.results.filter((entry) => entry.row !== grant.row);
+    results.results.push(result);
+    saveResults(resultsPath, results);
+    console.log('   Transaction:', tx.hash);
+
+    const receipt = await tx.wait();
+    const deployedEvent = receipt?.logs
+      .map((log) => factory.interface.parseLog(log))
+      .find((parsed) => parsed?.name === 'LockupDeployed');
+
+    result.status = 'created';
+    result.lockup = deployedEvent?.args.lockup;
+    result.blockNumber = receipt?.blockNumber;
+    saveResults(resultsPath, results);
+    console.log('   ✅ Lockup:', result.lockup);
+  }
+
+  console.log('');
+  console.log(`✅ Batch completed: ${grants.length} lockup(s) recorded in ${resultsPath}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
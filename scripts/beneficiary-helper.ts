@@ -0,0 +1,215 @@
+import { ethers } from 'hardhat';
+import * as readline from 'readline';
+import type { ContractTransactionResponse } from 'ethers';
+
+/**
+ * Interactive helper for changing the lockup beneficiary
+ * Usage: LOCKUP_ADDRESS=0x... npx hardhat run scripts/beneficiary-helper.ts
+ *
+ * The available actions depend on the signer:
+ * - Beneficiary: propose a new address, allow or forbid owner recovery, cancel a pending
+ *   proposal or owner recovery
+ * - Proposed address: accept the proposal
+ * - Owner: start recovery (timelocked, only if the beneficiary allowed it), complete it after
+ *   the delay, or cancel it (never the beneficiary's own proposal)
+ *
+ * Without the beneficiary's opt-in, a lost beneficiary key cannot be recovered.
+ */
+
+const rl = readline.createInterface({
+  input: process.stdin,
+  output: process.stdout,
+});
+
+function question(prompt: string): Promise<string> {
+  return new Promise((resolve) => {
+    rl.question(prompt, resolve);
+  });
+}
+
+interface Action {
+  label: string;
+  run: () => Promise<ContractTransactionResponse | null>;
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+async function askNewBeneficiary(current: string): Promise<string | null> {
+  const newBeneficiary = (await question('New beneficiary address: ')).trim();
+
+  if (!ethers.isAddress(newBeneficiary)) {
+    console.log('❌ Invalid address');
+    return null;
+  }
+  if (newBeneficiary === ethers.ZeroAddress || sameAddress(newBeneficiary, current)) {
+    console.log('❌ New beneficiary must differ from the current one and the zero address');
+    return null;
+  }
+  return newBeneficiary;
+}
+
+async function main() {
+  const lockupAddress = process.env.LOCKUP_ADDRESS;
+
+  if (!lockupAddress) {
+    throw new Error('LOCKUP_ADDRESS environment variable is required');
+  }
+
+  console.log('=== Beneficiary Change ===');
+  console.log('SimpleLockup Address:', lockupAddress);
+  console.log('');
+
+  const [signer] = await ethers.getSigners();
+  console.log('Your Address:', signer.address);
+  console.log('');
+
+  const simpleLockup = await ethers.getContractAt('SimpleLockup', lockupAddress);
+
+  const [
+    lockup,
+    beneficiary,
+    owner,
+    pendingBeneficiary,
+    recoveryBeneficiary,
+    recoveryEta,
+    recoveryEnabled,
+    recoveryDelay,
+  ] = await Promise.all([
+    simpleLockup.lockupInfo(),
+    simpleLockup.beneficiary(),
+    simpleLockup.owner(),
+    simpleLockup.pendingBeneficiary(),
+    simpleLockup.recoveryBeneficiary(),
+    simpleLockup.recoveryEta(),
+    simpleLockup.recoveryEnabled(),
+    simpleLockup.BENEFICIARY_RECOVERY_DELAY(),
+  ]);
+
+  if (lockup.totalAmount === 0n) {
+    console.log('❌ No lockup found');
+    rl.close();
+    return;
+  }
+
+  const latestBlock = await ethers.provider.getBlock('latest');
+  const currentTime = BigInt(latestBlock!.timestamp);
+  const hasProposal = pendingBeneficiary !== ethers.ZeroAddress;
+  const hasRecovery = recoveryBeneficiary !== ethers.ZeroAddress;
+
+  console.log('📊 Beneficiary Status:');
+  console.log('─'.repeat(50));
+  console.log('Current Beneficiary:', beneficiary);
+  console.log('Owner:', owner);
+  console.log('Proposed Beneficiary:', hasProposal ? pendingBeneficiary : 'none');
+  console.log('Owner Recovery Allowed:', recoveryEnabled ? 'Yes' : 'No');
+  if (hasRecovery) {
+    console.log('Recovery Beneficiary:', recoveryBeneficiary);
+    console.log('Recovery Executable At:', new Date(Number(recoveryEta) * 1000).toISOString());
+  } else {
+    console.log('Owner Recovery:', 'none');
+  }
+  console.log('─'.repeat(50));
+  if (!recoveryEnabled) {
+    console.log('⚠️  Owner recovery is off: if the beneficiary key is lost, nobody can move this');
+    console.log('   lockup to a new address. Only the beneficiary can turn it on, while it still');
+    console.log('   holds the key.');
+  }
+  console.log('');
+
+  const isBeneficiary = sameAddress(signer.address, beneficiary);
+  const isOwner = sameAddress(signer.address, owner);
+  const actions: Action[] = [];
+
+  if (isBeneficiary) {
+    actions.push({
+      label: 'Propose a new beneficiary address',
+      run: async () => {
+        const newBeneficiary = await askNewBeneficiary(beneficiary);
+        return newBeneficiary ? simpleLockup.proposeBeneficiary(newBeneficiary) : null;
+      },
+    });
+    actions.push({
+      label: recoveryEnabled
+        ? 'Forbid owner recovery (also cancels a pending recovery)'
+        : 'Allow owner recovery if this wallet is lost',
+      run: () => simpleLockup.setRecoveryEnabled(!recoveryEnabled),
+    });
+  }
+  if (hasProposal && sameAddress(signer.address, pendingBeneficiary)) {
+    actions.push({
+      label: 'Accept the proposed beneficiary change',
+      run: () => simpleLockup.acceptBeneficiary(),
+    });
+  }
+  if (isOwner && recoveryEnabled) {
+    actions.push({
+      label: `Start owner recovery (executable after ${Number(recoveryDelay) / 86400} days)`,
+      run: async () => {
+        const newBeneficiary = await askNewBeneficiary(beneficiary);
+        return newBeneficiary ? simpleLockup.initiateBeneficiaryRecovery(newBeneficiary) : null;
+      },
+    });
+    if (hasRecovery && currentTime >= recoveryEta) {
+      actions.push({
+        label: 'Complete owner recovery',
+        run: () => simpleLockup.completeBeneficiaryRecovery(),
+      });
+    }
+  }
+  if (isBeneficiary && (hasProposal || hasRecovery)) {
+    actions.push({
+      label: 'Cancel the pending proposal and owner recovery',
+      run: () => simpleLockup.cancelBeneficiaryChange(),
+    });
+  } else if (isOwner && hasRecovery) {
+    actions.push({
+      label: 'Cancel the pending owner recovery',
+      run: () => simpleLockup.cancelBeneficiaryChange(),
+    });
+  }
+
+  if (actions.length === 0) {
+    console.log('❌ No beneficiary change actions are available for your address');
+    rl.close();
+    return;
+  }
+
+  actions.forEach((action, index) => console.log(`${index + 1}. ${action.label}`));
+  console.log('');
+
+  const choice = parseInt(await question('Select an action: '));
+  const action = actions[choice - 1];
+
+  if (!action) {
+    console.log('❌ Invalid selection');
+    rl.close();
+    return;
+  }
+
+  const tx = await action.run();
+  if (!tx) {
+    rl.close();
+    return;
+  }
+
+  console.log('');
+  console.log('Transaction:', tx.hash);
+  console.log('Waiting for confirmation...');
+
+  const receipt = await tx.wait();
+  console.log('✅ Done!');
+  console.log('Gas used:', receipt?.gasUsed.toString());
+  console.log('Beneficiary:', await simpleLockup.beneficiary());
+
+  rl.close();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    rl.close();
+    process.exit(1);
+  });
@@ -0,0 +1,45 @@
+import { ethers } from 'hardhat';
+import { broadcastTransactionFile, readTransactionFile } from './lib/offline';
+
+/**
+ * Broadcast a signed transaction file and wait for the receipts (step 3 of offline signing)
+ * Usage: TX_FILE=tx-....signed.json npx hardhat run scripts/broadcast-transaction.ts --network amoy
+ *
+ * Transactions are sent in nonce order; ones already mined are skipped, so an interrupted
+ * broadcast can be run again with the same file.
+ */
+
+async function main() {
+  const txFile = process.env.TX_FILE;
+
+  if (!txFile) {
+    throw new Error('TX_FILE environment variable is required');
+  }
+
+  console.log('=== Broadcast Signed Transactions ===');
+  console.log('Transaction File:', txFile);
+
+  const file = readTransactionFile(txFile);
+  console.log('Description:', file.description);
+  console.log('From:', file.from);
+  console.log('Chain ID:', file.chainId);
+  console.log('');
+
+  const receipts = await broadcastTransactionFile(ethers.provider, file, (prepared, hash) => {
+    console.log(`⏳ ${prepared.label}:`, hash);
+  });
+
+  console.log('');
+  receipts.forEach((receipt, index) => {
+    console.log(`✅ ${file.transactions[index].label}`);
+    console.log('   Block:', receipt.blockNumber);
+    console.log('   Gas used:', receipt.gasUsed.toString());
+  });
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
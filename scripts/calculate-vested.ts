@@ -1,140 +1,60 @@
 import { ethers } from 'hardhat';
+import { printJson } from './lib/cli';
+import {
+  buildTimeline,
+  getLockupStatus,
+  loadLockup,
+  parseTimelineOptions,
+  printTimeline,
+} from './lib/lockup';
+import { buildLockupReport } from './lib/report';
 
 /**
  * Calculate vested amounts at different time points
  * Usage: LOCKUP_ADDRESS=0x... npx hardhat run scripts/calculate-vested.ts
+ * JSON output: OUTPUT_FORMAT=json LOCKUP_ADDRESS=0x... npx hardhat run scripts/calculate-vested.ts
+ * Equivalent task: npx hardhat lockup timeline --lockup 0x... [--period quarter] [--tz ...] [--json]
+ *
+ * Optional breakdown settings:
+ *   TIMELINE_PERIOD - day, week, month, quarter or year (calendar periods); default month
+ *   TIMELINE_TZ     - IANA timezone for period boundaries, e.g. Europe/Berlin; default UTC
+ *   TIMELINE_FROM   - Range start: date ("2025-01-01"), date-time or unix seconds; default start
+ *   TIMELINE_TO     - Range end (inclusive, a date covers the whole day); default vesting end
  */
 async function main() {
   const lockupAddress = process.env.LOCKUP_ADDRESS;
+  const jsonOutput = process.env.OUTPUT_FORMAT === 'json';
+  const timelineOptions = parseTimelineOptions({
+    period: process.env.TIMELINE_PERIOD,
+    timeZone: process.env.TIMELINE_TZ,
+    from: process.env.TIMELINE_FROM,
+    to: process.env.TIMELINE_TO,
+  });
 
   if (!lockupAddress) {
     throw new Error('LOCKUP_ADDRESS environment variable is required');
   }
 
-  const simpleLockup = await ethers.getContractAt('SimpleLockup', lockupAddress);
+  const { lockup, tokenInfo } = await loadLockup(ethers, lockupAddress);
+  const status = await getLockupStatus(lockup);
+  const timeline = status.exists ? buildTimeline(status, timelineOptions) : undefined;
 
-  // Get beneficiary from contract
-  const beneficiaryAddress = await simpleLockup.beneficiary();
+  if (jsonOutput) {
+    printJson(buildLockupReport(lockupAddress, tokenInfo, status, timeline));
+    return;
+  }
 
   console.log('=== Vesting Timeline Calculator ===');
   console.log('Lockup Contract:', lockupAddress);
-  console.log('Beneficiary:', beneficiaryAddress);
+  console.log('Beneficiary:', status.beneficiary);
   console.log('');
 
-  // Get lockup info
-  const lockup = await simpleLockup.lockupInfo();
-
-  if (lockup.totalAmount === 0n) {
+  if (!timeline) {
     console.log('❌ No lockup found');
     return;
   }
 
-  const startTime = Number(lockup.startTime);
-  const cliffDuration = Number(lockup.cliffDuration);
-  const vestingDuration = Number(lockup.vestingDuration);
-  const totalAmount = lockup.totalAmount;
-
-  console.log('📊 Lockup Parameters:');
-  console.log('─'.repeat(70));
-  console.log('Total Amount:', ethers.formatEther(totalAmount), 'tokens');
-  console.log('Start Time:', new Date(startTime * 1000).toISOString());
-  console.log('Cliff Duration:', cliffDuration / 86400, 'days');
-  console.log('Vesting Duration:', vestingDuration / 86400, 'days');
-  console.log('');
-
-  console.log('📅 Vesting Timeline:');
-  console.log('─'.repeat(70));
-  console.log('Date'.padEnd(25), 'Elapsed'.padEnd(15), 'Vested %'.padEnd(12), 'Vested Amount');
-  console.log('─'.repeat(70));
-
-  // Calculate vesting at different milestones
-  const milestones = [
-    { label: 'Start', time: startTime },
-    { label: 'Cliff End', time: startTime + cliffDuration },
-    { label: '25% Duration', time: startTime + vestingDuration * 0.25 },
-    { label: '50% Duration', time: startTime + vestingDuration * 0.5 },
-    { label: '75% Duration', time: startTime + vestingDuration * 0.75 },
-    { label: 'Vesting End', time: startTime + vestingDuration },
-  ];
-
-  for (const milestone of milestones) {
-    const time = Math.floor(milestone.time);
-    let vestedAmount: bigint;
-
-    // Calculate vested amount based on time
-    if (time < startTime + cliffDuration) {
-      vestedAmount = 0n;
-    } else if (time >= startTime + vestingDuration) {
-      vestedAmount = totalAmount;
-    } else {
-      const timeFromStart = time - startTime;
-      vestedAmount = (totalAmount * BigInt(timeFromStart)) / BigInt(vestingDuration);
-    }
-
-    const vestedPercent = (Number(vestedAmount) / Number(totalAmount)) * 100;
-    const elapsedDays = Math.floor((time - startTime) / 86400);
-    const dateStr = new Date(time * 1000).toISOString().split('T')[0];
-
-    console.log(
-      dateStr.padEnd(25),
-      `${elapsedDays}d`.padEnd(15),
-      `${vestedPercent.toFixed(1)}%`.padEnd(12),
-      ethers.formatEther(vestedAmount)
-    );
-  }
-
-  console.log('─'.repeat(70));
-  console.log('');
-
-  // Monthly breakdown if vesting is longer than 3 months
-  if (vestingDuration > 90 * 86400) {
-    console.log('📈 Monthly Vesting Breakdown:');
-    console.log('─'.repeat(70));
-    console.log('Month'.padEnd(10), 'Date'.padEnd(25), 'Vested %'.padEnd(12), 'Vested Amount');
-    console.log('─'.repeat(70));
-
-    const monthlyPeriods = Math.min(12, Math.floor(vestingDuration / (30 * 86400)));
-
-    for (let month = 1; month <= monthlyPeriods; month++) {
-      const time = startTime + month * 30 * 86400;
-      let vestedAmount: bigint;
-
-      if (time < startTime + cliffDuration) {
-        vestedAmount = 0n;
-      } else if (time >= startTime + vestingDuration) {
-        vestedAmount = totalAmount;
-      } else {
-        const timeFromStart = time - startTime;
-        vestedAmount = (totalAmount * BigInt(timeFromStart)) / BigInt(vestingDuration);
-      }
-
-      const vestedPercent = (Number(vestedAmount) / Number(totalAmount)) * 100;
-      const dateStr = new Date(time * 1000).toISOString().split('T')[0];
-
-      console.log(
-        `M${month}`.padEnd(10),
-        dateStr.padEnd(25),
-        `${vestedPercent.toFixed(1)}%`.padEnd(12),
-        ethers.formatEther(vestedAmount)
-      );
-    }
-
-    console.log('─'.repeat(70));
-    console.log('');
-  }
-
-  // Current status
-  const currentVested = await simpleLockup.vestedAmount();
-  const currentReleasable = await simpleLockup.releasableAmount();
-  const currentProgress = await simpleLockup.getVestingProgress();
-
-  console.log('📍 Current Status:');
-  console.log('─'.repeat(70));
-  console.log('Current Time:', new Date().toISOString());
-  console.log('Vested Amount:', ethers.formatEther(currentVested), 'tokens');
-  console.log('Releasable Amount:', ethers.formatEther(currentReleasable), 'tokens');
-  console.log('Vesting Progress:', currentProgress.toString(), '%');
-  console.log('');
+  printTimeline(status, timeline, tokenInfo);
 }
 
 main()
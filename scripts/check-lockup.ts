@@ -1,90 +1,109 @@
 import { ethers } from 'hardhat';
 import * as dotenv from 'dotenv';
+import { printJson } from './lib/cli';
+import {
+  buildTimeline,
+  getLockupStatus,
+  getMultiLockupStatus,
+  isMultiLockup,
+  loadLockup,
+  printLockupStatus,
+  sumLockupTotals,
+} from './lib/lockup';
+import { buildBeneficiaryReport, buildLockupReport } from './lib/report';
+import { formatTokenAmount, loadLockupToken } from './lib/token';
 
 dotenv.config();
 
 /**
  * Check lockup information
  * Usage: LOCKUP_ADDRESS=0x... npx hardhat run scripts/check-lockup.ts
+ * JSON output: OUTPUT_FORMAT=json LOCKUP_ADDRESS=0x... npx hardhat run scripts/check-lockup.ts
+ * Equivalent task: npx hardhat lockup status --lockup 0x... [--json]
+ *
+ * For a MultiLockup, BENEFICIARY=0x... is required; every lockup of the beneficiary is printed,
+ * followed by the totals across all of them.
  */
-async function main() {
-  const lockupAddress = process.env.LOCKUP_ADDRESS;
-
-  if (!lockupAddress) {
-    throw new Error('LOCKUP_ADDRESS environment variable is required');
+async function checkMultiLockup(lockupAddress: string, jsonOutput: boolean) {
+  const beneficiary = process.env.BENEFICIARY;
+  if (!beneficiary || !ethers.isAddress(beneficiary)) {
+    throw new Error('BENEFICIARY environment variable is required for a MultiLockup');
   }
 
-  console.log('🔍 Checking Lockup Information');
-  console.log('SimpleLockup Address:', lockupAddress);
-  console.log('');
+  const multiLockup = await ethers.getContractAt('MultiLockup', lockupAddress);
+  const tokenInfo = await loadLockupToken(multiLockup, ethers.provider);
+  const lockupIds = await multiLockup.getLockupIds(beneficiary);
 
-  const SimpleLockup = await ethers.getContractFactory('SimpleLockup');
-  const simpleLockup = SimpleLockup.attach(lockupAddress);
+  const lockups = [];
+  for (const lockupId of lockupIds) {
+    lockups.push({ lockupId, status: await getMultiLockupStatus(multiLockup, lockupId) });
+  }
 
-  // Get beneficiary from contract
-  const beneficiaryAddress = await simpleLockup.beneficiary();
+  if (jsonOutput) {
+    const entries = lockups.map((entry) => ({ ...entry, timeline: buildTimeline(entry.status) }));
+    printJson(buildBeneficiaryReport(lockupAddress, tokenInfo, beneficiary, entries));
+    return;
+  }
 
-  console.log('Beneficiary Address:', beneficiaryAddress);
+  console.log('🔍 Checking Lockup Information');
+  console.log('MultiLockup Address:', lockupAddress);
+  console.log('Beneficiary Address:', beneficiary);
   console.log('');
 
-  // Get lockup info
-  const lockup = await simpleLockup.lockupInfo();
-
-  if (lockup.totalAmount === 0n) {
+  if (lockups.length === 0) {
     console.log('❌ No lockup found');
     return;
   }
 
-  // Get additional info
-  const vestedAmount = await simpleLockup.vestedAmount();
-  const releasableAmount = await simpleLockup.releasableAmount();
-  const vestingProgress = await simpleLockup.getVestingProgress();
-  const remainingTime = await simpleLockup.getRemainingVestingTime();
-
-  // Calculate timestamps
-  const cliffEnd = lockup.startTime + lockup.cliffDuration;
-  const vestingEnd = lockup.startTime + lockup.vestingDuration;
-  const currentTime = BigInt(Math.floor(Date.now() / 1000));
-
-  console.log('═══ Lockup Details ═══');
-  console.log('Total Amount:', ethers.formatEther(lockup.totalAmount), 'tokens');
-  console.log('Released Amount:', ethers.formatEther(lockup.releasedAmount), 'tokens');
-  console.log('Vested Amount:', ethers.formatEther(vestedAmount), 'tokens');
-  console.log('Releasable Amount:', ethers.formatEther(releasableAmount), 'tokens');
-  console.log('');
+  for (const { lockupId, status } of lockups) {
+    console.log(`━━━ Lockup #${lockupId} ━━━`);
+    printLockupStatus(status, tokenInfo);
+    console.log('');
+  }
 
-  console.log('═══ Vesting Schedule ═══');
-  console.log('Start Time:', new Date(Number(lockup.startTime) * 1000).toISOString());
-  console.log('Cliff End:', new Date(Number(cliffEnd) * 1000).toISOString());
-  console.log('Vesting End:', new Date(Number(vestingEnd) * 1000).toISOString());
-  console.log('Cliff Duration:', Number(lockup.cliffDuration) / 86400, 'days');
-  console.log('Total Vesting Duration:', Number(lockup.vestingDuration) / 86400, 'days');
-  console.log('');
+  const totals = sumLockupTotals(lockups.map(({ status }) => status));
+  console.log(`═══ Totals (${lockups.length} lockups) ═══`);
+  console.log('Total Amount:', formatTokenAmount(totals.totalAmount, tokenInfo));
+  console.log('Released Amount:', formatTokenAmount(totals.releasedAmount, tokenInfo));
+  console.log('Vested Amount:', formatTokenAmount(totals.vestedAmount, tokenInfo));
+  console.log('Releasable Amount:', formatTokenAmount(totals.releasableAmount, tokenInfo));
+}
 
-  console.log('═══ Current Status ═══');
-  console.log('Vesting Progress:', vestingProgress.toString(), '%');
-  console.log('Remaining Time:', Number(remainingTime) / 86400, 'days');
-  console.log('Revocable:', lockup.revocable);
-  console.log('Revoked:', lockup.revoked);
+async function main() {
+  const lockupAddress = process.env.LOCKUP_ADDRESS;
+  const jsonOutput = process.env.OUTPUT_FORMAT === 'json';
 
-  if (lockup.revoked) {
-    console.log('Vested at Revoke:', ethers.formatEther(lockup.vestedAtRevoke), 'tokens');
+  if (!lockupAddress) {
+    throw new Error('LOCKUP_ADDRESS environment variable is required');
   }
 
-  console.log('');
+  if (ethers.isAddress(lockupAddress) && (await isMultiLockup(ethers, lockupAddress))) {
+    await checkMultiLockup(lockupAddress, jsonOutput);
+    return;
+  }
+
+  const { lockup, tokenInfo } = await loadLockup(ethers, lockupAddress);
+  const status = await getLockupStatus(lockup);
 
-  // Status indicators
-  if (currentTime < cliffEnd) {
-    console.log('⏳ Status: In cliff period (no tokens vested yet)');
-  } else if (currentTime < vestingEnd) {
-    console.log('🔄 Status: Vesting in progress');
-  } else {
-    console.log('✅ Status: Fully vested');
+  if (jsonOutput) {
+    const timeline = status.exists ? buildTimeline(status) : undefined;
+    printJson(buildLockupReport(lockupAddress, tokenInfo, status, timeline));
+    return;
   }
 
-  if (releasableAmount > 0n) {
-    console.log('💰 You can release', ethers.formatEther(releasableAmount), 'tokens now!');
+  console.log('🔍 Checking Lockup Information');
+  console.log('SimpleLockup Address:', lockupAddress);
+  console.log('');
+
+  console.log('Beneficiary Address:', status.beneficiary);
+  console.log('');
+
+  if (!status.exists) {
+    console.log('❌ No lockup found');
+    return;
   }
+
+  printLockupStatus(status, tokenInfo);
 }
 
 main()
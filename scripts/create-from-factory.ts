@@ -0,0 +1,207 @@
+import { ethers } from 'hardhat';
+import * as readline from 'readline';
+import { formatReleaseInterval, parseReleaseInterval } from './lib/lockup';
+import { formatTokenAmount, loadLockupToken, parseTokenAmount } from './lib/token';
+
+/**
+ * Interactive helper for creating lockups through SimpleLockupFactory
+ * Existing lockups are looked up from the factory registry, no LOCKUP_ADDRESS needed
+ * Usage: FACTORY_ADDRESS=0x... npx hardhat run scripts/create-from-factory.ts
+ */
+
+const rl = readline.createInterface({
+  input: process.stdin,
+  output: process.stdout,
+});
+
+function question(prompt: string): Promise<string> {
+  return new Promise((resolve) => {
+    rl.question(prompt, resolve);
+  });
+}
+
+async function main() {
+  const factoryAddress = process.env.FACTORY_ADDRESS;
+
+  if (!factoryAddress) {
+    throw new Error('FACTORY_ADDRESS environment variable is required');
+  }
+
+  console.log('=== Interactive Lockup Creation (Factory) ===');
+  console.log('Factory Contract:', factoryAddress);
+  console.log('');
+
+  const [deployer] = await ethers.getSigners();
+  console.log('Your Address:', deployer.address);
+  console.log(
+    'Your Balance:',
+    ethers.formatEther(await ethers.provider.getBalance(deployer.address)),
+    'MATIC'
+  );
+  console.log('');
+
+  // Get contract instances
+  const factory = await ethers.getContractAt('SimpleLockupFactory', factoryAddress);
+  const tokenAddress = await factory.token();
+  const token = await ethers.getContractAt('IERC20', tokenAddress);
+  const tokenInfo = await loadLockupToken(factory, ethers.provider);
+
+  console.log('Token Address:', tokenAddress);
+  console.log('Token Symbol:', tokenInfo.symbol);
+  console.log('Token Decimals:', tokenInfo.decimals);
+  console.log('Lockups Deployed by Factory:', (await factory.lockupCount()).toString());
+  const tokenBalance = await token.balanceOf(deployer.address);
+  console.log('Your Token Balance:', formatTokenAmount(tokenBalance, tokenInfo));
+  console.log('');
+
+  // Gather lockup parameters
+  console.log('📝 Enter Lockup Parameters:');
+  console.log('─'.repeat(50));
+
+  const beneficiary = await question('Beneficiary Address: ');
+  if (!ethers.isAddress(beneficiary)) {
+    rl.close();
+    throw new Error('Invalid beneficiary address');
+  }
+
+  // Look up existing lockups for this beneficiary through the registry
+  const existingLockups = await factory.getLockupsByBeneficiary(beneficiary);
+
+  if (existingLockups.length > 0) {
+    console.log('');
+    console.log(`ℹ️  Beneficiary already has ${existingLockups.length} lockup(s):`);
+    for (const lockupAddress of existingLockups) {
+      const lockup = await ethers.getContractAt('SimpleLockup', lockupAddress);
+      const info = await lockup.lockupInfo();
+      const status = info.revoked ? 'revoked' : `${await lockup.getVestingProgress()}% vested`;
+      console.log(
+        `   - ${lockupAddress}: ${formatTokenAmount(info.totalAmount, tokenInfo)} (${status})`
+      );
+    }
+    console.log('');
+  }
+
+  const amountStr = await question(`Total Amount (in ${tokenInfo.symbol}): `);
+  const amount = parseTokenAmount(amountStr, tokenInfo);
+
+  if (amount <= 0n) {
+    rl.close();
+    throw new Error('Amount must be greater than 0');
+  }
+
+  if (amount > tokenBalance) {
+    rl.close();
+    throw new Error(
+      `Insufficient balance. You have ${formatTokenAmount(tokenBalance, tokenInfo)}, but need ${formatTokenAmount(amount, tokenInfo)}`
+    );
+  }
+
+  const cliffInput = await question('Cliff Duration (in seconds): ');
+  const cliffDuration = parseInt(cliffInput);
+
+  const vestingInput = await question('Total Vesting Duration (in seconds): ');
+  const vestingDuration = parseInt(vestingInput);
+
+  if (vestingDuration <= 0) {
+    rl.close();
+    throw new Error('Vesting duration must be greater than 0');
+  }
+
+  if (cliffDuration >= vestingDuration) {
+    rl.close();
+    throw new Error('Cliff duration must be shorter than vesting duration');
+  }
+
+  const intervalInput = await question(
+    'Release Interval (seconds, "30d", or daily/weekly/monthly/quarterly/yearly = fixed 1/7/30.42/91.25/365 days; press Enter for linear): '
+  );
+  let releaseInterval: bigint;
+  try {
+    releaseInterval = parseReleaseInterval(intervalInput);
+  } catch (error) {
+    rl.close();
+    throw error;
+  }
+
+  if (releaseInterval > BigInt(vestingDuration)) {
+    rl.close();
+    throw new Error('Release interval cannot be longer than vesting duration');
+  }
+
+  const revocableStr = await question('Revocable? (yes/no): ');
+  const revocable = revocableStr.toLowerCase() === 'yes' || revocableStr.toLowerCase() === 'y';
+
+  console.log('');
+  console.log('📊 Lockup Summary:');
+  console.log('─'.repeat(50));
+  console.log('Beneficiary:', beneficiary);
+  console.log('Amount:', formatTokenAmount(amount, tokenInfo));
+  console.log('Cliff Duration:', cliffDuration / 86400, 'days');
+  console.log('Vesting Duration:', vestingDuration / 86400, 'days');
+  console.log('Release Interval:', formatReleaseInterval(releaseInterval));
+  console.log('Revocable:', revocable);
+  console.log('Lockup Owner:', deployer.address);
+  console.log('─'.repeat(50));
+  console.log('');
+
+  const confirm = await question('Proceed with lockup creation? (yes/no): ');
+
+  if (confirm.toLowerCase() !== 'yes' && confirm.toLowerCase() !== 'y') {
+    console.log('❌ Lockup creation cancelled');
+    rl.close();
+    return;
+  }
+
+  // Check allowance (the factory pulls tokens, not the lockup)
+  const currentAllowance = await token.allowance(deployer.address, factoryAddress);
+
+  if (currentAllowance < amount) {
+    console.log('');
+    console.log('⚠️  Insufficient allowance. Approving tokens...');
+    const approveTx = await token.approve(factoryAddress, amount);
+    console.log('Approval transaction:', approveTx.hash);
+    await approveTx.wait();
+    console.log('✅ Tokens approved');
+  }
+
+  // Deploy and create lockup
+  console.log('');
+  console.log('🔨 Deploying lockup through factory...');
+  const tx =
+    releaseInterval > 0n
+      ? await factory.createPeriodicLockup(
+          beneficiary,
+          amount,
+          cliffDuration,
+          vestingDuration,
+          releaseInterval,
+          revocable
+        )
+      : await factory.createLockup(beneficiary, amount, cliffDuration, vestingDuration, revocable);
+
+  console.log('Transaction:', tx.hash);
+  console.log('Waiting for confirmation...');
+
+  const receipt = await tx.wait();
+
+  const deployedEvent = receipt?.logs
+    .map((log) => factory.interface.parseLog(log))
+    .find((parsed) => parsed?.name === 'LockupDeployed');
+
+  console.log('✅ Lockup created successfully!');
+  console.log('Lockup Address:', deployedEvent?.args.lockup);
+  console.log('Gas used:', receipt?.gasUsed.toString());
+  console.log('');
+  console.log('Check the lockup with:');
+  console.log(`  LOCKUP_ADDRESS=${deployedEvent?.args.lockup} pnpm check-lockup`);
+
+  rl.close();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    rl.close();
+    process.exit(1);
+  });
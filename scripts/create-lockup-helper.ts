@@ -1,9 +1,49 @@
 import { ethers } from 'hardhat';
 import * as readline from 'readline';
+import {
+  assertValidStartTime,
+  formatReleaseInterval,
+  parseCliffUnlock,
+  parseReleaseInterval,
+  parseStartTime,
+} from './lib/lockup';
+import {
+  PreparedCall,
+  defaultTransactionFile,
+  prepareTransactions,
+  printTransactionFile,
+  writeTransactionFile,
+} from './lib/offline';
+import {
+  SafeInfo,
+  assertSafeOwner,
+  buildSafeBatch,
+  defaultSafeBatchFile,
+  encodeSafeTransaction,
+  printSafeBatch,
+  selectCreateCall,
+  writeSafeBatch,
+} from './lib/safe';
+import { loadScheduleFile, printSchedule } from './lib/schedule';
+import { formatTokenAmount, loadLockupToken, parseTokenAmount } from './lib/token';
+import { BASIS_POINTS, VestingCheckpoint, formatPercent } from './lib/vesting';
 
 /**
  * Interactive helper for creating token lockups
  * Usage: LOCKUP_ADDRESS=0x... npx hardhat run scripts/create-lockup-helper.ts
+ *
+ * Custom schedules: SCHEDULE_FILE=schedule.json (checkpoint table, see scripts/lib/schedule.ts)
+ * replaces the cliff, vesting, start date, release interval and cliff unlock prompts.
+ *
+ * Safe owner: SAFE_ADDRESS=0x... writes a Safe Transaction Builder batch (approve + create) to
+ * SAFE_BATCH_FILE (default: safe-create-<lockup>-<time>.json) instead of sending transactions.
+ * `hardhat run` does not forward flags; `npx hardhat lockup create --as-safe 0x...` is the task
+ * equivalent.
+ *
+ * Offline signing: OFFLINE_SIGNER=0x... (the owner's address) writes an unsigned transaction file
+ * (approval if needed + create) to TX_FILE (default: tx-create-<lockup>-<time>.unsigned.json) for
+ * sign-transaction.ts; no private key is used. GAS_LIMIT overrides the gas limit of a create that
+ * depends on the approval and cannot be estimated.
  */
 
 const rl = readline.createInterface({
@@ -24,27 +64,61 @@ async function main() {
     throw new Error('LOCKUP_ADDRESS environment variable is required');
   }
 
+  const safeAddress = process.env.SAFE_ADDRESS;
+  const offlineSigner = process.env.OFFLINE_SIGNER;
+
+  if (safeAddress && offlineSigner) {
+    throw new Error('Set either SAFE_ADDRESS or OFFLINE_SIGNER, not both');
+  }
+
   console.log('=== Interactive Lockup Creation ===');
   console.log('Lockup Contract:', lockupAddress);
   console.log('');
 
-  const [deployer] = await ethers.getSigners();
-  console.log('Your Address:', deployer.address);
-  console.log(
-    'Your Balance:',
-    ethers.formatEther(await ethers.provider.getBalance(deployer.address)),
-    'MATIC'
-  );
-  console.log('');
-
   // Get contract instances
   const simpleLockup = await ethers.getContractAt('SimpleLockup', lockupAddress);
   const tokenAddress = await simpleLockup.token();
   const token = await ethers.getContractAt('IERC20', tokenAddress);
+  const tokenInfo = await loadLockupToken(simpleLockup, ethers.provider);
+
+  // The Safe funds and owns the lockup; nothing is signed locally
+  let safe: SafeInfo | undefined;
+  let funder: string;
+  if (safeAddress) {
+    safe = await assertSafeOwner(ethers.provider, safeAddress, await simpleLockup.owner());
+    funder = safe.address;
+    console.log('Safe Address:', safe.address);
+    console.log('Safe Signers:', `${safe.threshold} of ${safe.owners.length}`);
+  } else if (offlineSigner) {
+    if (!ethers.isAddress(offlineSigner)) {
+      throw new Error('Invalid OFFLINE_SIGNER address');
+    }
+    const contractOwner = await simpleLockup.owner();
+    if (contractOwner.toLowerCase() !== offlineSigner.toLowerCase()) {
+      throw new Error(`OFFLINE_SIGNER is not the owner of this contract (${contractOwner})`);
+    }
+    funder = offlineSigner;
+    console.log('Offline Signer:', offlineSigner, '(prepare only, nothing is sent)');
+  } else {
+    const [deployer] = await ethers.getSigners();
+    funder = deployer.address;
+    console.log('Your Address:', deployer.address);
+    console.log(
+      'Your Balance:',
+      ethers.formatEther(await ethers.provider.getBalance(deployer.address)),
+      'MATIC'
+    );
+  }
+  console.log('');
 
   console.log('Token Address:', tokenAddress);
-  const tokenBalance = await token.balanceOf(deployer.address);
-  console.log('Your Token Balance:', ethers.formatEther(tokenBalance), 'tokens');
+  console.log('Token Symbol:', tokenInfo.symbol);
+  console.log('Token Decimals:', tokenInfo.decimals);
+  const tokenBalance = await token.balanceOf(funder);
+  console.log(
+    safe ? 'Safe Token Balance:' : 'Your Token Balance:',
+    formatTokenAmount(tokenBalance, tokenInfo)
+  );
   console.log('');
 
   // Gather lockup parameters
@@ -64,8 +138,8 @@ async function main() {
     throw new Error('Lockup already exists in this contract');
   }
 
-  const amountStr = await question('Total Amount (in tokens): ');
-  const amount = ethers.parseEther(amountStr);
+  const amountStr = await question(`Total Amount (in ${tokenInfo.symbol}): `);
+  const amount = parseTokenAmount(amountStr, tokenInfo);
 
   if (amount <= 0n) {
     rl.close();
@@ -75,24 +149,95 @@ async function main() {
   if (amount > tokenBalance) {
     rl.close();
     throw new Error(
-      `Insufficient balance. You have ${ethers.formatEther(tokenBalance)} tokens, but need ${amountStr} tokens`
+      `Insufficient balance. You have ${formatTokenAmount(tokenBalance, tokenInfo)}, but need ${formatTokenAmount(amount, tokenInfo)}`
     );
   }
 
-  const cliffInput = await question('Cliff Duration (in seconds): ');
-  const cliffDuration = parseInt(cliffInput);
+  const scheduleFile =
+    process.env.SCHEDULE_FILE || (await question('Schedule File (press Enter to skip): '));
 
-  const vestingInput = await question('Total Vesting Duration (in seconds): ');
-  const vestingDuration = parseInt(vestingInput);
+  let checkpoints: VestingCheckpoint[] = [];
+  let cliffDuration: number;
+  let vestingDuration: number;
+  let releaseInterval = 0n;
+  let cliffUnlockBps = 0n;
+  let startTime: bigint | null = null;
 
-  if (vestingDuration <= 0) {
-    rl.close();
-    throw new Error('Vesting duration must be greater than 0');
-  }
+  if (scheduleFile) {
+    try {
+      checkpoints = loadScheduleFile(scheduleFile, {
+        maxCheckpoints: Number(await simpleLockup.MAX_CHECKPOINTS()),
+        maxVestingDuration: await simpleLockup.MAX_VESTING_DURATION(),
+      });
+    } catch (error) {
+      rl.close();
+      throw error;
+    }
 
-  if (cliffDuration > vestingDuration) {
-    rl.close();
-    throw new Error('Cliff duration cannot be longer than vesting duration');
+    cliffDuration = Number(checkpoints[0].offset);
+    vestingDuration = Number(checkpoints[checkpoints.length - 1].offset);
+  } else {
+    const cliffInput = await question('Cliff Duration (in seconds): ');
+    cliffDuration = parseInt(cliffInput);
+
+    const vestingInput = await question('Total Vesting Duration (in seconds): ');
+    vestingDuration = parseInt(vestingInput);
+
+    if (vestingDuration <= 0) {
+      rl.close();
+      throw new Error('Vesting duration must be greater than 0');
+    }
+
+    if (cliffDuration > vestingDuration) {
+      rl.close();
+      throw new Error('Cliff duration cannot be longer than vesting duration');
+    }
+
+    const startInput = await question(
+      'Start Date (ISO like "2025-01-01" or "2025-01-01T09:00:00Z"; press Enter to start now): '
+    );
+    try {
+      startTime = parseStartTime(startInput);
+      if (startTime !== null) {
+        const latestBlock = await ethers.provider.getBlock('latest');
+        await assertValidStartTime(
+          simpleLockup,
+          startTime,
+          BigInt(vestingDuration),
+          BigInt(latestBlock!.timestamp)
+        );
+      }
+    } catch (error) {
+      rl.close();
+      throw error;
+    }
+
+    const intervalInput = await question(
+      'Release Interval (seconds, "30d", or daily/weekly/monthly/quarterly/yearly = fixed 1/7/30.42/91.25/365 days; press Enter for linear): '
+    );
+    try {
+      releaseInterval = parseReleaseInterval(intervalInput);
+    } catch (error) {
+      rl.close();
+      throw error;
+    }
+
+    if (releaseInterval > BigInt(vestingDuration)) {
+      rl.close();
+      throw new Error('Release interval cannot be longer than vesting duration');
+    }
+
+    if (releaseInterval === 0n) {
+      const cliffUnlockInput = await question(
+        'Cliff Unlock (% unlocked at cliff end, e.g. "20" or "12.5%"; press Enter for none): '
+      );
+      try {
+        cliffUnlockBps = parseCliffUnlock(cliffUnlockInput);
+      } catch (error) {
+        rl.close();
+        throw error;
+      }
+    }
   }
 
   const revocableStr = await question('Revocable? (yes/no): ');
@@ -102,14 +247,33 @@ async function main() {
   console.log('📊 Lockup Summary:');
   console.log('─'.repeat(50));
   console.log('Beneficiary:', beneficiary);
-  console.log('Amount:', ethers.formatEther(amount), 'tokens');
+  console.log('Amount:', formatTokenAmount(amount, tokenInfo));
+  console.log(
+    'Start Time:',
+    startTime === null ? 'at creation' : new Date(Number(startTime) * 1000).toISOString()
+  );
   console.log('Cliff Duration:', cliffDuration / 86400, 'days');
   console.log('Vesting Duration:', vestingDuration / 86400, 'days');
+  if (checkpoints.length > 0) {
+    console.log('Schedule:', `custom (${checkpoints.length} checkpoints)`);
+    printSchedule(checkpoints);
+  } else {
+    console.log('Release Interval:', formatReleaseInterval(releaseInterval));
+    if (cliffUnlockBps > 0n) {
+      console.log('Cliff Unlock:', formatPercent(cliffUnlockBps, BASIS_POINTS, 2));
+    }
+  }
   console.log('Revocable:', revocable);
   console.log('─'.repeat(50));
   console.log('');
 
-  const confirm = await question('Proceed with lockup creation? (yes/no): ');
+  const confirm = await question(
+    safe
+      ? 'Write Safe transaction batch? (yes/no): '
+      : offlineSigner
+        ? 'Write unsigned transaction file? (yes/no): '
+        : 'Proceed with lockup creation? (yes/no): '
+  );
 
   if (confirm.toLowerCase() !== 'yes' && confirm.toLowerCase() !== 'y') {
     console.log('❌ Lockup creation cancelled');
@@ -117,7 +281,73 @@ async function main() {
     return;
   }
 
+  const { signature, args } = selectCreateCall({
+    beneficiary,
+    amount,
+    cliffDuration,
+    vestingDuration,
+    releaseInterval,
+    cliffUnlockBps,
+    startTime,
+    checkpoints,
+    revocable,
+  });
+
+  if (offlineSigner) {
+    const calls: PreparedCall[] = [];
+    if ((await token.allowance(offlineSigner, lockupAddress)) < amount) {
+      calls.push({
+        label: `Approve ${formatTokenAmount(amount, tokenInfo)}`,
+        contract: token,
+        signature: 'approve',
+        args: [lockupAddress, amount],
+      });
+    }
+    calls.push({ label: 'Create lockup', contract: simpleLockup, signature, args });
+
+    const file = await prepareTransactions(
+      ethers.provider,
+      offlineSigner,
+      `Create the lockup of ${beneficiary} (${formatTokenAmount(amount, tokenInfo)}) in ${lockupAddress}`,
+      calls,
+      process.env.GAS_LIMIT ? BigInt(process.env.GAS_LIMIT) : undefined
+    );
+    const txFile = process.env.TX_FILE || defaultTransactionFile('create', lockupAddress);
+    writeTransactionFile(file, txFile);
+
+    console.log('');
+    printTransactionFile(file);
+    console.log('✅ Unsigned transactions written to', txFile);
+    console.log('Next: sign it on the offline machine with `pnpm sign-transaction`.');
+    rl.close();
+    return;
+  }
+
+  if (safe) {
+    const { chainId } = await ethers.provider.getNetwork();
+    const batch = buildSafeBatch(
+      chainId,
+      safe.address,
+      'Create lockup',
+      `Approve ${formatTokenAmount(amount, tokenInfo)} and create the lockup of ${beneficiary} in ${lockupAddress}`,
+      [
+        await encodeSafeTransaction(token, 'approve', [lockupAddress, amount]),
+        await encodeSafeTransaction(simpleLockup, signature, args),
+      ]
+    );
+    const batchFile = process.env.SAFE_BATCH_FILE || defaultSafeBatchFile('create', lockupAddress);
+    writeSafeBatch(batch, batchFile);
+
+    console.log('');
+    printSafeBatch(batch, safe);
+    console.log('✅ Batch written to', batchFile);
+    console.log('Load it in the Safe Transaction Builder to review and sign.');
+    rl.close();
+    return;
+  }
+
   // Check allowance
+  const [deployer] = await ethers.getSigners();
   const currentAllowance = await token.allowance(deployer.address, lockupAddress);
 
   if (currentAllowance < amount) {
@@ -132,13 +362,47 @@ async function main() {
   // Create lockup
   console.log('');
   console.log('🔨 Creating lockup...');
-  const tx = await simpleLockup.createLockup(
-    beneficiary,
-    amount,
-    cliffDuration,
-    vestingDuration,
-    revocable
-  );
+  let tx;
+  if (checkpoints.length > 0) {
+    tx = await simpleLockup.createCustomLockup(beneficiary, amount, checkpoints, revocable);
+  } else if (startTime !== null) {
+    tx = await simpleLockup.createScheduledLockup(
+      beneficiary,
+      amount,
+      startTime,
+      cliffDuration,
+      vestingDuration,
+      releaseInterval,
+      cliffUnlockBps,
+      revocable
+    );
+  } else if (cliffUnlockBps > 0n) {
+    tx = await simpleLockup.createCliffUnlockLockup(
+      beneficiary,
+      amount,
+      cliffDuration,
+      vestingDuration,
+      cliffUnlockBps,
+      revocable
+    );
+  } else if (releaseInterval > 0n) {
+    tx = await simpleLockup.createPeriodicLockup(
+      beneficiary,
+      amount,
+      cliffDuration,
+      vestingDuration,
+      releaseInterval,
+      revocable
+    );
+  } else {
+    tx = await simpleLockup.createLockup(
+      beneficiary,
+      amount,
+      cliffDuration,
+      vestingDuration,
+      revocable
+    );
+  }
 
   console.log('Transaction:', tx.hash);
   console.log('Waiting for confirmation...');
@@ -1,4 +1,5 @@
 import { ethers } from 'hardhat';
+import { formatTokenAmount, loadLockupToken, parseTokenAmount } from './lib/token';
 
 /**
  * Debug helper for troubleshooting lockup creation issues
@@ -21,6 +22,7 @@ async function main() {
   const simpleLockup = await ethers.getContractAt('SimpleLockup', lockupAddress);
   const tokenAddress = await simpleLockup.token();
   const token = await ethers.getContractAt('IERC20', tokenAddress);
+  const tokenInfo = await loadLockupToken(simpleLockup, ethers.provider);
 
   // Get beneficiary from contract
   const beneficiaryAddress = await simpleLockup.beneficiary();
@@ -29,6 +31,8 @@ async function main() {
 
   console.log('=== Contract Information ===');
   console.log('Token Address:', tokenAddress);
+  console.log('Token Symbol:', tokenInfo.symbol);
+  console.log('Token Decimals:', tokenInfo.decimals, tokenInfo.decimalsFallback ? '(assumed)' : '');
   const owner = await simpleLockup.owner();
   console.log('Owner:', owner);
   console.log('Deployer:', deployer.address);
@@ -37,26 +41,26 @@ async function main() {
 
   console.log('=== Token Balances ===');
   const deployerBalance = await token.balanceOf(deployer.address);
-  console.log('Deployer Token Balance:', ethers.formatEther(deployerBalance), 'tokens');
+  console.log('Deployer Token Balance:', formatTokenAmount(deployerBalance, tokenInfo));
 
   const contractBalance = await token.balanceOf(lockupAddress);
-  console.log('Contract Token Balance:', ethers.formatEther(contractBalance), 'tokens');
+  console.log('Contract Token Balance:', formatTokenAmount(contractBalance, tokenInfo));
   console.log('');
 
   console.log('=== Allowance ===');
   const allowance = await token.allowance(deployer.address, lockupAddress);
-  console.log('Current Allowance:', ethers.formatEther(allowance), 'tokens');
+  console.log('Current Allowance:', formatTokenAmount(allowance, tokenInfo));
   console.log('');
 
   console.log('=== Existing Lockup Check ===');
   const existingLockup = await simpleLockup.lockupInfo();
-  console.log('Total Amount:', ethers.formatEther(existingLockup.totalAmount));
-  console.log('Released Amount:', ethers.formatEther(existingLockup.releasedAmount));
+  console.log('Total Amount:', formatTokenAmount(existingLockup.totalAmount, tokenInfo));
+  console.log('Released Amount:', formatTokenAmount(existingLockup.releasedAmount, tokenInfo));
   console.log('Lockup Exists?:', existingLockup.totalAmount > 0n);
   console.log('');
 
   // Dry run test
-  const testAmount = ethers.parseEther('1000');
+  const testAmount = parseTokenAmount('1000', tokenInfo);
   const testCliff = 30 * 24 * 60 * 60; // 30 days
   const testVesting = 365 * 24 * 60 * 60; // 1 year
 
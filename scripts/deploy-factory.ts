@@ -0,0 +1,103 @@
+import { ethers } from 'hardhat';
+import { validateTokenAddress } from './lib/validate-token';
+
+/**
+ * Deploy SimpleLockupFactory
+ * Deploys a SimpleLockup implementation for TOKEN_ADDRESS and a factory that clones it
+ * Usage: TOKEN_ADDRESS=0x... npx hardhat run scripts/deploy-factory.ts --network <network>
+ */
+async function main() {
+  const [deployer] = await ethers.getSigners();
+
+  console.log('Deploying factory with account:', deployer.address);
+  console.log(
+    'Account balance:',
+    ethers.formatEther(await ethers.provider.getBalance(deployer.address))
+  );
+
+  const tokenAddress = process.env.TOKEN_ADDRESS;
+
+  if (!tokenAddress) {
+    throw new Error(
+      'TOKEN_ADDRESS environment variable is required for factory deployment.\n' +
+        'For Polygon Mainnet: 0x98965474EcBeC2F532F1f780ee37b0b05F77Ca55\n' +
+        'For Amoy Testnet: 0xE4C687167705Abf55d709395f92e254bdF5825a2'
+    );
+  }
+
+  console.log('\nUsing Token at:', tokenAddress);
+
+  // Validate token address before deployment
+  await validateTokenAddress(tokenAddress);
+
+  // Deploy implementation
+  console.log('📝 Step 1: Deploying SimpleLockup implementation...');
+  const SimpleLockup = await ethers.getContractFactory('SimpleLockup');
+  const implementation = await SimpleLockup.deploy(tokenAddress);
+  console.log('   - Transaction hash:', implementation.deploymentTransaction()?.hash);
+  await implementation.waitForDeployment();
+  const implementationAddress = await implementation.getAddress();
+  console.log('✅ Implementation deployed to:', implementationAddress);
+
+  // Deploy factory
+  console.log('📝 Step 2: Deploying SimpleLockupFactory...');
+  const SimpleLockupFactory = await ethers.getContractFactory('SimpleLockupFactory');
+  const factory = await SimpleLockupFactory.deploy(implementationAddress);
+  console.log('   - Transaction hash:', factory.deploymentTransaction()?.hash);
+  await factory.waitForDeployment();
+  const factoryAddress = await factory.getAddress();
+  console.log('✅ Factory deployed to:', factoryAddress);
+
+  // Post-deployment validation
+  console.log('\n🔍 Validating deployment...');
+  const verifiedImplementation = await factory.implementation();
+  const verifiedToken = await factory.token();
+
+  const checks = {
+    implementationMatch:
+      verifiedImplementation.toLowerCase() === implementationAddress.toLowerCase(),
+    tokenAddressMatch: verifiedToken.toLowerCase() === tokenAddress.toLowerCase(),
+  };
+
+  console.log('\n✓ Validation Results:');
+  console.log('  Implementation correct:', checks.implementationMatch ? '✅' : '❌');
+  console.log('  Token address correct:', checks.tokenAddressMatch ? '✅' : '❌');
+
+  if (!checks.implementationMatch || !checks.tokenAddressMatch) {
+    throw new Error('Deployment validation failed!');
+  }
+
+  const networkInfo = await ethers.provider.getNetwork();
+  const deploymentInfo = {
+    network: networkInfo.name,
+    chainId: networkInfo.chainId.toString(),
+    deployer: deployer.address,
+    tokenAddress: tokenAddress,
+    implementationAddress: implementationAddress,
+    factoryAddress: factoryAddress,
+    timestamp: new Date().toISOString(),
+  };
+
+  console.log('\n=== Deployment Summary ===');
+  console.log(JSON.stringify(deploymentInfo, null, 2));
+  console.log('\n✅ Factory deployment completed and validated successfully!');
+  console.log('\nCreate lockups with:');
+  console.log(`  FACTORY_ADDRESS=${factoryAddress} pnpm create-from-factory`);
+
+  if (process.env.ETHERSCAN_API_KEY) {
+    console.log('\n=== Verification Commands ===');
+    console.log(
+      `npx hardhat verify --network ${deploymentInfo.network} ${implementationAddress} ${tokenAddress}`
+    );
+    console.log(
+      `npx hardhat verify --network ${deploymentInfo.network} ${factoryAddress} ${implementationAddress}`
+    );
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,89 @@
+import { ethers } from 'hardhat';
+import { validateTokenAddress } from './lib/validate-token';
+
+/**
+ * Deploy MultiLockup
+ * Deploys a MultiLockup holding the lockups of many beneficiaries for TOKEN_ADDRESS
+ * Usage: TOKEN_ADDRESS=0x... npx hardhat run scripts/deploy-multi.ts --network <network>
+ */
+async function main() {
+  const [deployer] = await ethers.getSigners();
+
+  console.log('Deploying MultiLockup with account:', deployer.address);
+  console.log(
+    'Account balance:',
+    ethers.formatEther(await ethers.provider.getBalance(deployer.address))
+  );
+
+  const tokenAddress = process.env.TOKEN_ADDRESS;
+
+  if (!tokenAddress) {
+    throw new Error(
+      'TOKEN_ADDRESS environment variable is required for MultiLockup deployment.\n' +
+        'For Polygon Mainnet: 0x98965474EcBeC2F532F1f780ee37b0b05F77Ca55\n' +
+        'For Amoy Testnet: 0xE4C687167705Abf55d709395f92e254bdF5825a2'
+    );
+  }
+
+  console.log('\nUsing Token at:', tokenAddress);
+
+  // Validate token address before deployment
+  await validateTokenAddress(tokenAddress);
+
+  console.log('📝 Deploying MultiLockup...');
+  const MultiLockup = await ethers.getContractFactory('MultiLockup');
+  const multiLockup = await MultiLockup.deploy(tokenAddress);
+  console.log('   - Transaction hash:', multiLockup.deploymentTransaction()?.hash);
+  await multiLockup.waitForDeployment();
+  const lockupAddress = await multiLockup.getAddress();
+  console.log('✅ MultiLockup deployed to:', lockupAddress);
+
+  // Post-deployment validation
+  console.log('\n🔍 Validating deployment...');
+  const verifiedToken = await multiLockup.token();
+  const verifiedOwner = await multiLockup.owner();
+
+  const checks = {
+    tokenAddressMatch: verifiedToken.toLowerCase() === tokenAddress.toLowerCase(),
+    ownerIsDeployer: verifiedOwner.toLowerCase() === deployer.address.toLowerCase(),
+  };
+
+  console.log('\n✓ Validation Results:');
+  console.log('  Token address correct:', checks.tokenAddressMatch ? '✅' : '❌');
+  console.log('  Owner set correctly:', checks.ownerIsDeployer ? '✅' : '❌');
+
+  if (!checks.tokenAddressMatch || !checks.ownerIsDeployer) {
+    throw new Error('Deployment validation failed!');
+  }
+
+  const networkInfo = await ethers.provider.getNetwork();
+  const deploymentInfo = {
+    network: networkInfo.name,
+    chainId: networkInfo.chainId.toString(),
+    deployer: deployer.address,
+    tokenAddress: tokenAddress,
+    multiLockupAddress: lockupAddress,
+    owner: verifiedOwner,
+    timestamp: new Date().toISOString(),
+  };
+
+  console.log('\n=== Deployment Summary ===');
+  console.log(JSON.stringify(deploymentInfo, null, 2));
+  console.log('\n✅ MultiLockup deployment completed and validated successfully!');
+  console.log('\nList lockups with:');
+  console.log(`  LOCKUP_ADDRESS=${lockupAddress} pnpm list-lockups`);
+
+  if (process.env.ETHERSCAN_API_KEY) {
+    console.log('\n=== Verification Command ===');
+    console.log(
+      `npx hardhat verify --network ${deploymentInfo.network} ${lockupAddress} ${tokenAddress}`
+    );
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import { ethers } from 'hardhat';
+import {
+  buildCalendarEvents,
+  buildVestingSchedule,
+  defaultCalendarFile,
+  toIcs,
+  toScheduleCsv,
+} from './lib/calendar';
+import { getLockupStatus, loadLockup } from './lib/lockup';
+import { DEFAULT_TIME_ZONE, parsePeriodUnit, parseTimeZone } from './lib/periods';
+import { formatTokenAmount } from './lib/token';
+
+/**
+ * Export a lockup's vesting dates as an iCalendar file and its schedule as CSV
+ * Usage: LOCKUP_ADDRESS=0x... npx hardhat run scripts/export-calendar.ts --network amoy
+ *
+ * The .ics file has an event for the cliff end, the vesting end and every unlock (each step or
+ * checkpoint, or the start of every EXPORT_PERIOD for linear vesting), each with a reminder. The
+ * CSV lists the vested amount per calendar EXPORT_PERIOD across the whole vesting duration.
+ *
+ * Optional:
+ *   EXPORT_PERIOD - day, week, month, quarter or year (calendar periods); default month
+ *   EXPORT_TZ     - IANA timezone for period boundaries, e.g. Europe/Berlin; default UTC
+ *   ICS_FILE      - Calendar path (default: vesting-<lockup>.ics)
+ *   CSV_FILE      - Schedule path (default: vesting-<lockup>.csv)
+ */
+
+async function main() {
+  const lockupAddress = process.env.LOCKUP_ADDRESS;
+
+  if (!lockupAddress) {
+    throw new Error('LOCKUP_ADDRESS environment variable is required');
+  }
+
+  const unit = parsePeriodUnit(process.env.EXPORT_PERIOD || 'month');
+  const timeZone = parseTimeZone(process.env.EXPORT_TZ || DEFAULT_TIME_ZONE);
+  const icsFile = process.env.ICS_FILE || defaultCalendarFile(lockupAddress, 'ics');
+  const csvFile = process.env.CSV_FILE || defaultCalendarFile(lockupAddress, 'csv');
+
+  const { lockup, tokenInfo } = await loadLockup(ethers, lockupAddress);
+  const status = await getLockupStatus(lockup);
+
+  console.log('=== Vesting Calendar Export ===');
+  console.log('Lockup Contract:', lockupAddress);
+  console.log('Beneficiary:', status.beneficiary);
+  console.log('');
+
+  if (!status.exists) {
+    console.log('❌ No lockup found');
+    return;
+  }
+
+  console.log('Total Amount:', formatTokenAmount(status.totalAmount, tokenInfo));
+  console.log('Start Time:', new Date(Number(status.startTime) * 1000).toISOString());
+  console.log('Vesting End:', new Date(Number(status.vestingEnd) * 1000).toISOString());
+  if (status.revoked) {
+    console.log('⚠️  Lockup was revoked: later dates vest nothing');
+  }
+  console.log('');
+
+  const events = buildCalendarEvents(status, unit, timeZone);
+  fs.writeFileSync(icsFile, toIcs(lockupAddress, events, status, tokenInfo));
+  console.log(`✅ Calendar written to ${icsFile} (${events.length} events)`);
+
+  const rows = buildVestingSchedule(status, unit, timeZone);
+  fs.writeFileSync(csvFile, toScheduleCsv(rows, status, tokenInfo));
+  console.log(`✅ Schedule written to ${csvFile} (${rows.length} rows)`);
+
+  const upcoming = events.find((event) => BigInt(event.timestamp) > status.currentTime);
+  if (upcoming) {
+    console.log('');
+    console.log(
+      'Next Unlock:',
+      new Date(upcoming.timestamp * 1000).toISOString(),
+      `(${formatTokenAmount(upcoming.unlockedAmount, tokenInfo)})`
+    );
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,121 @@
+import { ethers } from 'hardhat';
+import { printJson } from './lib/cli';
+import {
+  buildHistory,
+  indexLockup,
+  loadEventStore,
+  printHistory,
+  saveEventStore,
+} from './lib/events';
+import { loadLockupToken } from './lib/token';
+
+/**
+ * Index lockup events and print the audit trail
+ * Scans TokensLocked / LockupToppedUp / TokensReleased / LockupRevoked / BeneficiaryChanged from
+ * each lockup's deployment block into a local JSON store. Reruns only catch up from the last indexed block.
+ *
+ * Usage:
+ *   LOCKUP_ADDRESS=0x...[,0x...] npx hardhat run scripts/index-events.ts
+ *   FACTORY_ADDRESS=0x... npx hardhat run scripts/index-events.ts  # every lockup of a factory
+ *
+ * Optional:
+ *   EVENTS_FILE   - JSON store (default: lockup-events.json)
+ *   FROM_BLOCK    - Deployment block for new lockups (default: found via getCode binary search)
+ *   CHUNK_SIZE    - Blocks per getLogs request (default: 2000)
+ *   CONFIRMATIONS - Only index blocks this deep, to stay clear of reorgs (default: 0)
+ *   BENEFICIARY   - Only report events for this beneficiary
+ *   OUTPUT_FORMAT - Set to "json" to print the history as JSON
+ */
+
+// LOCKUP_ADDRESS entries followed by every lockup registered in FACTORY_ADDRESS
+async function lockupAddresses(): Promise<string[]> {
+  const addresses = (process.env.LOCKUP_ADDRESS || '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter((address) => address.length > 0);
+
+  const factoryAddress = process.env.FACTORY_ADDRESS;
+  if (factoryAddress) {
+    const factory = await ethers.getContractAt('SimpleLockupFactory', factoryAddress);
+    const count = await factory.lockupCount();
+    for (let i = 0n; i < count; i++) {
+      addresses.push(await factory.lockupAt(i));
+    }
+  }
+
+  return addresses;
+}
+
+async function main() {
+  const addresses = await lockupAddresses();
+  const storePath = process.env.EVENTS_FILE || 'lockup-events.json';
+  const fromBlock = process.env.FROM_BLOCK ? parseInt(process.env.FROM_BLOCK) : undefined;
+  const chunkSize = parseInt(process.env.CHUNK_SIZE || '2000');
+  const confirmations = parseInt(process.env.CONFIRMATIONS || '0');
+  const beneficiary = process.env.BENEFICIARY;
+  const jsonOutput = process.env.OUTPUT_FORMAT === 'json';
+  const log = jsonOutput ? () => undefined : console.log;
+
+  if (addresses.length === 0) {
+    throw new Error('LOCKUP_ADDRESS or FACTORY_ADDRESS environment variable is required');
+  }
+  if (!(chunkSize > 0)) {
+    throw new Error('CHUNK_SIZE must be a positive number');
+  }
+
+  const { chainId } = await ethers.provider.getNetwork();
+  // Stays at block 0 on a chain shorter than CONFIRMATIONS
+  const toBlock = Math.max(0, (await ethers.provider.getBlockNumber()) - confirmations);
+  const store = loadEventStore(storePath, chainId);
+
+  log('=== Lockup Event Indexer ===');
+  log('Event Store:', storePath);
+  log('Indexing up to block:', toBlock);
+  log('');
+
+  const reports = [];
+
+  for (const address of addresses) {
+    const lockup = await ethers.getContractAt('SimpleLockup', address);
+    const tokenInfo = await loadLockupToken(lockup, ethers.provider);
+    const previous = store.lockups[address.toLowerCase()]?.lastIndexedBlock;
+
+    log(`🔍 ${address}`);
+    log(
+      previous === undefined
+        ? '   First run, scanning from deployment block'
+        : `   Catching up from block ${previous + 1}`
+    );
+
+    const newEvents = await indexLockup(lockup, store, {
+      chunkSize,
+      toBlock,
+      fromBlock,
+      onChunk: () => saveEventStore(storePath, store),
+    });
+    saveEventStore(storePath, store);
+    log(`   ${newEvents} new event(s)`);
+    log('');
+
+    const indexed = store.lockups[address.toLowerCase()];
+    const history = buildHistory(indexed, beneficiary);
+
+    if (jsonOutput) {
+      reports.push({ lockup: indexed.address, token: tokenInfo, history });
+    } else {
+      printHistory(indexed.address, history, tokenInfo);
+      console.log('');
+    }
+  }
+
+  if (jsonOutput) {
+    printJson(reports);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
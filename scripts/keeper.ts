@@ -0,0 +1,162 @@
+import * as fs from 'fs';
+import { ethers } from 'hardhat';
+import {
+  MAX_RETRY_DELAY,
+  ReleaseKeeper,
+  loadKeeperConfig,
+  type KeeperEvent,
+  type KeeperTarget,
+} from './lib/keeper';
+import { formatTokenAmount, loadLockupToken, parseTokenAmount } from './lib/token';
+
+/**
+ * Long-running release keeper (for a server or container, unlike the interactive release-helper)
+ * Usage: KEEPER_CONFIG=keeper.json npx hardhat run scripts/keeper.ts --network amoy
+ *
+ * Every pollInterval seconds each configured lockup is checked, and a release is sent once its
+ * releasable amount reaches the lockup's minAmount. Releases that stay pending are re-sent with
+ * higher fees; failing lockups are retried with a growing delay. The signer must be the
+ * beneficiary or an operator of every lockup, and should not be used by anything else meanwhile.
+ * Stop with Ctrl+C (SIGINT) or SIGTERM; the current tick finishes first.
+ *
+ * Config file (minAmount in token units; settings other than lockups are optional):
+ *   {
+ *     "pollInterval": 300, "bumpAfter": 180, "bumpPercent": 20, "maxFeeGwei": 500, "retryDelay": 60,
+ *     "lockups": [{ "address": "0x...", "minAmount": "100", "recipient": "0x..." }]
+ *   }
+ *
+ * Optional:
+ *   KEEPER_LOG  - File that receives every event as a JSON line
+ *   KEEPER_ONCE - "true" to check every lockup once, wait until its releases are mined, and exit
+ *                 (e.g. from cron)
+ */
+
+// Seconds between checks of pending releases with KEEPER_ONCE
+const CONFIRMATION_POLL_INTERVAL = 5;
+
+const EVENT_ICONS: Record<KeeperEvent['level'], string> = {
+  info: 'ℹ️ ',
+  warn: '⚠️ ',
+  error: '❌',
+};
+
+function sleep(seconds: number, shouldStop: () => boolean): Promise<void> {
+  return new Promise((resolve) => {
+    const deadline = Date.now() + seconds * 1000;
+    const timer = setInterval(() => {
+      if (shouldStop() || Date.now() >= deadline) {
+        clearInterval(timer);
+        resolve();
+      }
+    }, 250);
+  });
+}
+
+async function main() {
+  const configFile = process.env.KEEPER_CONFIG;
+
+  if (!configFile) {
+    throw new Error('KEEPER_CONFIG environment variable is required');
+  }
+
+  const config = loadKeeperConfig(configFile);
+  const logFile = process.env.KEEPER_LOG;
+  const once = process.env.KEEPER_ONCE === 'true';
+
+  const [signer] = await ethers.getSigners();
+  console.log('=== Release Keeper ===');
+  console.log('Keeper Address:', signer.address);
+  console.log(
+    'Keeper Balance:',
+    ethers.formatEther(await ethers.provider.getBalance(signer.address))
+  );
+  console.log('Poll Interval:', `${config.pollInterval}s`);
+  console.log(
+    'Fee Bumping:',
+    `+${config.bumpPercent}% after ${config.bumpAfter}s`,
+    config.maxFeeGwei !== undefined ? `(cap ${config.maxFeeGwei} gwei)` : '(no cap)'
+  );
+  if (logFile) {
+    console.log('Log File:', logFile);
+  }
+  console.log('');
+
+  const targets: KeeperTarget[] = [];
+  for (const entry of config.lockups) {
+    const lockup = await ethers.getContractAt('SimpleLockup', entry.address, signer);
+    const token = await loadLockupToken(lockup, ethers.provider);
+    const target: KeeperTarget = {
+      lockup,
+      token,
+      minAmount: parseTokenAmount(entry.minAmount, token),
+      recipient: entry.recipient,
+    };
+    targets.push(target);
+    console.log(`🔒 ${entry.address}`);
+    console.log('   Minimum:', formatTokenAmount(target.minAmount, token));
+    if (entry.recipient) {
+      console.log('   Recipient:', entry.recipient);
+    }
+  }
+  console.log('─'.repeat(50));
+
+  const keeper = new ReleaseKeeper(
+    signer,
+    targets,
+    {
+      bumpAfter: config.bumpAfter,
+      bumpPercent: config.bumpPercent,
+      maxFeePerGas:
+        config.maxFeeGwei !== undefined
+          ? ethers.parseUnits(String(config.maxFeeGwei), 'gwei')
+          : undefined,
+      retryDelay: config.retryDelay,
+      maxRetryDelay: MAX_RETRY_DELAY,
+    },
+    (event) => {
+      const hash = event.hash ? ` (${event.hash})` : '';
+      console.log(
+        `${event.time} ${EVENT_ICONS[event.level]} ${event.lockup.slice(0, 10)} ${event.event}: ${event.message}${hash}`
+      );
+      if (logFile) {
+        fs.appendFileSync(logFile, `${JSON.stringify(event)}\n`);
+      }
+    }
+  );
+
+  let stopping = false;
+  const stop = () => {
+    if (!stopping) {
+      console.log('Stopping after the current tick...');
+    }
+    stopping = true;
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  for (;;) {
+    await keeper.tick();
+    if (stopping || (once && keeper.pendingCount === 0)) {
+      break;
+    }
+    await sleep(once ? CONFIRMATION_POLL_INTERVAL : config.pollInterval, () => stopping);
+    if (stopping) {
+      break;
+    }
+  }
+
+  if (keeper.pendingCount > 0) {
+    console.log(
+      `⚠️  ${keeper.pendingCount} release(s) still pending; they are picked up as unknown ` +
+        'transactions on the next start and must be mined before new releases are sent'
+    );
+  }
+  console.log('✅ Keeper stopped');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
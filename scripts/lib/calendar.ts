@@ -0,0 +1,231 @@
+import type { LockupStatus } from './lockup';
+import { buildPeriodBreakdown, type PeriodRow, type PeriodUnit } from './periods';
+import { formatTokenAmount, formatTokenUnits, type TokenMetadata } from './token';
+import { formatPercent, nextStepAt, vestedAt } from './vesting';
+
+/**
+ * Vesting calendar exports: an iCalendar (.ics) file of unlock dates and a CSV schedule
+ * Both cover the whole vesting duration in calendar periods (see periods.ts). Amounts are in
+ * token units using the token's decimals; timestamps in the files are UTC.
+ */
+
+export type CalendarEventKind = 'cliff' | 'unlock' | 'end';
+
+export interface CalendarEvent {
+  kind: CalendarEventKind;
+  timestamp: number;
+  vestedAmount: bigint;
+  unlockedAmount: bigint;
+}
+
+interface VestedPoint {
+  timestamp: number;
+  vestedAmount: bigint;
+}
+
+function withUnlocked(points: VestedPoint[]): (VestedPoint & { unlockedAmount: bigint })[] {
+  return points.map((point, index) => ({
+    ...point,
+    unlockedAmount: point.vestedAmount - (index > 0 ? points[index - 1].vestedAmount : 0n),
+  }));
+}
+
+/**
+ * Vested amount per calendar period from the start to the vesting end
+ */
+export function buildVestingSchedule(
+  status: LockupStatus,
+  unit: PeriodUnit,
+  timeZone: string
+): PeriodRow[] {
+  return buildPeriodBreakdown(status, {
+    unit,
+    timeZone,
+    from: Number(status.startTime),
+    to: Number(status.vestingEnd),
+  });
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Render schedule rows as CSV: period, first and last second, vested at the period end, vested
+ * during the period, vested share and token symbol
+ */
+export function toScheduleCsv(
+  rows: PeriodRow[],
+  status: LockupStatus,
+  token: TokenMetadata
+): string {
+  const lines = [['period', 'start', 'end', 'vested', 'unlocked', 'vested_percent', 'token']];
+  for (const row of rows) {
+    lines.push([
+      row.label,
+      isoDate(row.start),
+      isoDate(row.end),
+      formatTokenUnits(row.vestedAmount, token),
+      formatTokenUnits(row.deltaAmount, token),
+      formatPercent(row.vestedAmount, status.totalAmount, 2).replace('%', ''),
+      token.symbol,
+    ]);
+  }
+  return lines.map((line) => line.map(escapeCsv).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Dates worth a calendar entry: the cliff end, every unlock and the vesting end
+ * @param unit Reminder period for linear vesting (at the start of each period); periodic
+ *        lockups and custom schedules use their own step or checkpoint times
+ * @dev Amounts follow the original schedule. Unlock reminders that vest nothing (before the
+ *      cliff) are left out; for a revoked lockup so is every date that would vest more than
+ *      vestedAtRevoke, i.e. every date after the revocation, including the vesting end
+ */
+export function buildCalendarEvents(
+  status: LockupStatus,
+  unit: PeriodUnit,
+  timeZone: string
+): CalendarEvent[] {
+  const cliffEnd = Number(status.cliffEnd);
+  const vestingEnd = Number(status.vestingEnd);
+  // The original schedule, also for revoked lockups (whose vestedAt() is frozen at revocation)
+  const schedule = { ...status, revoked: false };
+
+  let unlockTimes: number[];
+  if (status.checkpoints.length > 0) {
+    unlockTimes = status.checkpoints.map((checkpoint) =>
+      Number(status.startTime + checkpoint.offset)
+    );
+  } else if (status.releaseInterval > 0n) {
+    unlockTimes = [];
+    for (let step = nextStepAt(schedule, status.startTime); step > 0n; ) {
+      unlockTimes.push(Number(step));
+      step = nextStepAt(schedule, step);
+    }
+  } else {
+    unlockTimes = buildVestingSchedule(status, unit, timeZone).map((row) => row.start);
+  }
+
+  const points = new Map<number, CalendarEventKind>();
+  for (const timestamp of unlockTimes) {
+    points.set(timestamp, 'unlock');
+  }
+  if (status.cliffDuration > 0n) {
+    points.set(cliffEnd, 'cliff');
+  }
+  points.set(vestingEnd, 'end');
+
+  const sorted = [...points.keys()].sort((a, b) => a - b);
+  const rows = withUnlocked(
+    sorted.map((timestamp) => ({ timestamp, vestedAmount: vestedAt(schedule, BigInt(timestamp)) }))
+  );
+
+  return rows
+    .map((row) => ({ ...row, kind: points.get(row.timestamp)! }))
+    .filter((event) => {
+      if (status.revoked && event.vestedAmount > status.vestedAtRevoke) return false;
+      return event.kind !== 'unlock' || event.unlockedAmount > 0n;
+    });
+}
+
+function isoDate(timestamp: number | bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+// iCalendar UTC date-time, e.g. 20250101T000000Z
+function icsDate(timestamp: number | bigint): string {
+  return isoDate(timestamp)
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1)
+function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    // The leading space counts toward a continuation line's 75 octets
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function eventSummary(event: CalendarEvent, token: TokenMetadata): string {
+  switch (event.kind) {
+    case 'cliff':
+      return `Vesting cliff ends (${formatTokenAmount(event.vestedAmount, token)} vested)`;
+    case 'end':
+      return `Vesting complete (${formatTokenAmount(event.vestedAmount, token)} vested)`;
+    default:
+      return `${formatTokenAmount(event.unlockedAmount, token)} unlocks`;
+  }
+}
+
+/**
+ * Render calendar events as an iCalendar document with a reminder on each event
+ * @param lockupAddress Used in descriptions and stable UIDs, so re-imports update events
+ */
+export function toIcs(
+  lockupAddress: string,
+  events: CalendarEvent[],
+  status: LockupStatus,
+  token: TokenMetadata
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//simple-lockup//vesting calendar//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeIcsText(`${token.symbol} vesting ${lockupAddress.slice(0, 10)}`)}`,
+  ];
+
+  for (const event of events) {
+    const description = [
+      `Lockup: ${lockupAddress}`,
+      `Vested: ${formatTokenAmount(event.vestedAmount, token)} of ${formatTokenAmount(status.totalAmount, token)} (${formatPercent(event.vestedAmount, status.totalAmount)})`,
+      `Unlocked since previous date: ${formatTokenAmount(event.unlockedAmount, token)}`,
+      'Claim with release-helper once the date has passed.',
+    ].join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.kind}-${event.timestamp}-${lockupAddress.toLowerCase()}@simple-lockup`,
+      `DTSTAMP:${icsDate(status.currentTime)}`,
+      `DTSTART:${icsDate(event.timestamp)}`,
+      'DURATION:PT15M',
+      `SUMMARY:${escapeIcsText(eventSummary(event, token))}`,
+      `DESCRIPTION:${escapeIcsText(description)}`,
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeIcsText(eventSummary(event, token))}`,
+      'TRIGGER:PT0S',
+      'END:VALARM',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Default export file names, e.g. vesting-0x1234abcd.ics and vesting-0x1234abcd.csv
+ */
+export function defaultCalendarFile(lockupAddress: string, extension: 'ics' | 'csv'): string {
+  return `vesting-${lockupAddress.slice(0, 10).toLowerCase()}.${extension}`;
+}
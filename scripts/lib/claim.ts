@@ -0,0 +1,101 @@
+import { isAddress, type ContractTransactionResponse } from 'ethers';
+import type { SimpleLockup } from '../../typechain-types';
+import { buildReleaseCall } from './lockup';
+
+/**
+ * Releases triggered by an operator (or the beneficiary) across many lockups
+ * Each target is checked with view calls first, so lockups that cannot be claimed are skipped
+ * without sending a transaction that would revert.
+ */
+
+export interface ClaimTarget {
+  lockup: string;
+  // Recipient approved by the beneficiary; undefined releases to the beneficiary
+  recipient?: string;
+}
+
+export interface ClaimPlan {
+  lockup: string;
+  beneficiary: string;
+  recipient: string;
+  releasable: bigint;
+  // Why the lockup is not claimed now; undefined when it can be claimed
+  skipReason?: string;
+}
+
+/**
+ * Parse a comma-separated list of "lockup" or "lockup:recipient" entries
+ * @throws Error naming the first malformed entry
+ */
+export function parseClaimTargets(input: string): ClaimTarget[] {
+  return input
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '')
+    .map((entry) => {
+      const [lockup, recipient, ...rest] = entry.split(':');
+      if (!isAddress(lockup) || (recipient !== undefined && !isAddress(recipient)) || rest.length) {
+        throw new Error(`Invalid claim target "${entry}" (use 0xLockup or 0xLockup:0xRecipient)`);
+      }
+      return recipient !== undefined ? { lockup, recipient } : { lockup };
+    });
+}
+
+/**
+ * Check whether `caller` can release a lockup now, and to whom
+ * @param caller Operator or beneficiary that sends the release
+ * @param recipient Recipient to release to (default: the beneficiary)
+ */
+export async function planClaim(
+  lockup: SimpleLockup,
+  caller: string,
+  recipient?: string
+): Promise<ClaimPlan> {
+  const [lockupAddress, info, beneficiary] = await Promise.all([
+    lockup.getAddress(),
+    lockup.lockupInfo(),
+    lockup.beneficiary(),
+  ]);
+  const plan: ClaimPlan = {
+    lockup: lockupAddress,
+    beneficiary,
+    recipient: recipient ?? beneficiary,
+    releasable: 0n,
+  };
+
+  if (info.totalAmount === 0n) {
+    return { ...plan, skipReason: 'No lockup found' };
+  }
+
+  const isBeneficiary = caller.toLowerCase() === beneficiary.toLowerCase();
+  if (!isBeneficiary && !(await lockup.isOperator(caller))) {
+    return { ...plan, skipReason: `Not an operator of beneficiary ${beneficiary}` };
+  }
+  if (
+    !isBeneficiary &&
+    plan.recipient.toLowerCase() !== beneficiary.toLowerCase() &&
+    !(await lockup.isApprovedRecipient(plan.recipient))
+  ) {
+    return {
+      ...plan,
+      skipReason: `Recipient ${plan.recipient} is not approved by the beneficiary`,
+    };
+  }
+
+  const releasable = await lockup.releasableAmount();
+  if (releasable === 0n) {
+    return { ...plan, skipReason: 'Nothing releasable' };
+  }
+  return { ...plan, releasable };
+}
+
+/**
+ * Release everything releasable according to a plan without skipReason
+ * @param lockup Lockup connected to the operator or beneficiary
+ */
+export function sendClaim(
+  lockup: SimpleLockup,
+  plan: ClaimPlan
+): Promise<ContractTransactionResponse> {
+  return buildReleaseCall(lockup, plan.beneficiary, plan.recipient).send();
+}
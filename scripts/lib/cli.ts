@@ -0,0 +1,48 @@
+import * as readline from 'readline';
+
+/**
+ * Shared command-line helpers for the `lockup` task tree
+ */
+
+/**
+ * Prompt for a single line of input
+ * @dev Prompts are written to stderr so --json output on stdout stays parseable
+ */
+export function ask(prompt: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+  return new Promise((resolve) => {
+    rl.question(prompt, (answer) => {
+      rl.close();
+      resolve(answer);
+    });
+  });
+}
+
+/**
+ * Ask a yes/no question, skipped (answered yes) when `yes` is set
+ */
+export async function confirm(prompt: string, yes: boolean): Promise<boolean> {
+  if (yes) {
+    return true;
+  }
+  const answer = (await ask(`${prompt} (yes/no): `)).trim().toLowerCase();
+  return answer === 'yes' || answer === 'y';
+}
+
+/**
+ * Serialize a value as JSON, encoding bigints as decimal strings
+ */
+export function toJson(value: unknown): string {
+  return JSON.stringify(
+    value,
+    (_key, item) => (typeof item === 'bigint' ? item.toString() : item),
+    2
+  );
+}
+
+/**
+ * Print a value as a single JSON document on stdout
+ */
+export function printJson(value: unknown): void {
+  console.log(toJson(value));
+}
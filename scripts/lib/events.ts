@@ -0,0 +1,318 @@
+import * as fs from 'fs';
+import { Interface, type Provider, type Result } from 'ethers';
+import type { SimpleLockup } from '../../typechain-types';
+import { TokenMetadata, formatTokenAmount } from './token';
+
+/**
+ * Lockup event indexer
+ * Scans TokensLocked / LockupToppedUp / TokensReleased / LockupRevoked / BeneficiaryChanged logs in
+ * chunked getLogs ranges and keeps them in a local JSON store. Each lockup remembers its last
+ * indexed block, so reruns only catch up on new blocks.
+ */
+
+// Version 2 added BeneficiaryChanged; older stores are indexed again from scratch
+export const EVENT_STORE_VERSION = 2;
+
+export type LockupEventType =
+  | 'TokensLocked'
+  | 'LockupToppedUp'
+  | 'TokensReleased'
+  | 'LockupRevoked'
+  | 'BeneficiaryChanged';
+
+const LOCKUP_EVENTS: LockupEventType[] = [
+  'TokensLocked',
+  'LockupToppedUp',
+  'TokensReleased',
+  'LockupRevoked',
+  'BeneficiaryChanged',
+];
+
+// Lockups deployed before releaseTo() emit TokensReleased without a recipient
+const LEGACY_INTERFACE = new Interface([
+  'event TokensReleased(address indexed beneficiary, uint256 amount)',
+]);
+
+export interface IndexedEvent {
+  type: LockupEventType;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+  // Beneficiary at the time of the event (the previous one for BeneficiaryChanged)
+  beneficiary: string;
+  // TokensReleased only: address that received the tokens
+  recipient?: string;
+  // BeneficiaryChanged only: address that became the beneficiary
+  newBeneficiary?: string;
+  // Locked, added, released or refunded amount in token base units (0 for BeneficiaryChanged)
+  amount: string;
+}
+
+export interface IndexedLockup {
+  address: string;
+  deploymentBlock: number;
+  lastIndexedBlock: number;
+  events: IndexedEvent[];
+}
+
+export interface EventStore {
+  version: number;
+  chainId: string;
+  lockups: Record<string, IndexedLockup>;
+}
+
+export interface HistoryEntry extends IndexedEvent {
+  totalLocked: bigint;
+  totalReleased: bigint;
+  totalRefunded: bigint;
+  // Tokens still held for the beneficiary: locked - released - refunded
+  remaining: bigint;
+}
+
+export interface IndexOptions {
+  // Blocks per getLogs request (halved automatically when the RPC rejects a range)
+  chunkSize: number;
+  // Last block to index (inclusive)
+  toBlock: number;
+  // Deployment block; discovered with a getCode binary search when omitted
+  fromBlock?: number;
+  // Called after every indexed chunk, e.g. to persist the store
+  onChunk?: (indexed: IndexedLockup, toBlock: number) => void;
+}
+
+/**
+ * Load the event store, or create an empty one
+ * A store from an older version is replaced by an empty one, so every lockup is indexed again.
+ * @throws Error if the store was built for another chain or by a newer version
+ */
+export function loadEventStore(storePath: string, chainId: bigint): EventStore {
+  if (!fs.existsSync(storePath)) {
+    return { version: EVENT_STORE_VERSION, chainId: chainId.toString(), lockups: {} };
+  }
+
+  const store: EventStore = JSON.parse(fs.readFileSync(storePath, 'utf8'));
+  if (store.version > EVENT_STORE_VERSION) {
+    throw new Error(`Unsupported event store version ${store.version} in ${storePath}`);
+  }
+  if (store.chainId !== chainId.toString()) {
+    throw new Error(`Event store ${storePath} belongs to chain ${store.chainId}, not ${chainId}`);
+  }
+  if (store.version < EVENT_STORE_VERSION) {
+    return { version: EVENT_STORE_VERSION, chainId: store.chainId, lockups: {} };
+  }
+  return store;
+}
+
+/**
+ * Write the event store atomically
+ */
+export function saveEventStore(storePath: string, store: EventStore): void {
+  // Write to a temporary file first so an interrupted run never leaves a truncated file
+  const tmpPath = `${storePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(store, null, 2) + '\n');
+  fs.renameSync(tmpPath, storePath);
+}
+
+/**
+ * Find the block a contract was deployed in
+ * @dev Binary search over getCode; needs an RPC that serves historical state
+ */
+export async function findDeploymentBlock(
+  provider: Provider,
+  address: string,
+  latestBlock: number
+): Promise<number> {
+  if ((await provider.getCode(address, latestBlock)) === '0x') {
+    throw new Error(`No contract code found at ${address}`);
+  }
+
+  let low = 0;
+  let high = latestBlock;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if ((await provider.getCode(address, middle)) === '0x') {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+// Beneficiary, recipient and amount of a parsed lockup event
+function eventFields(
+  type: LockupEventType,
+  args: Result
+): Pick<IndexedEvent, 'beneficiary' | 'recipient' | 'newBeneficiary' | 'amount'> {
+  switch (type) {
+    case 'BeneficiaryChanged':
+      return {
+        beneficiary: args.previousBeneficiary,
+        newBeneficiary: args.newBeneficiary,
+        amount: '0',
+      };
+    case 'TokensReleased':
+      return {
+        beneficiary: args.beneficiary,
+        recipient: args.recipient ?? args.beneficiary,
+        amount: args.amount.toString(),
+      };
+    case 'LockupRevoked':
+      return { beneficiary: args.beneficiary, amount: args.refundAmount.toString() };
+    default:
+      return { beneficiary: args.beneficiary, amount: args.amount.toString() };
+  }
+}
+
+/**
+ * Index new lockup events into the store, from the last indexed block up to options.toBlock
+ * @return Number of new events
+ */
+export async function indexLockup(
+  lockup: SimpleLockup,
+  store: EventStore,
+  options: IndexOptions
+): Promise<number> {
+  const provider = lockup.runner!.provider!;
+  const address = await lockup.getAddress();
+  const key = address.toLowerCase();
+
+  let indexed = store.lockups[key];
+  if (!indexed) {
+    const deploymentBlock =
+      options.fromBlock ?? (await findDeploymentBlock(provider, address, options.toBlock));
+    indexed = { address, deploymentBlock, lastIndexedBlock: deploymentBlock - 1, events: [] };
+    store.lockups[key] = indexed;
+  }
+
+  const timestamps = new Map<number, number>();
+  let chunkSize = options.chunkSize;
+  let fromBlock = indexed.lastIndexedBlock + 1;
+  let newEvents = 0;
+
+  while (fromBlock <= options.toBlock) {
+    const toBlock = Math.min(fromBlock + chunkSize - 1, options.toBlock);
+
+    let logs;
+    try {
+      logs = await provider.getLogs({ address, fromBlock, toBlock });
+    } catch (error) {
+      // Most RPCs cap the range or result size of eth_getLogs
+      if (chunkSize === 1) throw error;
+      chunkSize = Math.max(1, Math.floor(chunkSize / 2));
+      continue;
+    }
+
+    for (const log of logs) {
+      const parsed = lockup.interface.parseLog(log) ?? LEGACY_INTERFACE.parseLog(log);
+      if (!parsed || !LOCKUP_EVENTS.includes(parsed.name as LockupEventType)) continue;
+
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await provider.getBlock(log.blockNumber);
+        timestamps.set(log.blockNumber, block!.timestamp);
+      }
+
+      indexed.events.push({
+        type: parsed.name as LockupEventType,
+        blockNumber: log.blockNumber,
+        logIndex: log.index,
+        transactionHash: log.transactionHash,
+        timestamp: timestamps.get(log.blockNumber)!,
+        ...eventFields(parsed.name as LockupEventType, parsed.args),
+      });
+      newEvents++;
+    }
+
+    indexed.lastIndexedBlock = toBlock;
+    options.onChunk?.(indexed, toBlock);
+    fromBlock = toBlock + 1;
+  }
+
+  indexed.events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  return newEvents;
+}
+
+/**
+ * Chronological history of a lockup with running totals
+ * @param beneficiary Only include events for this beneficiary (optional); beneficiary changes
+ *        to or from it are included, and totals still cover the whole lockup
+ */
+export function buildHistory(indexed: IndexedLockup, beneficiary?: string): HistoryEntry[] {
+  let totalLocked = 0n;
+  let totalReleased = 0n;
+  let totalRefunded = 0n;
+
+  const history = indexed.events.map((event) => {
+    const amount = BigInt(event.amount);
+    if (event.type === 'TokensLocked' || event.type === 'LockupToppedUp') totalLocked += amount;
+    if (event.type === 'TokensReleased') totalReleased += amount;
+    if (event.type === 'LockupRevoked') totalRefunded += amount;
+
+    return {
+      ...event,
+      totalLocked,
+      totalReleased,
+      totalRefunded,
+      remaining: totalLocked - totalReleased - totalRefunded,
+    };
+  });
+
+  return history.filter(
+    (entry) =>
+      !beneficiary ||
+      [entry.beneficiary, entry.newBeneficiary].some(
+        (address) => address?.toLowerCase() === beneficiary.toLowerCase()
+      )
+  );
+}
+
+const EVENT_LABELS: Record<LockupEventType, string> = {
+  TokensLocked: '🔒 Locked',
+  LockupToppedUp: '➕ Topped up',
+  TokensReleased: '🔓 Released',
+  LockupRevoked: '⛔ Revoked',
+  BeneficiaryChanged: '🔁 Beneficiary changed',
+};
+
+/**
+ * Print a lockup history as an audit trail
+ */
+export function printHistory(
+  address: string,
+  history: HistoryEntry[],
+  tokenInfo: TokenMetadata
+): void {
+  console.log('📜 Lockup History:', address);
+  console.log('─'.repeat(70));
+
+  if (history.length === 0) {
+    console.log('No events found');
+    console.log('─'.repeat(70));
+    return;
+  }
+
+  for (const entry of history) {
+    const date = new Date(entry.timestamp * 1000).toISOString();
+    if (entry.type === 'BeneficiaryChanged') {
+      console.log(`${date}  ${EVENT_LABELS[entry.type]}`);
+      console.log(`  ${entry.beneficiary} → ${entry.newBeneficiary}`);
+      console.log(`  Block ${entry.blockNumber}, tx ${entry.transactionHash}`);
+      continue;
+    }
+
+    console.log(
+      `${date}  ${EVENT_LABELS[entry.type]} ${formatTokenAmount(BigInt(entry.amount), tokenInfo)}`
+    );
+    console.log(`  Beneficiary: ${entry.beneficiary}`);
+    if (entry.recipient && entry.recipient !== entry.beneficiary) {
+      console.log(`  Recipient: ${entry.recipient}`);
+    }
+    console.log(`  Block ${entry.blockNumber}, tx ${entry.transactionHash}`);
+    console.log(
+      `  Total released: ${formatTokenAmount(entry.totalReleased, tokenInfo)}, remaining: ${formatTokenAmount(entry.remaining, tokenInfo)}`
+    );
+  }
+
+  console.log('─'.repeat(70));
+}
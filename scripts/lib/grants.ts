@@ -0,0 +1,410 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ZeroAddress,
+  getAddress,
+  isAddress,
+  isError,
+  type Provider,
+  type TransactionReceipt,
+} from 'ethers';
+import type { SimpleLockupFactory } from '../../typechain-types';
+
+/**
+ * Grant sheet parsing and validation for batch lockup creation
+ *
+ * Accepted formats:
+ * - CSV with a header row: beneficiary,amount,cliff,vesting,revocable
+ *   plus an optional interval column (release interval for step vesting, empty or 0 for linear)
+ * - JSON array of objects with the same keys
+ *
+ * Durations are in seconds. Amounts are in whole tokens (decimal strings allowed).
+ * CSV fields may be quoted ("...", with "" for a literal quote), e.g. for a label column.
+ */
+
+export interface Grant {
+  row: number; // Line number in a CSV file (header = line 1), array position (1-based) in JSON
+  beneficiary: string;
+  amount: bigint;
+  amountText: string;
+  cliffDuration: number;
+  vestingDuration: number;
+  releaseInterval: number; // 0 for per-second linear vesting
+  revocable: boolean;
+}
+
+export interface GrantRules {
+  maxVestingDuration: number;
+  // Addresses that can never be beneficiaries (e.g. the lockup or factory contract)
+  forbiddenBeneficiaries: string[];
+}
+
+type RawGrant = Record<string, string | number | boolean | undefined>;
+
+const REQUIRED_COLUMNS = ['beneficiary', 'amount', 'cliff', 'vesting', 'revocable'];
+
+// Split one CSV line into fields, honouring quoted fields that contain commas or quotes
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let index = 0;
+
+  for (;;) {
+    let field = '';
+    if (line[index] === '"') {
+      index++;
+      for (;;) {
+        if (index >= line.length) {
+          throw new Error(`Unterminated quoted field in CSV line: ${line}`);
+        }
+        if (line[index] === '"') {
+          if (line[index + 1] !== '"') break;
+          index++;
+        }
+        field += line[index++];
+      }
+      index++;
+      const rest = line.indexOf(',', index);
+      const trailing = line.slice(index, rest === -1 ? undefined : rest);
+      if (trailing.trim() !== '') {
+        throw new Error(`Unexpected text after a quoted field in CSV line: ${line}`);
+      }
+      index = rest === -1 ? line.length : rest;
+    } else {
+      const rest = line.indexOf(',', index);
+      field = line.slice(index, rest === -1 ? undefined : rest);
+      index = rest === -1 ? line.length : rest;
+    }
+
+    fields.push(field.trim());
+    if (index >= line.length) return fields;
+    index++; // Skip the comma
+    while (line[index] === ' ' || line[index] === '\t') index++;
+  }
+}
+
+interface RawRow {
+  row: number;
+  raw: RawGrant;
+}
+
+// Rows keep their physical line number, so errors point at the line in the user's file
+function parseCsv(content: string): RawRow[] {
+  const lines = content
+    .split(/\r?\n/)
+    .map((text, index) => ({ row: index + 1, text: text.trim() }))
+    .filter(({ text }) => text.length > 0 && !text.startsWith('#'));
+
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const splitLine = ({ row, text }: { row: number; text: string }) => {
+    try {
+      return splitCsvLine(text);
+    } catch (error) {
+      throw new Error(`Line ${row}: ${(error as Error).message}`);
+    }
+  };
+
+  const header = splitLine(lines[0]).map((column) => column.toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter((column) => !header.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`Grant sheet is missing column(s): ${missing.join(', ')}`);
+  }
+
+  return lines.slice(1).map((line) => {
+    const values = splitLine(line);
+    const raw: RawGrant = {};
+    header.forEach((column, index) => {
+      raw[column] = values[index];
+    });
+    return { row: line.row, raw };
+  });
+}
+
+function parseBoolean(value: string | number | boolean | undefined): boolean | null {
+  const normalized = String(value ?? '')
+    .trim()
+    .toLowerCase();
+  if (['true', 'yes', 'y', '1'].includes(normalized)) return true;
+  if (['false', 'no', 'n', '0'].includes(normalized)) return false;
+  return null;
+}
+
+function parseSeconds(value: string | number | boolean | undefined): number | null {
+  const normalized = String(value ?? '').trim();
+  if (!/^\d+$/.test(normalized)) return null;
+  return Number(normalized);
+}
+
+/**
+ * Load a grant sheet from a CSV or JSON file
+ * @param filePath Path to the grant sheet (.csv or .json)
+ * @param parseAmount Converts an amount string to token base units
+ * @throws Error with every malformed row listed if the sheet cannot be parsed
+ */
+export function loadGrantSheet(filePath: string, parseAmount: (value: string) => bigint): Grant[] {
+  const content = fs.readFileSync(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+
+  let rawRows: RawRow[];
+  if (extension === '.json') {
+    const parsed = JSON.parse(content);
+    if (!Array.isArray(parsed)) {
+      throw new Error('JSON grant sheet must be an array of grant objects');
+    }
+    rawRows = parsed.map((raw: RawGrant, index) => ({ row: index + 1, raw }));
+  } else if (extension === '.csv') {
+    rawRows = parseCsv(content);
+  } else {
+    throw new Error(`Unsupported grant sheet format: ${extension} (expected .csv or .json)`);
+  }
+
+  const grants: Grant[] = [];
+  const errors: string[] = [];
+
+  rawRows.forEach(({ row, raw }) => {
+    const beneficiary = String(raw.beneficiary ?? '').trim();
+    const amountText = String(raw.amount ?? '').trim();
+    const cliffDuration = parseSeconds(raw.cliff);
+    const vestingDuration = parseSeconds(raw.vesting);
+    const releaseInterval =
+      raw.interval === undefined || raw.interval === '' ? 0 : parseSeconds(raw.interval);
+    const revocable = parseBoolean(raw.revocable);
+
+    let amount: bigint | null = null;
+    try {
+      amount = parseAmount(amountText);
+    } catch {
+      errors.push(`Row ${row}: invalid amount "${amountText}"`);
+    }
+    if (cliffDuration === null) errors.push(`Row ${row}: invalid cliff "${raw.cliff}"`);
+    if (vestingDuration === null) errors.push(`Row ${row}: invalid vesting "${raw.vesting}"`);
+    if (releaseInterval === null) errors.push(`Row ${row}: invalid interval "${raw.interval}"`);
+    if (revocable === null) errors.push(`Row ${row}: invalid revocable "${raw.revocable}"`);
+
+    if (
+      amount !== null &&
+      cliffDuration !== null &&
+      vestingDuration !== null &&
+      releaseInterval !== null &&
+      revocable !== null
+    ) {
+      grants.push({
+        row,
+        beneficiary,
+        amount,
+        amountText,
+        cliffDuration,
+        vestingDuration,
+        releaseInterval,
+        revocable,
+      });
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Grant sheet could not be parsed:\n  ${errors.join('\n  ')}`);
+  }
+
+  return grants;
+}
+
+/**
+ * Validate a grant against the rules enforced by SimpleLockup.createLockup() / createPeriodicLockup()
+ * @return List of validation errors (empty if the grant is valid)
+ */
+export function validateGrant(grant: Grant, rules: GrantRules): string[] {
+  const errors: string[] = [];
+
+  if (!isAddress(grant.beneficiary)) {
+    errors.push('beneficiary is not a valid address');
+  } else {
+    const beneficiary = getAddress(grant.beneficiary);
+    if (beneficiary === ZeroAddress) {
+      errors.push('beneficiary cannot be the zero address');
+    }
+    if (rules.forbiddenBeneficiaries.some((address) => getAddress(address) === beneficiary)) {
+      errors.push('beneficiary cannot be the lockup or factory contract');
+    }
+  }
+
+  if (grant.amount <= 0n) {
+    errors.push('amount must be greater than 0');
+  }
+  if (grant.vestingDuration <= 0) {
+    errors.push('vesting duration must be greater than 0');
+  }
+  if (grant.cliffDuration >= grant.vestingDuration) {
+    errors.push('cliff duration must be shorter than vesting duration');
+  }
+  if (grant.releaseInterval > grant.vestingDuration) {
+    errors.push('release interval cannot be longer than vesting duration');
+  }
+  if (grant.vestingDuration > rules.maxVestingDuration) {
+    errors.push(`vesting duration exceeds MAX_VESTING_DURATION (${rules.maxVestingDuration}s)`);
+  }
+
+  return errors;
+}
+
+/**
+ * Results file of a batch run, for resuming after an interruption
+ * A row is recorded as pending with its sender and nonce before waiting for the transaction,
+ * and as created once the LockupDeployed event is confirmed.
+ */
+
+export interface GrantResult {
+  row: number;
+  beneficiary: string;
+  amount: string;
+  status: 'pending' | 'created';
+  txHash: string;
+  // Sender and nonce of the transaction, to tell a dropped transaction from a replaced one
+  from?: string;
+  nonce?: number;
+  lockup?: string;
+  blockNumber?: number;
+}
+
+export interface ResultsFile {
+  factory: string;
+  grantsFile: string;
+  results: GrantResult[];
+}
+
+/**
+ * Outcome of a pending row from a previous run
+ * - created: the lockup exists (from this transaction or a replacement with the same nonce)
+ * - failed: the transaction reverted or its nonce went to another transaction; safe to send again
+ * - unsent: the nonce is still unused; send again with the same nonce so only one can be mined
+ * - unknown: still in the mempool after the timeout, or no sender/nonce recorded to decide;
+ *   the row stays pending
+ */
+export type PendingResolution =
+  | { status: 'created'; lockup: string; blockNumber?: number }
+  | { status: 'failed' }
+  | { status: 'unsent'; nonce: number }
+  | { status: 'unknown'; reason: string };
+
+export interface PendingWaitOptions {
+  // Confirmations a pending transaction needs (default: 1)
+  confirmations?: number;
+  // How long to wait for a transaction still in the mempool, in milliseconds (default: 2 minutes)
+  timeoutMs?: number;
+}
+
+const DEFAULT_PENDING_TIMEOUT_MS = 120_000;
+
+/**
+ * Load the results of a previous run, or start a new results file
+ * @throws Error if the results file belongs to another factory
+ */
+export function loadResults(
+  resultsPath: string,
+  factoryAddress: string,
+  grantsFile: string
+): ResultsFile {
+  if (!fs.existsSync(resultsPath)) {
+    return { factory: factoryAddress, grantsFile, results: [] };
+  }
+
+  const existing: ResultsFile = JSON.parse(fs.readFileSync(resultsPath, 'utf8'));
+  if (existing.factory.toLowerCase() !== factoryAddress.toLowerCase()) {
+    throw new Error(
+      `Results file ${resultsPath} belongs to factory ${existing.factory}, not ${factoryAddress}`
+    );
+  }
+  return existing;
+}
+
+export function saveResults(resultsPath: string, results: ResultsFile): void {
+  results.results.sort((a, b) => a.row - b.row);
+  // Write to a temporary file first so an interrupted run never leaves a truncated file
+  const tmpPath = `${resultsPath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(results, null, 2) + '\n');
+  fs.renameSync(tmpPath, resultsPath);
+}
+
+/**
+ * Check that every recorded row still has the same beneficiary and amount in the grant sheet
+ * @throws Error naming the first row that changed since the previous run
+ */
+export function assertResultsMatchGrants(grants: Grant[], results: ResultsFile): void {
+  const resultByRow = new Map(results.results.map((result) => [result.row, result]));
+
+  for (const grant of grants) {
+    const result = resultByRow.get(grant.row);
+    if (
+      result &&
+      (result.beneficiary.toLowerCase() !== grant.beneficiary.toLowerCase() ||
+        result.amount !== grant.amount.toString())
+    ) {
+      throw new Error(
+        `Row ${grant.row} changed since the previous run (results file has ` +
+          `${result.beneficiary} / ${result.amount}). Use a new RESULTS_FILE for a new sheet.`
+      );
+    }
+  }
+}
+
+/**
+ * Find out what happened to a pending row's transaction
+ * A transaction the node does not know is only resent once its nonce is confirmed unused (and
+ * then with the same nonce); if the nonce was used by another transaction, the factory is checked
+ * for a lockup of the beneficiary that no other row recorded, so a grant is never created twice.
+ * @param knownLockups Lockups already recorded in the results file (lowercase)
+ */
+export async function resolvePendingResult(
+  provider: Provider,
+  factory: SimpleLockupFactory,
+  result: GrantResult,
+  knownLockups: Set<string>,
+  options: PendingWaitOptions = {}
+): Promise<PendingResolution> {
+  const confirmations = options.confirmations ?? 1;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_PENDING_TIMEOUT_MS;
+
+  const tx = await provider.getTransaction(result.txHash);
+  let receipt: TransactionReceipt | null = null;
+  if (tx) {
+    try {
+      // Waits while the transaction is still in the mempool
+      receipt = await tx.wait(confirmations, timeoutMs);
+    } catch (error) {
+      if (isError(error, 'TIMEOUT')) {
+        return {
+          status: 'unknown',
+          reason: `transaction still pending after ${timeoutMs / 1000}s`,
+        };
+      }
+      // A reverted transaction throws with its receipt
+      if (!isError(error, 'CALL_EXCEPTION')) throw error;
+      receipt = error.receipt ?? null;
+    }
+  }
+
+  if (receipt) {
+    const deployedEvent = receipt.logs
+      .map((log) => factory.interface.parseLog(log))
+      .find((parsed) => parsed?.name === 'LockupDeployed');
+    return receipt.status === 1 && deployedEvent
+      ? { status: 'created', lockup: deployedEvent.args.lockup, blockNumber: receipt.blockNumber }
+      : { status: 'failed' };
+  }
+
+  if (result.from === undefined || result.nonce === undefined) {
+    return {
+      status: 'unknown',
+      reason: 'no sender and nonce recorded to tell whether it was dropped',
+    };
+  }
+  if ((await provider.getTransactionCount(result.from, 'latest')) <= result.nonce) {
+    return { status: 'unsent', nonce: result.nonce };
+  }
+
+  // The nonce went to another transaction, e.g. a fee bump of this one
+  const lockups = await factory.getLockupsByBeneficiary(result.beneficiary);
+  const lockup = lockups.find((address) => !knownLockups.has(address.toLowerCase()));
+  return lockup ? { status: 'created', lockup } : { status: 'failed' };
+}
@@ -0,0 +1,477 @@
+import * as fs from 'fs';
+import { isAddress, type Provider, type Signer, type TransactionRequest } from 'ethers';
+import type { SimpleLockup } from '../../typechain-types';
+import { planClaim } from './claim';
+import { buildReleaseCall } from './lockup';
+import { formatTokenAmount, type TokenMetadata } from './token';
+
+/**
+ * Release keeper: claims vested tokens for a set of lockups without supervision
+ * Each tick compares releasableAmount() with the lockup's minimum and sends a release once it is
+ * reached. The keeper assigns nonces itself, follows every release until it is mined, re-sends
+ * transactions that stay pending with higher fees, and backs off after failures.
+ */
+
+export interface KeeperConfigEntry {
+  address: string;
+  // Minimum releasable amount in token units (e.g. "100.5") before a release is sent
+  minAmount: string;
+  // Recipient approved by the beneficiary; undefined releases to the beneficiary
+  recipient?: string;
+}
+
+export interface KeeperConfig {
+  // Seconds between ticks
+  pollInterval: number;
+  // Seconds a release may stay pending before it is re-sent with higher fees
+  bumpAfter: number;
+  // Fee increase per re-send in percent (nodes require at least 10)
+  bumpPercent: number;
+  // Upper limit for maxFeePerGas (or gasPrice) in gwei; undefined for no limit
+  maxFeeGwei?: number;
+  // Seconds to wait after a failure, doubled for every consecutive failure
+  retryDelay: number;
+  lockups: KeeperConfigEntry[];
+}
+
+export interface KeeperTarget {
+  // Lockup connected to the keeper signer
+  lockup: SimpleLockup;
+  token: TokenMetadata;
+  // Minimum releasable amount in base units
+  minAmount: bigint;
+  recipient?: string;
+}
+
+export interface KeeperOptions {
+  bumpAfter: number;
+  bumpPercent: number;
+  // Upper limit for maxFeePerGas (or gasPrice) in wei
+  maxFeePerGas?: bigint;
+  retryDelay: number;
+  // Upper limit for the doubled retry delay in seconds
+  maxRetryDelay: number;
+}
+
+export type KeeperEventType =
+  | 'idle'
+  | 'sent'
+  | 'bumped'
+  | 'fee-cap'
+  | 'released'
+  | 'reverted'
+  | 'replaced'
+  | 'failed';
+
+export interface KeeperEvent {
+  time: string;
+  level: 'info' | 'warn' | 'error';
+  event: KeeperEventType;
+  lockup: string;
+  message: string;
+  hash?: string;
+  nonce?: number;
+  // Base units
+  amount?: string;
+}
+
+export type KeeperLogger = (event: KeeperEvent) => void;
+
+export const DEFAULT_KEEPER_CONFIG: Omit<KeeperConfig, 'lockups'> = {
+  pollInterval: 300,
+  bumpAfter: 180,
+  bumpPercent: 20,
+  retryDelay: 60,
+};
+
+// Longest wait between retries of a failing lockup
+export const MAX_RETRY_DELAY = 3600;
+
+// Added to the gas estimate, since the releasable amount grows until the release is mined
+const GAS_LIMIT_MARGIN_PERCENT = 20n;
+
+// Smallest fee increase nodes accept for a transaction replacing one with the same nonce
+const MIN_REPLACEMENT_PERCENT = 10;
+
+type Fees = { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } | { gasPrice: bigint };
+
+interface PendingRelease {
+  nonce: number;
+  request: TransactionRequest;
+  fees: Fees;
+  // Every hash sent for this nonce; any of them may be mined
+  hashes: string[];
+  sentAt: number;
+}
+
+interface TargetState {
+  pending?: PendingRelease;
+  failures: number;
+  retryAt: number;
+  // Last idle reason, logged only when it changes
+  idleReason?: string;
+}
+
+function isNumberAtLeast(value: unknown, min: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min;
+}
+
+/**
+ * Read and validate a keeper config file
+ * Omitted settings fall back to DEFAULT_KEEPER_CONFIG.
+ * @throws Error naming the first invalid setting or lockup entry
+ */
+export function loadKeeperConfig(filePath: string): KeeperConfig {
+  const raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const config: KeeperConfig = { ...DEFAULT_KEEPER_CONFIG, ...raw };
+
+  if (!isNumberAtLeast(config.pollInterval, 1)) {
+    throw new Error(`Invalid pollInterval in ${filePath}: ${config.pollInterval}`);
+  }
+  for (const key of ['bumpAfter', 'retryDelay'] as const) {
+    if (!isNumberAtLeast(config[key], 0)) {
+      throw new Error(`Invalid ${key} in ${filePath}: ${config[key]}`);
+    }
+  }
+  if (!isNumberAtLeast(config.bumpPercent, MIN_REPLACEMENT_PERCENT)) {
+    throw new Error(
+      `bumpPercent must be at least ${MIN_REPLACEMENT_PERCENT} (nodes reject smaller replacements)`
+    );
+  }
+  if (
+    config.maxFeeGwei !== undefined &&
+    !(isNumberAtLeast(config.maxFeeGwei, 0) && config.maxFeeGwei > 0)
+  ) {
+    throw new Error(`Invalid maxFeeGwei in ${filePath}: ${config.maxFeeGwei}`);
+  }
+  if (!Array.isArray(config.lockups) || config.lockups.length === 0) {
+    throw new Error(`No lockups configured in ${filePath}`);
+  }
+
+  config.lockups.forEach((entry, index) => {
+    if (!isAddress(entry.address)) {
+      throw new Error(`Lockup ${index + 1}: invalid address ${entry.address}`);
+    }
+    if (!/^\d+(\.\d+)?$/.test(String(entry.minAmount ?? ''))) {
+      throw new Error(`Lockup ${index + 1}: invalid minAmount ${entry.minAmount}`);
+    }
+    if (entry.recipient !== undefined && !isAddress(entry.recipient)) {
+      throw new Error(`Lockup ${index + 1}: invalid recipient ${entry.recipient}`);
+    }
+  });
+  return config;
+}
+
+function scaleFee(fee: bigint, percent: number): bigint {
+  return (fee * BigInt(100 + percent)) / 100n;
+}
+
+/**
+ * Fees for a replacement: the old fees raised by `percent`, or the current fees if higher
+ * @return null if the cap leaves less than the increase nodes require for a replacement
+ */
+function bumpFees(old: Fees, current: Fees, percent: number, cap?: bigint): Fees | null {
+  const limit = (fee: bigint) => (cap !== undefined && fee > cap ? cap : fee);
+  const max = (a: bigint, b: bigint) => (a > b ? a : b);
+  const replaces = (fee: bigint, oldFee: bigint) =>
+    fee >= scaleFee(oldFee, MIN_REPLACEMENT_PERCENT);
+
+  if ('gasPrice' in old) {
+    const gasPrice = limit(max(scaleFee(old.gasPrice, percent), (current as typeof old).gasPrice));
+    return replaces(gasPrice, old.gasPrice) ? { gasPrice } : null;
+  }
+
+  const latest = current as typeof old;
+  const maxFeePerGas = limit(max(scaleFee(old.maxFeePerGas, percent), latest.maxFeePerGas));
+  const priority = max(scaleFee(old.maxPriorityFeePerGas, percent), latest.maxPriorityFeePerGas);
+  const maxPriorityFeePerGas = priority > maxFeePerGas ? maxFeePerGas : priority;
+  if (
+    !replaces(maxFeePerGas, old.maxFeePerGas) ||
+    !replaces(maxPriorityFeePerGas, old.maxPriorityFeePerGas)
+  ) {
+    return null;
+  }
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+function errorText(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Claims releases for a fixed set of lockups, one tick at a time
+ * @example
+ *   const keeper = new ReleaseKeeper(signer, targets, options, console.log);
+ *   while (running) { await keeper.tick(); await sleep(pollInterval); }
+ */
+export class ReleaseKeeper {
+  private readonly states = new Map<KeeperTarget, TargetState>();
+  private readonly provider: Provider;
+
+  /**
+   * @param signer Beneficiary or operator of every lockup; nothing else should send from it
+   */
+  constructor(
+    private readonly signer: Signer,
+    private readonly targets: KeeperTarget[],
+    private readonly options: KeeperOptions,
+    private readonly log: KeeperLogger,
+    // Wall clock in seconds; replaceable in tests
+    private readonly now: () => number = () => Math.floor(Date.now() / 1000)
+  ) {
+    if (!signer.provider) {
+      throw new Error('Keeper signer must be connected to a provider');
+    }
+    this.provider = signer.provider;
+    for (const target of targets) {
+      this.states.set(target, { failures: 0, retryAt: 0 });
+    }
+  }
+
+  /**
+   * Number of releases sent and not mined yet
+   */
+  get pendingCount(): number {
+    return [...this.states.values()].filter((state) => state.pending).length;
+  }
+
+  /**
+   * Check every lockup once: follow pending releases, send new ones that are due
+   * Errors are logged per lockup and never thrown.
+   */
+  async tick(): Promise<void> {
+    for (const target of this.targets) {
+      const state = this.states.get(target)!;
+      try {
+        if (state.pending) {
+          await this.followUp(target, state, state.pending);
+        } else if (this.now() >= state.retryAt) {
+          await this.claim(target, state);
+        }
+      } catch (error) {
+        this.fail(target, state, 'failed', errorText(error));
+      }
+    }
+  }
+
+  private emit(
+    target: KeeperTarget,
+    level: KeeperEvent['level'],
+    event: KeeperEventType,
+    message: string,
+    fields: Pick<KeeperEvent, 'hash' | 'nonce' | 'amount'> = {}
+  ): void {
+    this.log({
+      time: new Date(this.now() * 1000).toISOString(),
+      level,
+      event,
+      lockup: target.lockup.target as string,
+      message,
+      ...fields,
+    });
+  }
+
+  private idle(target: KeeperTarget, state: TargetState, reason: string): void {
+    if (state.idleReason !== reason) {
+      this.emit(target, 'info', 'idle', reason);
+      state.idleReason = reason;
+    }
+  }
+
+  private fail(
+    target: KeeperTarget,
+    state: TargetState,
+    event: KeeperEventType,
+    reason: string,
+    fields: Pick<KeeperEvent, 'hash' | 'nonce'> = {}
+  ): void {
+    state.failures++;
+    const delay = Math.min(
+      this.options.retryDelay * 2 ** (state.failures - 1),
+      this.options.maxRetryDelay
+    );
+    state.retryAt = this.now() + delay;
+    state.idleReason = undefined;
+    this.emit(
+      target,
+      'error',
+      event,
+      `${reason} (attempt ${state.failures}, retry in ${delay}s)`,
+      fields
+    );
+  }
+
+  private async currentFees(): Promise<Fees> {
+    const feeData = await this.provider.getFeeData();
+    const cap = this.options.maxFeePerGas;
+    if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+      const maxFeePerGas =
+        cap !== undefined && feeData.maxFeePerGas > cap ? cap : feeData.maxFeePerGas;
+      const maxPriorityFeePerGas =
+        feeData.maxPriorityFeePerGas > maxFeePerGas ? maxFeePerGas : feeData.maxPriorityFeePerGas;
+      return { maxFeePerGas, maxPriorityFeePerGas };
+    }
+    if (feeData.gasPrice === null) {
+      throw new Error('Network returned no fee data');
+    }
+    return { gasPrice: cap !== undefined && feeData.gasPrice > cap ? cap : feeData.gasPrice };
+  }
+
+  /**
+   * Next nonce: the node's pending count, but never one already used by a tracked release
+   * (the node may not have seen it yet)
+   */
+  private async nextNonce(address: string): Promise<number> {
+    const [mined, pending] = await Promise.all([
+      this.provider.getTransactionCount(address, 'latest'),
+      this.provider.getTransactionCount(address, 'pending'),
+    ]);
+    const tracked = [...this.states.values()]
+      .map((state) => state.pending?.nonce)
+      .filter((nonce): nonce is number => nonce !== undefined && nonce >= mined);
+
+    if (pending - mined > tracked.length) {
+      throw new Error(
+        `${pending - mined - tracked.length} pending transaction(s) from ${address} ` +
+          'were not sent by the keeper; waiting for them to be mined'
+      );
+    }
+    return Math.max(pending, ...tracked.map((nonce) => nonce + 1));
+  }
+
+  private async claim(target: KeeperTarget, state: TargetState): Promise<void> {
+    const address = await this.signer.getAddress();
+    const plan = await planClaim(target.lockup, address, target.recipient);
+    if (plan.skipReason) {
+      this.idle(target, state, plan.skipReason);
+      return;
+    }
+    if (plan.releasable < target.minAmount) {
+      this.idle(
+        target,
+        state,
+        `Below minimum (${formatTokenAmount(target.minAmount, target.token)})`
+      );
+      return;
+    }
+
+    const call = buildReleaseCall(target.lockup, plan.beneficiary, plan.recipient);
+    const [populated, gasEstimate, fees, nonce] = await Promise.all([
+      call.populate(),
+      call.estimateGas(),
+      this.currentFees(),
+      this.nextNonce(address),
+    ]);
+    const request: TransactionRequest = {
+      to: populated.to,
+      data: populated.data,
+      nonce,
+      gasLimit: (gasEstimate * (100n + GAS_LIMIT_MARGIN_PERCENT)) / 100n,
+    };
+
+    const tx = await this.signer.sendTransaction({ ...request, ...fees });
+    state.pending = { nonce, request, fees, hashes: [tx.hash], sentAt: this.now() };
+    state.idleReason = undefined;
+    this.emit(
+      target,
+      'info',
+      'sent',
+      `Releasing ${formatTokenAmount(plan.releasable, target.token)} to ${plan.recipient}`,
+      { hash: tx.hash, nonce, amount: plan.releasable.toString() }
+    );
+  }
+
+  private async followUp(
+    target: KeeperTarget,
+    state: TargetState,
+    pending: PendingRelease
+  ): Promise<void> {
+    // Read the mined nonce before the receipts, so a release mined in between is not
+    // mistaken for a replacement
+    const mined = await this.provider.getTransactionCount(await this.signer.getAddress(), 'latest');
+    for (const hash of pending.hashes) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (!receipt) {
+        continue;
+      }
+
+      state.pending = undefined;
+      if (receipt.status !== 1) {
+        this.fail(target, state, 'reverted', `Release ${hash} reverted`, {
+          hash,
+          nonce: pending.nonce,
+        });
+        return;
+      }
+
+      const released = receipt.logs
+        .map((log) => target.lockup.interface.parseLog(log))
+        .find((parsed) => parsed?.name === 'TokensReleased');
+      const amount: bigint = released?.args.amount ?? 0n;
+      state.failures = 0;
+      state.retryAt = 0;
+      this.emit(target, 'info', 'released', `Released ${formatTokenAmount(amount, target.token)}`, {
+        hash,
+        nonce: pending.nonce,
+        amount: amount.toString(),
+      });
+      return;
+    }
+
+    if (mined > pending.nonce) {
+      // Nonce used by a transaction the keeper did not send
+      state.pending = undefined;
+      this.emit(
+        target,
+        'warn',
+        'replaced',
+        `Nonce ${pending.nonce} was used by another transaction`,
+        {
+          nonce: pending.nonce,
+        }
+      );
+      return;
+    }
+
+    if (this.now() - pending.sentAt < this.options.bumpAfter) {
+      return;
+    }
+    await this.bump(target, pending);
+  }
+
+  private async bump(target: KeeperTarget, pending: PendingRelease): Promise<void> {
+    const address = await this.signer.getAddress();
+    const fees = bumpFees(
+      pending.fees,
+      await this.currentFees(),
+      this.options.bumpPercent,
+      this.options.maxFeePerGas
+    );
+    pending.sentAt = this.now();
+    if (!fees) {
+      this.emit(target, 'warn', 'fee-cap', `Pending at the fee cap, not re-sent`, {
+        hash: pending.hashes[pending.hashes.length - 1],
+        nonce: pending.nonce,
+      });
+      return;
+    }
+
+    let tx;
+    try {
+      tx = await this.signer.sendTransaction({ ...pending.request, ...fees });
+    } catch (error) {
+      // Mined since the receipts were checked; the next tick picks up the receipt
+      if ((await this.provider.getTransactionCount(address, 'latest')) > pending.nonce) {
+        return;
+      }
+      throw error;
+    }
+    pending.hashes.push(tx.hash);
+    pending.fees = fees;
+    const fee = 'gasPrice' in fees ? fees.gasPrice : fees.maxFeePerGas;
+    this.emit(target, 'info', 'bumped', `Re-sent with max fee ${fee} wei`, {
+      hash: tx.hash,
+      nonce: pending.nonce,
+    });
+  }
+}
@@ -0,0 +1,765 @@
+import { ContractTransaction, ContractTransactionResponse, ZeroAddress, isAddress } from 'ethers';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { MultiLockup, SimpleLockup } from '../../typechain-types';
+import {
+  DEFAULT_TIME_ZONE,
+  PeriodRange,
+  PeriodRow,
+  PeriodUnit,
+  buildPeriodBreakdown,
+  parsePeriodUnit,
+  parseRangeTime,
+  parseTimeZone,
+} from './periods';
+import { TokenMetadata, formatTokenAmount, formatTokenUnits, loadLockupToken } from './token';
+import {
+  BASIS_POINTS,
+  VestingCheckpoint,
+  VestingSchedule,
+  formatPercent,
+  nextStepAt,
+  progressAt,
+  releasableAt,
+  remainingAt,
+  toVestingSchedule,
+  vestedAt,
+} from './vesting';
+
+/**
+ * Shared lockup loading, status and timeline logic
+ * Used by the hardhat run scripts and the `lockup` task tree. This module must not import
+ * the hardhat runtime directly, since tasks are loaded while the config is being resolved.
+ */
+
+export type HardhatEthers = HardhatRuntimeEnvironment['ethers'];
+
+export interface LockupContext {
+  address: string;
+  lockup: SimpleLockup;
+  tokenInfo: TokenMetadata;
+}
+
+export interface LockupStatus {
+  exists: boolean;
+  beneficiary: string;
+  owner: string;
+  totalAmount: bigint;
+  releasedAmount: bigint;
+  vestedAmount: bigint;
+  releasableAmount: bigint;
+  vestingProgress: bigint;
+  remainingTime: bigint;
+  startTime: bigint;
+  cliffDuration: bigint;
+  vestingDuration: bigint;
+  // Step length in seconds, 0 for per-second linear vesting
+  releaseInterval: bigint;
+  // Share unlocked at the cliff end in basis points (0 for none)
+  cliffUnlockBps: bigint;
+  // Next step unlock of a periodic lockup (0 for linear, revoked or fully vested lockups)
+  nextStepTime: bigint;
+  // Custom schedule checkpoints (empty for linear and periodic lockups)
+  checkpoints: readonly VestingCheckpoint[];
+  cliffEnd: bigint;
+  vestingEnd: bigint;
+  revocable: boolean;
+  revoked: boolean;
+  vestedAtRevoke: bigint;
+  // Beneficiary rotation state (zero address / 0 when nothing is pending)
+  pendingBeneficiary: string;
+  recoveryBeneficiary: string;
+  recoveryEta: bigint;
+  currentTime: bigint;
+}
+
+export type LockupTotals = Pick<
+  LockupStatus,
+  'totalAmount' | 'releasedAmount' | 'vestedAmount' | 'releasableAmount'
+>;
+
+export interface TimelinePoint {
+  label: string;
+  timestamp: number;
+  vestedAmount: bigint;
+}
+
+export interface Timeline {
+  milestones: TimelinePoint[];
+  // Vested amount every 30 days (M1..M12) for vesting longer than 90 days
+  monthly: TimelinePoint[];
+  // Calendar breakdown with per-period change over `range`
+  range: PeriodRange;
+  periods: PeriodRow[];
+  // Step boundaries of periodic lockups (empty for linear vesting)
+  steps: TimelinePoint[];
+  // Checkpoints of custom schedules (empty otherwise)
+  checkpoints: TimelinePoint[];
+}
+
+export interface TimelineOptions {
+  // Breakdown period (default: month)
+  unit?: PeriodUnit;
+  // IANA timezone for period boundaries (default: UTC)
+  timeZone?: string;
+  // Breakdown range in unix seconds (default: start to vesting end)
+  from?: number;
+  to?: number;
+}
+
+export interface ReleaseCall {
+  send(): Promise<ContractTransactionResponse>;
+  estimateGas(): Promise<bigint>;
+  // Unsigned transaction, for callers that set nonce and fees themselves
+  populate(): Promise<ContractTransaction>;
+}
+
+const DAY = 86400;
+const MONTH = 30 * DAY;
+const YEAR = 365 * DAY;
+
+// Step boundaries listed in a timeline (e.g. 20 years of monthly steps)
+const MAX_TIMELINE_STEPS = 240;
+
+/**
+ * Named release intervals accepted by parseReleaseInterval()
+ * @dev Months and quarters are fractions of a 365-day year, so 12 monthly or 4 quarterly steps
+ *      fit a 365-day vesting year exactly. On-chain intervals are fixed lengths in seconds and
+ *      do not follow calendar months.
+ */
+export const RELEASE_INTERVALS: Record<string, number> = {
+  daily: DAY,
+  weekly: 7 * DAY,
+  monthly: YEAR / 12,
+  quarterly: YEAR / 4,
+  yearly: YEAR,
+};
+
+/**
+ * Load a SimpleLockup contract and its token metadata
+ * @param ethers Hardhat ethers helpers (hre.ethers or `ethers` from 'hardhat')
+ * @param address SimpleLockup address
+ * @throws Error if the address is malformed or has no contract code
+ */
+export async function loadLockup(ethers: HardhatEthers, address: string): Promise<LockupContext> {
+  if (!isAddress(address)) {
+    throw new Error(`Invalid lockup address: ${address}`);
+  }
+
+  const code = await ethers.provider.getCode(address);
+  if (code === '0x') {
+    throw new Error(`No contract code found at lockup address: ${address}`);
+  }
+
+  const lockup = await ethers.getContractAt('SimpleLockup', address);
+  const tokenInfo = await loadLockupToken(lockup, ethers.provider);
+
+  return { address, lockup, tokenInfo };
+}
+
+/**
+ * Read the full on-chain status of a lockup
+ * @dev Vested/releasable amounts, progress and remaining time are derived with the vesting math
+ *      library at the latest block timestamp, so every value refers to the same point in time
+ */
+export async function getLockupStatus(lockup: SimpleLockup): Promise<LockupStatus> {
+  const provider = lockup.runner!.provider!;
+  const [
+    info,
+    beneficiary,
+    owner,
+    pendingBeneficiary,
+    recoveryBeneficiary,
+    recoveryEta,
+    checkpoints,
+    latestBlock,
+  ] = await Promise.all([
+    lockup.lockupInfo(),
+    lockup.beneficiary(),
+    lockup.owner(),
+    lockup.pendingBeneficiary(),
+    lockup.recoveryBeneficiary(),
+    lockup.recoveryEta(),
+    lockup.getCheckpoints(),
+    provider.getBlock('latest'),
+  ]);
+
+  return toLockupStatus(
+    { ...toVestingSchedule(info, checkpoints), revocable: info.revocable },
+    { beneficiary, owner, pendingBeneficiary, recoveryBeneficiary, recoveryEta },
+    BigInt(latestBlock!.timestamp)
+  );
+}
+
+/**
+ * Read the full on-chain status of one lockup in a MultiLockup
+ * @dev Same derivation as getLockupStatus(); MultiLockup has no beneficiary rotation, so the
+ *      rotation fields are always empty
+ */
+export async function getMultiLockupStatus(
+  lockup: MultiLockup,
+  lockupId: bigint
+): Promise<LockupStatus> {
+  const provider = lockup.runner!.provider!;
+  const [info, owner, checkpoints, latestBlock] = await Promise.all([
+    lockup.lockups(lockupId),
+    lockup.owner(),
+    lockup.getCheckpoints(lockupId),
+    provider.getBlock('latest'),
+  ]);
+
+  return toLockupStatus(
+    { ...toVestingSchedule(info, checkpoints), revocable: info.revocable },
+    {
+      beneficiary: info.beneficiary,
+      owner,
+      pendingBeneficiary: ZeroAddress,
+      recoveryBeneficiary: ZeroAddress,
+      recoveryEta: 0n,
+    },
+    BigInt(latestBlock!.timestamp)
+  );
+}
+
+/**
+ * Sum the amounts of several lockups, e.g. every grant of one beneficiary
+ */
+export function sumLockupTotals(statuses: LockupStatus[]): LockupTotals {
+  return statuses.reduce(
+    (totals, status) => ({
+      totalAmount: totals.totalAmount + status.totalAmount,
+      releasedAmount: totals.releasedAmount + status.releasedAmount,
+      vestedAmount: totals.vestedAmount + status.vestedAmount,
+      releasableAmount: totals.releasableAmount + status.releasableAmount,
+    }),
+    { totalAmount: 0n, releasedAmount: 0n, vestedAmount: 0n, releasableAmount: 0n }
+  );
+}
+
+/**
+ * Check whether a contract is a MultiLockup (as opposed to a SimpleLockup)
+ * @dev Probes beneficiaryCount(), which only MultiLockup implements
+ */
+export async function isMultiLockup(ethers: HardhatEthers, address: string): Promise<boolean> {
+  const multiLockup = await ethers.getContractAt('MultiLockup', address);
+  try {
+    await multiLockup.beneficiaryCount();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toLockupStatus(
+  schedule: VestingSchedule & { revocable: boolean },
+  parties: Pick<
+    LockupStatus,
+    'beneficiary' | 'owner' | 'pendingBeneficiary' | 'recoveryBeneficiary' | 'recoveryEta'
+  >,
+  currentTime: bigint
+): LockupStatus {
+  return {
+    ...parties,
+    exists: schedule.totalAmount > 0n,
+    totalAmount: schedule.totalAmount,
+    releasedAmount: schedule.releasedAmount,
+    vestedAmount: vestedAt(schedule, currentTime),
+    releasableAmount: releasableAt(schedule, currentTime),
+    vestingProgress: progressAt(schedule, currentTime),
+    remainingTime: remainingAt(schedule, currentTime),
+    startTime: schedule.startTime,
+    cliffDuration: schedule.cliffDuration,
+    vestingDuration: schedule.vestingDuration,
+    releaseInterval: schedule.releaseInterval,
+    cliffUnlockBps: schedule.cliffUnlockBps,
+    nextStepTime: schedule.revoked ? 0n : nextStepAt(schedule, currentTime),
+    checkpoints: schedule.checkpoints ?? [],
+    cliffEnd: schedule.startTime + schedule.cliffDuration,
+    vestingEnd: schedule.startTime + schedule.vestingDuration,
+    revocable: schedule.revocable,
+    revoked: schedule.revoked,
+    vestedAtRevoke: schedule.vestedAtRevoke,
+    currentTime,
+  };
+}
+
+/**
+ * Parse a release interval: a name from RELEASE_INTERVALS, a number of days ("30d") or seconds
+ * @return Interval in seconds (0 for "none" / "linear" / empty input)
+ * @throws Error if the input is not a whole, non-negative number of seconds
+ */
+export function parseReleaseInterval(input: string): bigint {
+  const value = input.trim().toLowerCase();
+
+  if (value === '' || value === 'none' || value === 'linear') {
+    return 0n;
+  }
+  if (value in RELEASE_INTERVALS) {
+    return BigInt(RELEASE_INTERVALS[value]);
+  }
+  if (/^\d+d$/.test(value)) {
+    return BigInt(value.slice(0, -1)) * BigInt(DAY);
+  }
+  if (/^\d+$/.test(value)) {
+    return BigInt(value);
+  }
+
+  throw new Error(
+    `Invalid release interval "${input}" (use seconds, days like "30d", or one of: ${Object.keys(RELEASE_INTERVALS).join(', ')})`
+  );
+}
+
+/**
+ * Parse a lockup start time
+ * @param input ISO 8601 date ("2025-01-01", midnight UTC) or date-time with a timezone
+ *              ("2025-01-01T09:00:00Z", "2025-01-01T09:00:00+02:00"), unix seconds, or
+ *              empty/"now" to start at creation
+ * @return Unix timestamp in seconds, or null to start at creation
+ * @throws Error if the input is malformed or not a real calendar date
+ */
+export function parseStartTime(input: string): bigint | null {
+  const value = input.trim();
+
+  if (value === '' || value.toLowerCase() === 'now') {
+    return null;
+  }
+  if (/^\d+$/.test(value)) {
+    return BigInt(value);
+  }
+
+  const match =
+    /^(\d{4})-(\d{2})-(\d{2})(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2}))?$/.exec(
+      value
+    );
+  const milliseconds = match ? Date.parse(value) : NaN;
+  // Date.parse rolls impossible days over (2025-02-30 → March 2), so check the date part
+  const [year, month, day] = match ? match.slice(1, 4).map(Number) : [];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    Number.isNaN(milliseconds) ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    throw new Error(
+      `Invalid start time "${input}" (use an ISO date like "2025-01-01", a date-time with timezone like "2025-01-01T09:00:00Z", or unix seconds)`
+    );
+  }
+
+  return BigInt(Math.floor(milliseconds / 1000));
+}
+
+/**
+ * Check a start time against the bounds enforced by SimpleLockup.createScheduledLockup()
+ * @param currentTime Latest block timestamp
+ * @throws Error describing the violated bound
+ */
+export async function assertValidStartTime(
+  lockup: SimpleLockup,
+  startTime: bigint,
+  vestingDuration: bigint,
+  currentTime: bigint
+): Promise<void> {
+  const [maxBackdate, maxDelay] = await Promise.all([
+    lockup.MAX_START_BACKDATE(),
+    lockup.MAX_START_DELAY(),
+  ]);
+
+  if (startTime > currentTime + maxDelay) {
+    throw new Error(`Start time cannot be more than ${maxDelay / BigInt(DAY)} days in the future`);
+  }
+  if (startTime + maxBackdate < currentTime) {
+    throw new Error(`Start time cannot be more than ${maxBackdate / BigInt(DAY)} days in the past`);
+  }
+  if (startTime + vestingDuration <= currentTime) {
+    throw new Error('Vesting would already have ended (start time + vesting duration is past)');
+  }
+}
+
+/**
+ * Parse a cliff unlock share into basis points
+ * @param input Percentage with up to 2 decimals ("20", "12.5%"), basis points ("2000bps"),
+ *              or empty/"none" for no cliff unlock
+ * @throws Error if the input is malformed or above 100%
+ */
+export function parseCliffUnlock(input: string): bigint {
+  const value = input.trim().toLowerCase();
+
+  if (value === '' || value === 'none') {
+    return 0n;
+  }
+
+  let bps: bigint | undefined;
+  const percent = /^(\d+)(?:\.(\d{1,2}))?%?$/.exec(value);
+  if (percent) {
+    bps = BigInt(percent[1]) * 100n + BigInt((percent[2] ?? '').padEnd(2, '0'));
+  } else if (/^\d+bps$/.test(value)) {
+    bps = BigInt(value.slice(0, -3));
+  }
+
+  if (bps === undefined || bps > BASIS_POINTS) {
+    throw new Error(
+      `Invalid cliff unlock "${input}" (use a percentage up to 100 like "20" or "12.5%", or basis points like "2000bps")`
+    );
+  }
+  return bps;
+}
+
+/**
+ * Describe a release interval for display, e.g. "monthly (30.42 days)"
+ */
+export function formatReleaseInterval(releaseInterval: bigint): string {
+  if (releaseInterval === 0n) {
+    return 'none (linear vesting)';
+  }
+
+  const days = `${Number((Number(releaseInterval) / DAY).toFixed(2))} days`;
+  const name = Object.keys(RELEASE_INTERVALS).find(
+    (key) => BigInt(RELEASE_INTERVALS[key]) === releaseInterval
+  );
+  return name ? `${name} (${days})` : `${releaseInterval} seconds (${days})`;
+}
+
+/**
+ * Pick the release overload for a recipient and an optional partial amount
+ * @param beneficiary Current beneficiary (the signer of the release)
+ * @param recipient Address receiving the tokens
+ * @param amount Amount to release, undefined for everything releasable
+ */
+export function buildReleaseCall(
+  lockup: SimpleLockup,
+  beneficiary: string,
+  recipient: string,
+  amount?: bigint
+): ReleaseCall {
+  const toBeneficiary = recipient.toLowerCase() === beneficiary.toLowerCase();
+
+  if (amount === undefined) {
+    return toBeneficiary
+      ? {
+          send: () => lockup['release()'](),
+          estimateGas: () => lockup['release()'].estimateGas(),
+          populate: () => lockup['release()'].populateTransaction(),
+        }
+      : {
+          send: () => lockup['releaseTo(address)'](recipient),
+          estimateGas: () => lockup['releaseTo(address)'].estimateGas(recipient),
+          populate: () => lockup['releaseTo(address)'].populateTransaction(recipient),
+        };
+  }
+
+  return toBeneficiary
+    ? {
+        send: () => lockup['release(uint256)'](amount),
+        estimateGas: () => lockup['release(uint256)'].estimateGas(amount),
+        populate: () => lockup['release(uint256)'].populateTransaction(amount),
+      }
+    : {
+        send: () => lockup['releaseTo(address,uint256)'](recipient, amount),
+        estimateGas: () => lockup['releaseTo(address,uint256)'].estimateGas(recipient, amount),
+        populate: () => lockup['releaseTo(address,uint256)'].populateTransaction(recipient, amount),
+      };
+}
+
+/**
+ * Parse timeline options given as text (environment variables or task parameters)
+ * Empty values keep the defaults. Dates without a time cover the whole day in the given timezone
+ * (`from` at midnight, `to` at the last second).
+ * @throws Error naming the invalid period, timezone or date
+ */
+export function parseTimelineOptions(input: {
+  period?: string;
+  timeZone?: string;
+  from?: string;
+  to?: string;
+}): TimelineOptions {
+  const timeZone = input.timeZone ? parseTimeZone(input.timeZone) : DEFAULT_TIME_ZONE;
+  return {
+    unit: input.period ? parsePeriodUnit(input.period) : undefined,
+    timeZone,
+    from: input.from ? parseRangeTime(input.from, timeZone) : undefined,
+    to: input.to ? parseRangeTime(input.to, timeZone, true) : undefined,
+  };
+}
+
+/**
+ * Build the milestone, calendar breakdown and step timeline of a lockup
+ * @param options Breakdown period, timezone and range (default: calendar months in UTC across
+ *        the whole vesting duration)
+ * @dev `monthly` keeps its original 30-day months, capped at 12 entries, for vesting > 90 days;
+ *      calendar months are in `periods`.
+ *      Periodic lockups also list their step boundaries, capped at MAX_TIMELINE_STEPS entries.
+ * @throws Error if the breakdown range is empty or too long for the period
+ */
+export function buildTimeline(status: LockupStatus, options: TimelineOptions = {}): Timeline {
+  const startTime = Number(status.startTime);
+  const cliffDuration = Number(status.cliffDuration);
+  const vestingDuration = Number(status.vestingDuration);
+
+  const milestones = [
+    { label: 'Start', time: startTime },
+    { label: 'Cliff End', time: startTime + cliffDuration },
+    { label: '25% Duration', time: startTime + vestingDuration * 0.25 },
+    { label: '50% Duration', time: startTime + vestingDuration * 0.5 },
+    { label: '75% Duration', time: startTime + vestingDuration * 0.75 },
+    { label: 'Vesting End', time: startTime + vestingDuration },
+  ].map(({ label, time }) => {
+    const timestamp = Math.floor(time);
+    return { label, timestamp, vestedAmount: vestedAt(status, BigInt(timestamp)) };
+  });
+
+  const monthly: TimelinePoint[] = [];
+  if (vestingDuration > 90 * DAY) {
+    const monthlyPeriods = Math.min(12, Math.floor(vestingDuration / MONTH));
+    for (let month = 1; month <= monthlyPeriods; month++) {
+      const timestamp = startTime + month * MONTH;
+      monthly.push({
+        label: `M${month}`,
+        timestamp,
+        vestedAmount: vestedAt(status, BigInt(timestamp)),
+      });
+    }
+  }
+
+  const range: PeriodRange = {
+    unit: options.unit ?? 'month',
+    timeZone: options.timeZone ?? DEFAULT_TIME_ZONE,
+    from: options.from ?? startTime,
+    to: options.to ?? Number(status.vestingEnd),
+  };
+  const periods = buildPeriodBreakdown(status, range);
+
+  const steps: TimelinePoint[] = [];
+  // Boundaries of the original schedule, also for revoked lockups
+  const schedule = { ...status, revoked: false };
+  let stepTime = nextStepAt(schedule, status.startTime);
+  while (stepTime > 0n && steps.length < MAX_TIMELINE_STEPS) {
+    steps.push({
+      label: `Step ${steps.length + 1}`,
+      timestamp: Number(stepTime),
+      vestedAmount: vestedAt(status, stepTime),
+    });
+    stepTime = nextStepAt(schedule, stepTime);
+  }
+
+  const checkpoints = status.checkpoints.map((checkpoint, index) => {
+    const timestamp = status.startTime + checkpoint.offset;
+    return {
+      label: `Checkpoint ${index + 1}`,
+      timestamp: Number(timestamp),
+      vestedAmount: vestedAt(status, timestamp),
+    };
+  });
+
+  return { milestones, monthly, range, periods, steps, checkpoints };
+}
+
+function isoDate(timestamp: bigint | number): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+/**
+ * Print lockup status in the check-lockup console format
+ */
+export function printLockupStatus(status: LockupStatus, tokenInfo: TokenMetadata): void {
+  console.log('═══ Lockup Details ═══');
+  console.log('Total Amount:', formatTokenAmount(status.totalAmount, tokenInfo));
+  console.log('Released Amount:', formatTokenAmount(status.releasedAmount, tokenInfo));
+  console.log('Vested Amount:', formatTokenAmount(status.vestedAmount, tokenInfo));
+  console.log('Releasable Amount:', formatTokenAmount(status.releasableAmount, tokenInfo));
+  console.log('');
+
+  console.log('═══ Vesting Schedule ═══');
+  console.log('Start Time:', isoDate(status.startTime));
+  console.log('Cliff End:', isoDate(status.cliffEnd));
+  console.log('Vesting End:', isoDate(status.vestingEnd));
+  console.log('Cliff Duration:', Number(status.cliffDuration) / DAY, 'days');
+  console.log('Total Vesting Duration:', Number(status.vestingDuration) / DAY, 'days');
+  console.log('Release Interval:', formatReleaseInterval(status.releaseInterval));
+  if (status.cliffUnlockBps > 0n) {
+    console.log('Cliff Unlock:', formatPercent(status.cliffUnlockBps, BASIS_POINTS, 2));
+  }
+  if (status.checkpoints.length > 0) {
+    console.log('Schedule:', `custom (${status.checkpoints.length} checkpoints)`);
+  }
+  if (status.nextStepTime > 0n) {
+    console.log('Next Unlock:', isoDate(status.nextStepTime));
+  }
+  console.log('');
+
+  console.log('═══ Current Status ═══');
+  console.log('Vesting Progress:', status.vestingProgress.toString(), '%');
+  console.log('Remaining Time:', Number(status.remainingTime) / DAY, 'days');
+  console.log('Revocable:', status.revocable);
+  console.log('Revoked:', status.revoked);
+
+  if (status.revoked) {
+    console.log('Vested at Revoke:', formatTokenAmount(status.vestedAtRevoke, tokenInfo));
+  }
+
+  console.log('');
+
+  if (status.pendingBeneficiary !== ZeroAddress || status.recoveryBeneficiary !== ZeroAddress) {
+    console.log('═══ Pending Beneficiary Change ═══');
+    if (status.pendingBeneficiary !== ZeroAddress) {
+      console.log('Proposed Beneficiary:', status.pendingBeneficiary, '(waiting for acceptance)');
+    }
+    if (status.recoveryBeneficiary !== ZeroAddress) {
+      console.log('Recovery Beneficiary:', status.recoveryBeneficiary, '(owner recovery)');
+      console.log('Recovery Executable At:', isoDate(status.recoveryEta));
+    }
+    console.log('');
+  }
+
+  // Status indicators
+  if (status.currentTime < status.startTime) {
+    const days = Number((Number(status.startTime - status.currentTime) / DAY).toFixed(2));
+    console.log(`⏳ Status: Not started (vesting starts in ${days} days)`);
+  } else if (status.currentTime < status.cliffEnd) {
+    console.log('⏳ Status: In cliff period (no tokens vested yet)');
+    if (status.cliffUnlockBps > 0n && !status.revoked) {
+      const cliffUnlock = (status.totalAmount * status.cliffUnlockBps) / BASIS_POINTS;
+      console.log('🔓 Unlocks at cliff end:', formatTokenAmount(cliffUnlock, tokenInfo));
+    }
+  } else if (status.currentTime < status.vestingEnd) {
+    console.log('🔄 Status: Vesting in progress');
+  } else {
+    console.log('✅ Status: Fully vested');
+  }
+
+  if (status.releasableAmount > 0n) {
+    console.log(
+      '💰 You can release',
+      formatTokenAmount(status.releasableAmount, tokenInfo),
+      'now!'
+    );
+  }
+}
+
+/**
+ * Print the vesting timeline in the calculate-vested console format
+ */
+export function printTimeline(
+  status: LockupStatus,
+  timeline: Timeline,
+  tokenInfo: TokenMetadata
+): void {
+  console.log('📊 Lockup Parameters:');
+  console.log('─'.repeat(70));
+  console.log('Total Amount:', formatTokenAmount(status.totalAmount, tokenInfo));
+  console.log('Start Time:', isoDate(status.startTime));
+  console.log('Cliff Duration:', Number(status.cliffDuration) / DAY, 'days');
+  console.log('Vesting Duration:', Number(status.vestingDuration) / DAY, 'days');
+  console.log('Release Interval:', formatReleaseInterval(status.releaseInterval));
+  if (status.cliffUnlockBps > 0n) {
+    console.log('Cliff Unlock:', formatPercent(status.cliffUnlockBps, BASIS_POINTS, 2));
+  }
+  console.log('');
+
+  console.log('📅 Vesting Timeline:');
+  console.log('─'.repeat(70));
+  console.log(
+    'Date'.padEnd(25),
+    'Elapsed'.padEnd(15),
+    'Vested %'.padEnd(12),
+    `Vested Amount (${tokenInfo.symbol})`
+  );
+  console.log('─'.repeat(70));
+
+  for (const milestone of timeline.milestones) {
+    const elapsedDays = Math.floor((milestone.timestamp - Number(status.startTime)) / DAY);
+    console.log(
+      isoDate(milestone.timestamp).split('T')[0].padEnd(25),
+      `${elapsedDays}d`.padEnd(15),
+      formatPercent(milestone.vestedAmount, status.totalAmount).padEnd(12),
+      formatTokenUnits(milestone.vestedAmount, tokenInfo)
+    );
+  }
+
+  console.log('─'.repeat(70));
+  console.log('');
+
+  if (timeline.periods.length > 0) {
+    const { unit, timeZone, from, to } = timeline.range;
+    console.log(`📈 Vesting by ${unit} (${timeZone}):`);
+    console.log(`   ${isoDate(from)} to ${isoDate(to)}`);
+    console.log('─'.repeat(70));
+    console.log(
+      'Period'.padEnd(12),
+      'Vested %'.padEnd(10),
+      `Vested (${tokenInfo.symbol})`.padEnd(24),
+      `Change (${tokenInfo.symbol})`
+    );
+    console.log('─'.repeat(70));
+
+    for (const row of timeline.periods) {
+      console.log(
+        row.label.padEnd(12),
+        formatPercent(row.vestedAmount, status.totalAmount).padEnd(10),
+        formatTokenUnits(row.vestedAmount, tokenInfo).padEnd(24),
+        row.deltaAmount > 0n ? `+${formatTokenUnits(row.deltaAmount, tokenInfo)}` : '-'
+      );
+    }
+
+    console.log('─'.repeat(70));
+    console.log('');
+  }
+
+  if (timeline.checkpoints.length > 0) {
+    console.log('📌 Schedule Checkpoints:');
+    console.log('─'.repeat(70));
+    console.log(
+      '#'.padEnd(10),
+      'Date'.padEnd(25),
+      'Vested %'.padEnd(12),
+      `Vested Amount (${tokenInfo.symbol})`
+    );
+    console.log('─'.repeat(70));
+
+    for (const point of timeline.checkpoints) {
+      console.log(
+        point.label.replace('Checkpoint ', '#').padEnd(10),
+        isoDate(point.timestamp).replace('.000Z', 'Z').padEnd(25),
+        formatPercent(point.vestedAmount, status.totalAmount).padEnd(12),
+        formatTokenUnits(point.vestedAmount, tokenInfo)
+      );
+    }
+
+    console.log('─'.repeat(70));
+    console.log('');
+  }
+
+  if (timeline.steps.length > 0) {
+    console.log('🪜 Release Steps:');
+    console.log('─'.repeat(70));
+    console.log(
+      'Step'.padEnd(10),
+      'Date'.padEnd(25),
+      'Vested %'.padEnd(12),
+      `Vested Amount (${tokenInfo.symbol})`
+    );
+    console.log('─'.repeat(70));
+
+    for (const point of timeline.steps) {
+      console.log(
+        point.label.replace('Step ', '#').padEnd(10),
+        isoDate(point.timestamp).replace('.000Z', 'Z').padEnd(25),
+        formatPercent(point.vestedAmount, status.totalAmount).padEnd(12),
+        formatTokenUnits(point.vestedAmount, tokenInfo)
+      );
+    }
+
+    console.log('─'.repeat(70));
+    console.log('');
+  }
+
+  console.log('📍 Current Status:');
+  console.log('─'.repeat(70));
+  console.log('Current Time:', isoDate(status.currentTime));
+  console.log('Vested Amount:', formatTokenAmount(status.vestedAmount, tokenInfo));
+  console.log('Releasable Amount:', formatTokenAmount(status.releasableAmount, tokenInfo));
+  console.log('Vesting Progress:', status.vestingProgress.toString(), '%');
+  if (status.nextStepTime > 0n) {
+    console.log('Next Unlock:', isoDate(status.nextStepTime));
+  }
+  console.log('');
+}
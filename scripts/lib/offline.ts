@@ -0,0 +1,344 @@
+import * as fs from 'fs';
+import {
+  BaseContract,
+  FunctionFragment,
+  Interface,
+  Result,
+  Transaction,
+  TransactionReceipt,
+  getAddress,
+  isAddress,
+  type Provider,
+  type BaseWallet,
+} from 'ethers';
+
+/**
+ * Offline (air-gapped) signing of owner transactions
+ * 1. prepare   (online)  - the helpers write an unsigned transaction file with nonce, fees, chain ID,
+ *                          calldata and a decoded summary; no private key involved
+ * 2. sign      (offline) - sign-transaction.ts checks the calldata against the summary and signs
+ *                          with PRIVATE_KEY; no network access needed
+ * 3. broadcast (online)  - broadcast-transaction.ts sends the signed transactions in nonce order
+ *                          and waits for the receipts
+ *
+ * A file can hold several transactions with consecutive nonces (e.g. approve + createLockup).
+ * Integers are decimal strings so files survive JSON round trips.
+ */
+
+export const TRANSACTION_FILE_VERSION = 1;
+
+// Gas limit of transactions that cannot be estimated at prepare time (e.g. a createLockup that
+// depends on an approval in the same file). Only gas actually used is paid.
+export const DEFAULT_GAS_LIMIT = 1_000_000n;
+
+export interface CallSummary {
+  // Canonical signature, e.g. "approve(address,uint256)"
+  signature: string;
+  // Decoded arguments in order; integers as decimal strings, tuples as arrays
+  inputs: { name: string; type: string; value: unknown }[];
+}
+
+export interface PreparedTransaction {
+  label: string;
+  to: string;
+  value: string;
+  data: string;
+  nonce: number;
+  gasLimit: string;
+  // false when gasLimit is DEFAULT_GAS_LIMIT (or GAS_LIMIT) instead of an estimate
+  gasEstimated: boolean;
+  // EIP-1559 fees, or gasPrice for legacy networks
+  maxFeePerGas: string | null;
+  maxPriorityFeePerGas: string | null;
+  gasPrice: string | null;
+  call: CallSummary;
+  // Set by the sign step
+  signedTransaction?: string;
+  hash?: string;
+}
+
+export interface TransactionFile {
+  version: number;
+  chainId: string;
+  from: string;
+  createdAt: string;
+  description: string;
+  transactions: PreparedTransaction[];
+}
+
+export interface PreparedCall {
+  label: string;
+  contract: BaseContract;
+  // Function name or full signature for overloaded functions
+  signature: string;
+  args: unknown[];
+}
+
+function toPlain(value: unknown): unknown {
+  if (value instanceof Result || Array.isArray(value)) {
+    return Array.from(value as unknown[], toPlain);
+  }
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+function describeCall(fragment: FunctionFragment, data: string): CallSummary {
+  const decoded = new Interface([fragment]).decodeFunctionData(fragment, data);
+  return {
+    signature: fragment.format('sighash'),
+    inputs: fragment.inputs.map((input, index) => ({
+      name: input.name,
+      type: input.type,
+      value: toPlain(decoded[index]),
+    })),
+  };
+}
+
+/**
+ * Build an unsigned transaction file for calls sent by `from`, in order
+ * @param provider Provider of the target network (for chain ID, nonce, fees and gas estimates)
+ * @param from Address of the offline key that will sign
+ * @param description Human-readable purpose shown before signing
+ * @param gasLimit Gas limit for calls that cannot be estimated (default: DEFAULT_GAS_LIMIT)
+ * @dev Calls after the first are estimated against current state and fall back to gasLimit when
+ *      they depend on an earlier call of the file (e.g. an approval)
+ */
+export async function prepareTransactions(
+  provider: Provider,
+  from: string,
+  description: string,
+  calls: PreparedCall[],
+  gasLimit: bigint = DEFAULT_GAS_LIMIT
+): Promise<TransactionFile> {
+  if (!isAddress(from)) {
+    throw new Error(`Invalid signer address: ${from}`);
+  }
+
+  const [{ chainId }, feeData, firstNonce] = await Promise.all([
+    provider.getNetwork(),
+    provider.getFeeData(),
+    provider.getTransactionCount(from, 'pending'),
+  ]);
+  const eip1559 = feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null;
+
+  const transactions: PreparedTransaction[] = [];
+  for (const [index, call] of calls.entries()) {
+    const fragment = call.contract.interface.getFunction(call.signature, call.args);
+    if (!fragment) {
+      throw new Error(`Unknown function ${call.signature}`);
+    }
+
+    const to = await call.contract.getAddress();
+    const data = call.contract.interface.encodeFunctionData(fragment, call.args);
+
+    let estimate: bigint | null = null;
+    try {
+      estimate = await provider.estimateGas({ from, to, data });
+    } catch (error) {
+      // Only later calls may depend on earlier ones; the first call must succeed as is
+      if (index === 0) throw error;
+    }
+
+    transactions.push({
+      label: call.label,
+      to,
+      value: '0',
+      data,
+      nonce: firstNonce + index,
+      // 20% headroom for state changes between prepare and broadcast
+      gasLimit: (estimate !== null ? (estimate * 12n) / 10n : gasLimit).toString(),
+      gasEstimated: estimate !== null,
+      maxFeePerGas: eip1559 ? feeData.maxFeePerGas!.toString() : null,
+      maxPriorityFeePerGas: eip1559 ? feeData.maxPriorityFeePerGas!.toString() : null,
+      gasPrice: eip1559 ? null : feeData.gasPrice!.toString(),
+      call: describeCall(fragment, data),
+    });
+  }
+
+  return {
+    version: TRANSACTION_FILE_VERSION,
+    chainId: chainId.toString(),
+    from: getAddress(from),
+    createdAt: new Date().toISOString(),
+    description,
+    transactions,
+  };
+}
+
+function toTransaction(file: TransactionFile, prepared: PreparedTransaction): Transaction {
+  return Transaction.from({
+    type: prepared.gasPrice === null ? 2 : 0,
+    chainId: BigInt(file.chainId),
+    to: prepared.to,
+    value: BigInt(prepared.value),
+    data: prepared.data,
+    nonce: prepared.nonce,
+    gasLimit: BigInt(prepared.gasLimit),
+    maxFeePerGas: prepared.maxFeePerGas !== null ? BigInt(prepared.maxFeePerGas) : null,
+    maxPriorityFeePerGas:
+      prepared.maxPriorityFeePerGas !== null ? BigInt(prepared.maxPriorityFeePerGas) : null,
+    gasPrice: prepared.gasPrice !== null ? BigInt(prepared.gasPrice) : null,
+  });
+}
+
+/**
+ * Check that the calldata of every transaction matches its decoded summary
+ * @dev Re-encodes each call from its signature and summarized arguments, so a signer who reviews
+ *      the summary signs exactly that call
+ * @throws Error naming the first transaction whose calldata differs
+ */
+export function verifyTransactionFile(file: TransactionFile): void {
+  if (file.version !== TRANSACTION_FILE_VERSION) {
+    throw new Error(`Unsupported transaction file version: ${file.version}`);
+  }
+  if (file.transactions.length === 0) {
+    throw new Error('Transaction file contains no transactions');
+  }
+
+  file.transactions.forEach((prepared, index) => {
+    const fragment = FunctionFragment.from(prepared.call.signature);
+    const expected = new Interface([fragment]).encodeFunctionData(
+      fragment,
+      prepared.call.inputs.map((input) => input.value)
+    );
+    if (expected !== prepared.data.toLowerCase()) {
+      throw new Error(`Transaction #${index + 1} calldata does not match its summary`);
+    }
+    if (index > 0 && prepared.nonce !== file.transactions[index - 1].nonce + 1) {
+      throw new Error(`Transaction #${index + 1} nonce is not consecutive`);
+    }
+  });
+}
+
+/**
+ * Sign every transaction of an unsigned file (offline step)
+ * @param wallet Wallet of the key named in the file (needs no provider)
+ * @return Copy of the file with signedTransaction and hash set
+ * @throws Error if the wallet is not the file's signer or the file fails verification
+ */
+export async function signTransactionFile(
+  file: TransactionFile,
+  wallet: BaseWallet
+): Promise<TransactionFile> {
+  if (wallet.address.toLowerCase() !== file.from.toLowerCase()) {
+    throw new Error(`Private key is for ${wallet.address}, but the file is for ${file.from}`);
+  }
+  verifyTransactionFile(file);
+
+  const transactions = [];
+  for (const prepared of file.transactions) {
+    const signedTransaction = await wallet.signTransaction(toTransaction(file, prepared));
+    transactions.push({
+      ...prepared,
+      signedTransaction,
+      hash: Transaction.from(signedTransaction).hash!,
+    });
+  }
+  return { ...file, transactions };
+}
+
+/**
+ * Broadcast the signed transactions of a file in nonce order and wait for their receipts
+ * @param onSent Called with each transaction hash once it has been sent or found on-chain
+ * @dev Transactions that are already mined are skipped, so an interrupted broadcast can be re-run
+ * @throws Error on a chain mismatch, a nonce already used by another transaction, or a revert
+ */
+export async function broadcastTransactionFile(
+  provider: Provider,
+  file: TransactionFile,
+  onSent: (prepared: PreparedTransaction, hash: string) => void = () => undefined
+): Promise<TransactionReceipt[]> {
+  const { chainId } = await provider.getNetwork();
+  if (chainId.toString() !== file.chainId) {
+    throw new Error(`Transaction file is for chain ${file.chainId}, but network is ${chainId}`);
+  }
+
+  const receipts: TransactionReceipt[] = [];
+  for (const prepared of file.transactions) {
+    if (!prepared.signedTransaction) {
+      throw new Error(`Transaction "${prepared.label}" is not signed; run the sign step first`);
+    }
+
+    const signed = Transaction.from(prepared.signedTransaction);
+    if (signed.from?.toLowerCase() !== file.from.toLowerCase()) {
+      throw new Error(`Transaction "${prepared.label}" is not signed by ${file.from}`);
+    }
+
+    let receipt = await provider.getTransactionReceipt(signed.hash!);
+    if (!receipt) {
+      const nonce = await provider.getTransactionCount(file.from, 'latest');
+      if (nonce > signed.nonce) {
+        throw new Error(
+          `Nonce ${signed.nonce} of "${prepared.label}" was already used by another transaction; prepare again`
+        );
+      }
+
+      const response = await provider.broadcastTransaction(prepared.signedTransaction);
+      onSent(prepared, response.hash);
+      receipt = await response.wait();
+    } else {
+      onSent(prepared, receipt.hash);
+    }
+
+    if (!receipt || receipt.status !== 1) {
+      throw new Error(`Transaction "${prepared.label}" reverted (${signed.hash})`);
+    }
+    receipts.push(receipt);
+  }
+  return receipts;
+}
+
+/**
+ * Default unsigned file name, e.g. tx-revoke-0x1234abcd-1700000000.unsigned.json
+ */
+export function defaultTransactionFile(action: string, contractAddress: string): string {
+  return `tx-${action}-${contractAddress.slice(0, 10).toLowerCase()}-${Math.floor(Date.now() / 1000)}.unsigned.json`;
+}
+
+export function readTransactionFile(filePath: string): TransactionFile {
+  return JSON.parse(fs.readFileSync(filePath, 'utf8')) as TransactionFile;
+}
+
+export function writeTransactionFile(file: TransactionFile, filePath: string): void {
+  fs.writeFileSync(filePath, `${JSON.stringify(file, null, 2)}\n`);
+}
+
+/**
+ * Print the human-readable summary of a transaction file
+ */
+export function printTransactionFile(file: TransactionFile): void {
+  console.log('📝 Transaction File:');
+  console.log('─'.repeat(50));
+  console.log('Description:', file.description);
+  console.log('Chain ID:', file.chainId);
+  console.log('From:', file.from);
+  file.transactions.forEach((prepared, index) => {
+    console.log(`#${index + 1} ${prepared.label}`);
+    console.log('   To:', prepared.to);
+    console.log('   Value:', prepared.value, 'wei');
+    console.log('   Data:', prepared.data);
+    console.log('   Call:', prepared.call.signature);
+    for (const input of prepared.call.inputs) {
+      console.log(`     ${input.name}:`, JSON.stringify(input.value));
+    }
+    console.log('   Nonce:', prepared.nonce);
+    if (prepared.gasEstimated) {
+      console.log('   Gas Limit:', prepared.gasLimit);
+    } else {
+      console.log(
+        '   Gas Limit:',
+        prepared.gasLimit,
+        '(not estimated: depends on an earlier transaction)'
+      );
+    }
+    if (prepared.gasPrice !== null) {
+      console.log('   Gas Price:', prepared.gasPrice, 'wei');
+    } else {
+      console.log('   Max Fee:', prepared.maxFeePerGas, 'wei');
+      console.log('   Max Priority Fee:', prepared.maxPriorityFeePerGas, 'wei');
+    }
+    if (prepared.hash) {
+      console.log('   Hash:', prepared.hash);
+    }
+  });
+  console.log('─'.repeat(50));
+}
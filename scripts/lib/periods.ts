@@ -0,0 +1,252 @@
+import { vestedAt, type VestingSchedule } from './vesting';
+
+/**
+ * Calendar periods for vesting breakdowns
+ * Periods follow real calendar boundaries (1st of the month, quarter, year, Monday for weeks) at
+ * midnight in UTC or an IANA timezone, so daylight saving changes and month lengths are respected.
+ * Timestamps are unix seconds.
+ */
+
+export type PeriodUnit = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export const PERIOD_UNITS: PeriodUnit[] = ['day', 'week', 'month', 'quarter', 'year'];
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+// Upper limit for the rows of one breakdown (e.g. about 27 years of days)
+export const MAX_PERIODS = 10_000;
+
+export interface PeriodRange {
+  unit: PeriodUnit;
+  timeZone: string;
+  // First and last second covered (inclusive)
+  from: number;
+  to: number;
+}
+
+export interface PeriodRow {
+  // e.g. "2025-03" (month), "2025-Q1" (quarter), "2025" (year), "2025-03-10" (day, week)
+  label: string;
+  // First and last second of the period inside the range (inclusive)
+  start: number;
+  end: number;
+  // Cumulative vested amount at the end of the period
+  vestedAmount: bigint;
+  // Amount vested during the period
+  deltaAmount: bigint;
+}
+
+interface LocalDate {
+  year: number;
+  // 1-12
+  month: number;
+  day: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let cached = formatters.get(timeZone);
+  if (!cached) {
+    cached = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, cached);
+  }
+  return cached;
+}
+
+/**
+ * Check that a timezone is UTC or a known IANA name
+ * @return The timezone, unchanged
+ * @throws Error if the runtime does not know the timezone
+ */
+export function parseTimeZone(input: string): string {
+  const timeZone = input.trim();
+  try {
+    formatter(timeZone);
+  } catch {
+    throw new Error(`Unknown timezone "${input}" (use UTC or an IANA name like Europe/Berlin)`);
+  }
+  return timeZone;
+}
+
+/**
+ * Parse a period unit: day, week, month, quarter or year
+ * @throws Error listing the accepted units
+ */
+export function parsePeriodUnit(input: string): PeriodUnit {
+  const unit = input.trim().toLowerCase() as PeriodUnit;
+  if (!PERIOD_UNITS.includes(unit)) {
+    throw new Error(`Invalid period "${input}" (use ${PERIOD_UNITS.join(', ')})`);
+  }
+  return unit;
+}
+
+// Offset of the timezone from UTC at `timestamp`, in seconds
+function offsetAt(timestamp: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of formatter(timeZone).formatToParts(new Date(timestamp * 1000))) {
+    parts[part.type] = Number(part.value);
+  }
+  const local = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return local / 1000 - timestamp;
+}
+
+function localDate(timestamp: number, timeZone: string): LocalDate {
+  const date = new Date((timestamp + offsetAt(timestamp, timeZone)) * 1000);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/**
+ * Midnight of a local date in a timezone
+ * @dev Out-of-range months and days roll over (month 13 is January of the next year)
+ */
+function localMidnight(date: LocalDate, timeZone: string): number {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day) / 1000;
+  // The offset at midnight may differ from the offset at the wall-clock guess across DST changes
+  const guess = wallClock - offsetAt(wallClock, timeZone);
+  return wallClock - offsetAt(guess, timeZone);
+}
+
+/**
+ * First second of the period containing `timestamp`
+ */
+export function periodStart(timestamp: number, unit: PeriodUnit, timeZone: string): number {
+  const { year, month, day } = localDate(timestamp, timeZone);
+  switch (unit) {
+    case 'day':
+      return localMidnight({ year, month, day }, timeZone);
+    case 'week': {
+      // Weeks start on Monday (ISO 8601)
+      const weekday = (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+      return localMidnight({ year, month, day: day - weekday }, timeZone);
+    }
+    case 'month':
+      return localMidnight({ year, month, day: 1 }, timeZone);
+    case 'quarter':
+      return localMidnight({ year, month: month - ((month - 1) % 3), day: 1 }, timeZone);
+    case 'year':
+      return localMidnight({ year, month: 1, day: 1 }, timeZone);
+  }
+}
+
+/**
+ * First second of the period after the one starting at `start`
+ * @param start Start of a period, from periodStart()
+ */
+export function nextPeriodStart(start: number, unit: PeriodUnit, timeZone: string): number {
+  const { year, month, day } = localDate(start, timeZone);
+  switch (unit) {
+    case 'day':
+      return localMidnight({ year, month, day: day + 1 }, timeZone);
+    case 'week':
+      return localMidnight({ year, month, day: day + 7 }, timeZone);
+    case 'month':
+      return localMidnight({ year, month: month + 1, day: 1 }, timeZone);
+    case 'quarter':
+      return localMidnight({ year, month: month + 3, day: 1 }, timeZone);
+    case 'year':
+      return localMidnight({ year: year + 1, month: 1, day: 1 }, timeZone);
+  }
+}
+
+/**
+ * Label of the period starting at `start`, in the timezone's calendar
+ */
+export function formatPeriodLabel(start: number, unit: PeriodUnit, timeZone: string): string {
+  const { year, month, day } = localDate(start, timeZone);
+  const mm = String(month).padStart(2, '0');
+  switch (unit) {
+    case 'year':
+      return String(year);
+    case 'quarter':
+      return `${year}-Q${Math.floor((month - 1) / 3) + 1}`;
+    case 'month':
+      return `${year}-${mm}`;
+    default:
+      return `${year}-${mm}-${String(day).padStart(2, '0')}`;
+  }
+}
+
+/**
+ * Parse a range boundary: a date ("2025-01-01", midnight in `timeZone`), a date-time with a
+ * timezone ("2025-01-01T09:00:00Z") or unix seconds
+ * @param endOfDay Resolve a date to its last second instead, for inclusive range ends
+ * @throws Error if the input is malformed or not a real calendar date
+ */
+export function parseRangeTime(input: string, timeZone: string, endOfDay = false): number {
+  const value = input.trim();
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (dateMatch) {
+    const [year, month, day] = dateMatch.slice(1).map(Number);
+    const check = new Date(Date.UTC(year, month - 1, day));
+    if (check.getUTCMonth() === month - 1 && check.getUTCDate() === day) {
+      return endOfDay
+        ? localMidnight({ year, month, day: day + 1 }, timeZone) - 1
+        : localMidnight({ year, month, day }, timeZone);
+    }
+  } else if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?(Z|[+-]\d{2}:\d{2})$/.test(value)) {
+    const milliseconds = Date.parse(value);
+    if (!Number.isNaN(milliseconds)) {
+      return Math.floor(milliseconds / 1000);
+    }
+  }
+
+  throw new Error(
+    `Invalid date "${input}" (use a date like "2025-01-01", a date-time with timezone like "2025-01-01T09:00:00Z", or unix seconds)`
+  );
+}
+
+/**
+ * Cumulative vested amount and per-period change for every calendar period in a range
+ * The first and last rows are cut to the range, so their start/end may fall inside a period.
+ * @throws Error if the range is empty or has more than MAX_PERIODS periods
+ */
+export function buildPeriodBreakdown(schedule: VestingSchedule, range: PeriodRange): PeriodRow[] {
+  if (range.to < range.from) {
+    throw new Error('Range ends before it starts');
+  }
+
+  const rows: PeriodRow[] = [];
+  let periodFrom = periodStart(range.from, range.unit, range.timeZone);
+  let start = range.from;
+  while (start <= range.to) {
+    if (rows.length === MAX_PERIODS) {
+      throw new Error(`Range has more than ${MAX_PERIODS} periods; use a longer period`);
+    }
+
+    const next = nextPeriodStart(periodFrom, range.unit, range.timeZone);
+    const end = Math.min(next - 1, range.to);
+    const vestedAmount = vestedAt(schedule, BigInt(end));
+    rows.push({
+      label: formatPeriodLabel(periodFrom, range.unit, range.timeZone),
+      start,
+      end,
+      vestedAmount,
+      deltaAmount: vestedAmount - vestedAt(schedule, BigInt(start - 1)),
+    });
+
+    periodFrom = next;
+    start = next;
+  }
+  return rows;
+}
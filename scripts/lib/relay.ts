@@ -0,0 +1,205 @@
+import * as fs from 'fs';
+import {
+  ContractTransactionResponse,
+  getAddress,
+  isAddress,
+  verifyTypedData,
+  type Signer,
+  type TypedDataDomain,
+} from 'ethers';
+import type { SimpleLockup } from '../../typechain-types';
+
+/**
+ * Gasless releases through SimpleLockup.releaseWithSig
+ * The beneficiary signs an EIP-712 Release message (no gas needed) and hands the signed payload
+ * to a relayer, which submits it and pays the gas. Payload files hold the message, its signature
+ * and the lockup/chain it is valid for; integers are decimal strings.
+ */
+
+export const SIGNED_RELEASE_VERSION = 1;
+
+// Default validity of a signature, see parseValidity
+export const DEFAULT_RELEASE_VALIDITY = '7d';
+
+// Must match SimpleLockup.RELEASE_TYPEHASH
+export const RELEASE_TYPES = {
+  Release: [
+    { name: 'recipient', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+export interface SignedRelease {
+  version: number;
+  chainId: string;
+  lockup: string;
+  beneficiary: string;
+  recipient: string;
+  // 0 releases everything releasable when the payload is relayed
+  amount: string;
+  nonce: string;
+  deadline: string;
+  signature: string;
+}
+
+/**
+ * Read the EIP-712 domain of a lockup (name, version, chain ID and address)
+ */
+export async function getReleaseDomain(lockup: SimpleLockup): Promise<TypedDataDomain> {
+  const domain = await lockup.eip712Domain();
+  return {
+    name: domain.name,
+    version: domain.version,
+    chainId: domain.chainId,
+    verifyingContract: domain.verifyingContract,
+  };
+}
+
+function toMessage(signed: SignedRelease) {
+  return {
+    recipient: signed.recipient,
+    amount: BigInt(signed.amount),
+    nonce: BigInt(signed.nonce),
+    deadline: BigInt(signed.deadline),
+  };
+}
+
+/**
+ * Sign a release with the beneficiary key, using the lockup's next nonce
+ * @param signer Current beneficiary (only signs; sends nothing)
+ * @param recipient Address receiving the tokens
+ * @param amount Amount to release, 0 for everything releasable when relayed
+ * @param deadline Unix timestamp after which the payload expires
+ * @throws Error if the signer is not the beneficiary or the recipient is malformed
+ */
+export async function signRelease(
+  lockup: SimpleLockup,
+  signer: Signer,
+  recipient: string,
+  amount: bigint,
+  deadline: bigint
+): Promise<SignedRelease> {
+  if (!isAddress(recipient)) {
+    throw new Error(`Invalid recipient address: ${recipient}`);
+  }
+
+  const [beneficiary, signerAddress, domain] = await Promise.all([
+    lockup.beneficiary(),
+    signer.getAddress(),
+    getReleaseDomain(lockup),
+  ]);
+  if (signerAddress.toLowerCase() !== beneficiary.toLowerCase()) {
+    throw new Error(`Signer ${signerAddress} is not the beneficiary (${beneficiary})`);
+  }
+
+  const nonce = await lockup.nonces(beneficiary);
+  const message = { recipient: getAddress(recipient), amount, nonce, deadline };
+  const signature = await signer.signTypedData(domain, RELEASE_TYPES, message);
+
+  return {
+    version: SIGNED_RELEASE_VERSION,
+    chainId: domain.chainId!.toString(),
+    lockup: getAddress(domain.verifyingContract!),
+    beneficiary,
+    recipient: message.recipient,
+    amount: amount.toString(),
+    nonce: nonce.toString(),
+    deadline: deadline.toString(),
+    signature,
+  };
+}
+
+/**
+ * Check that a payload can be relayed now, so the relayer does not pay for a revert
+ * @param now Latest block timestamp
+ * @throws Error naming the first problem (lockup, chain, expiry, nonce, signer or releasable amount)
+ */
+export async function checkSignedRelease(
+  lockup: SimpleLockup,
+  signed: SignedRelease,
+  now: bigint
+): Promise<void> {
+  if (signed.version !== SIGNED_RELEASE_VERSION) {
+    throw new Error(`Unsupported signed release version: ${signed.version}`);
+  }
+
+  const target = await lockup.getAddress();
+  if (!isAddress(signed.lockup) || getAddress(signed.lockup) !== getAddress(target)) {
+    throw new Error(`Signed for lockup ${signed.lockup}, but relaying to ${target}`);
+  }
+
+  const domain = await getReleaseDomain(lockup);
+  if (domain.chainId!.toString() !== signed.chainId) {
+    throw new Error(`Signed for chain ${signed.chainId}, but network is ${domain.chainId}`);
+  }
+  if (BigInt(signed.deadline) < now) {
+    throw new Error(
+      `Signature expired at ${new Date(Number(signed.deadline) * 1000).toISOString()}`
+    );
+  }
+
+  const beneficiary = await lockup.beneficiary();
+  const signer = verifyTypedData(domain, RELEASE_TYPES, toMessage(signed), signed.signature);
+  if (signer.toLowerCase() !== beneficiary.toLowerCase()) {
+    throw new Error(`Signed by ${signer}, but the beneficiary is ${beneficiary}`);
+  }
+
+  const nonce = await lockup.nonces(beneficiary);
+  if (BigInt(signed.nonce) < nonce) {
+    throw new Error(`Nonce ${signed.nonce} was already used`);
+  }
+  if (BigInt(signed.nonce) > nonce) {
+    throw new Error(`Nonce ${signed.nonce} waits for nonce ${nonce} to be relayed first`);
+  }
+
+  const releasable = await lockup.releasableAmount();
+  if (releasable === 0n || BigInt(signed.amount) > releasable) {
+    throw new Error(`Only ${releasable} is releasable (signed amount: ${signed.amount})`);
+  }
+}
+
+/**
+ * Submit a signed release
+ * @param lockup Lockup connected to the relayer, which pays the gas
+ */
+export function relayRelease(
+  lockup: SimpleLockup,
+  signed: SignedRelease
+): Promise<ContractTransactionResponse> {
+  return lockup.releaseWithSig(signed.recipient, signed.amount, signed.deadline, signed.signature);
+}
+
+/**
+ * Parse how long a signature stays valid: days ("7d"), hours ("12h") or seconds
+ * @return Validity in seconds
+ * @throws Error if the input is not a positive whole duration
+ */
+export function parseValidity(input: string): bigint {
+  const value = input.trim().toLowerCase();
+  const match = /^(\d+)([dh]?)$/.exec(value);
+  if (!match || BigInt(match[1]) === 0n) {
+    throw new Error(
+      `Invalid validity "${input}" (use days like "7d", hours like "12h", or seconds)`
+    );
+  }
+
+  const unit = match[2] === 'd' ? 86400n : match[2] === 'h' ? 3600n : 1n;
+  return BigInt(match[1]) * unit;
+}
+
+/**
+ * Default payload file name, e.g. release-0x1234abcd-0.json
+ */
+export function defaultSignedReleaseFile(signed: SignedRelease): string {
+  return `release-${signed.lockup.slice(0, 10).toLowerCase()}-${signed.nonce}.json`;
+}
+
+export function readSignedRelease(filePath: string): SignedRelease {
+  return JSON.parse(fs.readFileSync(filePath, 'utf8')) as SignedRelease;
+}
+
+export function writeSignedRelease(signed: SignedRelease, filePath: string): void {
+  fs.writeFileSync(filePath, `${JSON.stringify(signed, null, 2)}\n`);
+}
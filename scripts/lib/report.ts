@@ -0,0 +1,256 @@
+import { ZeroAddress } from 'ethers';
+import { sumLockupTotals } from './lockup';
+import type { LockupStatus, Timeline, TimelinePoint } from './lockup';
+import type { PeriodRange, PeriodRow } from './periods';
+import type { TokenMetadata } from './token';
+
+/**
+ * Versioned machine-readable lockup report
+ * Emitted by check-lockup / calculate-vested (OUTPUT_FORMAT=json) and `lockup status|timeline --json`.
+ * check-lockup on a MultiLockup emits a BeneficiaryReport wrapping one LockupReport per grant;
+ * `kind` tells the two apart. The BeneficiaryReport is versioned on its own
+ * (BENEFICIARY_REPORT_SCHEMA_VERSION); its `lockups` follow LOCKUP_REPORT_SCHEMA_VERSION.
+ *
+ * Schema rules:
+ * - Amounts are decimal strings in token base units (divide by 10^token.decimals for display)
+ * - Timestamps and durations are integer seconds (unix epoch for timestamps)
+ * - Fields are only ever added within a schema version; renames, removals and new `status`
+ *   values bump LOCKUP_REPORT_SCHEMA_VERSION
+ *
+ * Versions:
+ * - 1: initial report
+ * - 2: `status` can be `not-started` (contractual start time in the future); `kind: 'lockup'`
+ */
+
+export const LOCKUP_REPORT_SCHEMA_VERSION = 2;
+
+// Same schema rules; version 1 is the first BeneficiaryReport
+export const BENEFICIARY_REPORT_SCHEMA_VERSION = 1;
+
+export type LockupState =
+  | 'no-lockup'
+  | 'not-started'
+  | 'in-cliff'
+  | 'vesting'
+  | 'fully-vested'
+  | 'revoked';
+
+export interface LockupReportPoint {
+  label: string;
+  timestamp: number;
+  vestedAmount: string;
+}
+
+export interface LockupReportPeriod {
+  label: string;
+  start: number;
+  end: number;
+  vestedAmount: string;
+  deltaAmount: string;
+}
+
+export interface LockupReport {
+  schemaVersion: number;
+  kind: 'lockup';
+  lockup: string;
+  token: {
+    address: string;
+    symbol: string;
+    decimals: number;
+  };
+  beneficiary: string;
+  owner: string;
+  status: LockupState;
+  lockupInfo: {
+    totalAmount: string;
+    releasedAmount: string;
+    startTime: number;
+    cliffDuration: number;
+    vestingDuration: number;
+    // Step length in seconds, 0 for per-second linear vesting
+    releaseInterval: number;
+    // Share unlocked at the cliff end in basis points (0 for none)
+    cliffUnlockBps: number;
+    // Custom schedule (empty for linear and periodic lockups)
+    checkpoints: { offset: number; cumulativeBps: number }[];
+    revocable: boolean;
+    revoked: boolean;
+    vestedAtRevoke: string;
+  };
+  vestedAmount: string;
+  releasableAmount: string;
+  vestingProgress: number;
+  remainingTime: number;
+  cliffEnd: number;
+  vestingEnd: number;
+  // Next step unlock of a periodic lockup (null for linear, revoked or fully vested lockups)
+  nextStepTime: number | null;
+  currentTime: number;
+  // Pending beneficiary rotation (null when none)
+  beneficiaryChange: {
+    pendingBeneficiary: string | null;
+    recoveryBeneficiary: string | null;
+    recoveryEta: number | null;
+  };
+  timeline: {
+    milestones: LockupReportPoint[];
+    monthly: LockupReportPoint[];
+    steps: LockupReportPoint[];
+    checkpoints: LockupReportPoint[];
+    // Calendar breakdown settings (null when the lockup does not exist)
+    range: PeriodRange | null;
+    periods: LockupReportPeriod[];
+  };
+}
+
+export interface BeneficiaryReport {
+  schemaVersion: number;
+  kind: 'beneficiary';
+  lockup: string;
+  token: LockupReport['token'];
+  beneficiary: string;
+  // Sums over every lockup of the beneficiary
+  totals: {
+    totalAmount: string;
+    releasedAmount: string;
+    vestedAmount: string;
+    releasableAmount: string;
+  };
+  lockups: (LockupReport & { lockupId: number })[];
+}
+
+/**
+ * Classify a lockup at its status' current time
+ * @dev Revocation takes precedence over the time-based states
+ */
+export function getLockupState(status: LockupStatus): LockupState {
+  if (!status.exists) return 'no-lockup';
+  if (status.revoked) return 'revoked';
+  if (status.currentTime < status.startTime) return 'not-started';
+  if (status.currentTime < status.cliffEnd) return 'in-cliff';
+  if (status.currentTime < status.vestingEnd) return 'vesting';
+  return 'fully-vested';
+}
+
+function toReportPeriod(row: PeriodRow): LockupReportPeriod {
+  return {
+    label: row.label,
+    start: row.start,
+    end: row.end,
+    vestedAmount: row.vestedAmount.toString(),
+    deltaAmount: row.deltaAmount.toString(),
+  };
+}
+
+function toReportPoint(point: TimelinePoint): LockupReportPoint {
+  return {
+    label: point.label,
+    timestamp: point.timestamp,
+    vestedAmount: point.vestedAmount.toString(),
+  };
+}
+
+/**
+ * Build the versioned JSON report of a lockup
+ * @param address SimpleLockup address
+ * @param tokenInfo Metadata of the locked token
+ * @param status On-chain status from getLockupStatus()
+ * @param timeline Timeline from buildTimeline() (omit when the lockup does not exist)
+ */
+export function buildLockupReport(
+  address: string,
+  tokenInfo: TokenMetadata,
+  status: LockupStatus,
+  timeline?: Timeline
+): LockupReport {
+  return {
+    schemaVersion: LOCKUP_REPORT_SCHEMA_VERSION,
+    kind: 'lockup',
+    lockup: address,
+    token: {
+      address: tokenInfo.address,
+      symbol: tokenInfo.symbol,
+      decimals: tokenInfo.decimals,
+    },
+    beneficiary: status.beneficiary,
+    owner: status.owner,
+    status: getLockupState(status),
+    lockupInfo: {
+      totalAmount: status.totalAmount.toString(),
+      releasedAmount: status.releasedAmount.toString(),
+      startTime: Number(status.startTime),
+      cliffDuration: Number(status.cliffDuration),
+      vestingDuration: Number(status.vestingDuration),
+      releaseInterval: Number(status.releaseInterval),
+      cliffUnlockBps: Number(status.cliffUnlockBps),
+      checkpoints: status.checkpoints.map((checkpoint) => ({
+        offset: Number(checkpoint.offset),
+        cumulativeBps: Number(checkpoint.cumulativeBps),
+      })),
+      revocable: status.revocable,
+      revoked: status.revoked,
+      vestedAtRevoke: status.vestedAtRevoke.toString(),
+    },
+    vestedAmount: status.vestedAmount.toString(),
+    releasableAmount: status.releasableAmount.toString(),
+    vestingProgress: Number(status.vestingProgress),
+    remainingTime: Number(status.remainingTime),
+    cliffEnd: Number(status.cliffEnd),
+    vestingEnd: Number(status.vestingEnd),
+    nextStepTime: status.nextStepTime > 0n ? Number(status.nextStepTime) : null,
+    currentTime: Number(status.currentTime),
+    beneficiaryChange: {
+      pendingBeneficiary:
+        status.pendingBeneficiary !== ZeroAddress ? status.pendingBeneficiary : null,
+      recoveryBeneficiary:
+        status.recoveryBeneficiary !== ZeroAddress ? status.recoveryBeneficiary : null,
+      recoveryEta: status.recoveryEta > 0n ? Number(status.recoveryEta) : null,
+    },
+    timeline: {
+      milestones: (timeline?.milestones ?? []).map(toReportPoint),
+      monthly: (timeline?.monthly ?? []).map(toReportPoint),
+      steps: (timeline?.steps ?? []).map(toReportPoint),
+      checkpoints: (timeline?.checkpoints ?? []).map(toReportPoint),
+      range: timeline ? { ...timeline.range } : null,
+      periods: (timeline?.periods ?? []).map(toReportPeriod),
+    },
+  };
+}
+
+/**
+ * Build the versioned JSON report of every lockup one beneficiary holds in a MultiLockup
+ * @param address MultiLockup address
+ * @param tokenInfo Metadata of the locked token
+ * @param beneficiary Beneficiary address
+ * @param lockups Lockup IDs with their status from getMultiLockupStatus() and timeline
+ */
+export function buildBeneficiaryReport(
+  address: string,
+  tokenInfo: TokenMetadata,
+  beneficiary: string,
+  lockups: { lockupId: bigint; status: LockupStatus; timeline?: Timeline }[]
+): BeneficiaryReport {
+  const totals = sumLockupTotals(lockups.map(({ status }) => status));
+
+  return {
+    schemaVersion: BENEFICIARY_REPORT_SCHEMA_VERSION,
+    kind: 'beneficiary',
+    lockup: address,
+    token: {
+      address: tokenInfo.address,
+      symbol: tokenInfo.symbol,
+      decimals: tokenInfo.decimals,
+    },
+    beneficiary,
+    totals: {
+      totalAmount: totals.totalAmount.toString(),
+      releasedAmount: totals.releasedAmount.toString(),
+      vestedAmount: totals.vestedAmount.toString(),
+      releasableAmount: totals.releasableAmount.toString(),
+    },
+    lockups: lockups.map(({ lockupId, status, timeline }) => ({
+      lockupId: Number(lockupId),
+      ...buildLockupReport(address, tokenInfo, status, timeline),
+    })),
+  };
+}
@@ -0,0 +1,277 @@
+import * as fs from 'fs';
+import {
+  BaseContract,
+  Contract,
+  ParamType,
+  Result,
+  getAddress,
+  isAddress,
+  type Provider,
+} from 'ethers';
+import type { VestingCheckpoint } from './vesting';
+
+/**
+ * Safe (Gnosis Safe multisig) Transaction Builder batches for owner actions
+ * When the lockup owner is a Safe, the helpers write a batch file instead of broadcasting; Safe
+ * signers load it in the Transaction Builder app (Safe UI → Apps → Transaction Builder → drag and
+ * drop the file), review the decoded calls and sign there. No private key is needed locally.
+ *
+ * Batch format (Transaction Builder JSON, version 1.0):
+ * - `to`, `value` and raw `data` of every call
+ * - `contractMethod` / `contractInputsValues` with the decoded parameters for review
+ * - Integers are decimal strings; tuple arrays are JSON-encoded arrays of decimal strings
+ */
+
+export interface SafeBatchTransaction {
+  to: string;
+  value: string;
+  data: string;
+  contractMethod: {
+    inputs: { internalType: string; name: string; type: string }[];
+    name: string;
+    payable: boolean;
+  };
+  contractInputsValues: Record<string, string>;
+}
+
+export interface SafeBatch {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: SafeBatchTransaction[];
+}
+
+export interface SafeInfo {
+  address: string;
+  owners: string[];
+  threshold: bigint;
+}
+
+export interface CreateLockupParams {
+  beneficiary: string;
+  amount: bigint;
+  cliffDuration: bigint | number;
+  vestingDuration: bigint | number;
+  releaseInterval: bigint;
+  cliffUnlockBps: bigint;
+  // null to start at creation
+  startTime: bigint | null;
+  // Custom schedule, replaces every duration parameter when non-empty
+  checkpoints: VestingCheckpoint[];
+  revocable: boolean;
+}
+
+const SAFE_ABI = [
+  'function getOwners() external view returns (address[])',
+  'function getThreshold() external view returns (uint256)',
+];
+
+/**
+ * Check that an address is a Safe and owns a lockup contract
+ * @param provider Provider of the network the lockup is deployed on
+ * @param safeAddress Address passed with --as-safe / SAFE_ADDRESS
+ * @param contractOwner Current owner() of the lockup contract
+ * @return Owners and threshold of the Safe, for display
+ * @throws Error if the address is malformed, not a Safe, or not the lockup owner
+ */
+export async function assertSafeOwner(
+  provider: Provider,
+  safeAddress: string,
+  contractOwner: string
+): Promise<SafeInfo> {
+  if (!isAddress(safeAddress)) {
+    throw new Error(`Invalid Safe address: ${safeAddress}`);
+  }
+  if ((await provider.getCode(safeAddress)) === '0x') {
+    throw new Error(`No contract code found at Safe address: ${safeAddress}`);
+  }
+
+  const safe = new Contract(safeAddress, SAFE_ABI, provider);
+  let owners: string[];
+  let threshold: bigint;
+  try {
+    [owners, threshold] = await Promise.all([safe.getOwners(), safe.getThreshold()]);
+  } catch {
+    throw new Error(`${safeAddress} is not a Safe (getOwners/getThreshold failed)`);
+  }
+
+  if (contractOwner.toLowerCase() !== safeAddress.toLowerCase()) {
+    throw new Error(`Safe ${safeAddress} is not the owner of this contract (${contractOwner})`);
+  }
+
+  return { address: getAddress(safeAddress), owners: [...owners], threshold };
+}
+
+function toInputValue(type: ParamType, value: unknown): string {
+  if (type.isArray() || type.isTuple()) {
+    const toPlain = (item: unknown): unknown =>
+      item instanceof Result || Array.isArray(item)
+        ? Array.from(item as unknown[], toPlain)
+        : typeof item === 'bigint'
+          ? item.toString()
+          : item;
+    return JSON.stringify(toPlain(value));
+  }
+  return String(value);
+}
+
+/**
+ * Encode a contract call as a Transaction Builder transaction with decoded parameters
+ * @param contract Target contract (typechain instance or ethers Contract)
+ * @param signature Function name or full signature for overloaded functions
+ * @param args Call arguments
+ */
+export async function encodeSafeTransaction(
+  contract: BaseContract,
+  signature: string,
+  args: unknown[]
+): Promise<SafeBatchTransaction> {
+  const fragment = contract.interface.getFunction(signature, args);
+  if (!fragment) {
+    throw new Error(`Unknown function ${signature}`);
+  }
+
+  const data = contract.interface.encodeFunctionData(fragment, args);
+  // Decode the calldata again so values are normalized exactly as they will be executed
+  const decoded = contract.interface.decodeFunctionData(fragment, data);
+
+  return {
+    to: await contract.getAddress(),
+    value: '0',
+    data,
+    contractMethod: {
+      inputs: fragment.inputs.map((input) => ({
+        internalType: input.type,
+        name: input.name,
+        type: input.type,
+      })),
+      name: fragment.name,
+      payable: fragment.payable,
+    },
+    contractInputsValues: Object.fromEntries(
+      fragment.inputs.map((input, index) => [input.name, toInputValue(input, decoded[index])])
+    ),
+  };
+}
+
+/**
+ * Pick the SimpleLockup creation function and its arguments for a set of lockup parameters
+ * @dev Same precedence as the interactive helper: custom schedule, start time, cliff unlock,
+ *      release interval, then plain linear vesting
+ */
+export function selectCreateCall(params: CreateLockupParams): {
+  signature: string;
+  args: unknown[];
+} {
+  const { beneficiary, amount, cliffDuration, vestingDuration, revocable } = params;
+
+  if (params.checkpoints.length > 0) {
+    return {
+      signature: 'createCustomLockup',
+      args: [beneficiary, amount, params.checkpoints, revocable],
+    };
+  }
+  if (params.startTime !== null) {
+    return {
+      signature: 'createScheduledLockup',
+      args: [
+        beneficiary,
+        amount,
+        params.startTime,
+        cliffDuration,
+        vestingDuration,
+        params.releaseInterval,
+        params.cliffUnlockBps,
+        revocable,
+      ],
+    };
+  }
+  if (params.cliffUnlockBps > 0n) {
+    return {
+      signature: 'createCliffUnlockLockup',
+      args: [beneficiary, amount, cliffDuration, vestingDuration, params.cliffUnlockBps, revocable],
+    };
+  }
+  if (params.releaseInterval > 0n) {
+    return {
+      signature: 'createPeriodicLockup',
+      args: [
+        beneficiary,
+        amount,
+        cliffDuration,
+        vestingDuration,
+        params.releaseInterval,
+        revocable,
+      ],
+    };
+  }
+  return {
+    signature: 'createLockup',
+    args: [beneficiary, amount, cliffDuration, vestingDuration, revocable],
+  };
+}
+
+/**
+ * Wrap transactions in a Transaction Builder batch
+ * @param chainId Chain the batch is created for (the Safe UI refuses batches of other chains)
+ * @param safeAddress Safe that executes the batch
+ * @param name Batch name shown in the Transaction Builder
+ * @param description Free-form description shown in the Transaction Builder
+ */
+export function buildSafeBatch(
+  chainId: bigint,
+  safeAddress: string,
+  name: string,
+  description: string,
+  transactions: SafeBatchTransaction[]
+): SafeBatch {
+  return {
+    version: '1.0',
+    chainId: chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name,
+      description,
+      createdFromSafeAddress: getAddress(safeAddress),
+      createdFromOwnerAddress: '',
+    },
+    transactions,
+  };
+}
+
+/**
+ * Default batch file name, e.g. safe-revoke-0x1234abcd-1700000000.json
+ */
+export function defaultSafeBatchFile(action: string, contractAddress: string): string {
+  return `safe-${action}-${contractAddress.slice(0, 10).toLowerCase()}-${Math.floor(Date.now() / 1000)}.json`;
+}
+
+/**
+ * Write a batch file for upload to the Transaction Builder
+ */
+export function writeSafeBatch(batch: SafeBatch, filePath: string): void {
+  fs.writeFileSync(filePath, `${JSON.stringify(batch, null, 2)}\n`);
+}
+
+/**
+ * Print the decoded calls of a batch for review
+ */
+export function printSafeBatch(batch: SafeBatch, safe: SafeInfo): void {
+  console.log('🔐 Safe Transaction Builder Batch:');
+  console.log('─'.repeat(50));
+  console.log('Safe:', safe.address, `(${safe.threshold} of ${safe.owners.length} signers)`);
+  console.log('Chain ID:', batch.chainId);
+  batch.transactions.forEach((transaction, index) => {
+    console.log(`#${index + 1} ${transaction.contractMethod.name} → ${transaction.to}`);
+    for (const [name, value] of Object.entries(transaction.contractInputsValues)) {
+      console.log(`   ${name}:`, value);
+    }
+  });
+  console.log('─'.repeat(50));
+}
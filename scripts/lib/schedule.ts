@@ -0,0 +1,241 @@
+import * as fs from 'fs';
+import { BASIS_POINTS, VestingCheckpoint, formatPercent } from './vesting';
+
+/**
+ * Custom vesting schedules for SimpleLockup.createCustomLockup()
+ *
+ * A schedule is an ordered table of (offset, cumulative basis points) checkpoints. Nothing
+ * vests before the first checkpoint, the vested share grows linearly between checkpoints, and
+ * two checkpoints with the same offset form an instant unlock.
+ *
+ * JSON tables are arrays of rows (or { "checkpoints": [...] }):
+ *   [{ "offset": 0, "percent": 10 }, { "offset": "30d", "percent": 10 }, { "offset": "30d", "bps": 1500 }]
+ * - offset: seconds after the lockup start, or whole days like "30d"
+ * - bps (10000 = 100%) or percent (up to 2 decimals): cumulative share vested at offset
+ */
+
+export interface ScheduleRules {
+  maxCheckpoints: number;
+  maxVestingDuration: bigint;
+}
+
+// SimpleLockup.MAX_CHECKPOINTS and MAX_VESTING_DURATION
+export const DEFAULT_SCHEDULE_RULES: ScheduleRules = {
+  maxCheckpoints: 32,
+  maxVestingDuration: BigInt(10 * 365 * 86400),
+};
+
+type RawCheckpoint = Record<string, string | number | undefined>;
+
+function parseOffset(value: string | number | undefined): bigint | null {
+  const normalized = String(value ?? '')
+    .trim()
+    .toLowerCase();
+  if (/^\d+d$/.test(normalized)) return BigInt(normalized.slice(0, -1)) * 86400n;
+  if (/^\d+$/.test(normalized)) return BigInt(normalized);
+  return null;
+}
+
+function parseBps(raw: RawCheckpoint): bigint | null {
+  if (raw.bps !== undefined) {
+    const normalized = String(raw.bps).trim();
+    return /^\d+$/.test(normalized) ? BigInt(normalized) : null;
+  }
+
+  const match = /^(\d+)(?:\.(\d{1,2}))?%?$/.exec(String(raw.percent ?? '').trim());
+  if (!match) return null;
+  return BigInt(match[1]) * 100n + BigInt((match[2] ?? '').padEnd(2, '0'));
+}
+
+/**
+ * Builds a checkpoint table from vesting segments
+ * @example 10% at start, then 5% per month for 6 months, then linear for the rest over 2 years
+ *   const DAY = 86400n;
+ *   new ScheduleBuilder().unlock(1000n).steps(30n * DAY, 6, 500n).linearToEnd(550n * DAY).build()
+ */
+export class ScheduleBuilder {
+  private readonly checkpoints: VestingCheckpoint[] = [];
+  private offset = 0n;
+  private cumulativeBps = 0n;
+
+  /**
+   * Vest `bps` instantly at the current offset
+   */
+  unlock(bps: bigint): this {
+    this.point();
+    this.cumulativeBps += bps;
+    return this.point();
+  }
+
+  /**
+   * Vest nothing for `duration` seconds (e.g. a cliff or the gap before the next step)
+   */
+  wait(duration: bigint): this {
+    this.point();
+    this.offset += duration;
+    return this.point();
+  }
+
+  /**
+   * Vest `bps` linearly over `duration` seconds
+   */
+  linear(duration: bigint, bps: bigint): this {
+    this.point();
+    this.offset += duration;
+    this.cumulativeBps += bps;
+    return this.point();
+  }
+
+  /**
+   * Vest whatever is left up to 100% linearly over `duration` seconds
+   */
+  linearToEnd(duration: bigint): this {
+    return this.linear(duration, BASIS_POINTS - this.cumulativeBps);
+  }
+
+  /**
+   * `count` instant unlocks of `bps` each, one every `interval` seconds
+   */
+  steps(interval: bigint, count: number, bps: bigint): this {
+    for (let step = 0; step < count; step++) {
+      this.wait(interval).unlock(bps);
+    }
+    return this;
+  }
+
+  /**
+   * Return the checkpoint table
+   * @dev Leading checkpoints that change nothing (an initial 0% point, or a point followed by
+   *      another one at the same offset) are dropped, so a leading wait() becomes the cliff
+   * @throws Error listing every rule the schedule breaks
+   */
+  build(rules: ScheduleRules = DEFAULT_SCHEDULE_RULES): VestingCheckpoint[] {
+    const checkpoints = [...this.checkpoints];
+    while (
+      checkpoints.length > 1 &&
+      (checkpoints[0].offset === checkpoints[1].offset ||
+        (checkpoints[0].cumulativeBps === 0n && checkpoints[1].cumulativeBps === 0n))
+    ) {
+      checkpoints.shift();
+    }
+
+    assertValidSchedule(checkpoints, rules);
+    return checkpoints;
+  }
+
+  private point(): this {
+    const last = this.checkpoints[this.checkpoints.length - 1];
+    if (!last || last.offset !== this.offset || last.cumulativeBps !== this.cumulativeBps) {
+      this.checkpoints.push({ offset: this.offset, cumulativeBps: this.cumulativeBps });
+    }
+    return this;
+  }
+}
+
+/**
+ * Validate a checkpoint table against the rules enforced by SimpleLockup.createCustomLockup()
+ * @return List of validation errors (empty if the schedule is valid)
+ */
+export function validateSchedule(
+  checkpoints: readonly VestingCheckpoint[],
+  rules: ScheduleRules = DEFAULT_SCHEDULE_RULES
+): string[] {
+  const errors: string[] = [];
+
+  if (checkpoints.length === 0) {
+    return ['schedule needs at least one checkpoint'];
+  }
+  if (checkpoints.length > rules.maxCheckpoints) {
+    errors.push(`schedule has more than ${rules.maxCheckpoints} checkpoints`);
+  }
+
+  checkpoints.forEach((checkpoint, index) => {
+    const previous = checkpoints[index - 1];
+    if (previous && checkpoint.offset < previous.offset) {
+      errors.push(`checkpoint ${index + 1}: offset is before the previous checkpoint`);
+    }
+    if (previous && checkpoint.cumulativeBps < previous.cumulativeBps) {
+      errors.push(`checkpoint ${index + 1}: cumulative share decreases`);
+    }
+  });
+
+  const first = checkpoints[0];
+  const last = checkpoints[checkpoints.length - 1];
+  if (last.cumulativeBps !== BASIS_POINTS) {
+    errors.push(`last checkpoint must vest 100% (${BASIS_POINTS} bps), not ${last.cumulativeBps}`);
+  }
+  if (last.offset <= first.offset) {
+    errors.push('last checkpoint must come after the first one (vesting duration > cliff)');
+  }
+  if (last.offset > rules.maxVestingDuration) {
+    errors.push(`vesting duration exceeds MAX_VESTING_DURATION (${rules.maxVestingDuration}s)`);
+  }
+
+  return errors;
+}
+
+/**
+ * @throws Error listing every validation error of the schedule
+ */
+export function assertValidSchedule(
+  checkpoints: readonly VestingCheckpoint[],
+  rules: ScheduleRules = DEFAULT_SCHEDULE_RULES
+): void {
+  const errors = validateSchedule(checkpoints, rules);
+  if (errors.length > 0) {
+    throw new Error(`Invalid vesting schedule:\n  ${errors.join('\n  ')}`);
+  }
+}
+
+/**
+ * Load and validate a checkpoint table from a JSON file
+ * @throws Error with every malformed row or broken rule listed
+ */
+export function loadScheduleFile(
+  filePath: string,
+  rules: ScheduleRules = DEFAULT_SCHEDULE_RULES
+): VestingCheckpoint[] {
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const rows: RawCheckpoint[] = Array.isArray(parsed) ? parsed : parsed?.checkpoints;
+  if (!Array.isArray(rows)) {
+    throw new Error('Schedule file must be an array of checkpoints or { "checkpoints": [...] }');
+  }
+
+  const checkpoints: VestingCheckpoint[] = [];
+  const errors: string[] = [];
+
+  rows.forEach((raw, index) => {
+    const offset = parseOffset(raw.offset);
+    const cumulativeBps = parseBps(raw);
+
+    if (offset === null) errors.push(`Row ${index + 1}: invalid offset "${raw.offset}"`);
+    if (cumulativeBps === null) {
+      errors.push(`Row ${index + 1}: invalid bps/percent "${raw.bps ?? raw.percent}"`);
+    }
+    if (offset !== null && cumulativeBps !== null) {
+      checkpoints.push({ offset, cumulativeBps });
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Schedule file could not be parsed:\n  ${errors.join('\n  ')}`);
+  }
+
+  assertValidSchedule(checkpoints, rules);
+  return checkpoints;
+}
+
+/**
+ * Print a checkpoint table
+ */
+export function printSchedule(checkpoints: readonly VestingCheckpoint[]): void {
+  console.log('#'.padEnd(6), 'Offset'.padEnd(20), 'Cumulative Vested');
+  checkpoints.forEach((checkpoint, index) => {
+    const days = Number((Number(checkpoint.offset) / 86400).toFixed(2));
+    console.log(
+      String(index + 1).padEnd(6),
+      `${days} days`.padEnd(20),
+      formatPercent(checkpoint.cumulativeBps, BASIS_POINTS, 2)
+    );
+  });
+}
@@ -0,0 +1,355 @@
+import { parseStartTime } from './lockup';
+import { formatTokenAmount, formatTokenUnits, parseTokenAmount, type TokenMetadata } from './token';
+import {
+  BASIS_POINTS,
+  formatPercent,
+  releasableAt,
+  vestedAt,
+  type VestingSchedule,
+} from './vesting';
+
+/**
+ * What-if simulation of release and revoke sequences
+ * Replays hypothetical actions on the off-chain vesting model (see vesting.ts) with the same
+ * checks and reverts as SimpleLockup.release() and revoke(), without touching the chain.
+ *
+ * Actions are written as `<release|revoke>[:<amount>]@<time>`, separated by commas:
+ *   release@2026-01-01, revoke@2026-07-01T12:00:00Z, release:250@+400d
+ * - amount: partial release in token units (release only; default everything releasable)
+ * - time: ISO date (midnight UTC), date-time with timezone, unix seconds, or "+<seconds>" /
+ *   "+<days>d" after the lockup start
+ */
+
+export type SimulationActionType = 'release' | 'revoke';
+
+export interface SimulationAction {
+  type: SimulationActionType;
+  timestamp: bigint;
+  // Partial release in base units (undefined for everything releasable)
+  amount?: bigint;
+}
+
+// Custom errors of SimpleLockup that release() and revoke() can revert with
+export type SimulationRevert =
+  | 'NoLockupFound'
+  | 'NoTokensAvailable'
+  | 'AmountExceedsReleasable'
+  | 'NothingToRevoke'
+  | 'NotRevocable'
+  | 'AlreadyRevoked';
+
+export type SimulationOutcome = 'released' | 'revoked' | SimulationRevert;
+
+export type SimulatedLockup = VestingSchedule & { revocable: boolean };
+
+// Token balances of the parties
+export interface SimulationBalances {
+  beneficiary: bigint;
+  owner: bigint;
+  lockup: bigint;
+}
+
+export interface SimulationState {
+  timestamp: bigint;
+  vestedAmount: bigint;
+  releasableAmount: bigint;
+  releasedAmount: bigint;
+  revoked: boolean;
+  balances: SimulationBalances;
+}
+
+export interface SimulationStep {
+  action: SimulationAction;
+  outcome: SimulationOutcome;
+  // Tokens moved by the action (0 when it reverts)
+  amount: bigint;
+  state: SimulationState;
+}
+
+export interface SimulationResult {
+  initial: SimulationState;
+  steps: SimulationStep[];
+  // What the beneficiary ends up with (released and still claimable) and what the owner got
+  // back, once the sequence is over and the lockup runs its course
+  beneficiaryKeeps: bigint;
+  ownerRecovers: bigint;
+}
+
+// Hypothetical lockup parameters, as accepted by SimpleLockup.createScheduledLockup()
+export interface SimulatedLockupParams {
+  totalAmount: bigint;
+  startTime: bigint;
+  cliffDuration: bigint;
+  vestingDuration: bigint;
+  releaseInterval: bigint;
+  cliffUnlockBps: bigint;
+  revocable: boolean;
+}
+
+/**
+ * Build a hypothetical lockup that has not released anything yet
+ * @throws Error for parameters SimpleLockup would reject
+ */
+export function buildSimulatedLockup(params: SimulatedLockupParams): SimulatedLockup {
+  if (params.totalAmount <= 0n) {
+    throw new Error('Amount must be greater than 0');
+  }
+  if (params.vestingDuration <= 0n) {
+    throw new Error('Vesting duration must be greater than 0');
+  }
+  if (params.cliffDuration >= params.vestingDuration) {
+    throw new Error('Cliff must be shorter than the vesting duration');
+  }
+  if (params.releaseInterval > params.vestingDuration) {
+    throw new Error('Release interval cannot exceed the vesting duration');
+  }
+  if (params.cliffUnlockBps > BASIS_POINTS) {
+    throw new Error('Cliff unlock cannot exceed 100%');
+  }
+  if (params.releaseInterval > 0n && params.cliffUnlockBps > 0n) {
+    throw new Error('A lockup cannot have both a release interval and a cliff unlock');
+  }
+
+  return {
+    ...params,
+    releasedAmount: 0n,
+    revoked: false,
+    vestedAtRevoke: 0n,
+  };
+}
+
+/**
+ * Parse a duration: seconds or whole days like "90d"
+ * @throws Error if the input is not a whole, non-negative duration
+ */
+export function parseDuration(input: string): bigint {
+  const value = input.trim().toLowerCase();
+  if (/^\d+d$/.test(value)) {
+    return BigInt(value.slice(0, -1)) * 86400n;
+  }
+  if (/^\d+$/.test(value)) {
+    return BigInt(value);
+  }
+  throw new Error(`Invalid duration "${input}" (use seconds or days like "90d")`);
+}
+
+function parseActionTime(input: string, startTime: bigint): bigint {
+  const value = input.trim();
+  if (value.startsWith('+')) {
+    return startTime + parseDuration(value.slice(1));
+  }
+
+  const timestamp = parseStartTime(value);
+  if (timestamp === null) {
+    throw new Error('Every action needs a time');
+  }
+  return timestamp;
+}
+
+/**
+ * Parse an action list like "release@2026-01-01, revoke@+180d, release:100@2027-01-01"
+ * @param startTime Lockup start, for times relative to it
+ * @throws Error naming the malformed action
+ */
+export function parseSimulationActions(
+  input: string,
+  token: TokenMetadata,
+  startTime: bigint
+): SimulationAction[] {
+  const entries = input
+    .split(/[,;\n]/)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '');
+  if (entries.length === 0) {
+    throw new Error('No actions to simulate');
+  }
+
+  return entries.map((entry) => {
+    const match = /^(release|revoke)(?::([^@]+))?@(.+)$/i.exec(entry);
+    if (!match) {
+      throw new Error(
+        `Invalid action "${entry}" (use release@<time>, release:<amount>@<time> or revoke@<time>)`
+      );
+    }
+
+    const type = match[1].toLowerCase() as SimulationActionType;
+    try {
+      const timestamp = parseActionTime(match[3], startTime);
+      if (match[2] === undefined) {
+        return { type, timestamp };
+      }
+      if (type === 'revoke') {
+        throw new Error('revoke takes no amount');
+      }
+      const amount = parseTokenAmount(match[2], token);
+      if (amount === 0n) {
+        throw new Error('amount must be greater than 0');
+      }
+      return { type, timestamp, amount };
+    } catch (error) {
+      throw new Error(`Invalid action "${entry}": ${(error as Error).message}`);
+    }
+  });
+}
+
+function snapshot(
+  schedule: SimulatedLockup,
+  timestamp: bigint,
+  balances: SimulationBalances
+): SimulationState {
+  return {
+    timestamp,
+    vestedAmount: vestedAt(schedule, timestamp),
+    releasableAmount: releasableAt(schedule, timestamp),
+    releasedAmount: schedule.releasedAmount,
+    revoked: schedule.revoked,
+    balances: { ...balances },
+  };
+}
+
+function release(schedule: SimulatedLockup, action: SimulationAction): [SimulationOutcome, bigint] {
+  if (schedule.totalAmount === 0n) return ['NoLockupFound', 0n];
+
+  const releasable = releasableAt(schedule, action.timestamp);
+  if (releasable === 0n) return ['NoTokensAvailable', 0n];
+  if (action.amount !== undefined && action.amount > releasable) {
+    return ['AmountExceedsReleasable', 0n];
+  }
+
+  const amount = action.amount ?? releasable;
+  schedule.releasedAmount += amount;
+  return ['released', amount];
+}
+
+function revoke(schedule: SimulatedLockup, timestamp: bigint): [SimulationOutcome, bigint] {
+  if (schedule.totalAmount === 0n) return ['NoLockupFound', 0n];
+  if (schedule.revoked) return ['AlreadyRevoked', 0n];
+  if (!schedule.revocable) return ['NotRevocable', 0n];
+
+  const vested = vestedAt(schedule, timestamp);
+  const refund = schedule.totalAmount - vested;
+  if (refund === 0n) return ['NothingToRevoke', 0n];
+
+  schedule.revoked = true;
+  schedule.vestedAtRevoke = vested;
+  return ['revoked', refund];
+}
+
+/**
+ * Replay actions on a lockup and record the state after each one
+ * Actions that would revert on-chain are recorded with the custom error and change nothing.
+ * @param balances Token balances of the beneficiary, owner and lockup before the first action
+ * @param fromTime Time of the initial state (e.g. the latest block); actions cannot precede it
+ * @throws Error if the actions are not in chronological order from `fromTime`
+ */
+export function simulateActions(
+  lockup: SimulatedLockup,
+  actions: SimulationAction[],
+  balances: SimulationBalances,
+  fromTime: bigint
+): SimulationResult {
+  const schedule: SimulatedLockup = { ...lockup };
+  const current = { ...balances };
+  const initial = snapshot(schedule, fromTime, current);
+
+  let previous = fromTime;
+  const steps = actions.map((action, index) => {
+    if (action.timestamp < previous) {
+      throw new Error(
+        `Action ${index + 1} (${isoDate(action.timestamp)}) is before ${isoDate(previous)}; actions must be in chronological order from the initial state`
+      );
+    }
+    previous = action.timestamp;
+
+    const [outcome, amount] =
+      action.type === 'release' ? release(schedule, action) : revoke(schedule, action.timestamp);
+    if (outcome === 'released') {
+      current.beneficiary += amount;
+      current.lockup -= amount;
+    } else if (outcome === 'revoked') {
+      current.owner += amount;
+      current.lockup -= amount;
+    }
+
+    return { action, outcome, amount, state: snapshot(schedule, action.timestamp, current) };
+  });
+
+  const beneficiaryKeeps = schedule.revoked ? schedule.vestedAtRevoke : schedule.totalAmount;
+  return {
+    initial,
+    steps,
+    beneficiaryKeeps,
+    ownerRecovers: schedule.totalAmount - beneficiaryKeeps,
+  };
+}
+
+function isoDate(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+function describeAction(action: SimulationAction, token: TokenMetadata): string {
+  return action.amount === undefined
+    ? action.type
+    : `${action.type} ${formatTokenUnits(action.amount, token)}`;
+}
+
+function describeOutcome(step: SimulationStep, token: TokenMetadata): string {
+  switch (step.outcome) {
+    case 'released':
+      return `✅ Released ${formatTokenAmount(step.amount, token)}`;
+    case 'revoked':
+      return `✅ Revoked, ${formatTokenAmount(step.amount, token)} back to owner`;
+    case 'NoTokensAvailable':
+      return '❌ Reverts: NoTokensAvailable (nothing releasable)';
+    case 'AmountExceedsReleasable':
+      return '❌ Reverts: AmountExceedsReleasable';
+    case 'NothingToRevoke':
+      return '❌ Reverts: NothingToRevoke (everything has vested)';
+    default:
+      return `❌ Reverts: ${step.outcome}`;
+  }
+}
+
+/**
+ * Print the simulated steps with the vested amount and each party's balance after every step
+ */
+export function printSimulation(
+  result: SimulationResult,
+  totalAmount: bigint,
+  token: TokenMetadata
+): void {
+  const states = [
+    { label: 'Start', outcome: '', state: result.initial },
+    ...result.steps.map((step, index) => ({
+      label: `#${index + 1} ${describeAction(step.action, token)}`,
+      outcome: describeOutcome(step, token),
+      state: step.state,
+    })),
+  ];
+
+  console.log(`🧪 Simulated Steps (${token.symbol}):`);
+  console.log('─'.repeat(70));
+  for (const { label, outcome, state } of states) {
+    console.log(`${label.padEnd(24)} ${isoDate(state.timestamp)}`);
+    if (outcome) {
+      console.log(`   ${outcome}`);
+    }
+    console.log(
+      `   Vested: ${formatTokenUnits(state.vestedAmount, token)} (${formatPercent(state.vestedAmount, totalAmount)})`,
+      `| Releasable: ${formatTokenUnits(state.releasableAmount, token)}`
+    );
+    console.log(
+      `   Beneficiary: ${formatTokenUnits(state.balances.beneficiary, token)}`,
+      `| Owner: ${formatTokenUnits(state.balances.owner, token)}`,
+      `| Lockup: ${formatTokenUnits(state.balances.lockup, token)}`
+    );
+  }
+  console.log('─'.repeat(70));
+  console.log('');
+
+  console.log('📊 Outcome:');
+  console.log('─'.repeat(70));
+  console.log('✅ Beneficiary keeps:', formatTokenAmount(result.beneficiaryKeeps, token));
+  console.log('📤 Owner recovers:', formatTokenAmount(result.ownerRecovers, token));
+  console.log('─'.repeat(70));
+}
@@ -0,0 +1,120 @@
+import { Contract, ContractRunner, formatUnits, isError, isHexString, parseUnits } from 'ethers';
+
+/**
+ * Token metadata shared by all scripts
+ * Amounts are parsed and formatted in real token units using the token's decimals(),
+ * instead of assuming 18 decimals (parseEther/formatEther).
+ */
+
+export interface TokenMetadata {
+  address: string;
+  symbol: string;
+  decimals: number;
+  // True when decimals() is not implemented and DEFAULT_DECIMALS is assumed
+  decimalsFallback: boolean;
+}
+
+// Assumed when decimals() is missing (optional in the ERC-20 standard)
+export const DEFAULT_DECIMALS = 18;
+const DEFAULT_SYMBOL = 'tokens';
+
+const METADATA_ABI = [
+  'function decimals() external view returns (uint8)',
+  'function symbol() external view returns (string)',
+];
+
+const cache = new Map<string, TokenMetadata>();
+
+// True when a call reverted or returned no readable value, as opposed to an RPC failure
+function isRevertOrBadData(error: unknown): boolean {
+  if (isError(error, 'CALL_EXCEPTION') || isError(error, 'BAD_DATA')) {
+    return true;
+  }
+  // Hardhat's provider passes node errors through unwrapped; a revert carries its return data
+  const data = (error as { data?: unknown } | null)?.data;
+  return typeof data === 'string' && isHexString(data);
+}
+
+// Result of an optional ERC-20 getter, or null when the token does not implement it
+async function optionalCall<T>(call: Promise<T>): Promise<T | null> {
+  try {
+    return await call;
+  } catch (error) {
+    if (isRevertOrBadData(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Load symbol and decimals for a token (cached per address)
+ * @param tokenAddress ERC20 token address
+ * @param runner Provider or signer used for the calls
+ * @throws Error if a call fails for another reason than a missing decimals() or symbol()
+ */
+export async function loadTokenMetadata(
+  tokenAddress: string,
+  runner: ContractRunner
+): Promise<TokenMetadata> {
+  const cached = cache.get(tokenAddress.toLowerCase());
+  if (cached) {
+    return cached;
+  }
+
+  const token = new Contract(tokenAddress, METADATA_ABI, runner);
+  const [decimals, symbol] = await Promise.all([
+    optionalCall<bigint>(token.decimals()),
+    optionalCall<string>(token.symbol()),
+  ]);
+
+  const metadata: TokenMetadata = {
+    address: tokenAddress,
+    symbol: symbol || DEFAULT_SYMBOL,
+    decimals: decimals !== null ? Number(decimals) : DEFAULT_DECIMALS,
+    decimalsFallback: decimals === null,
+  };
+
+  if (metadata.decimalsFallback) {
+    console.warn(
+      `⚠️  Warning: decimals() not available on ${tokenAddress}, assuming ${DEFAULT_DECIMALS} decimals`
+    );
+  }
+
+  cache.set(tokenAddress.toLowerCase(), metadata);
+  return metadata;
+}
+
+/**
+ * Load metadata for the token locked by a lockup contract
+ * @param lockup Any contract exposing token() (SimpleLockup, SimpleLockupFactory)
+ * @param runner Provider or signer used for the calls
+ */
+export async function loadLockupToken(
+  lockup: { token(): Promise<string> },
+  runner: ContractRunner
+): Promise<TokenMetadata> {
+  return loadTokenMetadata(await lockup.token(), runner);
+}
+
+/**
+ * Format base units as a decimal string in token units (no symbol)
+ */
+export function formatTokenUnits(amount: bigint, token: TokenMetadata): string {
+  return formatUnits(amount, token.decimals);
+}
+
+/**
+ * Format base units with the token symbol, e.g. "1000.5 USDC"
+ */
+export function formatTokenAmount(amount: bigint, token: TokenMetadata): string {
+  return `${formatTokenUnits(amount, token)} ${token.symbol}`;
+}
+
+/**
+ * Parse a decimal string in token units to base units
+ * @throws Error if the value has more fractional digits than the token supports
+ */
+export function parseTokenAmount(value: string, token: TokenMetadata): bigint {
+  return parseUnits(value.trim(), token.decimals);
+}
@@ -0,0 +1,246 @@
+/**
+ * Off-chain vesting math mirroring SimpleLockup
+ * Pure bigint functions that return exactly what the contract views return when
+ * block.timestamp == timestamp:
+ * - vestedAt      → _vestedAmount() / vestedAmount()
+ * - releasableAt  → _releasableAmount() / releasableAmount()
+ * - progressAt    → getVestingProgress()
+ * - remainingAt   → getRemainingVestingTime()
+ * nextStepAt has no contract counterpart; it lists the step boundaries of periodic lockups.
+ *
+ * Keep in sync with contracts/SimpleLockup.sol (covered by test/VestingMath.test.ts).
+ */
+
+export const BASIS_POINTS = 10_000n;
+
+/**
+ * Point of a custom vesting schedule (SimpleLockup.Checkpoint)
+ */
+export interface VestingCheckpoint {
+  // Seconds after startTime
+  offset: bigint;
+  // Share of totalAmount vested at offset, in basis points
+  cumulativeBps: bigint;
+}
+
+/**
+ * Subset of SimpleLockup.LockupInfo used by the vesting math
+ * @dev The typechain lockupInfo() result satisfies this interface directly; custom schedules
+ *      also need the checkpoints from getCheckpoints() (see toVestingSchedule)
+ */
+export interface VestingSchedule {
+  totalAmount: bigint;
+  releasedAmount: bigint;
+  startTime: bigint;
+  cliffDuration: bigint;
+  vestingDuration: bigint;
+  // Step length in seconds, 0 for per-second linear vesting
+  releaseInterval: bigint;
+  // Share unlocked at the cliff end in basis points, 0 for none
+  cliffUnlockBps: bigint;
+  revoked: boolean;
+  vestedAtRevoke: bigint;
+  // Custom schedule (omitted or empty for linear and periodic lockups)
+  checkpoints?: readonly VestingCheckpoint[];
+}
+
+/**
+ * Copy a lockupInfo() result into a plain schedule with the checkpoints from getCheckpoints()
+ * @dev Typechain results are arrays with named getters, so they cannot simply be spread
+ */
+export function toVestingSchedule(
+  info: VestingSchedule,
+  checkpoints: readonly VestingCheckpoint[] = []
+): VestingSchedule {
+  return {
+    totalAmount: info.totalAmount,
+    releasedAmount: info.releasedAmount,
+    startTime: info.startTime,
+    cliffDuration: info.cliffDuration,
+    vestingDuration: info.vestingDuration,
+    releaseInterval: info.releaseInterval,
+    cliffUnlockBps: info.cliffUnlockBps,
+    revoked: info.revoked,
+    vestedAtRevoke: info.vestedAtRevoke,
+    checkpoints: checkpoints.map(({ offset, cumulativeBps }) => ({ offset, cumulativeBps })),
+  };
+}
+
+/**
+ * Round a time since startTime down to whole release intervals (no-op for linear vesting)
+ */
+function roundToInterval(schedule: VestingSchedule, timeFromStart: bigint): bigint {
+  if (schedule.releaseInterval === 0n) {
+    return timeFromStart;
+  }
+
+  return timeFromStart - (timeFromStart % schedule.releaseInterval);
+}
+
+/**
+ * Vested share of totalAmount as [numerator, denominator]
+ * @dev Mirrors _vestedFraction(); only meaningful between the cliff end and the vesting end
+ */
+function vestedFraction(schedule: VestingSchedule, timestamp: bigint): [bigint, bigint] {
+  const timeFromStart = timestamp - schedule.startTime;
+  const checkpoints = schedule.checkpoints ?? [];
+
+  if (checkpoints.length > 0) {
+    let index = 0;
+    while (index + 1 < checkpoints.length && checkpoints[index + 1].offset <= timeFromStart) {
+      index++;
+    }
+
+    const reached = checkpoints[index];
+    if (index + 1 === checkpoints.length) {
+      return [reached.cumulativeBps, BASIS_POINTS];
+    }
+
+    const next = checkpoints[index + 1];
+    const span = next.offset - reached.offset;
+    const growth = (next.cumulativeBps - reached.cumulativeBps) * (timeFromStart - reached.offset);
+    return [reached.cumulativeBps * span + growth, BASIS_POINTS * span];
+  }
+
+  if (schedule.cliffUnlockBps > 0n) {
+    const span = schedule.vestingDuration - schedule.cliffDuration;
+    const growth =
+      (BASIS_POINTS - schedule.cliffUnlockBps) * (timeFromStart - schedule.cliffDuration);
+    return [schedule.cliffUnlockBps * span + growth, BASIS_POINTS * span];
+  }
+
+  return [roundToInterval(schedule, timeFromStart), schedule.vestingDuration];
+}
+
+/**
+ * Amount vested at a timestamp
+ * @dev Linear from startTime (in whole release intervals for periodic vesting, interpolated
+ *      between checkpoints for custom schedules, from the cliff end after a cliff unlock) with
+ *      nothing vested before the cliff; frozen at vestedAtRevoke once revoked
+ */
+export function vestedAt(schedule: VestingSchedule, timestamp: bigint): bigint {
+  if (schedule.totalAmount === 0n) {
+    return 0n;
+  }
+
+  if (schedule.revoked) {
+    return schedule.vestedAtRevoke;
+  }
+
+  if (timestamp < schedule.startTime + schedule.cliffDuration) {
+    return 0n;
+  }
+
+  if (timestamp >= schedule.startTime + schedule.vestingDuration) {
+    return schedule.totalAmount;
+  }
+
+  // Math.mulDiv rounds down, as does bigint division
+  const [numerator, denominator] = vestedFraction(schedule, timestamp);
+  return (schedule.totalAmount * numerator) / denominator;
+}
+
+/**
+ * Amount releasable at a timestamp
+ * @dev After vesting end (and not revoked) everything not yet released is releasable,
+ *      which also covers rounding dust
+ */
+export function releasableAt(schedule: VestingSchedule, timestamp: bigint): bigint {
+  const vested = vestedAt(schedule, timestamp);
+
+  if (!schedule.revoked && timestamp >= schedule.startTime + schedule.vestingDuration) {
+    return schedule.totalAmount - schedule.releasedAmount;
+  }
+
+  return vested - schedule.releasedAmount;
+}
+
+/**
+ * Vesting progress (0-100, rounded down) at a timestamp
+ * @dev 100 for revoked lockups, 0 before the cliff or when no lockup exists
+ */
+export function progressAt(schedule: VestingSchedule, timestamp: bigint): bigint {
+  if (schedule.totalAmount === 0n) {
+    return 0n;
+  }
+
+  if (schedule.revoked) {
+    return 100n;
+  }
+
+  if (timestamp < schedule.startTime + schedule.cliffDuration) {
+    return 0n;
+  }
+
+  if (timestamp >= schedule.startTime + schedule.vestingDuration) {
+    return 100n;
+  }
+
+  const [numerator, denominator] = vestedFraction(schedule, timestamp);
+  return (numerator * 100n) / denominator;
+}
+
+/**
+ * Seconds until vesting end at a timestamp (0 if completed, revoked or no lockup exists)
+ */
+export function remainingAt(schedule: VestingSchedule, timestamp: bigint): bigint {
+  if (schedule.totalAmount === 0n || schedule.revoked) {
+    return 0n;
+  }
+
+  const endTime = schedule.startTime + schedule.vestingDuration;
+  return timestamp >= endTime ? 0n : endTime - timestamp;
+}
+
+/**
+ * Next step boundary of a periodic schedule: the first time after `timestamp` at which
+ * another step vests
+ * @dev Ignores revocation. Returns 0 for linear schedules, when no lockup exists, or once
+ *      vesting has ended.
+ */
+export function nextStepAt(schedule: VestingSchedule, timestamp: bigint): bigint {
+  if (schedule.totalAmount === 0n || schedule.releaseInterval === 0n) {
+    return 0n;
+  }
+
+  const cliffEnd = schedule.startTime + schedule.cliffDuration;
+  const vestingEnd = schedule.startTime + schedule.vestingDuration;
+
+  if (timestamp >= vestingEnd) {
+    return 0n;
+  }
+
+  // Steps that passed during the cliff unlock together at the cliff end
+  if (timestamp < cliffEnd && roundToInterval(schedule, schedule.cliffDuration) > 0n) {
+    return cliffEnd;
+  }
+
+  const from = timestamp > cliffEnd ? timestamp : cliffEnd;
+  const next =
+    schedule.startTime +
+    roundToInterval(schedule, from - schedule.startTime) +
+    schedule.releaseInterval;
+  return next < vestingEnd ? next : vestingEnd;
+}
+
+/**
+ * Format `amount / total` as a percentage without floating point conversion
+ * @param fractionDigits Digits after the decimal point (rounded down)
+ * @return e.g. "33.3%" (or "0%" when total is 0)
+ */
+export function formatPercent(amount: bigint, total: bigint, fractionDigits = 1): string {
+  if (total === 0n) {
+    return '0%';
+  }
+
+  const scale = 10n ** BigInt(fractionDigits);
+  const scaled = (amount * 100n * scale) / total;
+  const whole = scaled / scale;
+
+  if (fractionDigits === 0) {
+    return `${whole}%`;
+  }
+
+  const fraction = (scaled % scale).toString().padStart(fractionDigits, '0');
+  return `${whole}.${fraction}%`;
+}
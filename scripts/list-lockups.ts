@@ -1,43 +1,144 @@
 import { ethers } from 'hardhat';
 import * as dotenv from 'dotenv';
+import { LockupStatus, getLockupStatus, getMultiLockupStatus, isMultiLockup } from './lib/lockup';
+import { getLockupState } from './lib/report';
+import { TokenMetadata, formatTokenAmount, loadLockupToken } from './lib/token';
 
 dotenv.config();
 
 /**
- * List lockup status for SimpleLockup contract
- * Note: SimpleLockup only supports one lockup per contract (single beneficiary)
- * This script provides basic contract information including beneficiary
+ * List every lockup of a MultiLockup contract or a SimpleLockupFactory, one page at a time
+ * A SimpleLockup address lists its single lockup.
  *
- * Usage: LOCKUP_ADDRESS=0x... npx hardhat run scripts/list-lockups.ts
+ * Usage:
+ *   LOCKUP_ADDRESS=0x... npx hardhat run scripts/list-lockups.ts   # MultiLockup or SimpleLockup
+ *   FACTORY_ADDRESS=0x... npx hardhat run scripts/list-lockups.ts  # every lockup of a factory
+ *
+ * Optional:
+ *   PAGE      - Page number, starting at 1 (default: 1)
+ *   PAGE_SIZE - Lockups per page (default: 20)
  */
+
+interface LockupPage {
+  tokenInfo: TokenMetadata;
+  total: bigint;
+  // Lockup label (lockup ID, clone address or beneficiary) and status
+  rows: { label: string; status: LockupStatus }[];
+}
+
+async function multiLockupPage(
+  address: string,
+  offset: bigint,
+  limit: bigint
+): Promise<LockupPage> {
+  const multiLockup = await ethers.getContractAt('MultiLockup', address);
+  const total = await multiLockup.lockupCount();
+  const tokenInfo = await loadLockupToken(multiLockup, ethers.provider);
+
+  const rows = [];
+  for (let lockupId = offset; lockupId < total && lockupId < offset + limit; lockupId++) {
+    rows.push({
+      label: `Lockup ID ${lockupId}`,
+      status: await getMultiLockupStatus(multiLockup, lockupId),
+    });
+  }
+
+  return { tokenInfo, total, rows };
+}
+
+async function factoryPage(address: string, offset: bigint, limit: bigint): Promise<LockupPage> {
+  const factory = await ethers.getContractAt('SimpleLockupFactory', address);
+  const total = await factory.lockupCount();
+  const tokenInfo = await loadLockupToken(factory, ethers.provider);
+
+  const rows = [];
+  for (let i = offset; i < total && i < offset + limit; i++) {
+    const lockupAddress = await factory.lockupAt(i);
+    const lockup = await ethers.getContractAt('SimpleLockup', lockupAddress);
+    rows.push({ label: lockupAddress, status: await getLockupStatus(lockup) });
+  }
+
+  return { tokenInfo, total, rows };
+}
+
+async function simpleLockupPage(address: string, offset: bigint): Promise<LockupPage> {
+  const lockup = await ethers.getContractAt('SimpleLockup', address);
+  const tokenInfo = await loadLockupToken(lockup, ethers.provider);
+  const status = await getLockupStatus(lockup);
+
+  return {
+    tokenInfo,
+    total: status.exists ? 1n : 0n,
+    rows: status.exists && offset === 0n ? [{ label: status.beneficiary, status }] : [],
+  };
+}
+
+function printRow(index: bigint, label: string, status: LockupStatus, tokenInfo: TokenMetadata) {
+  console.log(`#${index} ${label}`);
+  if (label.toLowerCase() !== status.beneficiary.toLowerCase()) {
+    console.log('   Beneficiary:', status.beneficiary);
+  }
+  console.log('   Status:', getLockupState(status));
+  console.log('   Total:', formatTokenAmount(status.totalAmount, tokenInfo));
+  console.log('   Released:', formatTokenAmount(status.releasedAmount, tokenInfo));
+  console.log('   Vested:', formatTokenAmount(status.vestedAmount, tokenInfo));
+  console.log('   Releasable:', formatTokenAmount(status.releasableAmount, tokenInfo));
+}
+
 async function main() {
   const lockupAddress = process.env.LOCKUP_ADDRESS;
+  const factoryAddress = process.env.FACTORY_ADDRESS;
+  const page = BigInt(process.env.PAGE || '1');
+  const pageSize = BigInt(process.env.PAGE_SIZE || '20');
+
+  if (!lockupAddress && !factoryAddress) {
+    throw new Error('LOCKUP_ADDRESS or FACTORY_ADDRESS environment variable is required');
+  }
+  if (page < 1n || pageSize < 1n) {
+    throw new Error('PAGE and PAGE_SIZE must be positive numbers');
+  }
+
+  const offset = (page - 1n) * pageSize;
+  const contractAddress = (factoryAddress || lockupAddress)!;
+
+  let kind: string;
+  let result: LockupPage;
 
-  if (!lockupAddress) {
-    throw new Error('LOCKUP_ADDRESS environment variable is required');
+  if (factoryAddress) {
+    kind = 'SimpleLockupFactory';
+    result = await factoryPage(factoryAddress, offset, pageSize);
+  } else if (await isMultiLockup(ethers, contractAddress)) {
+    kind = 'MultiLockup';
+    result = await multiLockupPage(contractAddress, offset, pageSize);
+  } else {
+    // A SimpleLockup holds exactly one lockup
+    kind = 'SimpleLockup';
+    result = await simpleLockupPage(contractAddress, offset);
   }
 
-  console.log('📋 SimpleLockup Contract Information');
-  console.log('Contract Address:', lockupAddress);
-  console.log('');
+  const { tokenInfo } = result;
 
-  const SimpleLockup = await ethers.getContractFactory('SimpleLockup');
-  const simpleLockup = SimpleLockup.attach(lockupAddress);
+  console.log(`📋 ${kind} Lockups`);
+  console.log('Contract Address:', contractAddress);
+  console.log('Token:', tokenInfo.symbol, `(${tokenInfo.address})`);
+  console.log('Total Lockups:', result.total.toString());
+  console.log('─'.repeat(50));
 
-  // Get contract info
-  const tokenAddress = await simpleLockup.token();
-  const owner = await simpleLockup.owner();
-  const beneficiary = await simpleLockup.beneficiary();
+  if (result.rows.length === 0) {
+    console.log(result.total === 0n ? 'ℹ️  No lockups yet' : `ℹ️  Page ${page} is empty`);
+    return;
+  }
 
-  console.log('═══ Contract Details ═══');
-  console.log('Token Address:', tokenAddress);
-  console.log('Owner:', owner);
-  console.log('Beneficiary:', beneficiary);
-  console.log('');
+  result.rows.forEach((row, index) => {
+    printRow(offset + BigInt(index) + 1n, row.label, row.status, tokenInfo);
+  });
 
-  console.log('ℹ️  Note: SimpleLockup supports one lockup per contract.');
-  console.log('ℹ️  To check the lockup details, use:');
-  console.log('   LOCKUP_ADDRESS=' + lockupAddress + ' pnpm check-lockup');
+  const last = offset + BigInt(result.rows.length);
+  console.log('─'.repeat(50));
+  console.log(`Showing ${offset + 1n}-${last} of ${result.total}`);
+  if (last < result.total) {
+    console.log(`ℹ️  Next page: PAGE=${page + 1n} PAGE_SIZE=${pageSize} pnpm list-lockups`);
+  }
 }
 
 main()
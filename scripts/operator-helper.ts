@@ -0,0 +1,135 @@
+import { ethers } from 'hardhat';
+import * as readline from 'readline';
+import type { ContractTransactionResponse } from 'ethers';
+
+/**
+ * Interactive helper for release operators (beneficiary only)
+ * Usage: LOCKUP_ADDRESS=0x... npx hardhat run scripts/operator-helper.ts
+ *
+ * Operators (e.g. a payroll bot running auto-claim.ts) may trigger releases for the beneficiary.
+ * They can only send tokens to the beneficiary or to recipients approved here.
+ */
+
+const rl = readline.createInterface({
+  input: process.stdin,
+  output: process.stdout,
+});
+
+function question(prompt: string): Promise<string> {
+  return new Promise((resolve) => {
+    rl.question(prompt, resolve);
+  });
+}
+
+interface Action {
+  label: string;
+  run: (address: string) => Promise<ContractTransactionResponse>;
+}
+
+async function main() {
+  const lockupAddress = process.env.LOCKUP_ADDRESS;
+
+  if (!lockupAddress) {
+    throw new Error('LOCKUP_ADDRESS environment variable is required');
+  }
+
+  console.log('=== Release Operators ===');
+  console.log('SimpleLockup Address:', lockupAddress);
+  console.log('');
+
+  const [signer] = await ethers.getSigners();
+  console.log('Your Address:', signer.address);
+  console.log('');
+
+  const simpleLockup = await ethers.getContractAt('SimpleLockup', lockupAddress);
+
+  const [lockup, beneficiary] = await Promise.all([
+    simpleLockup.lockupInfo(),
+    simpleLockup.beneficiary(),
+  ]);
+
+  if (lockup.totalAmount === 0n) {
+    console.log('❌ No lockup found');
+    rl.close();
+    return;
+  }
+  if (beneficiary.toLowerCase() !== signer.address.toLowerCase()) {
+    console.log('❌ Only the beneficiary can manage operators');
+    console.log('Beneficiary:', beneficiary);
+    rl.close();
+    return;
+  }
+
+  const actions: Action[] = [
+    {
+      label: 'Approve an operator',
+      run: (address) => simpleLockup.setOperator(address, true),
+    },
+    {
+      label: 'Revoke an operator',
+      run: (address) => simpleLockup.setOperator(address, false),
+    },
+    {
+      label: 'Approve a recipient for operator releases',
+      run: (address) => simpleLockup.setRecipientApproval(address, true),
+    },
+    {
+      label: 'Remove an approved recipient',
+      run: (address) => simpleLockup.setRecipientApproval(address, false),
+    },
+  ];
+
+  actions.forEach((action, index) => console.log(`${index + 1}. ${action.label}`));
+  console.log('');
+
+  const choice = parseInt(await question('Select an action: '));
+  const action = actions[choice - 1];
+
+  if (!action) {
+    console.log('❌ Invalid selection');
+    rl.close();
+    return;
+  }
+
+  const address = (await question('Address: ')).trim();
+  if (!ethers.isAddress(address)) {
+    console.log('❌ Invalid address');
+    rl.close();
+    return;
+  }
+
+  const [isOperator, isApprovedRecipient] = await Promise.all([
+    simpleLockup.isOperator(address),
+    simpleLockup.isApprovedRecipient(address),
+  ]);
+  console.log('');
+  console.log('Currently Operator:', isOperator ? 'yes' : 'no');
+  console.log('Currently Approved Recipient:', isApprovedRecipient ? 'yes' : 'no');
+  console.log('');
+
+  const confirm = await question(`${action.label}: ${address}? (yes/no): `);
+  if (confirm.toLowerCase() !== 'yes' && confirm.toLowerCase() !== 'y') {
+    console.log('❌ Cancelled');
+    rl.close();
+    return;
+  }
+
+  const tx = await action.run(address);
+  console.log('');
+  console.log('Transaction:', tx.hash);
+  console.log('Waiting for confirmation...');
+
+  const receipt = await tx.wait();
+  console.log('✅ Done!');
+  console.log('Gas used:', receipt?.gasUsed.toString());
+
+  rl.close();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    rl.close();
+    process.exit(1);
+  });
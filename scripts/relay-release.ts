@@ -0,0 +1,82 @@
+import { ethers } from 'hardhat';
+import { checkSignedRelease, readSignedRelease, relayRelease } from './lib/relay';
+import { formatTokenAmount, loadLockupToken } from './lib/token';
+
+/**
+ * Submit signed releases for beneficiaries, paying the gas (relayer side)
+ * Usage: RELEASE_FILES=release-a.json,release-b.json npx hardhat run scripts/relay-release.ts --network amoy
+ *
+ * Payloads come from sign-release.ts. Each one is checked first (chain, expiry, nonce, signer,
+ * releasable amount) so invalid payloads are skipped without spending gas. Payloads of the same
+ * lockup must be listed in nonce order.
+ */
+
+async function main() {
+  const releaseFiles = (process.env.RELEASE_FILES || '')
+    .split(',')
+    .map((file) => file.trim())
+    .filter((file) => file !== '');
+
+  if (releaseFiles.length === 0) {
+    throw new Error('RELEASE_FILES environment variable is required (comma-separated paths)');
+  }
+
+  console.log('=== Relay Signed Releases ===');
+  const [relayer] = await ethers.getSigners();
+  console.log('Relayer Address:', relayer.address);
+  console.log(
+    'Relayer Balance:',
+    ethers.formatEther(await ethers.provider.getBalance(relayer.address)),
+    'MATIC'
+  );
+  console.log('');
+
+  let relayed = 0;
+  for (const releaseFile of releaseFiles) {
+    console.log(`📄 ${releaseFile}`);
+    try {
+      const signed = readSignedRelease(releaseFile);
+      const simpleLockup = await ethers.getContractAt('SimpleLockup', signed.lockup, relayer);
+      const tokenInfo = await loadLockupToken(simpleLockup, ethers.provider);
+
+      console.log('   Lockup:', signed.lockup);
+      console.log('   Beneficiary:', signed.beneficiary);
+      console.log('   Recipient:', signed.recipient);
+      console.log(
+        '   Amount:',
+        signed.amount === '0'
+          ? 'everything releasable'
+          : formatTokenAmount(BigInt(signed.amount), tokenInfo)
+      );
+
+      const latestBlock = await ethers.provider.getBlock('latest');
+      await checkSignedRelease(simpleLockup, signed, BigInt(latestBlock!.timestamp));
+
+      const tx = await relayRelease(simpleLockup, signed);
+      console.log('   Transaction:', tx.hash);
+      const receipt = await tx.wait();
+
+      const event = receipt!.logs
+        .map((log) => simpleLockup.interface.parseLog(log))
+        .find((parsed) => parsed?.name === 'TokensReleased');
+      console.log('   ✅ Released:', formatTokenAmount(event!.args.amount, tokenInfo));
+      console.log('   Gas used:', receipt!.gasUsed.toString());
+      relayed++;
+    } catch (error) {
+      console.log('   ❌ Skipped:', error instanceof Error ? error.message : error);
+    }
+    console.log('');
+  }
+
+  console.log(`Relayed ${relayed} of ${releaseFiles.length} signed releases`);
+  if (relayed < releaseFiles.length) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -1,9 +1,16 @@
 import { ethers } from 'hardhat';
 import * as readline from 'readline';
+import { buildReleaseCall } from './lib/lockup';
+import { formatTokenAmount, loadLockupToken, parseTokenAmount } from './lib/token';
+import { progressAt, releasableAt, remainingAt, toVestingSchedule, vestedAt } from './lib/vesting';
 
 /**
  * Interactive helper for releasing vested tokens
  * Usage: LOCKUP_ADDRESS=0x... npx hardhat run scripts/release-helper.ts
+ *
+ * Optional:
+ *   RELEASE_RECIPIENT - Send the tokens to this address instead of prompting (default: your address)
+ *   RELEASE_AMOUNT    - Release this amount instead of prompting (default: everything releasable)
  */
 
 const rl = readline.createInterface({
@@ -34,9 +41,13 @@ async function main() {
 
   // Get contract instance
   const simpleLockup = await ethers.getContractAt('SimpleLockup', lockupAddress);
+  const tokenInfo = await loadLockupToken(simpleLockup, ethers.provider);
 
-  // Get lockup info
-  const lockup = await simpleLockup.lockupInfo();
+  // Get lockup info (with the checkpoints of custom schedules)
+  const lockup = toVestingSchedule(
+    await simpleLockup.lockupInfo(),
+    await simpleLockup.getCheckpoints()
+  );
 
   if (lockup.totalAmount === 0n) {
     console.log('❌ No lockup found for your address');
@@ -44,27 +55,37 @@ async function main() {
     return;
   }
 
-  // Get vesting info
-  const vestedAmount = await simpleLockup.vestedAmount();
-  const releasableAmount = await simpleLockup.releasableAmount();
-  const vestingProgress = await simpleLockup.getVestingProgress();
-  const remainingTime = await simpleLockup.getRemainingVestingTime();
+  // Get vesting info at the latest block timestamp
+  const latestBlock = await ethers.provider.getBlock('latest');
+  const currentTime = BigInt(latestBlock!.timestamp);
+  const vestedAmount = vestedAt(lockup, currentTime);
+  const releasableAmount = releasableAt(lockup, currentTime);
+  const vestingProgress = progressAt(lockup, currentTime);
+  const remainingTime = remainingAt(lockup, currentTime);
 
   console.log('📊 Your Lockup Information:');
   console.log('─'.repeat(50));
-  console.log('Total Amount:', ethers.formatEther(lockup.totalAmount), 'tokens');
-  console.log('Released Amount:', ethers.formatEther(lockup.releasedAmount), 'tokens');
-  console.log('Vested Amount:', ethers.formatEther(vestedAmount), 'tokens');
-  console.log('Releasable Amount:', ethers.formatEther(releasableAmount), 'tokens');
+  console.log('Total Amount:', formatTokenAmount(lockup.totalAmount, tokenInfo));
+  console.log('Released Amount:', formatTokenAmount(lockup.releasedAmount, tokenInfo));
+  console.log('Vested Amount:', formatTokenAmount(vestedAmount, tokenInfo));
+  console.log('Releasable Amount:', formatTokenAmount(releasableAmount, tokenInfo));
   console.log('Vesting Progress:', vestingProgress.toString(), '%');
   console.log('Remaining Time:', Number(remainingTime) / 86400, 'days');
   console.log('─'.repeat(50));
   console.log('');
 
-  // Check cliff period
-  const currentTime = BigInt(Math.floor(Date.now() / 1000));
+  // Check start time and cliff period
   const cliffEnd = lockup.startTime + lockup.cliffDuration;
 
+  if (currentTime < lockup.startTime) {
+    const daysUntilStart = Number(lockup.startTime - currentTime) / 86400;
+    console.log('⏳ Vesting has not started yet');
+    console.log(`   Starts in ${daysUntilStart.toFixed(1)} days`);
+    console.log('   No tokens available for release yet');
+    rl.close();
+    return;
+  }
+
   if (currentTime < cliffEnd) {
     const remainingCliffDays = Number(cliffEnd - currentTime) / 86400;
     console.log('⏳ Still in cliff period');
@@ -80,12 +101,59 @@ async function main() {
     return;
   }
 
-  console.log(`💰 You can release ${ethers.formatEther(releasableAmount)} tokens now!`);
+  console.log(`💰 You can release ${formatTokenAmount(releasableAmount, tokenInfo)} now!`);
+  console.log('');
+
+  // Recipient (e.g. cold storage or exchange deposit address)
+  const recipient =
+    process.env.RELEASE_RECIPIENT ||
+    (await question(`Recipient address (press Enter for ${beneficiary.address}): `)).trim() ||
+    beneficiary.address;
+
+  if (!ethers.isAddress(recipient)) {
+    console.log('❌ Invalid recipient address');
+    rl.close();
+    return;
+  }
+
+  console.log('Recipient:', recipient);
+  console.log('');
+
+  // Amount (e.g. a fixed amount for accounting or tax reasons)
+  const amountInput =
+    process.env.RELEASE_AMOUNT ||
+    (
+      await question(
+        `Amount to release (press Enter for all ${formatTokenAmount(releasableAmount, tokenInfo)}): `
+      )
+    ).trim();
+
+  let amount: bigint | undefined;
+  if (amountInput) {
+    try {
+      amount = parseTokenAmount(amountInput, tokenInfo);
+    } catch {
+      console.log('❌ Invalid amount');
+      rl.close();
+      return;
+    }
+    if (amount <= 0n || amount > releasableAmount) {
+      console.log(
+        `❌ Amount must be greater than 0 and at most ${formatTokenAmount(releasableAmount, tokenInfo)}`
+      );
+      rl.close();
+      return;
+    }
+  }
+
+  console.log('Amount:', formatTokenAmount(amount ?? releasableAmount, tokenInfo));
   console.log('');
 
+  const releaseCall = buildReleaseCall(simpleLockup, beneficiary.address, recipient, amount);
+
   // Estimate gas
   try {
-    const estimatedGas = await simpleLockup.release.estimateGas();
+    const estimatedGas = await releaseCall.estimateGas();
     console.log('Estimated Gas:', estimatedGas.toString());
   } catch (error: unknown) {
     console.log('⚠️  Gas estimation failed:');
@@ -106,7 +174,7 @@ async function main() {
   // Release tokens
   console.log('');
   console.log('🔓 Releasing tokens...');
-  const tx = await simpleLockup.release();
+  const tx = await releaseCall.send();
 
   console.log('Transaction:', tx.hash);
   console.log('Waiting for confirmation...');
@@ -120,11 +188,10 @@ async function main() {
   const updatedLockup = await simpleLockup.lockupInfo();
   console.log('📊 Updated Lockup Status:');
   console.log('─'.repeat(50));
-  console.log('Total Released:', ethers.formatEther(updatedLockup.releasedAmount), 'tokens');
+  console.log('Total Released:', formatTokenAmount(updatedLockup.releasedAmount, tokenInfo));
   console.log(
     'Remaining Locked:',
-    ethers.formatEther(updatedLockup.totalAmount - updatedLockup.releasedAmount),
-    'tokens'
+    formatTokenAmount(updatedLockup.totalAmount - updatedLockup.releasedAmount, tokenInfo)
   );
   console.log('─'.repeat(50));
 
@@ -1,9 +1,34 @@
 import { ethers } from 'hardhat';
 import * as readline from 'readline';
+import {
+  defaultTransactionFile,
+  prepareTransactions,
+  printTransactionFile,
+  writeTransactionFile,
+} from './lib/offline';
+import {
+  SafeInfo,
+  assertSafeOwner,
+  buildSafeBatch,
+  defaultSafeBatchFile,
+  encodeSafeTransaction,
+  printSafeBatch,
+  writeSafeBatch,
+} from './lib/safe';
+import { formatTokenAmount, loadLockupToken } from './lib/token';
+import { toVestingSchedule, vestedAt } from './lib/vesting';
 
 /**
  * Interactive helper for revoking lockups (owner only)
  * Usage: LOCKUP_ADDRESS=0x... npx hardhat run scripts/revoke-helper.ts
+ *
+ * Safe owner: SAFE_ADDRESS=0x... writes a Safe Transaction Builder batch with the revoke call to
+ * SAFE_BATCH_FILE (default: safe-revoke-<lockup>-<time>.json) instead of sending it.
+ * Task equivalent: npx hardhat lockup revoke --as-safe 0x...
+ *
+ * Offline signing: OFFLINE_SIGNER=0x... (the owner's address) writes an unsigned revoke
+ * transaction to TX_FILE (default: tx-revoke-<lockup>-<time>.unsigned.json) for
+ * sign-transaction.ts instead of sending it.
  */
 
 const rl = readline.createInterface({
@@ -28,20 +53,36 @@ async function main() {
   console.log('SimpleLockup Address:', lockupAddress);
   console.log('');
 
-  const [owner] = await ethers.getSigners();
-  console.log('Your Address:', owner.address);
-  console.log('');
+  const safeAddress = process.env.SAFE_ADDRESS;
+  const offlineSigner = process.env.OFFLINE_SIGNER;
+
+  if (safeAddress && offlineSigner) {
+    throw new Error('Set either SAFE_ADDRESS or OFFLINE_SIGNER, not both');
+  }
 
   // Get contract instance
   const simpleLockup = await ethers.getContractAt('SimpleLockup', lockupAddress);
-
-  // Verify ownership
+  const tokenInfo = await loadLockupToken(simpleLockup, ethers.provider);
   const contractOwner = await simpleLockup.owner();
-  if (contractOwner.toLowerCase() !== owner.address.toLowerCase()) {
-    console.log('❌ You are not the owner of this contract');
-    console.log('Contract Owner:', contractOwner);
-    rl.close();
-    return;
+
+  // Verify ownership (of the Safe instead of the local signer in Safe mode)
+  let safe: SafeInfo | undefined;
+  if (safeAddress) {
+    safe = await assertSafeOwner(ethers.provider, safeAddress, contractOwner);
+    console.log('Safe Address:', safe.address);
+    console.log('Safe Signers:', `${safe.threshold} of ${safe.owners.length}`);
+    console.log('');
+  } else {
+    const ownerAddress = offlineSigner || (await ethers.getSigners())[0].address;
+    console.log(offlineSigner ? 'Offline Signer:' : 'Your Address:', ownerAddress);
+    console.log('');
+
+    if (contractOwner.toLowerCase() !== ownerAddress.toLowerCase()) {
+      console.log('❌ You are not the owner of this contract');
+      console.log('Contract Owner:', contractOwner);
+      rl.close();
+      return;
+    }
   }
 
   // Get beneficiary from contract
@@ -70,24 +111,26 @@ async function main() {
     return;
   }
 
-  // Calculate vesting info
-  const vestedAmount = await simpleLockup.vestedAmount();
+  // Calculate vesting info at the latest block timestamp
+  const latestBlock = await ethers.provider.getBlock('latest');
+  const schedule = toVestingSchedule(lockup, await simpleLockup.getCheckpoints());
+  const vestedAmount = vestedAt(schedule, BigInt(latestBlock!.timestamp));
   const unvestedAmount = lockup.totalAmount - vestedAmount;
 
   console.log('📊 Lockup Information:');
   console.log('─'.repeat(50));
   console.log('Beneficiary:', beneficiary);
-  console.log('Total Amount:', ethers.formatEther(lockup.totalAmount), 'tokens');
-  console.log('Released Amount:', ethers.formatEther(lockup.releasedAmount), 'tokens');
-  console.log('Vested Amount:', ethers.formatEther(vestedAmount), 'tokens');
-  console.log('Unvested Amount:', ethers.formatEther(unvestedAmount), 'tokens');
+  console.log('Total Amount:', formatTokenAmount(lockup.totalAmount, tokenInfo));
+  console.log('Released Amount:', formatTokenAmount(lockup.releasedAmount, tokenInfo));
+  console.log('Vested Amount:', formatTokenAmount(vestedAmount, tokenInfo));
+  console.log('Unvested Amount:', formatTokenAmount(unvestedAmount, tokenInfo));
   console.log('─'.repeat(50));
   console.log('');
 
   console.log('⚠️  Revocation Impact:');
   console.log('─'.repeat(50));
-  console.log('✅ Beneficiary keeps:', ethers.formatEther(vestedAmount), 'tokens (vested)');
-  console.log('📤 Returns to owner:', ethers.formatEther(unvestedAmount), 'tokens (unvested)');
+  console.log('✅ Beneficiary keeps:', formatTokenAmount(vestedAmount, tokenInfo), '(vested)');
+  console.log('📤 Returns to owner:', formatTokenAmount(unvestedAmount, tokenInfo), '(unvested)');
   console.log('─'.repeat(50));
   console.log('');
 
@@ -110,6 +153,45 @@ async function main() {
     return;
   }
 
+  if (offlineSigner) {
+    const file = await prepareTransactions(
+      ethers.provider,
+      offlineSigner,
+      `Revoke the lockup of ${beneficiary} in ${lockupAddress}`,
+      [{ label: 'Revoke lockup', contract: simpleLockup, signature: 'revoke', args: [] }]
+    );
+    const txFile = process.env.TX_FILE || defaultTransactionFile('revoke', lockupAddress);
+    writeTransactionFile(file, txFile);
+
+    console.log('');
+    printTransactionFile(file);
+    console.log('✅ Unsigned transaction written to', txFile);
+    console.log('Next: sign it on the offline machine with `pnpm sign-transaction`.');
+    rl.close();
+    return;
+  }
+
+  if (safe) {
+    const { chainId } = await ethers.provider.getNetwork();
+    const batch = buildSafeBatch(
+      chainId,
+      safe.address,
+      'Revoke lockup',
+      `Revoke the lockup of ${beneficiary} in ${lockupAddress}; about ${formatTokenAmount(unvestedAmount, tokenInfo)} unvested returns to the Safe`,
+      [await encodeSafeTransaction(simpleLockup, 'revoke', [])]
+    );
+    const batchFile = process.env.SAFE_BATCH_FILE || defaultSafeBatchFile('revoke', lockupAddress);
+    writeSafeBatch(batch, batchFile);
+
+    console.log('');
+    printSafeBatch(batch, safe);
+    console.log('✅ Batch written to', batchFile);
+    console.log('Load it in the Safe Transaction Builder to review and sign.');
+    console.log('ℹ️  The refund is computed at execution and shrinks as more tokens vest.');
+    rl.close();
+    return;
+  }
+
   // Revoke lockup
   console.log('');
   console.log('🔨 Revoking lockup...');
@@ -128,11 +210,10 @@ async function main() {
   console.log('📊 Revoked Lockup Status:');
   console.log('─'.repeat(50));
   console.log('Revoked:', updatedLockup.revoked);
-  console.log('Vested at Revoke:', ethers.formatEther(updatedLockup.vestedAtRevoke), 'tokens');
+  console.log('Vested at Revoke:', formatTokenAmount(updatedLockup.vestedAtRevoke, tokenInfo));
   console.log(
     'Beneficiary can still claim:',
-    ethers.formatEther(updatedLockup.vestedAtRevoke - updatedLockup.releasedAmount),
-    'tokens'
+    formatTokenAmount(updatedLockup.vestedAtRevoke - updatedLockup.releasedAmount, tokenInfo)
   );
   console.log('─'.repeat(50));
 
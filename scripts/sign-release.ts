@@ -0,0 +1,152 @@
+import { ethers } from 'hardhat';
+import * as readline from 'readline';
+import {
+  DEFAULT_RELEASE_VALIDITY,
+  defaultSignedReleaseFile,
+  parseValidity,
+  signRelease,
+  writeSignedRelease,
+} from './lib/relay';
+import { formatTokenAmount, loadLockupToken, parseTokenAmount } from './lib/token';
+
+/**
+ * Sign a gasless release for a relayer (beneficiary side; needs no MATIC)
+ * Usage: LOCKUP_ADDRESS=0x... npx hardhat run scripts/sign-release.ts --network amoy
+ *
+ * Writes a signed payload to RELEASE_FILE (default: release-<lockup>-<nonce>.json); hand it to
+ * whoever runs relay-release.ts. Nothing is sent from the beneficiary address.
+ *
+ * Optional:
+ *   RELEASE_RECIPIENT - Send the tokens to this address instead of prompting (default: your address)
+ *   RELEASE_AMOUNT    - Release this amount instead of prompting (default: everything releasable
+ *                       when relayed)
+ *   RELEASE_VALIDITY  - How long the signature stays valid: "7d", "12h" or seconds (default: 7d)
+ *   RELEASE_FILE      - Output path
+ */
+
+const rl = readline.createInterface({
+  input: process.stdin,
+  output: process.stdout,
+});
+
+function question(prompt: string): Promise<string> {
+  return new Promise((resolve) => {
+    rl.question(prompt, resolve);
+  });
+}
+
+async function main() {
+  const lockupAddress = process.env.LOCKUP_ADDRESS;
+
+  if (!lockupAddress) {
+    throw new Error('LOCKUP_ADDRESS environment variable is required');
+  }
+
+  console.log('=== Sign Gasless Release ===');
+  console.log('SimpleLockup Address:', lockupAddress);
+  console.log('');
+
+  const [beneficiary] = await ethers.getSigners();
+  console.log('Your Address:', beneficiary.address);
+  console.log('');
+
+  const simpleLockup = await ethers.getContractAt('SimpleLockup', lockupAddress);
+  const tokenInfo = await loadLockupToken(simpleLockup, ethers.provider);
+
+  const currentBeneficiary = await simpleLockup.beneficiary();
+  if (currentBeneficiary.toLowerCase() !== beneficiary.address.toLowerCase()) {
+    console.log('❌ You are not the beneficiary of this lockup');
+    console.log('Beneficiary:', currentBeneficiary);
+    rl.close();
+    return;
+  }
+
+  const releasableAmount = await simpleLockup.releasableAmount();
+  console.log('Releasable Now:', formatTokenAmount(releasableAmount, tokenInfo));
+  if (releasableAmount === 0n) {
+    console.log('⚠️  Nothing is releasable yet; the relayer can submit once tokens have vested');
+  }
+  console.log('');
+
+  const recipient =
+    process.env.RELEASE_RECIPIENT ||
+    (await question(`Recipient address (press Enter for ${beneficiary.address}): `)).trim() ||
+    beneficiary.address;
+
+  if (!ethers.isAddress(recipient)) {
+    console.log('❌ Invalid recipient address');
+    rl.close();
+    return;
+  }
+
+  const amountInput =
+    process.env.RELEASE_AMOUNT ||
+    (
+      await question('Amount to release (press Enter for everything releasable when relayed): ')
+    ).trim();
+
+  let amount = 0n;
+  if (amountInput) {
+    try {
+      amount = parseTokenAmount(amountInput, tokenInfo);
+    } catch {
+      console.log('❌ Invalid amount');
+      rl.close();
+      return;
+    }
+    if (amount <= 0n) {
+      console.log('❌ Amount must be greater than 0');
+      rl.close();
+      return;
+    }
+  }
+
+  let validity: bigint;
+  try {
+    validity = parseValidity(process.env.RELEASE_VALIDITY || DEFAULT_RELEASE_VALIDITY);
+  } catch (error) {
+    rl.close();
+    throw error;
+  }
+
+  const latestBlock = await ethers.provider.getBlock('latest');
+  const deadline = BigInt(latestBlock!.timestamp) + validity;
+
+  console.log('');
+  console.log('📝 Release Summary:');
+  console.log('─'.repeat(50));
+  console.log('Recipient:', recipient);
+  console.log(
+    'Amount:',
+    amount === 0n ? 'everything releasable when relayed' : formatTokenAmount(amount, tokenInfo)
+  );
+  console.log('Valid Until:', new Date(Number(deadline) * 1000).toISOString());
+  console.log('─'.repeat(50));
+  console.log('');
+  console.log('⚠️  Anyone holding the signed payload can submit it until it expires.');
+
+  const confirm = await question('Sign this release? (yes/no): ');
+  if (confirm.toLowerCase() !== 'yes' && confirm.toLowerCase() !== 'y') {
+    console.log('❌ Signing cancelled');
+    rl.close();
+    return;
+  }
+
+  const signed = await signRelease(simpleLockup, beneficiary, recipient, amount, deadline);
+  const releaseFile = process.env.RELEASE_FILE || defaultSignedReleaseFile(signed);
+  writeSignedRelease(signed, releaseFile);
+
+  console.log('');
+  console.log('✅ Signed release written to', releaseFile, `(nonce ${signed.nonce})`);
+  console.log('Next: send it to the relayer (`pnpm relay-release`).');
+
+  rl.close();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    rl.close();
+    process.exit(1);
+  });
@@ -0,0 +1,88 @@
+import { ethers } from 'hardhat';
+import * as readline from 'readline';
+import {
+  printTransactionFile,
+  readTransactionFile,
+  signTransactionFile,
+  writeTransactionFile,
+} from './lib/offline';
+
+/**
+ * Sign an unsigned transaction file on an offline machine (step 2 of offline signing)
+ * Usage: TX_FILE=tx-....unsigned.json PRIVATE_KEY=0x... npx hardhat run scripts/sign-transaction.ts
+ *
+ * Runs without --network and makes no RPC calls: the file already holds the nonce, fees and
+ * chain ID. The calldata is checked against the decoded summary before anything is signed.
+ *
+ * Optional:
+ *   SIGNED_TX_FILE - Output path (default: TX_FILE with .unsigned.json replaced by .signed.json)
+ */
+
+const rl = readline.createInterface({
+  input: process.stdin,
+  output: process.stdout,
+});
+
+function question(prompt: string): Promise<string> {
+  return new Promise((resolve) => {
+    rl.question(prompt, resolve);
+  });
+}
+
+async function main() {
+  const txFile = process.env.TX_FILE;
+  const privateKey = process.env.PRIVATE_KEY;
+
+  if (!txFile) {
+    throw new Error('TX_FILE environment variable is required');
+  }
+  if (!privateKey) {
+    throw new Error('PRIVATE_KEY environment variable is required');
+  }
+
+  console.log('=== Offline Transaction Signing ===');
+  console.log('Transaction File:', txFile);
+  console.log('');
+
+  const file = readTransactionFile(txFile);
+  if (file.transactions.some((prepared) => prepared.signedTransaction)) {
+    throw new Error('Transaction file is already signed');
+  }
+
+  // No provider: the key never touches the network
+  const wallet = new ethers.Wallet(privateKey);
+  console.log('Signer Address:', wallet.address);
+  console.log('');
+
+  printTransactionFile(file);
+  console.log('');
+
+  const confirm = await question('Sign these transactions? (yes/no): ');
+  if (confirm.toLowerCase() !== 'yes') {
+    console.log('❌ Signing cancelled');
+    rl.close();
+    return;
+  }
+
+  const signed = await signTransactionFile(file, wallet);
+  const signedFile =
+    process.env.SIGNED_TX_FILE || txFile.replace(/(\.unsigned)?\.json$/, '.signed.json');
+  writeTransactionFile(signed, signedFile);
+
+  console.log('');
+  for (const prepared of signed.transactions) {
+    console.log(`${prepared.label}:`, prepared.hash);
+  }
+  console.log('✅ Signed transactions written to', signedFile);
+  console.log('Next: copy it to an online machine and run `pnpm broadcast-transaction`.');
+
+  rl.close();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    rl.close();
+    process.exit(1);
+  });
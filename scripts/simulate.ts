@@ -0,0 +1,151 @@
+import { ZeroAddress } from 'ethers';
+import { ethers } from 'hardhat';
+import { printJson } from './lib/cli';
+import {
+  getLockupStatus,
+  loadLockup,
+  parseCliffUnlock,
+  parseReleaseInterval,
+  parseStartTime,
+} from './lib/lockup';
+import {
+  SimulatedLockup,
+  SimulationBalances,
+  buildSimulatedLockup,
+  parseDuration,
+  parseSimulationActions,
+  printSimulation,
+  simulateActions,
+} from './lib/simulate';
+import { DEFAULT_DECIMALS, TokenMetadata, formatTokenAmount, parseTokenAmount } from './lib/token';
+
+/**
+ * What-if simulator: replay release and revoke actions and show each party's balances
+ * Usage: LOCKUP_ADDRESS=0x... SIM_ACTIONS="release@2026-01-01, revoke@2026-07-01" \
+ *          npx hardhat run scripts/simulate.ts --network amoy
+ *
+ * Nothing is sent: the actions run on the off-chain vesting model with the contract's checks,
+ * so reverts such as NoTokensAvailable and NothingToRevoke show up as step outcomes.
+ *
+ * SIM_ACTIONS (required) - `<release|revoke>[:<amount>]@<time>`, comma separated; time is a date,
+ *   date-time with timezone, unix seconds or "+<days>d" after the lockup start (see lib/simulate.ts)
+ *
+ * Live lockup: LOCKUP_ADDRESS starts from the current on-chain state and wallet balances.
+ * Hypothetical lockup (without LOCKUP_ADDRESS):
+ *   SIM_AMOUNT (required)      - Total amount in token units
+ *   SIM_VESTING (required)     - Vesting duration: seconds or days like "730d"
+ *   SIM_CLIFF                  - Cliff duration (default: 0)
+ *   SIM_START                  - Start date, date-time or unix seconds (default: now)
+ *   SIM_INTERVAL               - Release interval, e.g. "monthly" (fixed 30.42 days; default: linear)
+ *   SIM_CLIFF_UNLOCK           - Share unlocked at the cliff end, e.g. "20" (default: none)
+ *   SIM_REVOCABLE              - "false" for a non-revocable lockup (default: true)
+ *   SIM_SYMBOL / SIM_DECIMALS  - Token symbol and decimals (default: tokens / 18)
+ *
+ * JSON output: OUTPUT_FORMAT=json prints the simulation result (amounts in base units).
+ */
+
+interface SimulationInput {
+  lockup: SimulatedLockup;
+  tokenInfo: TokenMetadata;
+  balances: SimulationBalances;
+  fromTime: bigint;
+}
+
+async function loadLiveLockup(lockupAddress: string): Promise<SimulationInput> {
+  const { lockup, tokenInfo } = await loadLockup(ethers, lockupAddress);
+  const status = await getLockupStatus(lockup);
+
+  if (!status.exists) {
+    throw new Error('No lockup found');
+  }
+
+  const token = await ethers.getContractAt('IERC20', tokenInfo.address);
+  const [beneficiary, owner, held] = await Promise.all([
+    token.balanceOf(status.beneficiary),
+    token.balanceOf(status.owner),
+    token.balanceOf(lockupAddress),
+  ]);
+
+  return {
+    lockup: status,
+    tokenInfo,
+    balances: { beneficiary, owner, lockup: held },
+    fromTime: status.currentTime,
+  };
+}
+
+function buildHypotheticalLockup(): SimulationInput {
+  if (!process.env.SIM_AMOUNT || !process.env.SIM_VESTING) {
+    throw new Error('Set LOCKUP_ADDRESS, or SIM_AMOUNT and SIM_VESTING for a hypothetical lockup');
+  }
+
+  const tokenInfo: TokenMetadata = {
+    address: ZeroAddress,
+    symbol: process.env.SIM_SYMBOL || 'tokens',
+    decimals: Number(process.env.SIM_DECIMALS || DEFAULT_DECIMALS),
+    decimalsFallback: false,
+  };
+  const startTime =
+    parseStartTime(process.env.SIM_START || '') ?? BigInt(Math.floor(Date.now() / 1000));
+
+  const lockup = buildSimulatedLockup({
+    totalAmount: parseTokenAmount(process.env.SIM_AMOUNT, tokenInfo),
+    startTime,
+    cliffDuration: parseDuration(process.env.SIM_CLIFF || '0'),
+    vestingDuration: parseDuration(process.env.SIM_VESTING),
+    releaseInterval: parseReleaseInterval(process.env.SIM_INTERVAL || ''),
+    cliffUnlockBps: parseCliffUnlock(process.env.SIM_CLIFF_UNLOCK || ''),
+    revocable: process.env.SIM_REVOCABLE !== 'false',
+  });
+
+  return {
+    lockup,
+    tokenInfo,
+    balances: { beneficiary: 0n, owner: 0n, lockup: lockup.totalAmount },
+    fromTime: startTime,
+  };
+}
+
+async function main() {
+  const lockupAddress = process.env.LOCKUP_ADDRESS;
+  const jsonOutput = process.env.OUTPUT_FORMAT === 'json';
+
+  if (!process.env.SIM_ACTIONS) {
+    throw new Error('SIM_ACTIONS environment variable is required');
+  }
+
+  const { lockup, tokenInfo, balances, fromTime } = lockupAddress
+    ? await loadLiveLockup(lockupAddress)
+    : buildHypotheticalLockup();
+  const actions = parseSimulationActions(process.env.SIM_ACTIONS, tokenInfo, lockup.startTime);
+  const result = simulateActions(lockup, actions, balances, fromTime);
+
+  if (jsonOutput) {
+    printJson({ lockup: lockupAddress ?? null, token: tokenInfo, ...result });
+    return;
+  }
+
+  console.log('=== What-If Simulator ===');
+  console.log(lockupAddress ? `Lockup Contract: ${lockupAddress}` : 'Hypothetical lockup');
+  console.log('Total Amount:', formatTokenAmount(lockup.totalAmount, tokenInfo));
+  console.log('Start Time:', new Date(Number(lockup.startTime) * 1000).toISOString());
+  console.log(
+    'Vesting End:',
+    new Date(Number(lockup.startTime + lockup.vestingDuration) * 1000).toISOString()
+  );
+  console.log('Revocable:', lockup.revocable ? 'Yes' : 'No');
+  if (lockup.revoked) {
+    console.log('⚠️  Lockup is already revoked');
+  }
+  console.log('ℹ️  Simulation only: nothing is sent');
+  console.log('');
+
+  printSimulation(result, lockup.totalAmount, tokenInfo);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
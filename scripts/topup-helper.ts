@@ -0,0 +1,167 @@
+import { ethers } from 'hardhat';
+import * as readline from 'readline';
+import { formatTokenAmount, loadLockupToken, parseTokenAmount } from './lib/token';
+import { toVestingSchedule, vestedAt } from './lib/vesting';
+
+/**
+ * Interactive helper for topping up an existing lockup (owner only)
+ * Usage: LOCKUP_ADDRESS=0x... npx hardhat run scripts/topup-helper.ts
+ *
+ * Optional:
+ *   TOPUP_AMOUNT - Add this amount instead of prompting
+ */
+
+const rl = readline.createInterface({
+  input: process.stdin,
+  output: process.stdout,
+});
+
+function question(prompt: string): Promise<string> {
+  return new Promise((resolve) => {
+    rl.question(prompt, resolve);
+  });
+}
+
+async function main() {
+  const lockupAddress = process.env.LOCKUP_ADDRESS;
+
+  if (!lockupAddress) {
+    throw new Error('LOCKUP_ADDRESS environment variable is required');
+  }
+
+  console.log('=== Interactive Lockup Top-Up ===');
+  console.log('SimpleLockup Address:', lockupAddress);
+  console.log('');
+
+  const [owner] = await ethers.getSigners();
+  console.log('Your Address:', owner.address);
+  console.log('');
+
+  // Get contract instances
+  const simpleLockup = await ethers.getContractAt('SimpleLockup', lockupAddress);
+  const tokenInfo = await loadLockupToken(simpleLockup, ethers.provider);
+  const token = await ethers.getContractAt('IERC20', tokenInfo.address);
+
+  // Verify ownership
+  const contractOwner = await simpleLockup.owner();
+  if (contractOwner.toLowerCase() !== owner.address.toLowerCase()) {
+    console.log('❌ You are not the owner of this contract');
+    console.log('Contract Owner:', contractOwner);
+    rl.close();
+    return;
+  }
+
+  // Get lockup info
+  const lockup = await simpleLockup.lockupInfo();
+
+  if (lockup.totalAmount === 0n) {
+    console.log('❌ No lockup found');
+    rl.close();
+    return;
+  }
+
+  if (lockup.revoked) {
+    console.log('❌ Lockup is revoked and cannot be topped up');
+    rl.close();
+    return;
+  }
+
+  const schedule = toVestingSchedule(lockup, await simpleLockup.getCheckpoints());
+  const latestBlock = await ethers.provider.getBlock('latest');
+  const currentTime = BigInt(latestBlock!.timestamp);
+  const vestedAmount = vestedAt(schedule, currentTime);
+  const tokenBalance = await token.balanceOf(owner.address);
+
+  console.log('📊 Lockup Information:');
+  console.log('─'.repeat(50));
+  console.log('Beneficiary:', await simpleLockup.beneficiary());
+  console.log('Total Amount:', formatTokenAmount(lockup.totalAmount, tokenInfo));
+  console.log('Released Amount:', formatTokenAmount(lockup.releasedAmount, tokenInfo));
+  console.log('Vested Amount:', formatTokenAmount(vestedAmount, tokenInfo));
+  console.log('Your Token Balance:', formatTokenAmount(tokenBalance, tokenInfo));
+  console.log('─'.repeat(50));
+  console.log('');
+
+  const amountStr =
+    process.env.TOPUP_AMOUNT || (await question(`Amount to add (in ${tokenInfo.symbol}): `));
+  const amount = parseTokenAmount(amountStr, tokenInfo);
+
+  if (amount <= 0n) {
+    rl.close();
+    throw new Error('Amount must be greater than 0');
+  }
+
+  if (amount > tokenBalance) {
+    rl.close();
+    throw new Error(
+      `Insufficient balance. You have ${formatTokenAmount(tokenBalance, tokenInfo)}, but need ${formatTokenAmount(amount, tokenInfo)}`
+    );
+  }
+
+  // The top-up follows the original schedule: the elapsed share of it vests at once
+  const newTotalAmount = lockup.totalAmount + amount;
+  const newVestedAmount = vestedAt({ ...schedule, totalAmount: newTotalAmount }, currentTime);
+
+  console.log('');
+  console.log('📊 Top-Up Summary:');
+  console.log('─'.repeat(50));
+  console.log('Amount to Add:', formatTokenAmount(amount, tokenInfo));
+  console.log('New Total Amount:', formatTokenAmount(newTotalAmount, tokenInfo));
+  console.log(
+    'Vested Immediately:',
+    formatTokenAmount(newVestedAmount - vestedAmount, tokenInfo),
+    '(share of the top-up for the time already elapsed)'
+  );
+  console.log('─'.repeat(50));
+  console.log('');
+
+  const confirm = await question('Proceed with top-up? (yes/no): ');
+
+  if (confirm.toLowerCase() !== 'yes' && confirm.toLowerCase() !== 'y') {
+    console.log('❌ Top-up cancelled');
+    rl.close();
+    return;
+  }
+
+  // Check allowance
+  const currentAllowance = await token.allowance(owner.address, lockupAddress);
+
+  if (currentAllowance < amount) {
+    console.log('');
+    console.log('⚠️  Insufficient allowance. Approving tokens...');
+    const approveTx = await token.approve(lockupAddress, amount);
+    console.log('Approval transaction:', approveTx.hash);
+    await approveTx.wait();
+    console.log('✅ Tokens approved');
+  }
+
+  // Top up lockup
+  console.log('');
+  console.log('🔨 Topping up lockup...');
+  const tx = await simpleLockup.topUp(amount);
+
+  console.log('Transaction:', tx.hash);
+  console.log('Waiting for confirmation...');
+
+  const receipt = await tx.wait();
+  console.log('✅ Lockup topped up successfully!');
+  console.log('Gas used:', receipt?.gasUsed.toString());
+  console.log('');
+
+  const updatedLockup = await simpleLockup.lockupInfo();
+  console.log('New Total Amount:', formatTokenAmount(updatedLockup.totalAmount, tokenInfo));
+  console.log(
+    'Releasable Now:',
+    formatTokenAmount(await simpleLockup.releasableAmount(), tokenInfo)
+  );
+
+  rl.close();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    rl.close();
+    process.exit(1);
+  });
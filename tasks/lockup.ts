@@ -0,0 +1,815 @@
+import { scope, types } from 'hardhat/config';
+import { HardhatPluginError } from 'hardhat/plugins';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { confirm, ask, printJson } from '../scripts/lib/cli';
+import {
+  assertValidStartTime,
+  buildReleaseCall,
+  buildTimeline,
+  formatReleaseInterval,
+  getLockupStatus,
+  isMultiLockup,
+  loadLockup,
+  parseCliffUnlock,
+  parseReleaseInterval,
+  parseStartTime,
+  parseTimelineOptions,
+  printLockupStatus,
+  printTimeline,
+} from '../scripts/lib/lockup';
+import { buildLockupReport } from '../scripts/lib/report';
+import {
+  SafeBatchTransaction,
+  SafeInfo,
+  assertSafeOwner,
+  buildSafeBatch,
+  defaultSafeBatchFile,
+  encodeSafeTransaction,
+  printSafeBatch,
+  selectCreateCall,
+  writeSafeBatch,
+} from '../scripts/lib/safe';
+import { TokenMetadata, formatTokenAmount, parseTokenAmount } from '../scripts/lib/token';
+import { BASIS_POINTS, formatPercent } from '../scripts/lib/vesting';
+
+/**
+ * Unified `lockup` CLI
+ * Usage: npx hardhat lockup <status|create|release|revoke|timeline|debug> --lockup 0x... [--network]
+ *
+ * --lockup defaults to the LOCKUP_ADDRESS environment variable.
+ * --json prints a single JSON document (amounts as decimal strings in base units);
+ *   status and timeline print the versioned report from scripts/lib/report.ts.
+ * --yes skips confirmation prompts; required with --json for commands that send transactions.
+ * --as-safe <safe> (create, revoke) writes a Safe Transaction Builder batch for the Safe that owns
+ *   the lockup instead of sending from the local signer; --safe-batch sets the output file.
+ */
+
+interface LockupArgs {
+  lockup?: string;
+  json: boolean;
+}
+
+interface TimelineArgs extends LockupArgs {
+  period?: string;
+  tz?: string;
+  from?: string;
+  to?: string;
+}
+
+interface TransactionArgs extends LockupArgs {
+  yes: boolean;
+}
+
+interface OwnerArgs extends TransactionArgs {
+  asSafe?: string;
+  safeBatch?: string;
+}
+
+interface CreateArgs extends OwnerArgs {
+  beneficiary: string;
+  amount: string;
+  cliff: number;
+  vesting: number;
+  interval?: string;
+  cliffUnlock?: string;
+  start?: string;
+  revocable: boolean;
+}
+
+interface ReleaseArgs extends TransactionArgs {
+  recipient?: string;
+  amount?: string;
+}
+
+interface DebugArgs extends LockupArgs {
+  amount: string;
+}
+
+// Validation failures are reported as HardhatPluginError ("Error in plugin lockup: ...")
+const PLUGIN_NAME = 'lockup';
+
+const lockupScope = scope('lockup', 'Manage SimpleLockup contracts');
+
+function requireLockupAddress(args: LockupArgs): string {
+  if (!args.lockup) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      '--lockup is required (or set the LOCKUP_ADDRESS environment variable)'
+    );
+  }
+  return args.lockup;
+}
+
+function requireNonInteractive(args: TransactionArgs): void {
+  if (args.json && !args.yes) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      '--json requires --yes for commands that send transactions'
+    );
+  }
+}
+
+function parseAmount(value: string, tokenInfo: TokenMetadata): bigint {
+  try {
+    return parseTokenAmount(value, tokenInfo);
+  } catch {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      `Invalid amount "${value}": use a decimal number with at most ${tokenInfo.decimals} decimals`
+    );
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function pluginError(error: unknown): HardhatPluginError {
+  return new HardhatPluginError(PLUGIN_NAME, errorMessage(error));
+}
+
+// Owner-only commands check the signer up front instead of failing on the on-chain revert
+function requireOwner(signer: string, owner: string): void {
+  if (signer.toLowerCase() !== owner.toLowerCase()) {
+    throw new HardhatPluginError(PLUGIN_NAME, `Signer ${signer} is not the owner (${owner})`);
+  }
+}
+
+function logger(args: LockupArgs): (...values: unknown[]) => void {
+  return args.json ? () => undefined : console.log;
+}
+
+async function load(args: LockupArgs, hre: HardhatRuntimeEnvironment) {
+  const address = requireLockupAddress(args);
+  if (hre.ethers.isAddress(address) && (await isMultiLockup(hre.ethers, address))) {
+    throw new HardhatPluginError(
+      PLUGIN_NAME,
+      `${address} is a MultiLockup; lockup tasks support SimpleLockup only (use check-lockup with BENEFICIARY)`
+    );
+  }
+  try {
+    return await loadLockup(hre.ethers, address);
+  } catch (error) {
+    throw pluginError(error);
+  }
+}
+
+async function loadSafe(
+  args: OwnerArgs,
+  hre: HardhatRuntimeEnvironment,
+  contractOwner: string
+): Promise<SafeInfo | undefined> {
+  if (!args.asSafe) {
+    return undefined;
+  }
+  try {
+    return await assertSafeOwner(hre.ethers.provider, args.asSafe, contractOwner);
+  } catch (error) {
+    throw pluginError(error);
+  }
+}
+
+async function writeBatch(
+  args: OwnerArgs,
+  hre: HardhatRuntimeEnvironment,
+  safe: SafeInfo,
+  action: string,
+  address: string,
+  description: string,
+  transactions: SafeBatchTransaction[]
+): Promise<void> {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const name = `${action[0].toUpperCase()}${action.slice(1)} lockup`;
+  const batch = buildSafeBatch(chainId, safe.address, name, description, transactions);
+  const batchFile = args.safeBatch ?? defaultSafeBatchFile(action, address);
+  writeSafeBatch(batch, batchFile);
+
+  if (args.json) {
+    printJson({ lockup: address, safe: safe.address, batchFile, batch });
+    return;
+  }
+
+  printSafeBatch(batch, safe);
+  console.log('✅ Batch written to', batchFile);
+  console.log('Load it in the Safe Transaction Builder to review and sign.');
+}
+
+lockupScope
+  .task('status', 'Show lockup status')
+  .addOptionalParam('lockup', 'SimpleLockup address', process.env.LOCKUP_ADDRESS, types.string)
+  .addFlag('json', 'Print JSON output')
+  .setAction(async (args: LockupArgs, hre) => {
+    const { address, lockup, tokenInfo } = await load(args, hre);
+    const status = await getLockupStatus(lockup);
+
+    if (args.json) {
+      const timeline = status.exists ? buildTimeline(status) : undefined;
+      printJson(buildLockupReport(address, tokenInfo, status, timeline));
+      return;
+    }
+
+    console.log('🔍 Checking Lockup Information');
+    console.log('SimpleLockup Address:', address);
+    console.log('Beneficiary Address:', status.beneficiary);
+    console.log('');
+
+    if (!status.exists) {
+      console.log('❌ No lockup found');
+      return;
+    }
+
+    printLockupStatus(status, tokenInfo);
+  });
+
+lockupScope
+  .task('timeline', 'Show vesting timeline and calendar breakdown')
+  .addOptionalParam('lockup', 'SimpleLockup address', process.env.LOCKUP_ADDRESS, types.string)
+  .addOptionalParam(
+    'period',
+    'Breakdown period: day, week, month, quarter or year (default: month)',
+    undefined,
+    types.string
+  )
+  .addOptionalParam(
+    'tz',
+    'IANA timezone for period boundaries (default: UTC)',
+    undefined,
+    types.string
+  )
+  .addOptionalParam(
+    'from',
+    'Breakdown start: date ("2025-01-01"), date-time or unix seconds (default: lockup start)',
+    undefined,
+    types.string
+  )
+  .addOptionalParam(
+    'to',
+    'Breakdown end, inclusive; a date covers the whole day (default: vesting end)',
+    undefined,
+    types.string
+  )
+  .addFlag('json', 'Print JSON output')
+  .setAction(async (args: TimelineArgs, hre) => {
+    const { address, lockup, tokenInfo } = await load(args, hre);
+    const status = await getLockupStatus(lockup);
+
+    let timeline;
+    try {
+      const options = parseTimelineOptions({
+        period: args.period,
+        timeZone: args.tz,
+        from: args.from,
+        to: args.to,
+      });
+      timeline = status.exists ? buildTimeline(status, options) : undefined;
+    } catch (error) {
+      throw pluginError(error);
+    }
+
+    if (args.json) {
+      printJson(buildLockupReport(address, tokenInfo, status, timeline));
+      return;
+    }
+
+    console.log('=== Vesting Timeline Calculator ===');
+    console.log('Lockup Contract:', address);
+    console.log('Beneficiary:', status.beneficiary);
+    console.log('');
+
+    if (!timeline) {
+      console.log('❌ No lockup found');
+      return;
+    }
+
+    printTimeline(status, timeline, tokenInfo);
+  });
+
+lockupScope
+  .task('create', 'Create the lockup (owner only)')
+  .addOptionalParam('lockup', 'SimpleLockup address', process.env.LOCKUP_ADDRESS, types.string)
+  .addParam('beneficiary', 'Beneficiary address', undefined, types.string)
+  .addParam('amount', 'Total amount in token units (e.g. 1000.5)', undefined, types.string)
+  .addParam('cliff', 'Cliff duration in seconds', 0, types.int)
+  .addParam('vesting', 'Total vesting duration in seconds', undefined, types.int)
+  .addOptionalParam(
+    'interval',
+    'Release interval for step vesting: seconds, days ("30d") or daily|weekly|monthly|quarterly|yearly, fixed lengths of 1/7/30.42/91.25/365 days rather than calendar months (default: linear)',
+    undefined,
+    types.string
+  )
+  .addOptionalParam(
+    'cliffUnlock',
+    'Share unlocked at the cliff end: percent ("20", "12.5%") or basis points ("2000bps") (default: none)',
+    undefined,
+    types.string
+  )
+  .addOptionalParam(
+    'start',
+    'Vesting start: ISO date ("2025-01-01"), date-time with timezone, or unix seconds (default: now)',
+    undefined,
+    types.string
+  )
+  .addFlag('revocable', 'Allow the owner to revoke unvested tokens')
+  .addOptionalParam(
+    'asSafe',
+    'Safe that owns the lockup: write a Transaction Builder batch instead of sending',
+    undefined,
+    types.string
+  )
+  .addOptionalParam(
+    'safeBatch',
+    'Batch file for --as-safe (default: safe-create-<lockup>-<time>.json)',
+    undefined,
+    types.string
+  )
+  .addFlag('yes', 'Skip confirmation prompts')
+  .addFlag('json', 'Print JSON output')
+  .setAction(async (args: CreateArgs, hre) => {
+    requireNonInteractive(args);
+    const log = logger(args);
+    const { address, lockup, tokenInfo } = await load(args, hre);
+    const owner = await lockup.owner();
+    const safe = await loadSafe(args, hre, owner);
+    // In Safe mode the Safe funds the lockup and nothing is signed locally
+    const [signer] = safe ? [] : await hre.ethers.getSigners();
+    if (!safe) {
+      requireOwner(signer.address, owner);
+    }
+    const funder = safe ? safe.address : signer.address;
+    const token = await hre.ethers.getContractAt('IERC20', tokenInfo.address, signer);
+
+    if (!hre.ethers.isAddress(args.beneficiary)) {
+      throw new HardhatPluginError(PLUGIN_NAME, 'Invalid beneficiary address');
+    }
+
+    const existingLockup = await lockup.lockupInfo();
+    if (existingLockup.totalAmount > 0n) {
+      throw new HardhatPluginError(PLUGIN_NAME, 'Lockup already exists in this contract');
+    }
+
+    const amount = parseAmount(args.amount, tokenInfo);
+    if (amount <= 0n) {
+      throw new HardhatPluginError(PLUGIN_NAME, 'Amount must be greater than 0');
+    }
+
+    const tokenBalance = await token.balanceOf(funder);
+    if (amount > tokenBalance) {
+      throw new HardhatPluginError(
+        PLUGIN_NAME,
+        `Insufficient balance. You have ${formatTokenAmount(tokenBalance, tokenInfo)}, but need ${formatTokenAmount(amount, tokenInfo)}`
+      );
+    }
+
+    if (args.vesting <= 0) {
+      throw new HardhatPluginError(PLUGIN_NAME, 'Vesting duration must be greater than 0');
+    }
+    if (args.cliff >= args.vesting) {
+      throw new HardhatPluginError(
+        PLUGIN_NAME,
+        'Cliff duration must be shorter than vesting duration'
+      );
+    }
+
+    let releaseInterval: bigint;
+    try {
+      releaseInterval = parseReleaseInterval(args.interval ?? '');
+    } catch (error) {
+      throw pluginError(error);
+    }
+    if (releaseInterval > BigInt(args.vesting)) {
+      throw new HardhatPluginError(
+        PLUGIN_NAME,
+        'Release interval cannot be longer than vesting duration'
+      );
+    }
+
+    let cliffUnlockBps: bigint;
+    try {
+      cliffUnlockBps = parseCliffUnlock(args.cliffUnlock ?? '');
+    } catch (error) {
+      throw pluginError(error);
+    }
+    if (cliffUnlockBps > 0n && releaseInterval > 0n) {
+      throw new HardhatPluginError(
+        PLUGIN_NAME,
+        'Cliff unlock cannot be combined with a release interval'
+      );
+    }
+
+    let startTime: bigint | null;
+    try {
+      startTime = parseStartTime(args.start ?? '');
+      if (startTime !== null) {
+        const latestBlock = await hre.ethers.provider.getBlock('latest');
+        await assertValidStartTime(
+          lockup,
+          startTime,
+          BigInt(args.vesting),
+          BigInt(latestBlock!.timestamp)
+        );
+      }
+    } catch (error) {
+      throw pluginError(error);
+    }
+
+    log('📊 Lockup Summary:');
+    log('─'.repeat(50));
+    log('Lockup Contract:', address);
+    log('Beneficiary:', args.beneficiary);
+    log('Amount:', formatTokenAmount(amount, tokenInfo));
+    log(
+      'Start Time:',
+      startTime === null ? 'at creation' : new Date(Number(startTime) * 1000).toISOString()
+    );
+    log('Cliff Duration:', args.cliff / 86400, 'days');
+    log('Vesting Duration:', args.vesting / 86400, 'days');
+    log('Release Interval:', formatReleaseInterval(releaseInterval));
+    if (cliffUnlockBps > 0n) {
+      log('Cliff Unlock:', formatPercent(cliffUnlockBps, BASIS_POINTS, 2));
+    }
+    log('Revocable:', args.revocable);
+    if (safe) {
+      log('Safe:', safe.address, `(${safe.threshold} of ${safe.owners.length} signers)`);
+    }
+    log('─'.repeat(50));
+
+    if (
+      !(await confirm(
+        safe ? 'Write Safe transaction batch?' : 'Proceed with lockup creation?',
+        args.yes
+      ))
+    ) {
+      log('❌ Lockup creation cancelled');
+      return;
+    }
+
+    if (safe) {
+      const { signature, args: callArgs } = selectCreateCall({
+        beneficiary: args.beneficiary,
+        amount,
+        cliffDuration: args.cliff,
+        vestingDuration: args.vesting,
+        releaseInterval,
+        cliffUnlockBps,
+        startTime,
+        checkpoints: [],
+        revocable: args.revocable,
+      });
+      await writeBatch(
+        args,
+        hre,
+        safe,
+        'create',
+        address,
+        `Approve ${formatTokenAmount(amount, tokenInfo)} and create the lockup of ${args.beneficiary} in ${address}`,
+        [
+          await encodeSafeTransaction(token, 'approve', [address, amount]),
+          await encodeSafeTransaction(lockup, signature, callArgs),
+        ]
+      );
+      return;
+    }
+
+    let approvalTxHash: string | undefined;
+    const currentAllowance = await token.allowance(signer.address, address);
+    if (currentAllowance < amount) {
+      log('⚠️  Insufficient allowance. Approving tokens...');
+      const approveTx = await token.approve(address, amount);
+      approvalTxHash = approveTx.hash;
+      await approveTx.wait();
+      log('✅ Tokens approved');
+    }
+
+    log('🔨 Creating lockup...');
+    const creator = lockup.connect(signer);
+    let tx;
+    if (startTime !== null) {
+      tx = await creator.createScheduledLockup(
+        args.beneficiary,
+        amount,
+        startTime,
+        args.cliff,
+        args.vesting,
+        releaseInterval,
+        cliffUnlockBps,
+        args.revocable
+      );
+    } else if (cliffUnlockBps > 0n) {
+      tx = await creator.createCliffUnlockLockup(
+        args.beneficiary,
+        amount,
+        args.cliff,
+        args.vesting,
+        cliffUnlockBps,
+        args.revocable
+      );
+    } else if (releaseInterval > 0n) {
+      tx = await creator.createPeriodicLockup(
+        args.beneficiary,
+        amount,
+        args.cliff,
+        args.vesting,
+        releaseInterval,
+        args.revocable
+      );
+    } else {
+      tx = await creator.createLockup(
+        args.beneficiary,
+        amount,
+        args.cliff,
+        args.vesting,
+        args.revocable
+      );
+    }
+    log('Transaction:', tx.hash);
+    const receipt = await tx.wait();
+
+    if (args.json) {
+      printJson({
+        lockup: address,
+        approvalTxHash,
+        txHash: tx.hash,
+        blockNumber: receipt?.blockNumber,
+        gasUsed: receipt?.gasUsed,
+      });
+      return;
+    }
+
+    log('✅ Lockup created successfully!');
+    log('Gas used:', receipt?.gasUsed.toString());
+  });
+
+lockupScope
+  .task('release', 'Release vested tokens (beneficiary or approved operator)')
+  .addOptionalParam('lockup', 'SimpleLockup address', process.env.LOCKUP_ADDRESS, types.string)
+  .addOptionalParam(
+    'recipient',
+    'Send tokens to this address (default: signer, or the beneficiary for operators)',
+    undefined,
+    types.string
+  )
+  .addOptionalParam(
+    'amount',
+    'Amount in token units (default: everything releasable)',
+    undefined,
+    types.string
+  )
+  .addFlag('yes', 'Skip confirmation prompts')
+  .addFlag('json', 'Print JSON output')
+  .setAction(async (args: ReleaseArgs, hre) => {
+    requireNonInteractive(args);
+    const log = logger(args);
+    const { address, lockup, tokenInfo } = await load(args, hre);
+    const [signer] = await hre.ethers.getSigners();
+    const status = await getLockupStatus(lockup);
+
+    if (!status.exists) {
+      throw new HardhatPluginError(PLUGIN_NAME, 'No lockup found');
+    }
+    const isBeneficiary = status.beneficiary.toLowerCase() === signer.address.toLowerCase();
+    if (!isBeneficiary && !(await lockup.isOperator(signer.address))) {
+      throw new HardhatPluginError(
+        PLUGIN_NAME,
+        `Signer ${signer.address} is not the beneficiary (${status.beneficiary}) or an operator`
+      );
+    }
+    if (status.releasableAmount === 0n) {
+      throw new HardhatPluginError(PLUGIN_NAME, 'No tokens available for release at this time');
+    }
+
+    const recipient = args.recipient ?? (isBeneficiary ? signer.address : status.beneficiary);
+    if (!hre.ethers.isAddress(recipient)) {
+      throw new HardhatPluginError(PLUGIN_NAME, 'Invalid recipient address');
+    }
+    if (
+      !isBeneficiary &&
+      recipient.toLowerCase() !== status.beneficiary.toLowerCase() &&
+      !(await lockup.isApprovedRecipient(recipient))
+    ) {
+      throw new HardhatPluginError(
+        PLUGIN_NAME,
+        `Recipient ${recipient} is not approved by the beneficiary`
+      );
+    }
+
+    const amount = args.amount !== undefined ? parseAmount(args.amount, tokenInfo) : undefined;
+    if (amount !== undefined && (amount <= 0n || amount > status.releasableAmount)) {
+      throw new HardhatPluginError(
+        PLUGIN_NAME,
+        `Amount must be greater than 0 and at most ${formatTokenAmount(status.releasableAmount, tokenInfo)}`
+      );
+    }
+
+    if (!isBeneficiary) {
+      log('Releasing as operator for', status.beneficiary);
+    }
+    log(`💰 You can release ${formatTokenAmount(status.releasableAmount, tokenInfo)} now!`);
+    log('Recipient:', recipient);
+    log('Amount:', formatTokenAmount(amount ?? status.releasableAmount, tokenInfo));
+
+    if (!(await confirm('Proceed with token release?', args.yes))) {
+      log('❌ Token release cancelled');
+      return;
+    }
+
+    log('🔓 Releasing tokens...');
+    const tx = await buildReleaseCall(
+      lockup.connect(signer),
+      status.beneficiary,
+      recipient,
+      amount
+    ).send();
+    log('Transaction:', tx.hash);
+    const receipt = await tx.wait();
+    const updated = await lockup.lockupInfo();
+
+    if (args.json) {
+      printJson({
+        lockup: address,
+        txHash: tx.hash,
+        blockNumber: receipt?.blockNumber,
+        gasUsed: receipt?.gasUsed,
+        recipient,
+        releasedAmount: updated.releasedAmount - status.releasedAmount,
+        totalReleased: updated.releasedAmount,
+      });
+      return;
+    }
+
+    log('✅ Tokens released successfully!');
+    log('Gas used:', receipt?.gasUsed.toString());
+    log('Total Released:', formatTokenAmount(updated.releasedAmount, tokenInfo));
+  });
+
+lockupScope
+  .task('revoke', 'Revoke the lockup and reclaim unvested tokens (owner only)')
+  .addOptionalParam('lockup', 'SimpleLockup address', process.env.LOCKUP_ADDRESS, types.string)
+  .addOptionalParam(
+    'asSafe',
+    'Safe that owns the lockup: write a Transaction Builder batch instead of sending',
+    undefined,
+    types.string
+  )
+  .addOptionalParam(
+    'safeBatch',
+    'Batch file for --as-safe (default: safe-revoke-<lockup>-<time>.json)',
+    undefined,
+    types.string
+  )
+  .addFlag('yes', 'Skip confirmation prompts')
+  .addFlag('json', 'Print JSON output')
+  .setAction(async (args: OwnerArgs, hre) => {
+    requireNonInteractive(args);
+    const log = logger(args);
+    const { address, lockup, tokenInfo } = await load(args, hre);
+    const status = await getLockupStatus(lockup);
+    const safe = await loadSafe(args, hre, status.owner);
+    const [signer] = safe ? [] : await hre.ethers.getSigners();
+
+    if (!safe) {
+      requireOwner(signer.address, status.owner);
+    }
+    if (!status.exists) {
+      throw new HardhatPluginError(PLUGIN_NAME, 'No lockup found');
+    }
+    if (status.revoked) {
+      throw new HardhatPluginError(PLUGIN_NAME, 'Lockup already revoked');
+    }
+    if (!status.revocable) {
+      throw new HardhatPluginError(PLUGIN_NAME, 'This lockup is not revocable');
+    }
+
+    const unvestedAmount = status.totalAmount - status.vestedAmount;
+
+    log('⚠️  Revocation Impact:');
+    log('─'.repeat(50));
+    log('Beneficiary:', status.beneficiary);
+    log('✅ Beneficiary keeps:', formatTokenAmount(status.vestedAmount, tokenInfo), '(vested)');
+    log('📤 Returns to owner:', formatTokenAmount(unvestedAmount, tokenInfo), '(unvested)');
+    log('─'.repeat(50));
+    log('⚠️  WARNING: This action cannot be undone!');
+
+    if (!args.yes && (await ask('Type "REVOKE" to proceed: ')) !== 'REVOKE') {
+      log('❌ Revocation cancelled');
+      return;
+    }
+
+    if (safe) {
+      await writeBatch(
+        args,
+        hre,
+        safe,
+        'revoke',
+        address,
+        `Revoke the lockup of ${status.beneficiary} in ${address}`,
+        [await encodeSafeTransaction(lockup, 'revoke', [])]
+      );
+      return;
+    }
+
+    log('🔨 Revoking lockup...');
+    const tx = await lockup.connect(signer).revoke();
+    log('Transaction:', tx.hash);
+    const receipt = await tx.wait();
+    const updated = await lockup.lockupInfo();
+
+    if (args.json) {
+      printJson({
+        lockup: address,
+        txHash: tx.hash,
+        blockNumber: receipt?.blockNumber,
+        gasUsed: receipt?.gasUsed,
+        vestedAtRevoke: updated.vestedAtRevoke,
+        refundAmount: updated.totalAmount - updated.vestedAtRevoke,
+      });
+      return;
+    }
+
+    log('✅ Lockup revoked successfully!');
+    log('Gas used:', receipt?.gasUsed.toString());
+    log('Vested at Revoke:', formatTokenAmount(updated.vestedAtRevoke, tokenInfo));
+  });
+
+lockupScope
+  .task('debug', 'Diagnose lockup creation problems')
+  .addOptionalParam('lockup', 'SimpleLockup address', process.env.LOCKUP_ADDRESS, types.string)
+  .addOptionalParam('amount', 'Dry run amount in token units', '1000', types.string)
+  .addFlag('json', 'Print JSON output')
+  .setAction(async (args: DebugArgs, hre) => {
+    const log = logger(args);
+    const { address, lockup, tokenInfo } = await load(args, hre);
+    const [signer] = await hre.ethers.getSigners();
+    const token = await hre.ethers.getContractAt('IERC20', tokenInfo.address);
+
+    const [owner, existingLockup, signerBalance, contractBalance, allowance] = await Promise.all([
+      lockup.owner(),
+      lockup.lockupInfo(),
+      token.balanceOf(signer.address),
+      token.balanceOf(address),
+      token.allowance(signer.address, address),
+    ]);
+
+    const testAmount = parseAmount(args.amount, tokenInfo);
+    const isOwner = owner.toLowerCase() === signer.address.toLowerCase();
+    const lockupExists = existingLockup.totalAmount > 0n;
+    const problems: string[] = [];
+
+    if (!isOwner) problems.push('Signer is not the owner. Only owner can create lockups.');
+    if (lockupExists) problems.push('Lockup already exists (one lockup per contract).');
+    if (signerBalance < testAmount) problems.push('Insufficient token balance.');
+    if (allowance < testAmount) problems.push('Insufficient allowance. Approve tokens first.');
+
+    // Dry run with 30-day cliff and 1-year vesting to the signer
+    let gasEstimate: bigint | undefined;
+    let dryRunError: string | undefined;
+    if (!lockupExists && signerBalance >= testAmount) {
+      try {
+        gasEstimate = await lockup
+          .connect(signer)
+          .createLockup.estimateGas(signer.address, testAmount, 30 * 86400, 365 * 86400, true);
+      } catch (error: unknown) {
+        dryRunError = errorMessage(error);
+      }
+    }
+
+    if (args.json) {
+      printJson({
+        lockup: address,
+        token: tokenInfo,
+        owner,
+        signer: signer.address,
+        isOwner,
+        lockupExists,
+        signerBalance,
+        contractBalance,
+        allowance,
+        dryRun: { amount: testAmount, gasEstimate, error: dryRunError },
+        problems,
+      });
+      return;
+    }
+
+    log('🔍 Debugging Lockup');
+    log('SimpleLockup Address:', address);
+    log('Token:', tokenInfo.address, `(${tokenInfo.symbol}, ${tokenInfo.decimals} decimals)`);
+    log('Owner:', owner);
+    log('Signer:', signer.address);
+    log('Is Owner?:', isOwner);
+    log('Signer Token Balance:', formatTokenAmount(signerBalance, tokenInfo));
+    log('Contract Token Balance:', formatTokenAmount(contractBalance, tokenInfo));
+    log('Current Allowance:', formatTokenAmount(allowance, tokenInfo));
+    log('Lockup Exists?:', lockupExists);
+    log('');
+
+    if (gasEstimate !== undefined) {
+      log('✅ Dry run gas estimate:', gasEstimate.toString());
+    } else if (dryRunError !== undefined) {
+      log('❌ Dry run failed:', dryRunError);
+    }
+
+    if (problems.length > 0) {
+      log('');
+      log('=== Problems ===');
+      problems.forEach((problem) => log('❌', problem));
+    }
+  });
@@ -0,0 +1,128 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { SimpleLockup, MockERC20 } from '../typechain-types';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { parseClaimTargets, planClaim, sendClaim } from '../scripts/lib/claim';
+
+describe('AutoClaim', function () {
+  let simpleLockup: SimpleLockup;
+  let token: MockERC20;
+  let beneficiary: SignerWithAddress;
+  let operator: SignerWithAddress;
+  let custodian: SignerWithAddress;
+  let lockupAddress: string;
+
+  const TOTAL_AMOUNT = ethers.parseEther('1000');
+  const CLIFF_DURATION = 30 * 24 * 60 * 60; // 30 days
+  const VESTING_DURATION = 365 * 24 * 60 * 60; // 1 year
+
+  beforeEach(async function () {
+    [, beneficiary, operator, custodian] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory('MockERC20');
+    token = await MockERC20Factory.deploy('Test Token', 'TEST', ethers.parseEther('1000000'));
+    await token.waitForDeployment();
+
+    const SimpleLockupFactory = await ethers.getContractFactory('SimpleLockup');
+    simpleLockup = await SimpleLockupFactory.deploy(await token.getAddress());
+    await simpleLockup.waitForDeployment();
+    lockupAddress = await simpleLockup.getAddress();
+
+    await token.approve(lockupAddress, TOTAL_AMOUNT);
+    await simpleLockup.createLockup(
+      beneficiary.address,
+      TOTAL_AMOUNT,
+      CLIFF_DURATION,
+      VESTING_DURATION,
+      true
+    );
+    await simpleLockup.connect(beneficiary).setOperator(operator.address, true);
+  });
+
+  describe('Targets', function () {
+    it('Should parse lockups with optional recipients', function () {
+      expect(
+        parseClaimTargets(` ${lockupAddress}, ${lockupAddress}:${custodian.address},`)
+      ).to.deep.equal([
+        { lockup: lockupAddress },
+        { lockup: lockupAddress, recipient: custodian.address },
+      ]);
+    });
+
+    it('Should reject malformed entries', function () {
+      for (const input of [
+        '0x1234',
+        `${lockupAddress}:0x1234`,
+        `${lockupAddress}:${lockupAddress}:x`,
+      ]) {
+        expect(() => parseClaimTargets(input)).to.throw('Invalid claim target');
+      }
+    });
+  });
+
+  describe('Planning', function () {
+    it('Should skip lockups with nothing releasable', async function () {
+      const plan = await planClaim(simpleLockup, operator.address);
+
+      expect(plan.beneficiary).to.equal(beneficiary.address);
+      expect(plan.recipient).to.equal(beneficiary.address);
+      expect(plan.skipReason).to.equal('Nothing releasable');
+    });
+
+    it('Should skip callers that are not operators', async function () {
+      await time.increase(VESTING_DURATION);
+
+      const plan = await planClaim(simpleLockup, custodian.address);
+      expect(plan.skipReason).to.contain('Not an operator');
+    });
+
+    it('Should skip recipients the beneficiary did not approve', async function () {
+      await time.increase(VESTING_DURATION);
+
+      const plan = await planClaim(simpleLockup, operator.address, custodian.address);
+      expect(plan.skipReason).to.contain('is not approved by the beneficiary');
+      // The beneficiary itself may release anywhere
+      expect(
+        (await planClaim(simpleLockup, beneficiary.address, custodian.address)).skipReason
+      ).to.equal(undefined);
+    });
+
+    it('Should skip addresses without a lockup', async function () {
+      const SimpleLockupFactory = await ethers.getContractFactory('SimpleLockup');
+      const empty = await SimpleLockupFactory.deploy(await token.getAddress());
+
+      expect((await planClaim(empty, operator.address)).skipReason).to.equal('No lockup found');
+    });
+  });
+
+  describe('Claiming', function () {
+    it('Should release to the beneficiary as operator', async function () {
+      await time.increase(VESTING_DURATION / 2);
+
+      const plan = await planClaim(simpleLockup, operator.address);
+      expect(plan.skipReason).to.equal(undefined);
+      expect(plan.releasable).to.be.greaterThan(0n);
+
+      await (await sendClaim(simpleLockup.connect(operator), plan)).wait();
+      const released = (await simpleLockup.lockupInfo()).releasedAmount;
+      expect(released).to.be.greaterThanOrEqual(plan.releasable);
+      expect(await token.balanceOf(beneficiary.address)).to.equal(released);
+
+      // Runs right after a claim find nothing left
+      expect((await planClaim(simpleLockup, operator.address)).skipReason).to.equal(
+        'Nothing releasable'
+      );
+    });
+
+    it('Should release to an approved recipient as operator', async function () {
+      await time.increase(VESTING_DURATION);
+      await simpleLockup.connect(beneficiary).setRecipientApproval(custodian.address, true);
+
+      const plan = await planClaim(simpleLockup, operator.address, custodian.address);
+      await (await sendClaim(simpleLockup.connect(operator), plan)).wait();
+
+      expect(await token.balanceOf(custodian.address)).to.equal(TOTAL_AMOUNT);
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { mine, time } from '@nomicfoundation/hardhat-network-helpers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SimpleLockup, MockERC20 } from '../typechain-types';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import {
+  EVENT_STORE_VERSION,
+  EventStore,
+  buildHistory,
+  findDeploymentBlock,
+  indexLockup,
+  loadEventStore,
+  saveEventStore,
+} from '../scripts/lib/events';
+
+describe('EventIndexer', function () {
+  let simpleLockup: SimpleLockup;
+  let token: MockERC20;
+  let beneficiary: SignerWithAddress;
+  let recipient: SignerWithAddress;
+  let deploymentBlock: number;
+  let store: EventStore;
+
+  const TOTAL_AMOUNT = ethers.parseEther('1000');
+  const CLIFF_DURATION = 30 * 24 * 60 * 60; // 30 days
+  const VESTING_DURATION = 365 * 24 * 60 * 60; // 1 year
+
+  async function index(chunkSize = 3) {
+    return indexLockup(simpleLockup, store, {
+      chunkSize,
+      toBlock: await ethers.provider.getBlockNumber(),
+      fromBlock: deploymentBlock,
+    });
+  }
+
+  beforeEach(async function () {
+    [, beneficiary, recipient] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory('MockERC20');
+    token = await MockERC20Factory.deploy('Test Token', 'TEST', ethers.parseEther('1000000'));
+    await token.waitForDeployment();
+
+    const SimpleLockupFactory = await ethers.getContractFactory('SimpleLockup');
+    simpleLockup = await SimpleLockupFactory.deploy(await token.getAddress());
+    await simpleLockup.waitForDeployment();
+    deploymentBlock = (await simpleLockup.deploymentTransaction()!.wait())!.blockNumber;
+
+    await token.approve(await simpleLockup.getAddress(), TOTAL_AMOUNT);
+    await simpleLockup.createLockup(
+      beneficiary.address,
+      TOTAL_AMOUNT,
+      CLIFF_DURATION,
+      VESTING_DURATION,
+      true
+    );
+
+    const { chainId } = await ethers.provider.getNetwork();
+    store = loadEventStore(path.join(os.tmpdir(), 'missing-lockup-events.json'), chainId);
+  });
+
+  it('Should find the deployment block', async function () {
+    await mine(5);
+    const latest = await ethers.provider.getBlockNumber();
+
+    expect(
+      await findDeploymentBlock(ethers.provider, await simpleLockup.getAddress(), latest)
+    ).to.equal(deploymentBlock);
+  });
+
+  it('Should build a chronological history with running totals', async function () {
+    await time.increase(CLIFF_DURATION);
+    await simpleLockup.connect(beneficiary)['release()']();
+    await mine(10);
+    await time.increase(CLIFF_DURATION);
+    await simpleLockup.connect(beneficiary)['releaseTo(address)'](recipient.address);
+    await simpleLockup.revoke();
+
+    expect(await index()).to.equal(4);
+
+    const indexed = store.lockups[(await simpleLockup.getAddress()).toLowerCase()];
+    const history = buildHistory(indexed);
+    const info = await simpleLockup.lockupInfo();
+
+    expect(history.map((entry) => entry.type)).to.deep.equal([
+      'TokensLocked',
+      'TokensReleased',
+      'TokensReleased',
+      'LockupRevoked',
+    ]);
+    expect(history[1].recipient).to.equal(beneficiary.address);
+    expect(history[2].recipient).to.equal(recipient.address);
+    expect(history[0].totalLocked).to.equal(TOTAL_AMOUNT);
+    expect(history[2].totalReleased).to.equal(info.releasedAmount);
+    expect(history[3].totalRefunded).to.equal(TOTAL_AMOUNT - info.vestedAtRevoke);
+    expect(history[3].remaining).to.equal(info.vestedAtRevoke - info.releasedAmount);
+
+    for (const entry of history) {
+      const block = await ethers.provider.getBlock(entry.blockNumber);
+      expect(entry.timestamp).to.equal(block!.timestamp);
+      expect(entry.transactionHash).to.match(/^0x[0-9a-f]{64}$/);
+    }
+  });
+
+  it('Should count top-ups as locked tokens', async function () {
+    const topUpAmount = ethers.parseEther('250');
+    await token.approve(await simpleLockup.getAddress(), topUpAmount);
+    await simpleLockup.topUp(topUpAmount);
+
+    expect(await index()).to.equal(2);
+
+    const indexed = store.lockups[(await simpleLockup.getAddress()).toLowerCase()];
+    const history = buildHistory(indexed);
+    expect(history[1].type).to.equal('LockupToppedUp');
+    expect(history[1].amount).to.equal(topUpAmount.toString());
+    expect(history[1].totalLocked).to.equal(TOTAL_AMOUNT + topUpAmount);
+    expect(history[1].remaining).to.equal(TOTAL_AMOUNT + topUpAmount);
+  });
+
+  it('Should only catch up from the last indexed block on rerun', async function () {
+    expect(await index()).to.equal(1);
+    const indexed = store.lockups[(await simpleLockup.getAddress()).toLowerCase()];
+    const firstRunBlock = indexed.lastIndexedBlock;
+
+    expect(await index()).to.equal(0);
+
+    await time.increase(CLIFF_DURATION);
+    await simpleLockup.connect(beneficiary)['release()']();
+
+    expect(await index()).to.equal(1);
+    expect(indexed.lastIndexedBlock).to.be.greaterThan(firstRunBlock);
+    expect(indexed.events).to.have.length(2);
+  });
+
+  it('Should filter the history by beneficiary', async function () {
+    await index();
+    const indexed = store.lockups[(await simpleLockup.getAddress()).toLowerCase()];
+
+    expect(buildHistory(indexed, beneficiary.address)).to.have.length(1);
+    expect(buildHistory(indexed, ethers.ZeroAddress)).to.have.length(0);
+  });
+
+  it('Should index beneficiary changes and follow them in the beneficiary filter', async function () {
+    await simpleLockup.connect(beneficiary).proposeBeneficiary(recipient.address);
+    await simpleLockup.connect(recipient).acceptBeneficiary();
+    await time.increase(CLIFF_DURATION);
+    await simpleLockup.connect(recipient)['release()']();
+
+    expect(await index()).to.equal(3);
+
+    const indexed = store.lockups[(await simpleLockup.getAddress()).toLowerCase()];
+    const history = buildHistory(indexed);
+    expect(history.map((entry) => entry.type)).to.deep.equal([
+      'TokensLocked',
+      'BeneficiaryChanged',
+      'TokensReleased',
+    ]);
+    expect(history[1]).to.include({
+      beneficiary: beneficiary.address,
+      newBeneficiary: recipient.address,
+      amount: '0',
+    });
+    expect(history[1].totalLocked).to.equal(TOTAL_AMOUNT);
+    expect(history[1].remaining).to.equal(TOTAL_AMOUNT);
+
+    expect(buildHistory(indexed, beneficiary.address).map((entry) => entry.type)).to.deep.equal([
+      'TokensLocked',
+      'BeneficiaryChanged',
+    ]);
+    const recipientHistory = buildHistory(indexed, recipient.address);
+    expect(recipientHistory.map((entry) => entry.type)).to.deep.equal([
+      'BeneficiaryChanged',
+      'TokensReleased',
+    ]);
+    // Totals include the lock made before the rotation
+    const released = (await simpleLockup.lockupInfo()).releasedAmount;
+    expect(recipientHistory[0].remaining).to.equal(TOTAL_AMOUNT);
+    expect(recipientHistory[1].totalLocked).to.equal(TOTAL_AMOUNT);
+    expect(recipientHistory[1].remaining).to.equal(TOTAL_AMOUNT - released);
+  });
+
+  it('Should index a store from an older version again', async function () {
+    await index();
+    const storePath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'lockup-events-')),
+      'events.json'
+    );
+    saveEventStore(storePath, { ...store, version: EVENT_STORE_VERSION - 1 });
+
+    const { chainId } = await ethers.provider.getNetwork();
+    expect(loadEventStore(storePath, chainId)).to.deep.equal({
+      version: EVENT_STORE_VERSION,
+      chainId: chainId.toString(),
+      lockups: {},
+    });
+
+    saveEventStore(storePath, { ...store, version: EVENT_STORE_VERSION + 1 });
+    expect(() => loadEventStore(storePath, chainId)).to.throw('Unsupported event store version');
+  });
+
+  it('Should persist the store and reject another chain', async function () {
+    await index();
+    const storePath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'lockup-events-')),
+      'events.json'
+    );
+    saveEventStore(storePath, store);
+
+    const { chainId } = await ethers.provider.getNetwork();
+    expect(loadEventStore(storePath, chainId)).to.deep.equal(store);
+    expect(() => loadEventStore(storePath, chainId + 1n)).to.throw('belongs to chain');
+  });
+});
@@ -0,0 +1,374 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SimpleLockupFactory, MockERC20 } from '../typechain-types';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import {
+  Grant,
+  GrantResult,
+  GrantRules,
+  assertResultsMatchGrants,
+  loadGrantSheet,
+  loadResults,
+  resolvePendingResult,
+  saveResults,
+  validateGrant,
+} from '../scripts/lib/grants';
+
+describe('GrantSheet', function () {
+  const BENEFICIARY = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+  const FACTORY = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+  const DAY = 24 * 60 * 60;
+
+  const rules: GrantRules = {
+    maxVestingDuration: 10 * 365 * DAY,
+    forbiddenBeneficiaries: [FACTORY],
+  };
+
+  function tempFile(name: string, content?: string): string {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'lockup-grants-')), name);
+    if (content !== undefined) {
+      fs.writeFileSync(file, content);
+    }
+    return file;
+  }
+
+  function grant(overrides: Partial<Grant> = {}): Grant {
+    return {
+      row: 1,
+      beneficiary: BENEFICIARY,
+      amount: ethers.parseEther('1000'),
+      amountText: '1000',
+      cliffDuration: 90 * DAY,
+      vestingDuration: 365 * DAY,
+      releaseInterval: 0,
+      revocable: true,
+      ...overrides,
+    };
+  }
+
+  const parseAmount = (value: string) => ethers.parseEther(value);
+
+  describe('loadGrantSheet', function () {
+    it('Should parse CSV rows with comments, quotes and an optional interval', function () {
+      const file = tempFile(
+        'grants.csv',
+        [
+          'Beneficiary, amount ,cliff,vesting,revocable,interval,label',
+          '# advisors',
+          `${BENEFICIARY},1000.5,7776000,31536000,yes,2628000,"Smith, Jane"`,
+          '',
+          `"${BENEFICIARY}","250",0,31536000,no,,"says ""hi"""`,
+        ].join('\r\n')
+      );
+
+      // Rows are line numbers: comments and blank lines count
+      expect(loadGrantSheet(file, parseAmount)).to.deep.equal([
+        {
+          row: 3,
+          beneficiary: BENEFICIARY,
+          amount: ethers.parseEther('1000.5'),
+          amountText: '1000.5',
+          cliffDuration: 7776000,
+          vestingDuration: 31536000,
+          releaseInterval: 2628000,
+          revocable: true,
+        },
+        {
+          row: 5,
+          beneficiary: BENEFICIARY,
+          amount: ethers.parseEther('250'),
+          amountText: '250',
+          cliffDuration: 0,
+          vestingDuration: 31536000,
+          releaseInterval: 0,
+          revocable: false,
+        },
+      ]);
+    });
+
+    it('Should parse JSON sheets with the same keys', function () {
+      const file = tempFile(
+        'grants.json',
+        JSON.stringify([
+          { beneficiary: BENEFICIARY, amount: '10', cliff: 0, vesting: 86400, revocable: true },
+        ])
+      );
+
+      expect(loadGrantSheet(file, parseAmount)[0]).to.include({
+        amount: ethers.parseEther('10'),
+        vestingDuration: 86400,
+        revocable: true,
+      });
+    });
+
+    it('Should reject a quoted amount with a thousands separator', function () {
+      const file = tempFile(
+        'grants.csv',
+        `beneficiary,amount,cliff,vesting,revocable\n${BENEFICIARY},"1,000",0,86400,yes\n`
+      );
+
+      expect(() => loadGrantSheet(file, parseAmount)).to.throw('Row 2: invalid amount "1,000"');
+    });
+
+    it('Should list every malformed row', function () {
+      const file = tempFile(
+        'grants.csv',
+        [
+          'beneficiary,amount,cliff,vesting,revocable,interval',
+          `${BENEFICIARY},abc,0,86400,yes,`,
+          '# second batch',
+          '',
+          `${BENEFICIARY},1,-5,1.5,maybe,x`,
+        ].join('\n')
+      );
+
+      let message = '';
+      try {
+        loadGrantSheet(file, parseAmount);
+      } catch (error) {
+        message = (error as Error).message;
+      }
+      expect(message.split('\n').slice(1)).to.deep.equal([
+        '  Row 2: invalid amount "abc"',
+        '  Row 5: invalid cliff "-5"',
+        '  Row 5: invalid vesting "1.5"',
+        '  Row 5: invalid interval "x"',
+        '  Row 5: invalid revocable "maybe"',
+      ]);
+    });
+
+    it('Should reject malformed files', function () {
+      const cases: [string, string, string][] = [
+        ['grants.csv', 'beneficiary,amount,cliff\n', 'missing column(s): vesting, revocable'],
+        [
+          'grants.csv',
+          `beneficiary,amount,cliff,vesting,revocable\n${BENEFICIARY},"1000,0,86400,yes\n`,
+          'Line 2: Unterminated quoted field',
+        ],
+        [
+          'grants.csv',
+          `beneficiary,amount,cliff,vesting,revocable\n${BENEFICIARY},"10"0,0,86400,yes\n`,
+          'Unexpected text after a quoted field',
+        ],
+        ['grants.json', '{"beneficiary":"0x"}', 'must be an array'],
+        ['grants.txt', '', 'Unsupported grant sheet format: .txt'],
+      ];
+
+      for (const [name, content, message] of cases) {
+        expect(() => loadGrantSheet(tempFile(name, content), parseAmount)).to.throw(message);
+      }
+    });
+  });
+
+  describe('validateGrant', function () {
+    it('Should accept a valid grant', function () {
+      expect(validateGrant(grant(), rules)).to.deep.equal([]);
+    });
+
+    it('Should report every broken rule', function () {
+      expect(
+        validateGrant(
+          grant({
+            beneficiary: ethers.ZeroAddress,
+            amount: 0n,
+            cliffDuration: 11 * 365 * DAY,
+            vestingDuration: 11 * 365 * DAY,
+            releaseInterval: 12 * 365 * DAY,
+          }),
+          rules
+        )
+      ).to.deep.equal([
+        'beneficiary cannot be the zero address',
+        'amount must be greater than 0',
+        'cliff duration must be shorter than vesting duration',
+        'release interval cannot be longer than vesting duration',
+        `vesting duration exceeds MAX_VESTING_DURATION (${rules.maxVestingDuration}s)`,
+      ]);
+    });
+
+    it('Should reject invalid and forbidden beneficiaries', function () {
+      expect(validateGrant(grant({ beneficiary: '0x1234' }), rules)).to.deep.equal([
+        'beneficiary is not a valid address',
+      ]);
+      expect(validateGrant(grant({ beneficiary: FACTORY.toLowerCase() }), rules)).to.deep.equal([
+        'beneficiary cannot be the lockup or factory contract',
+      ]);
+      expect(validateGrant(grant({ vestingDuration: 0, cliffDuration: 0 }), rules)).to.include(
+        'vesting duration must be greater than 0'
+      );
+    });
+  });
+
+  describe('Resuming', function () {
+    let factory: SimpleLockupFactory;
+    let token: MockERC20;
+    let owner: SignerWithAddress;
+    let beneficiary: SignerWithAddress;
+    let factoryAddress: string;
+
+    async function createLockup(): Promise<{ txHash: string; nonce: number }> {
+      await token.approve(factoryAddress, ethers.parseEther('1000'));
+      const tx = await factory.createLockup(
+        beneficiary.address,
+        ethers.parseEther('1000'),
+        0,
+        365 * DAY,
+        true
+      );
+      await tx.wait();
+      return { txHash: tx.hash, nonce: tx.nonce };
+    }
+
+    function pending(overrides: Partial<GrantResult> = {}): GrantResult {
+      return {
+        row: 1,
+        beneficiary: beneficiary.address,
+        amount: ethers.parseEther('1000').toString(),
+        status: 'pending',
+        // A transaction the node has never seen
+        txHash: ethers.id('dropped transaction'),
+        from: owner.address,
+        ...overrides,
+      };
+    }
+
+    beforeEach(async function () {
+      [owner, beneficiary] = await ethers.getSigners();
+
+      const MockERC20Factory = await ethers.getContractFactory('MockERC20');
+      token = await MockERC20Factory.deploy('Test Token', 'TEST', ethers.parseEther('1000000'));
+      await token.waitForDeployment();
+
+      const SimpleLockupFactory = await ethers.getContractFactory('SimpleLockup');
+      const implementation = await SimpleLockupFactory.deploy(await token.getAddress());
+      await implementation.waitForDeployment();
+
+      const FactoryFactory = await ethers.getContractFactory('SimpleLockupFactory');
+      factory = await FactoryFactory.deploy(await implementation.getAddress());
+      await factory.waitForDeployment();
+      factoryAddress = await factory.getAddress();
+    });
+
+    it('Should save and reload results for the same factory only', function () {
+      const resultsPath = tempFile('grants.csv.results.json');
+      const results = loadResults(resultsPath, factoryAddress, 'grants.csv');
+      expect(results).to.deep.equal({
+        factory: factoryAddress,
+        grantsFile: 'grants.csv',
+        results: [],
+      });
+
+      results.results.push(pending({ row: 2 }), pending({ row: 1, status: 'created' }));
+      saveResults(resultsPath, results);
+
+      const reloaded = loadResults(resultsPath, factoryAddress.toLowerCase(), 'grants.csv');
+      expect(reloaded.results.map((result) => result.row)).to.deep.equal([1, 2]);
+      expect(fs.existsSync(`${resultsPath}.tmp`)).to.equal(false);
+      expect(() => loadResults(resultsPath, FACTORY, 'grants.csv')).to.throw(
+        `belongs to factory ${factoryAddress}`
+      );
+    });
+
+    it('Should reject rows that changed since the previous run', function () {
+      const results = {
+        factory: FACTORY,
+        grantsFile: 'grants.csv',
+        results: [pending({ beneficiary: BENEFICIARY.toLowerCase() })],
+      };
+      const grants = [grant({ amount: ethers.parseEther('1000') })];
+
+      expect(() => assertResultsMatchGrants(grants, results)).not.to.throw();
+      expect(() =>
+        assertResultsMatchGrants([grant({ amount: ethers.parseEther('999') })], results)
+      ).to.throw('Row 1 changed since the previous run');
+    });
+
+    it('Should confirm a mined transaction from its receipt', async function () {
+      const { txHash, nonce } = await createLockup();
+      const [lockup] = await factory.getLockupsByBeneficiary(beneficiary.address);
+
+      const resolution = await resolvePendingResult(
+        ethers.provider,
+        factory,
+        pending({ txHash, nonce }),
+        new Set()
+      );
+      expect(resolution).to.deep.equal({
+        status: 'created',
+        lockup,
+        blockNumber: await ethers.provider.getBlockNumber(),
+      });
+    });
+
+    it('Should resend a dropped transaction only with its unused nonce', async function () {
+      const nonce = await ethers.provider.getTransactionCount(owner.address, 'latest');
+
+      expect(
+        await resolvePendingResult(ethers.provider, factory, pending({ nonce }), new Set())
+      ).to.deep.equal({ status: 'unsent', nonce });
+    });
+
+    it('Should find a lockup created by a replacement transaction', async function () {
+      const { nonce } = await createLockup();
+      const [lockup] = await factory.getLockupsByBeneficiary(beneficiary.address);
+
+      // The recorded hash was replaced by a fee bump that used the same nonce
+      expect(
+        await resolvePendingResult(ethers.provider, factory, pending({ nonce }), new Set())
+      ).to.deep.equal({ status: 'created', lockup });
+      // A lockup recorded for another row does not count
+      expect(
+        await resolvePendingResult(
+          ethers.provider,
+          factory,
+          pending({ nonce }),
+          new Set([lockup.toLowerCase()])
+        )
+      ).to.deep.equal({ status: 'failed' });
+    });
+
+    it('Should keep a transaction stuck in the mempool pending after the timeout', async function () {
+      await token.approve(factoryAddress, ethers.parseEther('1000'));
+      await ethers.provider.send('evm_setAutomine', [false]);
+      try {
+        const tx = await factory.createLockup(
+          beneficiary.address,
+          ethers.parseEther('1000'),
+          0,
+          365 * DAY,
+          true
+        );
+
+        expect(
+          await resolvePendingResult(
+            ethers.provider,
+            factory,
+            pending({ txHash: tx.hash, nonce: tx.nonce }),
+            new Set(),
+            { confirmations: 1, timeoutMs: 200 }
+          )
+        ).to.deep.equal({ status: 'unknown', reason: 'transaction still pending after 0.2s' });
+      } finally {
+        await ethers.provider.send('evm_setAutomine', [true]);
+        await ethers.provider.send('evm_mine', []);
+      }
+    });
+
+    it('Should keep rows without a recorded nonce pending', async function () {
+      expect(
+        await resolvePendingResult(
+          ethers.provider,
+          factory,
+          pending({ from: undefined }),
+          new Set()
+        )
+      ).to.deep.equal({
+        status: 'unknown',
+        reason: 'no sender and nonce recorded to tell whether it was dropped',
+      });
+    });
+  });
+});
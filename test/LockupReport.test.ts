@@ -0,0 +1,267 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { SimpleLockup, MockERC20 } from '../typechain-types';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { toJson } from '../scripts/lib/cli';
+import {
+  LockupStatus,
+  Timeline,
+  buildTimeline,
+  getLockupStatus,
+  getMultiLockupStatus,
+} from '../scripts/lib/lockup';
+import {
+  BENEFICIARY_REPORT_SCHEMA_VERSION,
+  LOCKUP_REPORT_SCHEMA_VERSION,
+  buildBeneficiaryReport,
+  buildLockupReport,
+} from '../scripts/lib/report';
+import { TokenMetadata, loadLockupToken } from '../scripts/lib/token';
+
+describe('LockupReport', function () {
+  let simpleLockup: SimpleLockup;
+  let token: MockERC20;
+  let tokenInfo: TokenMetadata;
+  let lockupAddress: string;
+  let beneficiary: SignerWithAddress;
+
+  const TOTAL_AMOUNT = ethers.parseEther('1000');
+  const CLIFF_DURATION = 30 * 24 * 60 * 60; // 30 days
+  const VESTING_DURATION = 365 * 24 * 60 * 60; // 1 year
+
+  async function report() {
+    const status = await getLockupStatus(simpleLockup);
+    const timeline = status.exists ? buildTimeline(status) : undefined;
+    return buildLockupReport(lockupAddress, tokenInfo, status, timeline);
+  }
+
+  async function createLockup(revocable = true) {
+    await token.approve(lockupAddress, TOTAL_AMOUNT);
+    await simpleLockup.createLockup(
+      beneficiary.address,
+      TOTAL_AMOUNT,
+      CLIFF_DURATION,
+      VESTING_DURATION,
+      revocable
+    );
+  }
+
+  beforeEach(async function () {
+    [, beneficiary] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory('MockERC20');
+    token = await MockERC20Factory.deploy('Test Token', 'TEST', ethers.parseEther('1000000'));
+    await token.waitForDeployment();
+
+    const SimpleLockupFactory = await ethers.getContractFactory('SimpleLockup');
+    simpleLockup = await SimpleLockupFactory.deploy(await token.getAddress());
+    await simpleLockup.waitForDeployment();
+
+    lockupAddress = await simpleLockup.getAddress();
+    tokenInfo = await loadLockupToken(simpleLockup, ethers.provider);
+  });
+
+  it('Should report no-lockup with an empty timeline', async function () {
+    const result = await report();
+
+    expect(result.schemaVersion).to.equal(LOCKUP_REPORT_SCHEMA_VERSION);
+    expect(result.kind).to.equal('lockup');
+    expect(result.status).to.equal('no-lockup');
+    expect(result.lockupInfo.totalAmount).to.equal('0');
+    expect(result.timeline.milestones).to.have.length(0);
+    expect(result.timeline.monthly).to.have.length(0);
+    expect(result.timeline.range).to.equal(null);
+  });
+
+  it('Should report in-cliff, vesting and fully-vested over time', async function () {
+    await createLockup();
+    expect((await report()).status).to.equal('in-cliff');
+
+    await time.increase(CLIFF_DURATION);
+    expect((await report()).status).to.equal('vesting');
+
+    await time.increase(VESTING_DURATION);
+    const result = await report();
+    expect(result.status).to.equal('fully-vested');
+    expect(result.vestedAmount).to.equal(TOTAL_AMOUNT.toString());
+    expect(result.vestingProgress).to.equal(100);
+  });
+
+  it('Should report revoked regardless of time', async function () {
+    await createLockup();
+    await time.increase(CLIFF_DURATION);
+    await simpleLockup.revoke();
+
+    const result = await report();
+    expect(result.status).to.equal('revoked');
+    expect(result.lockupInfo.revoked).to.be.true;
+    expect(result.lockupInfo.vestedAtRevoke).to.equal(
+      (await simpleLockup.lockupInfo()).vestedAtRevoke.toString()
+    );
+  });
+
+  it('Should encode amounts as decimal strings and timestamps as seconds', async function () {
+    await createLockup();
+    const info = await simpleLockup.lockupInfo();
+    const result = JSON.parse(toJson(await report()));
+
+    expect(result.token).to.deep.equal({
+      address: await token.getAddress(),
+      symbol: 'TEST',
+      decimals: 18,
+    });
+    expect(result.lockupInfo.totalAmount).to.equal(TOTAL_AMOUNT.toString());
+    expect(result.lockupInfo.startTime).to.equal(Number(info.startTime));
+    expect(result.cliffEnd).to.equal(Number(info.startTime) + CLIFF_DURATION);
+    expect(result.vestingEnd).to.equal(Number(info.startTime) + VESTING_DURATION);
+    expect(result.timeline.milestones).to.have.length(6);
+    expect(result.timeline.monthly).to.have.length(12);
+    // Unchanged since v1: 30-day months, not calendar months
+    expect(result.timeline.monthly[0]).to.deep.include({
+      label: 'M1',
+      timestamp: Number(info.startTime) + 30 * 24 * 60 * 60,
+    });
+    expect(result.timeline.range).to.deep.equal({
+      unit: 'month',
+      timeZone: 'UTC',
+      from: Number(info.startTime),
+      to: result.vestingEnd,
+    });
+    expect(result.timeline.periods[0].deltaAmount).to.equal('0');
+    expect(result.timeline.milestones[5].vestedAmount).to.equal(TOTAL_AMOUNT.toString());
+    expect(result.lockupInfo.releaseInterval).to.equal(0);
+    expect(result.nextStepTime).to.equal(null);
+    expect(result.timeline.steps).to.have.length(0);
+  });
+
+  it('Should list the step boundaries of periodic lockups', async function () {
+    const releaseInterval = VESTING_DURATION / 4;
+    await token.approve(lockupAddress, TOTAL_AMOUNT);
+    await simpleLockup.createPeriodicLockup(
+      beneficiary.address,
+      TOTAL_AMOUNT,
+      CLIFF_DURATION,
+      VESTING_DURATION,
+      releaseInterval,
+      true
+    );
+    const startTime = Number((await simpleLockup.lockupInfo()).startTime);
+
+    const result = await report();
+
+    expect(result.lockupInfo.releaseInterval).to.equal(releaseInterval);
+    expect(result.nextStepTime).to.equal(startTime + releaseInterval);
+    expect(result.timeline.steps.map((step) => step.timestamp)).to.deep.equal([
+      startTime + releaseInterval,
+      startTime + 2 * releaseInterval,
+      startTime + 3 * releaseInterval,
+      startTime + VESTING_DURATION,
+    ]);
+    expect(result.timeline.steps.map((step) => step.vestedAmount)).to.deep.equal(
+      ['250', '500', '750', '1000'].map((amount) => ethers.parseEther(amount).toString())
+    );
+
+    await time.increaseTo(startTime + VESTING_DURATION);
+    expect((await report()).nextStepTime).to.equal(null);
+  });
+
+  it('Should include the checkpoints of custom schedules', async function () {
+    const checkpoints = [
+      { offset: CLIFF_DURATION, cumulativeBps: 2000 },
+      { offset: VESTING_DURATION, cumulativeBps: 10000 },
+    ];
+    await token.approve(lockupAddress, TOTAL_AMOUNT);
+    await simpleLockup.createCustomLockup(beneficiary.address, TOTAL_AMOUNT, checkpoints, true);
+    const startTime = Number((await simpleLockup.lockupInfo()).startTime);
+
+    const result = await report();
+
+    expect(result.lockupInfo.checkpoints).to.deep.equal(checkpoints);
+    expect(result.timeline.checkpoints).to.deep.equal([
+      {
+        label: 'Checkpoint 1',
+        timestamp: startTime + CLIFF_DURATION,
+        vestedAmount: ethers.parseEther('200').toString(),
+      },
+      {
+        label: 'Checkpoint 2',
+        timestamp: startTime + VESTING_DURATION,
+        vestedAmount: TOTAL_AMOUNT.toString(),
+      },
+    ]);
+  });
+
+  it('Should report not-started before a future start time', async function () {
+    const startTime = (await time.latest()) + 30 * 24 * 60 * 60;
+    await token.approve(lockupAddress, TOTAL_AMOUNT);
+    await simpleLockup.createScheduledLockup(
+      beneficiary.address,
+      TOTAL_AMOUNT,
+      startTime,
+      CLIFF_DURATION,
+      VESTING_DURATION,
+      0,
+      0,
+      true
+    );
+
+    const result = await report();
+    expect(result.status).to.equal('not-started');
+    // not-started was added in schema version 2
+    expect(result.schemaVersion).to.equal(2);
+    expect(result.vestingProgress).to.equal(0);
+
+    await time.increaseTo(startTime);
+    expect((await report()).status).to.equal('in-cliff');
+  });
+
+  it('Should aggregate every MultiLockup grant of a beneficiary', async function () {
+    const MultiLockupFactory = await ethers.getContractFactory('MultiLockup');
+    const multiLockup = await MultiLockupFactory.deploy(await token.getAddress());
+    await token.approve(await multiLockup.getAddress(), TOTAL_AMOUNT * 3n);
+
+    await multiLockup.createLockup(beneficiary.address, TOTAL_AMOUNT, 0, VESTING_DURATION, true);
+    await multiLockup.createLockup(
+      beneficiary.address,
+      TOTAL_AMOUNT * 2n,
+      CLIFF_DURATION,
+      VESTING_DURATION,
+      false
+    );
+    await time.increase(VESTING_DURATION / 2);
+    await multiLockup.connect(beneficiary).releaseAll();
+
+    const lockups: { lockupId: bigint; status: LockupStatus; timeline: Timeline }[] = [];
+    for (const lockupId of await multiLockup.getLockupIds(beneficiary.address)) {
+      const status = await getMultiLockupStatus(multiLockup, lockupId);
+      lockups.push({ lockupId, status, timeline: buildTimeline(status) });
+    }
+    const result = buildBeneficiaryReport(
+      await multiLockup.getAddress(),
+      tokenInfo,
+      beneficiary.address,
+      lockups
+    );
+
+    expect(result.schemaVersion).to.equal(BENEFICIARY_REPORT_SCHEMA_VERSION);
+    expect(result.kind).to.equal('beneficiary');
+    expect(result.lockups.map((lockup) => lockup.schemaVersion)).to.deep.equal([
+      LOCKUP_REPORT_SCHEMA_VERSION,
+      LOCKUP_REPORT_SCHEMA_VERSION,
+    ]);
+    expect(result.lockups.map((lockup) => lockup.kind)).to.deep.equal(['lockup', 'lockup']);
+    expect(result.lockups.map((lockup) => lockup.lockupId)).to.deep.equal([0, 1]);
+    expect(result.lockups.map((lockup) => lockup.status)).to.deep.equal(['vesting', 'vesting']);
+    expect(result.totals.totalAmount).to.equal((TOTAL_AMOUNT * 3n).toString());
+
+    const sum = (field: 'releasedAmount' | 'vestedAmount' | 'releasableAmount') =>
+      lockups.reduce((total, { status }) => total + status[field], 0n).toString();
+    expect(result.totals.releasedAmount).to.equal(sum('releasedAmount'));
+    expect(result.totals.vestedAmount).to.equal(sum('vestedAmount'));
+    expect(result.totals.releasableAmount).to.equal(sum('releasableAmount'));
+    expect(result.totals.releasedAmount).to.equal(
+      (await token.balanceOf(beneficiary.address)).toString()
+    );
+  });
+});
@@ -0,0 +1,313 @@
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { HardhatPluginError } from 'hardhat/plugins';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SimpleLockup, MockERC20, MockSafe } from '../typechain-types';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { LOCKUP_REPORT_SCHEMA_VERSION } from '../scripts/lib/report';
+
+/**
+ * The `lockup` task scope, run through hre.run with the first signer as the owner
+ */
+describe('LockupTasks', function () {
+  let simpleLockup: SimpleLockup;
+  let token: MockERC20;
+  let lockupAddress: string;
+  let owner: SignerWithAddress;
+  let beneficiary: SignerWithAddress;
+
+  const TOTAL_AMOUNT = ethers.parseEther('1000');
+  const CLIFF_DURATION = 30 * 24 * 60 * 60; // 30 days
+  const VESTING_DURATION = 365 * 24 * 60 * 60; // 1 year
+
+  // Run a lockup task and return what it printed
+  async function runTask(task: string, args: Record<string, unknown>): Promise<string> {
+    const lines: string[] = [];
+    const log = console.log;
+    console.log = (...values: unknown[]) => {
+      lines.push(values.join(' '));
+    };
+    try {
+      await hre.run({ scope: 'lockup', task }, { lockup: lockupAddress, ...args });
+    } finally {
+      console.log = log;
+    }
+    return lines.join('\n');
+  }
+
+  async function runJson(task: string, args: Record<string, unknown>) {
+    return JSON.parse(await runTask(task, { ...args, json: true }));
+  }
+
+  async function taskError(task: string, args: Record<string, unknown>): Promise<Error> {
+    try {
+      await runTask(task, args);
+    } catch (error) {
+      return error as Error;
+    }
+    throw new Error(`lockup ${task} did not fail`);
+  }
+
+  function createArgs(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+    return {
+      beneficiary: beneficiary.address,
+      amount: '1000',
+      cliff: CLIFF_DURATION,
+      vesting: VESTING_DURATION,
+      revocable: true,
+      yes: true,
+      ...overrides,
+    };
+  }
+
+  beforeEach(async function () {
+    [owner, beneficiary] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory('MockERC20');
+    token = await MockERC20Factory.deploy('Test Token', 'TEST', ethers.parseEther('1000000'));
+    await token.waitForDeployment();
+
+    const SimpleLockupFactory = await ethers.getContractFactory('SimpleLockup');
+    simpleLockup = await SimpleLockupFactory.deploy(await token.getAddress());
+    await simpleLockup.waitForDeployment();
+    lockupAddress = await simpleLockup.getAddress();
+  });
+
+  describe('status and timeline', function () {
+    it('Should print the report for a missing lockup', async function () {
+      const report = await runJson('status', {});
+
+      expect(report.schemaVersion).to.equal(LOCKUP_REPORT_SCHEMA_VERSION);
+      expect(report.kind).to.equal('lockup');
+      expect(report.status).to.equal('no-lockup');
+      expect(await runTask('status', {})).to.contain('❌ No lockup found');
+    });
+
+    it('Should print the timeline with a calendar breakdown', async function () {
+      await runTask('create', createArgs());
+
+      const report = await runJson('timeline', { period: 'quarter', tz: 'Europe/Berlin' });
+      expect(report.status).to.equal('in-cliff');
+      expect(report.timeline.range).to.include({ unit: 'quarter', timeZone: 'Europe/Berlin' });
+      expect(report.timeline.periods.length).to.be.within(4, 5);
+      expect(await runTask('timeline', {})).to.contain('📈 Vesting by month (UTC)');
+    });
+
+    it('Should report invalid timeline options as plugin errors', async function () {
+      await runTask('create', createArgs());
+
+      const error = await taskError('timeline', { period: 'fortnight' });
+      expect(error).to.be.instanceOf(HardhatPluginError);
+      expect(error.message).to.contain('Invalid period');
+    });
+
+    it('Should reject a MultiLockup address', async function () {
+      const MultiLockupFactory = await ethers.getContractFactory('MultiLockup');
+      const multiLockup = await MultiLockupFactory.deploy(await token.getAddress());
+      const multiLockupAddress = await multiLockup.getAddress();
+
+      for (const task of ['status', 'timeline']) {
+        const error = await taskError(task, { lockup: multiLockupAddress });
+        expect(error).to.be.instanceOf(HardhatPluginError);
+        expect(error.message).to.contain(`${multiLockupAddress} is a MultiLockup`);
+      }
+    });
+
+    it('Should require a lockup address', async function () {
+      const error = await taskError('status', { lockup: undefined });
+      expect(error).to.be.instanceOf(HardhatPluginError);
+      expect(error.message).to.contain('--lockup is required');
+    });
+  });
+
+  describe('create', function () {
+    it('Should approve and create the lockup', async function () {
+      const result = await runJson('create', createArgs({ interval: 'monthly' }));
+
+      expect(result.lockup).to.equal(lockupAddress);
+      expect(result.approvalTxHash).to.match(/^0x[0-9a-f]{64}$/);
+      const info = await simpleLockup.lockupInfo();
+      expect(info.totalAmount).to.equal(TOTAL_AMOUNT);
+      expect(info.releaseInterval).to.be.greaterThan(0n);
+      expect(await simpleLockup.beneficiary()).to.equal(beneficiary.address);
+    });
+
+    it('Should report invalid amounts as plugin errors', async function () {
+      for (const amount of ['abc', '1.2.3', '0.0000000000000000001']) {
+        const error = await taskError('create', createArgs({ amount }));
+        expect(error).to.be.instanceOf(HardhatPluginError);
+        expect(error.message).to.contain(`Invalid amount "${amount}"`);
+      }
+      expect((await taskError('create', createArgs({ amount: '0' }))).message).to.contain(
+        'Amount must be greater than 0'
+      );
+    });
+
+    it('Should validate the schedule before sending anything', async function () {
+      const cases: [Record<string, unknown>, string][] = [
+        [{ beneficiary: '0x1234' }, 'Invalid beneficiary address'],
+        [{ cliff: VESTING_DURATION }, 'Cliff duration must be shorter'],
+        [{ interval: 'fortnightly' }, 'Invalid release interval'],
+        [{ interval: 'monthly', cliffUnlock: '20' }, 'Cliff unlock cannot be combined'],
+      ];
+
+      for (const [overrides, message] of cases) {
+        const error = await taskError('create', createArgs(overrides));
+        expect(error).to.be.instanceOf(HardhatPluginError);
+        expect(error.message).to.contain(message);
+      }
+      expect((await simpleLockup.lockupInfo()).totalAmount).to.equal(0n);
+    });
+
+    it('Should refuse a signer that is not the owner before sending', async function () {
+      await simpleLockup.transferOwnership(beneficiary.address);
+
+      const error = await taskError('create', createArgs());
+      expect(error).to.be.instanceOf(HardhatPluginError);
+      expect(error.message).to.contain(`Signer ${owner.address} is not the owner`);
+      expect(await token.allowance(owner.address, lockupAddress)).to.equal(0n);
+    });
+
+    it('Should require --yes with --json', async function () {
+      const error = await taskError('create', createArgs({ yes: false, json: true }));
+      expect(error).to.be.instanceOf(HardhatPluginError);
+      expect(error.message).to.contain('--json requires --yes');
+      expect((await simpleLockup.lockupInfo()).totalAmount).to.equal(0n);
+    });
+  });
+
+  describe('release', function () {
+    beforeEach(async function () {
+      await runTask('create', createArgs());
+      // The task signs with the first signer, so it releases as an operator
+      await simpleLockup.connect(beneficiary).setOperator(owner.address, true);
+    });
+
+    it('Should release a partial amount to the beneficiary', async function () {
+      await time.increase(VESTING_DURATION / 2);
+
+      const result = await runJson('release', { amount: '100', yes: true });
+      expect(result.recipient).to.equal(beneficiary.address);
+      expect(result.releasedAmount).to.equal(ethers.parseEther('100').toString());
+      expect(await token.balanceOf(beneficiary.address)).to.equal(ethers.parseEther('100'));
+    });
+
+    it('Should report invalid amounts as plugin errors', async function () {
+      await time.increase(VESTING_DURATION / 2);
+
+      const invalid = await taskError('release', { amount: 'ten', yes: true });
+      expect(invalid).to.be.instanceOf(HardhatPluginError);
+      expect(invalid.message).to.contain('Invalid amount');
+
+      const tooMuch = await taskError('release', { amount: '1000', yes: true });
+      expect(tooMuch).to.be.instanceOf(HardhatPluginError);
+      expect(tooMuch.message).to.contain('Amount must be greater than 0 and at most');
+    });
+
+    it('Should refuse to release during the cliff or without --yes for --json', async function () {
+      expect((await taskError('release', { yes: true })).message).to.contain(
+        'No tokens available for release'
+      );
+      expect((await taskError('release', { json: true })).message).to.contain(
+        '--json requires --yes'
+      );
+    });
+  });
+
+  describe('revoke', function () {
+    it('Should revoke and report the refund', async function () {
+      await runTask('create', createArgs());
+      await time.increase(VESTING_DURATION / 2);
+
+      const result = await runJson('revoke', { yes: true });
+      const info = await simpleLockup.lockupInfo();
+      expect(info.revoked).to.equal(true);
+      expect(result.refundAmount).to.equal((TOTAL_AMOUNT - info.vestedAtRevoke).toString());
+
+      expect((await taskError('revoke', { yes: true })).message).to.contain(
+        'Lockup already revoked'
+      );
+    });
+
+    it('Should refuse non-revocable lockups', async function () {
+      await runTask('create', createArgs({ revocable: false }));
+
+      const error = await taskError('revoke', { yes: true });
+      expect(error).to.be.instanceOf(HardhatPluginError);
+      expect(error.message).to.contain('This lockup is not revocable');
+    });
+  });
+
+  describe('debug', function () {
+    it('Should dry run the creation and report invalid amounts as plugin errors', async function () {
+      await token.approve(lockupAddress, TOTAL_AMOUNT);
+
+      const result = await runJson('debug', { amount: '1000' });
+      expect(result.isOwner).to.equal(true);
+      expect(result.problems).to.deep.equal([]);
+      expect(BigInt(result.dryRun.gasEstimate)).to.be.greaterThan(0n);
+
+      const error = await taskError('debug', { amount: '1,000' });
+      expect(error).to.be.instanceOf(HardhatPluginError);
+      expect(error.message).to.contain('Invalid amount "1,000"');
+    });
+  });
+
+  describe('--as-safe', function () {
+    let safe: MockSafe;
+    let safeAddress: string;
+    let batchFile: string;
+
+    beforeEach(async function () {
+      const MockSafeFactory = await ethers.getContractFactory('MockSafe');
+      safe = await MockSafeFactory.deploy([owner.address], 1);
+      await safe.waitForDeployment();
+      safeAddress = await safe.getAddress();
+      await simpleLockup.transferOwnership(safeAddress);
+      await token.transfer(safeAddress, TOTAL_AMOUNT);
+
+      batchFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'lockup-tasks-')), 'batch.json');
+    });
+
+    it('Should write create and revoke batches instead of sending', async function () {
+      const created = await runJson(
+        'create',
+        createArgs({ asSafe: safeAddress, safeBatch: batchFile })
+      );
+      expect(created.batchFile).to.equal(batchFile);
+      expect(created.batch.transactions).to.have.length(2);
+      // Nothing was sent
+      expect((await simpleLockup.lockupInfo()).totalAmount).to.equal(0n);
+
+      // Executing the batch from the Safe creates the lockup
+      const batch = JSON.parse(fs.readFileSync(batchFile, 'utf8'));
+      for (const transaction of batch.transactions) {
+        await safe.execute(transaction.to, transaction.data);
+      }
+      expect((await simpleLockup.lockupInfo()).totalAmount).to.equal(TOTAL_AMOUNT);
+
+      const revoked = await runJson('revoke', {
+        asSafe: safeAddress,
+        safeBatch: batchFile,
+        yes: true,
+      });
+      expect(revoked.batch.transactions).to.have.length(1);
+      expect((await simpleLockup.lockupInfo()).revoked).to.equal(false);
+    });
+
+    it('Should reject a Safe that does not own the lockup', async function () {
+      const MockSafeFactory = await ethers.getContractFactory('MockSafe');
+      const otherSafe = await MockSafeFactory.deploy([owner.address], 1);
+
+      const error = await taskError(
+        'create',
+        createArgs({ asSafe: await otherSafe.getAddress(), safeBatch: batchFile })
+      );
+      expect(error).to.be.instanceOf(HardhatPluginError);
+      expect(fs.existsSync(batchFile)).to.equal(false);
+    });
+  });
+});
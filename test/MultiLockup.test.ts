@@ -0,0 +1,525 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { MultiLockup, MockERC20 } from '../typechain-types';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { releasableAt, toVestingSchedule, vestedAt } from '../scripts/lib/vesting';
+
+describe('MultiLockup', function () {
+  let multiLockup: MultiLockup;
+  let token: MockERC20;
+  let owner: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let otherAccount: SignerWithAddress;
+
+  const TOTAL_AMOUNT = ethers.parseEther('1000');
+  const CLIFF_DURATION = 30 * 24 * 60 * 60; // 30 days
+  const VESTING_DURATION = 365 * 24 * 60 * 60; // 1 year
+  const DAY = 24 * 60 * 60;
+
+  // Lockup IDs assigned by createBoth()
+  const ALICE_ID = 0n;
+  const BOB_ID = 1n;
+
+  beforeEach(async function () {
+    [owner, alice, bob, otherAccount] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory('MockERC20');
+    token = await MockERC20Factory.deploy('Test Token', 'TEST', ethers.parseEther('1000000'));
+    await token.waitForDeployment();
+
+    const MultiLockupFactory = await ethers.getContractFactory('MultiLockup');
+    multiLockup = await MultiLockupFactory.deploy(await token.getAddress());
+    await multiLockup.waitForDeployment();
+
+    await token.approve(await multiLockup.getAddress(), ethers.parseEther('1000000'));
+  });
+
+  async function createBoth() {
+    await multiLockup.createLockup(
+      alice.address,
+      TOTAL_AMOUNT,
+      CLIFF_DURATION,
+      VESTING_DURATION,
+      true
+    );
+    await multiLockup.createLockup(
+      bob.address,
+      TOTAL_AMOUNT * 2n,
+      CLIFF_DURATION,
+      VESTING_DURATION,
+      true
+    );
+  }
+
+  describe('Deployment', function () {
+    it('Should set token and owner', async function () {
+      expect(await multiLockup.token()).to.equal(await token.getAddress());
+      expect(await multiLockup.owner()).to.equal(owner.address);
+      expect(await multiLockup.lockupCount()).to.equal(0);
+      expect(await multiLockup.beneficiaryCount()).to.equal(0);
+      expect(await multiLockup.totalAccounted()).to.equal(0);
+    });
+
+    it('Should revert with zero or EOA token address', async function () {
+      const MultiLockupFactory = await ethers.getContractFactory('MultiLockup');
+
+      await expect(MultiLockupFactory.deploy(ethers.ZeroAddress)).to.be.revertedWithCustomError(
+        multiLockup,
+        'InvalidTokenAddress'
+      );
+      await expect(MultiLockupFactory.deploy(alice.address)).to.be.revertedWithCustomError(
+        multiLockup,
+        'InvalidTokenAddress'
+      );
+    });
+  });
+
+  describe('Create Lockup', function () {
+    it('Should assign incrementing lockup IDs', async function () {
+      expect(
+        await multiLockup.createLockup.staticCall(
+          alice.address,
+          TOTAL_AMOUNT,
+          CLIFF_DURATION,
+          VESTING_DURATION,
+          true
+        )
+      ).to.equal(0);
+
+      const tx = await multiLockup.createLockup(
+        alice.address,
+        TOTAL_AMOUNT,
+        CLIFF_DURATION,
+        VESTING_DURATION,
+        true
+      );
+      await expect(tx)
+        .to.emit(multiLockup, 'TokensLocked')
+        .withArgs(
+          0,
+          alice.address,
+          TOTAL_AMOUNT,
+          await time.latest(),
+          CLIFF_DURATION,
+          VESTING_DURATION,
+          true
+        );
+
+      await multiLockup.createPeriodicLockup(
+        bob.address,
+        TOTAL_AMOUNT,
+        0,
+        VESTING_DURATION,
+        VESTING_DURATION / 12,
+        false
+      );
+
+      const lockup = await multiLockup.lockups(1);
+      expect(lockup.beneficiary).to.equal(bob.address);
+      expect(lockup.releaseInterval).to.equal(VESTING_DURATION / 12);
+      expect(await multiLockup.lockupCount()).to.equal(2);
+      expect(await multiLockup.totalAccounted()).to.equal(TOTAL_AMOUNT * 2n);
+    });
+
+    it('Should allow several lockups per beneficiary', async function () {
+      await createBoth();
+      await multiLockup.createLockup(alice.address, TOTAL_AMOUNT, 0, VESTING_DURATION * 2, false);
+
+      expect(await multiLockup.getLockupIds(alice.address)).to.deep.equal([0n, 2n]);
+      expect(await multiLockup.getLockupIds(bob.address)).to.deep.equal([1n]);
+      expect(await multiLockup.getLockupIds(otherAccount.address)).to.deep.equal([]);
+      expect(await multiLockup.beneficiaryCount()).to.equal(2);
+      expect(await multiLockup.totalAccounted()).to.equal(TOTAL_AMOUNT * 4n);
+    });
+
+    it('Should apply the SimpleLockup validations', async function () {
+      await expect(
+        multiLockup.createLockup(alice.address, 0, 0, VESTING_DURATION, true)
+      ).to.be.revertedWithCustomError(multiLockup, 'InvalidAmount');
+      await expect(
+        multiLockup.createLockup(
+          alice.address,
+          TOTAL_AMOUNT,
+          VESTING_DURATION,
+          VESTING_DURATION,
+          true
+        )
+      ).to.be.revertedWithCustomError(multiLockup, 'InvalidDuration');
+      await expect(
+        multiLockup.createLockup(ethers.ZeroAddress, TOTAL_AMOUNT, 0, VESTING_DURATION, true)
+      ).to.be.revertedWithCustomError(multiLockup, 'InvalidBeneficiary');
+      await expect(
+        multiLockup.createCliffUnlockLockup(
+          alice.address,
+          TOTAL_AMOUNT,
+          0,
+          VESTING_DURATION,
+          10001,
+          true
+        )
+      ).to.be.revertedWithCustomError(multiLockup, 'InvalidSchedule');
+      await expect(
+        multiLockup.createScheduledLockup(
+          alice.address,
+          TOTAL_AMOUNT,
+          (await time.latest()) + 400 * DAY,
+          0,
+          VESTING_DURATION,
+          0,
+          0,
+          true
+        )
+      ).to.be.revertedWithCustomError(multiLockup, 'InvalidStartTime');
+
+      expect(await multiLockup.lockupCount()).to.equal(0);
+    });
+
+    it('Should only allow owner to create lockups', async function () {
+      await expect(
+        multiLockup
+          .connect(otherAccount)
+          .createLockup(alice.address, TOTAL_AMOUNT, 0, VESTING_DURATION, true)
+      ).to.be.revertedWithCustomError(multiLockup, 'OwnableUnauthorizedAccount');
+    });
+  });
+
+  describe('Release', function () {
+    beforeEach(createBoth);
+
+    it('Should release each lockup to its own beneficiary', async function () {
+      await time.increase(VESTING_DURATION / 2);
+
+      await expect(multiLockup.connect(alice)['release(uint256)'](ALICE_ID)).to.emit(
+        multiLockup,
+        'TokensReleased'
+      );
+      await expect(
+        multiLockup
+          .connect(bob)
+          ['releaseTo(uint256,address,uint256)'](BOB_ID, otherAccount.address, 100n)
+      )
+        .to.emit(multiLockup, 'TokensReleased')
+        .withArgs(BOB_ID, bob.address, otherAccount.address, 100n);
+
+      const aliceReleased = (await multiLockup.lockups(ALICE_ID)).releasedAmount;
+      expect(aliceReleased).to.be.closeTo(TOTAL_AMOUNT / 2n, ethers.parseEther('1'));
+      expect(await token.balanceOf(alice.address)).to.equal(aliceReleased);
+      expect((await multiLockup.lockups(BOB_ID)).releasedAmount).to.equal(100n);
+      expect(await token.balanceOf(otherAccount.address)).to.equal(100n);
+      expect(await multiLockup.totalAccounted()).to.equal(TOTAL_AMOUNT * 3n - aliceReleased - 100n);
+    });
+
+    it("Should revert for missing lockups or another beneficiary's lockup", async function () {
+      await time.increase(VESTING_DURATION);
+
+      await expect(
+        multiLockup.connect(bob)['release(uint256)'](ALICE_ID)
+      ).to.be.revertedWithCustomError(multiLockup, 'NotBeneficiary');
+      await expect(multiLockup.connect(alice)['release(uint256)'](5)).to.be.revertedWithCustomError(
+        multiLockup,
+        'NoLockupFound'
+      );
+    });
+
+    it('Should release everything at vesting end', async function () {
+      await time.increase(VESTING_DURATION);
+
+      await multiLockup.connect(alice)['release(uint256)'](ALICE_ID);
+      await multiLockup.connect(bob)['release(uint256)'](BOB_ID);
+
+      expect(await token.balanceOf(alice.address)).to.equal(TOTAL_AMOUNT);
+      expect(await token.balanceOf(bob.address)).to.equal(TOTAL_AMOUNT * 2n);
+      expect(await multiLockup.totalAccounted()).to.equal(0);
+      expect(await token.balanceOf(await multiLockup.getAddress())).to.equal(0);
+    });
+  });
+
+  describe('Release All', function () {
+    it("Should claim across all of the caller's grants in one transfer", async function () {
+      // Alice: initial grant with a cliff, a refresher without one, a bonus still in its cliff
+      await multiLockup.createLockup(alice.address, TOTAL_AMOUNT, 30 * DAY, 100 * DAY, true);
+      await multiLockup.createLockup(bob.address, TOTAL_AMOUNT, 0, 100 * DAY, true);
+      await multiLockup.createLockup(alice.address, TOTAL_AMOUNT, 0, 200 * DAY, true);
+      await multiLockup.createLockup(alice.address, TOTAL_AMOUNT, 90 * DAY, 100 * DAY, true);
+
+      await time.increase(50 * DAY);
+      const tx = await multiLockup.connect(alice).releaseAll();
+
+      const released0 = (await multiLockup.lockups(0)).releasedAmount;
+      const released2 = (await multiLockup.lockups(2)).releasedAmount;
+      expect(released0).to.be.gt(0);
+      expect(released2).to.be.gt(0);
+      expect((await multiLockup.lockups(1)).releasedAmount).to.equal(0);
+      expect((await multiLockup.lockups(3)).releasedAmount).to.equal(0);
+
+      await expect(tx)
+        .to.emit(multiLockup, 'TokensReleased')
+        .withArgs(0, alice.address, alice.address, released0);
+      await expect(tx)
+        .to.emit(multiLockup, 'TokensReleased')
+        .withArgs(2, alice.address, alice.address, released2);
+      await expect(tx).to.changeTokenBalance(token, alice, released0 + released2);
+      expect(await multiLockup.totalAccounted()).to.equal(
+        TOTAL_AMOUNT * 4n - released0 - released2
+      );
+
+      await time.increase(200 * DAY);
+      await multiLockup.connect(alice).releaseAll();
+      expect(await token.balanceOf(alice.address)).to.equal(TOTAL_AMOUNT * 3n);
+    });
+
+    it('Should revert without lockups or releasable tokens', async function () {
+      await expect(multiLockup.connect(alice).releaseAll()).to.be.revertedWithCustomError(
+        multiLockup,
+        'NoLockupFound'
+      );
+
+      await createBoth();
+      await expect(multiLockup.connect(alice).releaseAll()).to.be.revertedWithCustomError(
+        multiLockup,
+        'NoTokensAvailable'
+      );
+    });
+
+    it("Should release a page of the caller's grants with releaseRange", async function () {
+      for (let i = 0; i < 3; i++) {
+        await multiLockup.createLockup(alice.address, TOTAL_AMOUNT, 0, VESTING_DURATION, true);
+      }
+      await multiLockup.createLockup(bob.address, TOTAL_AMOUNT, 0, VESTING_DURATION, true);
+      await time.increase(VESTING_DURATION);
+
+      const tx = await multiLockup.connect(alice).releaseRange(1, 5);
+      await expect(tx).to.changeTokenBalance(token, alice, TOTAL_AMOUNT * 2n);
+      await expect(tx)
+        .to.emit(multiLockup, 'TokensReleased')
+        .withArgs(2, alice.address, alice.address, TOTAL_AMOUNT);
+      expect((await multiLockup.lockups(0)).releasedAmount).to.equal(0);
+      expect(await multiLockup.totalAccounted()).to.equal(TOTAL_AMOUNT * 2n);
+
+      await expect(multiLockup.connect(alice).releaseRange(1, 2)).to.be.revertedWithCustomError(
+        multiLockup,
+        'NoTokensAvailable'
+      );
+      await multiLockup.connect(alice).releaseRange(0, ethers.MaxUint256);
+      expect(await token.balanceOf(alice.address)).to.equal(TOTAL_AMOUNT * 3n);
+    });
+
+    it('Should revert releaseRange for an empty page', async function () {
+      await createBoth();
+      await time.increase(VESTING_DURATION);
+
+      await expect(multiLockup.connect(alice).releaseRange(1, 1)).to.be.revertedWithCustomError(
+        multiLockup,
+        'NoLockupFound'
+      );
+      await expect(multiLockup.connect(alice).releaseRange(0, 0)).to.be.revertedWithCustomError(
+        multiLockup,
+        'NoLockupFound'
+      );
+    });
+
+    it('Should include the vested part of revoked grants', async function () {
+      await createBoth();
+      await multiLockup.createLockup(alice.address, TOTAL_AMOUNT, 0, VESTING_DURATION, false);
+
+      await time.increase(VESTING_DURATION / 2);
+      await multiLockup.revoke(ALICE_ID);
+      const { vestedAtRevoke } = await multiLockup.lockups(ALICE_ID);
+
+      await time.increase(VESTING_DURATION);
+      await multiLockup.connect(alice).releaseAll();
+
+      expect(await token.balanceOf(alice.address)).to.equal(vestedAtRevoke + TOTAL_AMOUNT);
+      expect(await multiLockup.totalAccounted()).to.equal(TOTAL_AMOUNT * 2n);
+    });
+  });
+
+  describe('Revoke', function () {
+    beforeEach(createBoth);
+
+    it("Should refund only the revoked lockup's unvested tokens", async function () {
+      await multiLockup.createLockup(alice.address, TOTAL_AMOUNT, 0, VESTING_DURATION, true);
+      await time.increase(VESTING_DURATION / 2);
+
+      const ownerBalanceBefore = await token.balanceOf(owner.address);
+      await expect(multiLockup.revoke(ALICE_ID)).to.emit(multiLockup, 'LockupRevoked');
+
+      const { vestedAtRevoke } = await multiLockup.lockups(ALICE_ID);
+      expect(await token.balanceOf(owner.address)).to.equal(
+        ownerBalanceBefore + TOTAL_AMOUNT - vestedAtRevoke
+      );
+
+      // Bob's lockup and Alice's second grant are untouched and still fully backed
+      expect((await multiLockup.lockups(BOB_ID)).revoked).to.equal(false);
+      expect((await multiLockup.lockups(2)).revoked).to.equal(false);
+      expect(await multiLockup.totalAccounted()).to.equal(vestedAtRevoke + TOTAL_AMOUNT * 3n);
+      expect(await token.balanceOf(await multiLockup.getAddress())).to.equal(
+        await multiLockup.totalAccounted()
+      );
+
+      await time.increase(VESTING_DURATION);
+      await multiLockup.connect(alice).releaseAll();
+      await multiLockup.connect(bob).releaseAll();
+      expect(await token.balanceOf(alice.address)).to.equal(vestedAtRevoke + TOTAL_AMOUNT);
+      expect(await token.balanceOf(bob.address)).to.equal(TOTAL_AMOUNT * 2n);
+    });
+
+    it('Should revert for missing, revoked or irrevocable lockups', async function () {
+      await expect(multiLockup.revoke(5)).to.be.revertedWithCustomError(
+        multiLockup,
+        'NoLockupFound'
+      );
+
+      await multiLockup.revoke(ALICE_ID);
+      await expect(multiLockup.revoke(ALICE_ID)).to.be.revertedWithCustomError(
+        multiLockup,
+        'AlreadyRevoked'
+      );
+
+      await multiLockup.createLockup(alice.address, TOTAL_AMOUNT, 0, VESTING_DURATION, false);
+      await expect(multiLockup.revoke(2)).to.be.revertedWithCustomError(
+        multiLockup,
+        'NotRevocable'
+      );
+    });
+
+    it('Should only allow owner to revoke', async function () {
+      await expect(multiLockup.connect(alice).revoke(BOB_ID)).to.be.revertedWithCustomError(
+        multiLockup,
+        'OwnableUnauthorizedAccount'
+      );
+    });
+  });
+
+  describe('Top Up', function () {
+    beforeEach(createBoth);
+
+    it('Should add tokens to one lockup only', async function () {
+      await expect(multiLockup.topUp(ALICE_ID, TOTAL_AMOUNT))
+        .to.emit(multiLockup, 'LockupToppedUp')
+        .withArgs(ALICE_ID, alice.address, TOTAL_AMOUNT, TOTAL_AMOUNT * 2n);
+
+      expect((await multiLockup.lockups(ALICE_ID)).totalAmount).to.equal(TOTAL_AMOUNT * 2n);
+      expect((await multiLockup.lockups(BOB_ID)).totalAmount).to.equal(TOTAL_AMOUNT * 2n);
+      expect(await multiLockup.totalAccounted()).to.equal(TOTAL_AMOUNT * 4n);
+    });
+
+    it('Should revert without a lockup or after revocation', async function () {
+      await expect(multiLockup.topUp(5, TOTAL_AMOUNT)).to.be.revertedWithCustomError(
+        multiLockup,
+        'NoLockupFound'
+      );
+
+      await multiLockup.revoke(BOB_ID);
+      await expect(multiLockup.topUp(BOB_ID, TOTAL_AMOUNT)).to.be.revertedWithCustomError(
+        multiLockup,
+        'AlreadyRevoked'
+      );
+    });
+  });
+
+  describe('Withdraw Surplus', function () {
+    it('Should only withdraw tokens above totalAccounted', async function () {
+      await createBoth();
+      await multiLockup.revoke(BOB_ID);
+      const surplus = ethers.parseEther('50');
+      await token.transfer(await multiLockup.getAddress(), surplus);
+
+      await expect(multiLockup.withdrawSurplus()).to.changeTokenBalances(
+        token,
+        [owner, multiLockup],
+        [surplus, -surplus]
+      );
+      expect(await token.balanceOf(await multiLockup.getAddress())).to.equal(
+        await multiLockup.totalAccounted()
+      );
+
+      // Alice's grant is still fully funded
+      await time.increase(VESTING_DURATION);
+      await expect(multiLockup.connect(alice)['release(uint256)'](ALICE_ID)).to.changeTokenBalance(
+        token,
+        alice,
+        TOTAL_AMOUNT
+      );
+    });
+
+    it('Should emit SurplusWithdrawn', async function () {
+      await token.transfer(await multiLockup.getAddress(), 100n);
+
+      await expect(multiLockup.withdrawSurplus())
+        .to.emit(multiLockup, 'SurplusWithdrawn')
+        .withArgs(owner.address, 100n);
+    });
+
+    it('Should revert without surplus or for other accounts', async function () {
+      await createBoth();
+      await expect(multiLockup.withdrawSurplus()).to.be.revertedWithCustomError(
+        multiLockup,
+        'NoSurplus'
+      );
+
+      await token.transfer(await multiLockup.getAddress(), 100n);
+      await expect(
+        multiLockup.connect(otherAccount).withdrawSurplus()
+      ).to.be.revertedWithCustomError(multiLockup, 'OwnableUnauthorizedAccount');
+    });
+  });
+
+  describe('Schedules', function () {
+    it('Should vest each lockup on its own schedule', async function () {
+      await multiLockup.createCustomLockup(
+        alice.address,
+        TOTAL_AMOUNT,
+        [
+          { offset: 0, cumulativeBps: 2500 },
+          { offset: 100 * DAY, cumulativeBps: 10000 },
+        ],
+        true
+      );
+      await multiLockup.createCliffUnlockLockup(
+        alice.address,
+        TOTAL_AMOUNT,
+        10 * DAY,
+        100 * DAY,
+        5000,
+        true
+      );
+
+      expect(await multiLockup.getCheckpoints(0)).to.have.length(2);
+      expect(await multiLockup.getCheckpoints(1)).to.have.length(0);
+
+      const start = Number((await multiLockup.lockups(0)).startTime);
+      for (const days of [5, 10, 40, 99]) {
+        await time.increaseTo(start + days * DAY);
+        const now = BigInt(await time.latest());
+
+        for (const lockupId of [0, 1]) {
+          const schedule = toVestingSchedule(
+            await multiLockup.lockups(lockupId),
+            await multiLockup.getCheckpoints(lockupId)
+          );
+          expect(await multiLockup.vestedAmount(lockupId)).to.equal(vestedAt(schedule, now));
+          expect(await multiLockup.releasableAmount(lockupId)).to.equal(
+            releasableAt(schedule, now)
+          );
+        }
+      }
+    });
+  });
+
+  describe('Enumeration', function () {
+    it('Should page through beneficiaries in order of their first lockup', async function () {
+      await createBoth();
+      await multiLockup.createLockup(alice.address, TOTAL_AMOUNT, 0, VESTING_DURATION, true);
+      await multiLockup.createLockup(otherAccount.address, TOTAL_AMOUNT, 0, VESTING_DURATION, true);
+
+      expect(await multiLockup.beneficiaryCount()).to.equal(3);
+      expect(await multiLockup.beneficiaryAt(2)).to.equal(otherAccount.address);
+      expect(await multiLockup.getBeneficiaries(0, 2)).to.deep.equal([alice.address, bob.address]);
+      expect(await multiLockup.getBeneficiaries(2, 2)).to.deep.equal([otherAccount.address]);
+      expect(await multiLockup.getBeneficiaries(3, 2)).to.deep.equal([]);
+    });
+  });
+});
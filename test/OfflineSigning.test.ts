@@ -0,0 +1,259 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { HDNodeWallet, Wallet } from 'ethers';
+import { SimpleLockup, MockERC20 } from '../typechain-types';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import {
+  DEFAULT_GAS_LIMIT,
+  TransactionFile,
+  broadcastTransactionFile,
+  prepareTransactions,
+  printTransactionFile,
+  signTransactionFile,
+} from '../scripts/lib/offline';
+
+describe('OfflineSigning', function () {
+  let simpleLockup: SimpleLockup;
+  let token: MockERC20;
+  let lockupAddress: string;
+  let offlineKey: HDNodeWallet;
+  let beneficiary: SignerWithAddress;
+
+  const TOTAL_AMOUNT = ethers.parseEther('1000');
+  const CLIFF_DURATION = 30 * 24 * 60 * 60; // 30 days
+  const VESTING_DURATION = 365 * 24 * 60 * 60; // 1 year
+
+  async function errorMessage(promise: Promise<unknown>): Promise<string> {
+    try {
+      await promise;
+    } catch (error) {
+      return (error as Error).message;
+    }
+    return '';
+  }
+
+  // Files travel between machines as JSON
+  function roundTrip(file: TransactionFile): TransactionFile {
+    return JSON.parse(JSON.stringify(file)) as TransactionFile;
+  }
+
+  async function prepareCreate() {
+    return roundTrip(
+      await prepareTransactions(ethers.provider, offlineKey.address, 'Create lockup', [
+        {
+          label: 'Approve',
+          contract: token,
+          signature: 'approve',
+          args: [lockupAddress, TOTAL_AMOUNT],
+        },
+        {
+          label: 'Create lockup',
+          contract: simpleLockup,
+          signature: 'createLockup',
+          args: [beneficiary.address, TOTAL_AMOUNT, CLIFF_DURATION, VESTING_DURATION, true],
+        },
+      ])
+    );
+  }
+
+  async function prepareRevoke() {
+    return roundTrip(
+      await prepareTransactions(ethers.provider, offlineKey.address, 'Revoke lockup', [
+        { label: 'Revoke lockup', contract: simpleLockup, signature: 'revoke', args: [] },
+      ])
+    );
+  }
+
+  beforeEach(async function () {
+    const [deployer] = await ethers.getSigners();
+    [, beneficiary] = await ethers.getSigners();
+
+    // The offline key owns the lockup and only ever signs; it is never connected to a provider
+    offlineKey = Wallet.createRandom();
+    await deployer.sendTransaction({ to: offlineKey.address, value: ethers.parseEther('10') });
+
+    const MockERC20Factory = await ethers.getContractFactory('MockERC20');
+    token = await MockERC20Factory.deploy('Test Token', 'TEST', ethers.parseEther('1000000'));
+    await token.waitForDeployment();
+
+    const SimpleLockupFactory = await ethers.getContractFactory('SimpleLockup');
+    simpleLockup = await SimpleLockupFactory.deploy(await token.getAddress());
+    await simpleLockup.waitForDeployment();
+    lockupAddress = await simpleLockup.getAddress();
+
+    await simpleLockup.transferOwnership(offlineKey.address);
+    await token.transfer(offlineKey.address, TOTAL_AMOUNT);
+  });
+
+  describe('Prepare', function () {
+    it('Should record nonce, fees, chain ID and a decoded summary', async function () {
+      const file = await prepareCreate();
+
+      expect(file.version).to.equal(1);
+      expect(file.chainId).to.equal('31337');
+      expect(file.from).to.equal(offlineKey.address);
+      expect(file.transactions).to.have.length(2);
+
+      const [approve, create] = file.transactions;
+      expect(approve.nonce).to.equal(0);
+      expect(create.nonce).to.equal(1);
+      expect(approve.to).to.equal(await token.getAddress());
+      expect(approve.gasEstimated).to.equal(true);
+      expect(approve.maxFeePerGas).to.not.equal(null);
+      expect(approve.call.signature).to.equal('approve(address,uint256)');
+      expect(approve.call.inputs).to.deep.equal([
+        { name: 'spender', type: 'address', value: lockupAddress },
+        { name: 'value', type: 'uint256', value: TOTAL_AMOUNT.toString() },
+      ]);
+
+      // createLockup needs the approval first, so it cannot be estimated yet
+      expect(create.gasEstimated).to.equal(false);
+      expect(create.gasLimit).to.equal(DEFAULT_GAS_LIMIT.toString());
+      expect(create.signedTransaction).to.equal(undefined);
+    });
+
+    it('Should show value and calldata in the summary for the signer', async function () {
+      const file = await prepareCreate();
+      const lines: string[] = [];
+      const log = console.log;
+      console.log = (...values: unknown[]) => {
+        lines.push(values.join(' '));
+      };
+      try {
+        printTransactionFile(file);
+      } finally {
+        console.log = log;
+      }
+
+      for (const prepared of file.transactions) {
+        expect(lines).to.include(`   To: ${prepared.to}`);
+        expect(lines).to.include(`   Value: ${prepared.value} wei`);
+        expect(lines).to.include(`   Data: ${prepared.data}`);
+        expect(lines).to.include(`   Nonce: ${prepared.nonce}`);
+      }
+    });
+
+    it('Should fail when the first call would revert', async function () {
+      expect(await errorMessage(prepareRevoke())).to.contain('NoLockupFound');
+    });
+  });
+
+  describe('Sign', function () {
+    it('Should sign every transaction without a provider', async function () {
+      const signed = await signTransactionFile(await prepareCreate(), offlineKey);
+
+      for (const prepared of signed.transactions) {
+        const transaction = ethers.Transaction.from(prepared.signedTransaction!);
+        expect(transaction.from).to.equal(offlineKey.address);
+        expect(transaction.chainId).to.equal(31337n);
+        expect(transaction.nonce).to.equal(prepared.nonce);
+        expect(transaction.hash).to.equal(prepared.hash);
+      }
+    });
+
+    it('Should refuse a key that is not the file signer', async function () {
+      const file = await prepareCreate();
+
+      expect(await errorMessage(signTransactionFile(file, Wallet.createRandom()))).to.contain(
+        'but the file is for'
+      );
+    });
+
+    it('Should refuse calldata that does not match the summary', async function () {
+      const file = await prepareCreate();
+      const tamperedData = roundTrip(file);
+      tamperedData.transactions[0].data = token.interface.encodeFunctionData('approve', [
+        beneficiary.address,
+        TOTAL_AMOUNT,
+      ]);
+      const tamperedSummary = roundTrip(file);
+      tamperedSummary.transactions[1].call.inputs[0].value = beneficiary.address.toLowerCase();
+      tamperedSummary.transactions[1].call.inputs[1].value = '1';
+
+      expect(await errorMessage(signTransactionFile(tamperedData, offlineKey))).to.contain(
+        'Transaction #1 calldata does not match its summary'
+      );
+      expect(await errorMessage(signTransactionFile(tamperedSummary, offlineKey))).to.contain(
+        'Transaction #2 calldata does not match its summary'
+      );
+    });
+  });
+
+  describe('Broadcast', function () {
+    it('Should create the lockup end-to-end', async function () {
+      const signed = roundTrip(await signTransactionFile(await prepareCreate(), offlineKey));
+      const sent: string[] = [];
+
+      const receipts = await broadcastTransactionFile(ethers.provider, signed, (prepared, hash) =>
+        sent.push(`${prepared.label}:${hash}`)
+      );
+
+      expect(receipts.map((receipt) => receipt.status)).to.deep.equal([1, 1]);
+      expect(sent).to.deep.equal(signed.transactions.map((p) => `${p.label}:${p.hash}`));
+      expect(await simpleLockup.beneficiary()).to.equal(beneficiary.address);
+      expect((await simpleLockup.lockupInfo()).totalAmount).to.equal(TOTAL_AMOUNT);
+      expect(await token.balanceOf(lockupAddress)).to.equal(TOTAL_AMOUNT);
+    });
+
+    it('Should revoke end-to-end and refund the offline key', async function () {
+      await broadcastTransactionFile(
+        ethers.provider,
+        await signTransactionFile(await prepareCreate(), offlineKey)
+      );
+      await time.increase(VESTING_DURATION / 2);
+
+      await broadcastTransactionFile(
+        ethers.provider,
+        await signTransactionFile(await prepareRevoke(), offlineKey)
+      );
+
+      const lockup = await simpleLockup.lockupInfo();
+      expect(lockup.revoked).to.equal(true);
+      expect(await token.balanceOf(offlineKey.address)).to.equal(
+        TOTAL_AMOUNT - lockup.vestedAtRevoke
+      );
+    });
+
+    it('Should skip transactions that are already mined', async function () {
+      const signed = await signTransactionFile(await prepareCreate(), offlineKey);
+      const first = await broadcastTransactionFile(ethers.provider, signed);
+
+      const second = await broadcastTransactionFile(ethers.provider, signed);
+
+      expect(second.map((receipt) => receipt.hash)).to.deep.equal(
+        first.map((receipt) => receipt.hash)
+      );
+    });
+
+    it('Should refuse a nonce used by another transaction', async function () {
+      const signed = await signTransactionFile(await prepareCreate(), offlineKey);
+      await ethers.provider.broadcastTransaction(
+        await offlineKey.connect(ethers.provider).signTransaction({
+          to: beneficiary.address,
+          value: 1n,
+          nonce: 0,
+          chainId: 31337n,
+          gasLimit: 21000n,
+          gasPrice: (await ethers.provider.getFeeData()).maxFeePerGas,
+        })
+      );
+
+      expect(await errorMessage(broadcastTransactionFile(ethers.provider, signed))).to.contain(
+        'was already used by another transaction; prepare again'
+      );
+    });
+
+    it('Should refuse files for another chain or without signatures', async function () {
+      const file = await prepareCreate();
+      const signed = await signTransactionFile(file, offlineKey);
+
+      expect(
+        await errorMessage(broadcastTransactionFile(ethers.provider, { ...signed, chainId: '137' }))
+      ).to.contain('Transaction file is for chain 137');
+      expect(await errorMessage(broadcastTransactionFile(ethers.provider, file))).to.contain(
+        'is not signed; run the sign step first'
+      );
+    });
+  });
+});
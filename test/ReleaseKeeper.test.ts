@@ -0,0 +1,304 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers, network } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { SimpleLockup, MockERC20 } from '../typechain-types';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { Wallet, type Signer } from 'ethers';
+import {
+  ReleaseKeeper,
+  loadKeeperConfig,
+  type KeeperEvent,
+  type KeeperOptions,
+  type KeeperTarget,
+} from '../scripts/lib/keeper';
+import { loadLockupToken } from '../scripts/lib/token';
+
+describe('ReleaseKeeper', function () {
+  let simpleLockup: SimpleLockup;
+  let token: MockERC20;
+  let beneficiary: SignerWithAddress;
+  let operator: SignerWithAddress;
+  let custodian: SignerWithAddress;
+  let lockupAddress: string;
+  let events: KeeperEvent[];
+
+  const TOTAL_AMOUNT = ethers.parseEther('1000');
+  const VESTING_DURATION = 365 * 24 * 60 * 60; // 1 year
+  const OPTIONS: KeeperOptions = {
+    bumpAfter: 180,
+    bumpPercent: 20,
+    retryDelay: 60,
+    maxRetryDelay: 3600,
+  };
+
+  async function deployLockup(): Promise<SimpleLockup> {
+    const SimpleLockupFactory = await ethers.getContractFactory('SimpleLockup');
+    const lockup = await SimpleLockupFactory.deploy(await token.getAddress());
+    await lockup.waitForDeployment();
+
+    await token.approve(await lockup.getAddress(), TOTAL_AMOUNT);
+    await lockup.createLockup(beneficiary.address, TOTAL_AMOUNT, 0, VESTING_DURATION, true);
+    await lockup.connect(beneficiary).setOperator(operator.address, true);
+    return lockup;
+  }
+
+  async function target(
+    lockup: SimpleLockup,
+    signer: Signer,
+    minAmount: bigint,
+    recipient?: string
+  ): Promise<KeeperTarget> {
+    return {
+      lockup: lockup.connect(signer),
+      token: await loadLockupToken(lockup, ethers.provider),
+      minAmount,
+      recipient,
+    };
+  }
+
+  function newKeeper(
+    signer: Signer,
+    targets: KeeperTarget[],
+    options: Partial<KeeperOptions> = {},
+    now?: () => number
+  ): ReleaseKeeper {
+    return new ReleaseKeeper(
+      signer,
+      targets,
+      { ...OPTIONS, ...options },
+      (event) => events.push(event),
+      now
+    );
+  }
+
+  function eventTypes(): string[] {
+    return events.map((event) => event.event);
+  }
+
+  async function withoutAutomine(fn: () => Promise<void>): Promise<void> {
+    await network.provider.send('evm_setAutomine', [false]);
+    try {
+      await fn();
+    } finally {
+      await network.provider.send('evm_setAutomine', [true]);
+    }
+  }
+
+  beforeEach(async function () {
+    [, beneficiary, operator, custodian] = await ethers.getSigners();
+    events = [];
+
+    const MockERC20Factory = await ethers.getContractFactory('MockERC20');
+    token = await MockERC20Factory.deploy('Test Token', 'TEST', ethers.parseEther('1000000'));
+    await token.waitForDeployment();
+
+    simpleLockup = await deployLockup();
+    lockupAddress = await simpleLockup.getAddress();
+  });
+
+  describe('Config', function () {
+    function writeConfig(config: unknown): string {
+      const filePath = path.join(os.tmpdir(), `keeper-${Date.now()}-${Math.random()}.json`);
+      fs.writeFileSync(filePath, JSON.stringify(config));
+      return filePath;
+    }
+
+    it('Should fill in default settings', function () {
+      const config = loadKeeperConfig(
+        writeConfig({ lockups: [{ address: lockupAddress, minAmount: '100.5' }] })
+      );
+
+      expect(config.pollInterval).to.equal(300);
+      expect(config.bumpPercent).to.equal(20);
+      expect(config.maxFeeGwei).to.equal(undefined);
+      expect(config.lockups).to.deep.equal([{ address: lockupAddress, minAmount: '100.5' }]);
+    });
+
+    it('Should reject invalid settings and lockups', function () {
+      const lockups = [{ address: lockupAddress, minAmount: '1' }];
+      const cases: [unknown, string][] = [
+        [{ lockups: [] }, 'No lockups configured'],
+        [{ lockups, pollInterval: 0 }, 'Invalid pollInterval'],
+        [{ lockups, bumpPercent: 5 }, 'bumpPercent must be at least 10'],
+        [{ lockups, maxFeeGwei: 0 }, 'Invalid maxFeeGwei'],
+        [{ lockups: [{ address: '0x1234', minAmount: '1' }] }, 'invalid address'],
+        [{ lockups: [{ address: lockupAddress, minAmount: '-1' }] }, 'invalid minAmount'],
+        [
+          { lockups: [{ address: lockupAddress, minAmount: '1', recipient: 'x' }] },
+          'invalid recipient',
+        ],
+      ];
+
+      for (const [config, message] of cases) {
+        expect(() => loadKeeperConfig(writeConfig(config))).to.throw(message);
+      }
+    });
+  });
+
+  describe('Releasing', function () {
+    it('Should wait until the releasable amount reaches the minimum', async function () {
+      const keeper = newKeeper(operator, [await target(simpleLockup, operator, TOTAL_AMOUNT / 2n)]);
+
+      await time.increase(VESTING_DURATION / 4);
+      await keeper.tick();
+      await keeper.tick();
+      // Idle reasons are logged once, not on every tick
+      expect(eventTypes()).to.deep.equal(['idle']);
+      expect(events[0].message).to.contain('Below minimum (500.0 TEST)');
+      expect((await simpleLockup.lockupInfo()).releasedAmount).to.equal(0n);
+
+      await time.increase(VESTING_DURATION / 4);
+      await keeper.tick();
+      expect(eventTypes()).to.deep.equal(['idle', 'sent']);
+
+      await keeper.tick();
+      expect(eventTypes()).to.deep.equal(['idle', 'sent', 'released']);
+      const released = (await simpleLockup.lockupInfo()).releasedAmount;
+      expect(events[2].amount).to.equal(released.toString());
+      expect(events[2].hash).to.equal(events[1].hash);
+      expect(await token.balanceOf(beneficiary.address)).to.equal(released);
+      expect(keeper.pendingCount).to.equal(0);
+    });
+
+    it('Should release to an approved recipient', async function () {
+      await simpleLockup.connect(beneficiary).setRecipientApproval(custodian.address, true);
+      const keeper = newKeeper(operator, [
+        await target(simpleLockup, operator, 1n, custodian.address),
+      ]);
+
+      await time.increase(VESTING_DURATION);
+      await keeper.tick();
+      await keeper.tick();
+
+      expect(eventTypes()).to.deep.equal(['sent', 'released']);
+      expect(await token.balanceOf(custodian.address)).to.equal(TOTAL_AMOUNT);
+    });
+
+    it('Should skip lockups the keeper may not release', async function () {
+      const keeper = newKeeper(custodian, [await target(simpleLockup, custodian, 1n)]);
+
+      await time.increase(VESTING_DURATION);
+      await keeper.tick();
+
+      expect(eventTypes()).to.deep.equal(['idle']);
+      expect(events[0].message).to.contain('Not an operator');
+    });
+  });
+
+  describe('Nonces and fees', function () {
+    it('Should assign consecutive nonces while releases are pending', async function () {
+      const other = await deployLockup();
+      const keeper = newKeeper(operator, [
+        await target(simpleLockup, operator, 1n),
+        await target(other, operator, 1n),
+      ]);
+      await time.increase(VESTING_DURATION / 2);
+      const nonce = await ethers.provider.getTransactionCount(operator.address);
+
+      await withoutAutomine(async () => {
+        await keeper.tick();
+        expect(eventTypes()).to.deep.equal(['sent', 'sent']);
+        expect(events.map((event) => event.nonce)).to.deep.equal([nonce, nonce + 1]);
+        expect(keeper.pendingCount).to.equal(2);
+
+        await network.provider.send('evm_mine');
+      });
+
+      await keeper.tick();
+      expect(eventTypes()).to.deep.equal(['sent', 'sent', 'released', 'released']);
+      expect(keeper.pendingCount).to.equal(0);
+    });
+
+    it('Should re-send pending releases with higher fees', async function () {
+      const keeper = newKeeper(operator, [await target(simpleLockup, operator, 1n)], {
+        bumpAfter: 0,
+      });
+      await time.increase(VESTING_DURATION);
+
+      await withoutAutomine(async () => {
+        await keeper.tick();
+        // The replaced transaction leaves the mempool
+        const sent = await ethers.provider.getTransaction(events[0].hash!);
+        await keeper.tick();
+        expect(eventTypes()).to.deep.equal(['sent', 'bumped']);
+        expect(events[1].nonce).to.equal(events[0].nonce);
+
+        const bumped = await ethers.provider.getTransaction(events[1].hash!);
+        expect(bumped!.maxFeePerGas).to.be.greaterThan(sent!.maxFeePerGas!);
+        expect(bumped!.maxPriorityFeePerGas).to.be.greaterThan(sent!.maxPriorityFeePerGas!);
+
+        await network.provider.send('evm_mine');
+      });
+
+      await keeper.tick();
+      expect(eventTypes()).to.deep.equal(['sent', 'bumped', 'released']);
+      // Only the replacement is mined
+      expect(events[2].hash).to.equal(events[1].hash);
+      expect(await token.balanceOf(beneficiary.address)).to.equal(TOTAL_AMOUNT);
+    });
+
+    it('Should not re-send above the fee cap', async function () {
+      const feeData = await ethers.provider.getFeeData();
+      const keeper = newKeeper(operator, [await target(simpleLockup, operator, 1n)], {
+        bumpAfter: 0,
+        maxFeePerGas: feeData.maxFeePerGas!,
+      });
+      await time.increase(VESTING_DURATION);
+
+      await withoutAutomine(async () => {
+        await keeper.tick();
+        await keeper.tick();
+        await network.provider.send('evm_mine');
+      });
+
+      expect(eventTypes()).to.deep.equal(['sent', 'fee-cap']);
+    });
+
+    it('Should wait for pending transactions it did not send', async function () {
+      const keeper = newKeeper(operator, [await target(simpleLockup, operator, 1n)]);
+      await time.increase(VESTING_DURATION);
+
+      await withoutAutomine(async () => {
+        await operator.sendTransaction({ to: operator.address, value: 0 });
+        await keeper.tick();
+        await network.provider.send('evm_mine');
+      });
+
+      expect(eventTypes()).to.deep.equal(['failed']);
+      expect(events[0].message).to.contain('were not sent by the keeper');
+    });
+  });
+
+  describe('Retries', function () {
+    it('Should back off after failures and retry later', async function () {
+      const wallet = Wallet.createRandom().connect(ethers.provider);
+      await simpleLockup.connect(beneficiary).setOperator(wallet.address, true);
+      let clock = 1_000_000;
+      const keeper = newKeeper(wallet, [await target(simpleLockup, wallet, 1n)], {}, () => clock);
+      await time.increase(VESTING_DURATION);
+
+      // The wallet has no gas
+      await keeper.tick();
+      expect(eventTypes()).to.deep.equal(['failed']);
+      expect(events[0].message).to.contain('retry in 60s');
+
+      clock += 30;
+      await keeper.tick();
+      expect(eventTypes()).to.deep.equal(['failed']);
+
+      clock += 30;
+      await keeper.tick();
+      expect(events[1].message).to.contain('attempt 2, retry in 120s');
+
+      await operator.sendTransaction({ to: wallet.address, value: ethers.parseEther('1') });
+      clock += 120;
+      await keeper.tick();
+      await keeper.tick();
+      expect(eventTypes()).to.deep.equal(['failed', 'failed', 'sent', 'released']);
+      expect(await token.balanceOf(beneficiary.address)).to.equal(TOTAL_AMOUNT);
+    });
+  });
+});
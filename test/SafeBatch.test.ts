@@ -0,0 +1,214 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { SimpleLockup, MockERC20, MockSafe } from '../typechain-types';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import {
+  SafeBatch,
+  assertSafeOwner,
+  buildSafeBatch,
+  encodeSafeTransaction,
+  selectCreateCall,
+} from '../scripts/lib/safe';
+
+describe('SafeBatch', function () {
+  let simpleLockup: SimpleLockup;
+  let token: MockERC20;
+  let safe: MockSafe;
+  let lockupAddress: string;
+  let safeAddress: string;
+  let signer: SignerWithAddress;
+  let beneficiary: SignerWithAddress;
+
+  const TOTAL_AMOUNT = ethers.parseEther('1000');
+  const CLIFF_DURATION = 30 * 24 * 60 * 60; // 30 days
+  const VESTING_DURATION = 365 * 24 * 60 * 60; // 1 year
+
+  const baseParams = {
+    amount: TOTAL_AMOUNT,
+    cliffDuration: CLIFF_DURATION,
+    vestingDuration: VESTING_DURATION,
+    releaseInterval: 0n,
+    cliffUnlockBps: 0n,
+    startTime: null,
+    checkpoints: [],
+    revocable: true,
+  };
+
+  async function errorMessage(promise: Promise<unknown>): Promise<string> {
+    try {
+      await promise;
+    } catch (error) {
+      return (error as Error).message;
+    }
+    return '';
+  }
+
+  // Run every call of a batch from the Safe, as the Safe UI would after signing
+  async function execute(batch: SafeBatch) {
+    for (const transaction of batch.transactions) {
+      await safe.connect(signer).execute(transaction.to, transaction.data);
+    }
+  }
+
+  async function createBatch() {
+    const { signature, args } = selectCreateCall({
+      ...baseParams,
+      beneficiary: beneficiary.address,
+    });
+    return buildSafeBatch(31337n, safeAddress, 'Create lockup', '', [
+      await encodeSafeTransaction(token, 'approve', [lockupAddress, TOTAL_AMOUNT]),
+      await encodeSafeTransaction(simpleLockup, signature, args),
+    ]);
+  }
+
+  beforeEach(async function () {
+    [, signer, beneficiary] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory('MockERC20');
+    token = await MockERC20Factory.deploy('Test Token', 'TEST', ethers.parseEther('1000000'));
+    await token.waitForDeployment();
+
+    const MockSafeFactory = await ethers.getContractFactory('MockSafe');
+    safe = await MockSafeFactory.deploy([signer.address], 1);
+    await safe.waitForDeployment();
+    safeAddress = await safe.getAddress();
+
+    const SimpleLockupFactory = await ethers.getContractFactory('SimpleLockup');
+    simpleLockup = await SimpleLockupFactory.deploy(await token.getAddress());
+    await simpleLockup.waitForDeployment();
+    lockupAddress = await simpleLockup.getAddress();
+
+    await simpleLockup.transferOwnership(safeAddress);
+    await token.transfer(safeAddress, TOTAL_AMOUNT);
+  });
+
+  describe('Ownership Check', function () {
+    it('Should accept the Safe that owns the lockup', async function () {
+      const info = await assertSafeOwner(ethers.provider, safeAddress, await simpleLockup.owner());
+
+      expect(info.address).to.equal(safeAddress);
+      expect(info.owners).to.deep.equal([signer.address]);
+      expect(info.threshold).to.equal(1n);
+    });
+
+    it('Should reject a Safe that is not the owner', async function () {
+      const MockSafeFactory = await ethers.getContractFactory('MockSafe');
+      const otherSafe = await MockSafeFactory.deploy([signer.address], 1);
+
+      expect(
+        await errorMessage(
+          assertSafeOwner(ethers.provider, await otherSafe.getAddress(), await simpleLockup.owner())
+        )
+      ).to.contain('is not the owner of this contract');
+    });
+
+    it('Should reject EOAs and contracts that are not a Safe', async function () {
+      expect(
+        await errorMessage(assertSafeOwner(ethers.provider, signer.address, signer.address))
+      ).to.contain('No contract code found at Safe address');
+      expect(
+        await errorMessage(assertSafeOwner(ethers.provider, lockupAddress, lockupAddress))
+      ).to.contain('is not a Safe');
+      expect(
+        await errorMessage(assertSafeOwner(ethers.provider, '0x1234', safeAddress))
+      ).to.contain('Invalid Safe address');
+    });
+  });
+
+  describe('Batch Encoding', function () {
+    it('Should produce a Transaction Builder batch with decoded parameters', async function () {
+      const batch = await createBatch();
+
+      expect(batch.version).to.equal('1.0');
+      expect(batch.chainId).to.equal('31337');
+      expect(batch.meta.createdFromSafeAddress).to.equal(safeAddress);
+      expect(batch.transactions).to.have.length(2);
+
+      const [approve, create] = batch.transactions;
+      expect(approve.to).to.equal(await token.getAddress());
+      expect(approve.value).to.equal('0');
+      expect(approve.contractMethod.name).to.equal('approve');
+      expect(approve.contractInputsValues).to.deep.equal({
+        spender: lockupAddress,
+        value: TOTAL_AMOUNT.toString(),
+      });
+
+      expect(create.to).to.equal(lockupAddress);
+      expect(create.contractMethod.name).to.equal('createLockup');
+      expect(create.contractMethod.inputs.map((input) => input.type)).to.deep.equal([
+        'address',
+        'uint256',
+        'uint256',
+        'uint256',
+        'bool',
+      ]);
+      expect(create.contractInputsValues).to.deep.equal({
+        _beneficiary: beneficiary.address,
+        amount: TOTAL_AMOUNT.toString(),
+        cliffDuration: CLIFF_DURATION.toString(),
+        vestingDuration: VESTING_DURATION.toString(),
+        revocable: 'true',
+      });
+    });
+
+    it('Should pick the creation function like the interactive helper', async function () {
+      const params = { ...baseParams, beneficiary: beneficiary.address };
+
+      expect(selectCreateCall(params).signature).to.equal('createLockup');
+      expect(selectCreateCall({ ...params, releaseInterval: 86400n }).signature).to.equal(
+        'createPeriodicLockup'
+      );
+      expect(selectCreateCall({ ...params, cliffUnlockBps: 2000n }).signature).to.equal(
+        'createCliffUnlockLockup'
+      );
+      expect(selectCreateCall({ ...params, startTime: 1n }).signature).to.equal(
+        'createScheduledLockup'
+      );
+
+      const { signature, args } = selectCreateCall({
+        ...params,
+        checkpoints: [
+          { offset: 0n, cumulativeBps: 2500n },
+          { offset: 86400n, cumulativeBps: 10000n },
+        ],
+      });
+      const custom = await encodeSafeTransaction(simpleLockup, signature, args);
+      expect(custom.contractMethod.name).to.equal('createCustomLockup');
+      expect(custom.contractMethod.inputs[2].type).to.equal('tuple[]');
+      expect(custom.contractInputsValues.checkpoints).to.equal(
+        JSON.stringify([
+          ['0', '2500'],
+          ['86400', '10000'],
+        ])
+      );
+    });
+  });
+
+  describe('Execution', function () {
+    it('Should create the lockup when the Safe executes approve + create', async function () {
+      await execute(await createBatch());
+
+      const lockup = await simpleLockup.lockupInfo();
+      expect(lockup.totalAmount).to.equal(TOTAL_AMOUNT);
+      expect(await simpleLockup.beneficiary()).to.equal(beneficiary.address);
+      expect(await token.balanceOf(lockupAddress)).to.equal(TOTAL_AMOUNT);
+      expect(await token.balanceOf(safeAddress)).to.equal(0);
+    });
+
+    it('Should refund the Safe when it executes revoke', async function () {
+      await execute(await createBatch());
+      await time.increase(VESTING_DURATION / 2);
+
+      const batch = buildSafeBatch(31337n, safeAddress, 'Revoke lockup', '', [
+        await encodeSafeTransaction(simpleLockup, 'revoke', []),
+      ]);
+      expect(batch.transactions[0].contractInputsValues).to.deep.equal({});
+      await execute(batch);
+
+      const lockup = await simpleLockup.lockupInfo();
+      expect(lockup.revoked).to.equal(true);
+      expect(await token.balanceOf(safeAddress)).to.equal(TOTAL_AMOUNT - lockup.vestedAtRevoke);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DEFAULT_SCHEDULE_RULES,
+  ScheduleBuilder,
+  loadScheduleFile,
+  validateSchedule,
+} from '../scripts/lib/schedule';
+
+describe('ScheduleBuilder', function () {
+  const DAY = 86400n;
+
+  function writeSchedule(content: unknown): string {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'lockup-schedule-')), 'a.json');
+    fs.writeFileSync(file, JSON.stringify(content));
+    return file;
+  }
+
+  it('Should build steps followed by a linear segment', function () {
+    const checkpoints = new ScheduleBuilder()
+      .unlock(1000n)
+      .steps(30n * DAY, 2, 500n)
+      .linearToEnd(100n * DAY)
+      .build();
+
+    expect(checkpoints).to.deep.equal([
+      { offset: 0n, cumulativeBps: 1000n },
+      { offset: 30n * DAY, cumulativeBps: 1000n },
+      { offset: 30n * DAY, cumulativeBps: 1500n },
+      { offset: 60n * DAY, cumulativeBps: 1500n },
+      { offset: 60n * DAY, cumulativeBps: 2000n },
+      { offset: 160n * DAY, cumulativeBps: 10000n },
+    ]);
+  });
+
+  it('Should turn a leading wait into the cliff', function () {
+    const checkpoints = new ScheduleBuilder()
+      .wait(90n * DAY)
+      .unlock(2500n)
+      .linearToEnd(270n * DAY)
+      .build();
+
+    expect(checkpoints).to.deep.equal([
+      { offset: 90n * DAY, cumulativeBps: 2500n },
+      { offset: 360n * DAY, cumulativeBps: 10000n },
+    ]);
+  });
+
+  it('Should report every broken rule', function () {
+    const errors = validateSchedule(
+      [
+        { offset: 60n * DAY, cumulativeBps: 5000n },
+        { offset: 30n * DAY, cumulativeBps: 4000n },
+      ],
+      DEFAULT_SCHEDULE_RULES
+    );
+
+    expect(errors).to.have.length(4);
+    expect(() => new ScheduleBuilder().linear(30n * DAY, 9000n).build()).to.throw(
+      'last checkpoint must vest 100%'
+    );
+  });
+
+  it('Should load a JSON table with day offsets and percentages', async function () {
+    const file = writeSchedule({
+      checkpoints: [
+        { offset: 0, percent: 10 },
+        { offset: '30d', percent: '12.5' },
+        { offset: 5184000, bps: 10000 },
+      ],
+    });
+
+    const checkpoints = loadScheduleFile(file);
+    expect(checkpoints).to.deep.equal([
+      { offset: 0n, cumulativeBps: 1000n },
+      { offset: 30n * DAY, cumulativeBps: 1250n },
+      { offset: 60n * DAY, cumulativeBps: 10000n },
+    ]);
+
+    // The loaded table is accepted by the contract as-is
+    const [, beneficiary] = await ethers.getSigners();
+    const token = await (
+      await ethers.getContractFactory('MockERC20')
+    ).deploy('Test Token', 'TEST', ethers.parseEther('1000'));
+    const simpleLockup = await (
+      await ethers.getContractFactory('SimpleLockup')
+    ).deploy(await token.getAddress());
+    await token.approve(await simpleLockup.getAddress(), ethers.parseEther('1000'));
+    await expect(
+      simpleLockup.createCustomLockup(
+        beneficiary.address,
+        ethers.parseEther('1000'),
+        checkpoints,
+        true
+      )
+    ).to.emit(simpleLockup, 'TokensLocked');
+  });
+
+  it('Should reject malformed rows', function () {
+    const file = writeSchedule([
+      { offset: '1w', percent: 10 },
+      { offset: 100, percent: '10.555' },
+    ]);
+
+    expect(() => loadScheduleFile(file)).to.throw(/Row 1: invalid offset[\s\S]*Row 2: invalid/);
+  });
+});
@@ -3,6 +3,7 @@ import { ethers } from 'hardhat';
 import { time } from '@nomicfoundation/hardhat-network-helpers';
 import { SimpleLockup, MockERC20 } from '../typechain-types';
 import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { checkSignedRelease, signRelease } from '../scripts/lib/relay';
 
 describe('SimpleLockup', function () {
   let simpleLockup: SimpleLockup;
@@ -270,7 +271,7 @@ describe('SimpleLockup', function () {
     });
 
     it('Should revert release during cliff period', async function () {
-      await expect(simpleLockup.connect(beneficiary).release()).to.be.revertedWithCustomError(
+      await expect(simpleLockup.connect(beneficiary)['release()']()).to.be.revertedWithCustomError(
         simpleLockup,
         'NoTokensAvailable'
       );
@@ -282,7 +283,7 @@ describe('SimpleLockup', function () {
       const releasable = await simpleLockup.releasableAmount();
       expect(releasable).to.be.gt(0);
 
-      await simpleLockup.connect(beneficiary).release();
+      await simpleLockup.connect(beneficiary)['release()']();
 
       const beneficiaryBalance = await token.balanceOf(beneficiary.address);
       expect(beneficiaryBalance).to.be.closeTo(releasable, ethers.parseEther('0.1')); // Allow rounding tolerance
@@ -291,7 +292,7 @@ describe('SimpleLockup', function () {
     it('Should release all tokens after vesting completion', async function () {
       await time.increase(VESTING_DURATION + 1);
 
-      await simpleLockup.connect(beneficiary).release();
+      await simpleLockup.connect(beneficiary)['release()']();
 
       const beneficiaryBalance = await token.balanceOf(beneficiary.address);
       expect(beneficiaryBalance).to.equal(TOTAL_AMOUNT);
@@ -301,11 +302,535 @@ describe('SimpleLockup', function () {
     });
 
     it('Should revert when called by non-beneficiary', async function () {
-      await expect(simpleLockup.connect(otherAccount).release()).to.be.revertedWithCustomError(
+      await expect(simpleLockup.connect(otherAccount)['release()']()).to.be.revertedWithCustomError(
         simpleLockup,
         'NotBeneficiary'
       );
     });
+
+    it('Should release a specific amount and keep the remainder', async function () {
+      await time.increase(VESTING_DURATION / 2);
+      const amount = ethers.parseEther('100');
+
+      await expect(simpleLockup.connect(beneficiary)['release(uint256)'](amount))
+        .to.emit(simpleLockup, 'TokensReleased')
+        .withArgs(beneficiary.address, beneficiary.address, amount);
+
+      expect(await token.balanceOf(beneficiary.address)).to.equal(amount);
+      const lockup = await simpleLockup.lockupInfo();
+      expect(lockup.releasedAmount).to.equal(amount);
+      expect(await simpleLockup.releasableAmount()).to.equal(
+        (await simpleLockup.vestedAmount()) - amount
+      );
+    });
+
+    it('Should revert when amount exceeds releasable', async function () {
+      await time.increase(VESTING_DURATION / 2);
+      await simpleLockup.connect(beneficiary)['release(uint256)'](ethers.parseEther('100'));
+
+      // Pin the timestamp of the reverting transaction to know the exact releasable amount
+      const { startTime } = await simpleLockup.lockupInfo();
+      const nextTimestamp = (await time.latest()) + 10;
+      await time.setNextBlockTimestamp(nextTimestamp);
+      const releasable =
+        (TOTAL_AMOUNT * (BigInt(nextTimestamp) - startTime)) / BigInt(VESTING_DURATION) -
+        ethers.parseEther('100');
+
+      await expect(simpleLockup.connect(beneficiary)['release(uint256)'](TOTAL_AMOUNT))
+        .to.be.revertedWithCustomError(simpleLockup, 'AmountExceedsReleasable')
+        .withArgs(TOTAL_AMOUNT, releasable);
+    });
+
+    it('Should revert when amount is zero', async function () {
+      await time.increase(CLIFF_DURATION);
+
+      await expect(
+        simpleLockup.connect(beneficiary)['release(uint256)'](0)
+      ).to.be.revertedWithCustomError(simpleLockup, 'InvalidAmount');
+    });
+
+    it('Should revert partial release during cliff period', async function () {
+      await expect(
+        simpleLockup.connect(beneficiary)['release(uint256)'](1)
+      ).to.be.revertedWithCustomError(simpleLockup, 'NoTokensAvailable');
+    });
+
+    it('Should release remaining dust after partial releases at vesting end', async function () {
+      await time.increase(VESTING_DURATION / 3);
+      await simpleLockup.connect(beneficiary)['release(uint256)'](ethers.parseEther('1'));
+      await time.increase(VESTING_DURATION);
+
+      const remaining = TOTAL_AMOUNT - ethers.parseEther('1');
+      expect(await simpleLockup.releasableAmount()).to.equal(remaining);
+      await simpleLockup.connect(beneficiary)['release(uint256)'](remaining);
+      expect(await token.balanceOf(beneficiary.address)).to.equal(TOTAL_AMOUNT);
+    });
+
+    it('Should allow partial releases after revocation up to vestedAtRevoke', async function () {
+      await time.increase(VESTING_DURATION / 2);
+      await simpleLockup.revoke();
+      const { vestedAtRevoke } = await simpleLockup.lockupInfo();
+
+      await simpleLockup.connect(beneficiary)['release(uint256)'](vestedAtRevoke / 2n);
+      await expect(
+        simpleLockup.connect(beneficiary)['release(uint256)'](vestedAtRevoke)
+      ).to.be.revertedWithCustomError(simpleLockup, 'AmountExceedsReleasable');
+
+      await simpleLockup.connect(beneficiary)['release()']();
+      expect(await token.balanceOf(beneficiary.address)).to.equal(vestedAtRevoke);
+    });
+
+    it('Should emit TokensReleased with the beneficiary as recipient', async function () {
+      await time.increase(VESTING_DURATION);
+
+      await expect(simpleLockup.connect(beneficiary)['release()']())
+        .to.emit(simpleLockup, 'TokensReleased')
+        .withArgs(beneficiary.address, beneficiary.address, TOTAL_AMOUNT);
+    });
+  });
+
+  describe('Release To Recipient', function () {
+    beforeEach(async function () {
+      await simpleLockup.createLockup(
+        beneficiary.address,
+        TOTAL_AMOUNT,
+        CLIFF_DURATION,
+        VESTING_DURATION,
+        true
+      );
+    });
+
+    it('Should release all releasable tokens to the recipient', async function () {
+      await time.increase(VESTING_DURATION);
+
+      await expect(simpleLockup.connect(beneficiary)['releaseTo(address)'](otherAccount.address))
+        .to.emit(simpleLockup, 'TokensReleased')
+        .withArgs(beneficiary.address, otherAccount.address, TOTAL_AMOUNT);
+
+      expect(await token.balanceOf(otherAccount.address)).to.equal(TOTAL_AMOUNT);
+      expect(await token.balanceOf(beneficiary.address)).to.equal(0);
+      expect((await simpleLockup.lockupInfo()).releasedAmount).to.equal(TOTAL_AMOUNT);
+    });
+
+    it('Should release a partial amount to the recipient', async function () {
+      await time.increase(VESTING_DURATION / 2);
+      const amount = ethers.parseEther('100');
+
+      await expect(
+        simpleLockup
+          .connect(beneficiary)
+          ['releaseTo(address,uint256)'](otherAccount.address, amount)
+      )
+        .to.emit(simpleLockup, 'TokensReleased')
+        .withArgs(beneficiary.address, otherAccount.address, amount);
+
+      expect(await token.balanceOf(otherAccount.address)).to.equal(amount);
+      expect((await simpleLockup.lockupInfo()).releasedAmount).to.equal(amount);
+    });
+
+    it('Should revert partial release above the releasable amount', async function () {
+      await time.increase(CLIFF_DURATION);
+
+      await expect(
+        simpleLockup
+          .connect(beneficiary)
+          ['releaseTo(address,uint256)'](otherAccount.address, TOTAL_AMOUNT)
+      ).to.be.revertedWithCustomError(simpleLockup, 'AmountExceedsReleasable');
+    });
+
+    it('Should revert partial release of zero', async function () {
+      await time.increase(CLIFF_DURATION);
+
+      await expect(
+        simpleLockup.connect(beneficiary)['releaseTo(address,uint256)'](otherAccount.address, 0)
+      ).to.be.revertedWithCustomError(simpleLockup, 'InvalidAmount');
+    });
+
+    it('Should revert with invalid recipients', async function () {
+      await time.increase(CLIFF_DURATION);
+
+      for (const recipient of [ethers.ZeroAddress, await simpleLockup.getAddress()]) {
+        await expect(
+          simpleLockup.connect(beneficiary)['releaseTo(address)'](recipient)
+        ).to.be.revertedWithCustomError(simpleLockup, 'InvalidRecipient');
+      }
+    });
+
+    it('Should revert when called by non-beneficiary', async function () {
+      await time.increase(CLIFF_DURATION);
+
+      await expect(
+        simpleLockup.connect(otherAccount)['releaseTo(address)'](otherAccount.address)
+      ).to.be.revertedWithCustomError(simpleLockup, 'NotBeneficiary');
+    });
+  });
+
+  describe('Release Operators', function () {
+    let recipient: SignerWithAddress;
+
+    beforeEach(async function () {
+      [, , , recipient] = await ethers.getSigners();
+      await simpleLockup.createLockup(
+        beneficiary.address,
+        TOTAL_AMOUNT,
+        CLIFF_DURATION,
+        VESTING_DURATION,
+        true
+      );
+      await time.increase(VESTING_DURATION);
+    });
+
+    it('Should let the beneficiary approve and revoke operators', async function () {
+      await expect(simpleLockup.connect(beneficiary).setOperator(otherAccount.address, true))
+        .to.emit(simpleLockup, 'OperatorSet')
+        .withArgs(beneficiary.address, otherAccount.address, true);
+      expect(await simpleLockup.isOperator(otherAccount.address)).to.equal(true);
+
+      await expect(simpleLockup.connect(beneficiary).setOperator(otherAccount.address, false))
+        .to.emit(simpleLockup, 'OperatorSet')
+        .withArgs(beneficiary.address, otherAccount.address, false);
+      expect(await simpleLockup.isOperator(otherAccount.address)).to.equal(false);
+      await expect(simpleLockup.connect(otherAccount)['release()']()).to.be.revertedWithCustomError(
+        simpleLockup,
+        'NotBeneficiary'
+      );
+    });
+
+    it('Should send operator releases to the beneficiary', async function () {
+      await simpleLockup.connect(beneficiary).setOperator(otherAccount.address, true);
+
+      await expect(simpleLockup.connect(otherAccount)['release()']())
+        .to.emit(simpleLockup, 'TokensReleased')
+        .withArgs(beneficiary.address, beneficiary.address, TOTAL_AMOUNT);
+
+      expect(await token.balanceOf(beneficiary.address)).to.equal(TOTAL_AMOUNT);
+      expect(await token.balanceOf(otherAccount.address)).to.equal(0);
+    });
+
+    it('Should let operators release only to approved recipients', async function () {
+      const amount = ethers.parseEther('100');
+      await simpleLockup.connect(beneficiary).setOperator(otherAccount.address, true);
+
+      await expect(simpleLockup.connect(otherAccount)['releaseTo(address)'](otherAccount.address))
+        .to.be.revertedWithCustomError(simpleLockup, 'RecipientNotApproved')
+        .withArgs(otherAccount.address);
+
+      await expect(simpleLockup.connect(beneficiary).setRecipientApproval(recipient.address, true))
+        .to.emit(simpleLockup, 'RecipientApprovalSet')
+        .withArgs(beneficiary.address, recipient.address, true);
+      expect(await simpleLockup.isApprovedRecipient(recipient.address)).to.equal(true);
+
+      await simpleLockup
+        .connect(otherAccount)
+        ['releaseTo(address,uint256)'](recipient.address, amount);
+      await simpleLockup
+        .connect(otherAccount)
+        ['releaseTo(address,uint256)'](beneficiary.address, amount);
+      expect(await token.balanceOf(recipient.address)).to.equal(amount);
+      expect(await token.balanceOf(beneficiary.address)).to.equal(amount);
+
+      await simpleLockup.connect(beneficiary).setRecipientApproval(recipient.address, false);
+      await expect(
+        simpleLockup.connect(otherAccount)['releaseTo(address)'](recipient.address)
+      ).to.be.revertedWithCustomError(simpleLockup, 'RecipientNotApproved');
+    });
+
+    it('Should only let the beneficiary manage operators and recipients', async function () {
+      await expect(
+        simpleLockup.connect(otherAccount).setOperator(otherAccount.address, true)
+      ).to.be.revertedWithCustomError(simpleLockup, 'NotBeneficiary');
+      await expect(
+        simpleLockup.connect(owner).setRecipientApproval(owner.address, true)
+      ).to.be.revertedWithCustomError(simpleLockup, 'NotBeneficiary');
+
+      // Operators cannot approve recipients or other operators
+      await simpleLockup.connect(beneficiary).setOperator(otherAccount.address, true);
+      await expect(
+        simpleLockup.connect(otherAccount).setRecipientApproval(otherAccount.address, true)
+      ).to.be.revertedWithCustomError(simpleLockup, 'NotBeneficiary');
+    });
+
+    it('Should reject invalid operators and recipients', async function () {
+      for (const operator of [ethers.ZeroAddress, beneficiary.address]) {
+        await expect(
+          simpleLockup.connect(beneficiary).setOperator(operator, true)
+        ).to.be.revertedWithCustomError(simpleLockup, 'InvalidOperator');
+      }
+      for (const invalid of [ethers.ZeroAddress, await simpleLockup.getAddress()]) {
+        await expect(
+          simpleLockup.connect(beneficiary).setRecipientApproval(invalid, true)
+        ).to.be.revertedWithCustomError(simpleLockup, 'InvalidRecipient');
+      }
+    });
+
+    it('Should drop approvals when the beneficiary changes', async function () {
+      await simpleLockup.connect(beneficiary).setOperator(otherAccount.address, true);
+      await simpleLockup.connect(beneficiary).setRecipientApproval(otherAccount.address, true);
+      await simpleLockup.connect(beneficiary).proposeBeneficiary(recipient.address);
+      await simpleLockup.connect(recipient).acceptBeneficiary();
+
+      expect(await simpleLockup.isOperator(otherAccount.address)).to.equal(false);
+      expect(await simpleLockup.isApprovedRecipient(otherAccount.address)).to.equal(false);
+      await expect(simpleLockup.connect(otherAccount)['release()']()).to.be.revertedWithCustomError(
+        simpleLockup,
+        'NotBeneficiary'
+      );
+    });
+  });
+
+  describe('Release With Signature', function () {
+    const DAY = 24 * 60 * 60;
+
+    async function deadlineIn(seconds: number) {
+      return BigInt(await time.latest()) + BigInt(seconds);
+    }
+
+    async function errorMessage(promise: Promise<unknown>): Promise<string> {
+      try {
+        await promise;
+      } catch (error) {
+        return (error as Error).message;
+      }
+      return '';
+    }
+
+    beforeEach(async function () {
+      await simpleLockup.createLockup(
+        beneficiary.address,
+        TOTAL_AMOUNT,
+        CLIFF_DURATION,
+        VESTING_DURATION,
+        true
+      );
+    });
+
+    it('Should expose the EIP-712 domain', async function () {
+      const domain = await simpleLockup.eip712Domain();
+
+      expect(domain.name).to.equal('SimpleLockup');
+      expect(domain.version).to.equal('1');
+      expect(domain.chainId).to.equal(31337n);
+      expect(domain.verifyingContract).to.equal(await simpleLockup.getAddress());
+    });
+
+    it('Should let anyone relay a signed release to the recipient', async function () {
+      await time.increase(VESTING_DURATION);
+      const signed = await signRelease(
+        simpleLockup,
+        beneficiary,
+        otherAccount.address,
+        0n,
+        await deadlineIn(DAY)
+      );
+      const relayerBalance = await ethers.provider.getBalance(owner.address);
+
+      await expect(
+        simpleLockup
+          .connect(owner)
+          .releaseWithSig(signed.recipient, signed.amount, signed.deadline, signed.signature)
+      )
+        .to.emit(simpleLockup, 'TokensReleased')
+        .withArgs(beneficiary.address, otherAccount.address, TOTAL_AMOUNT);
+
+      expect(await token.balanceOf(otherAccount.address)).to.equal(TOTAL_AMOUNT);
+      expect(await simpleLockup.nonces(beneficiary.address)).to.equal(1);
+      // The relayer paid the gas
+      expect(await ethers.provider.getBalance(owner.address)).to.be.lessThan(relayerBalance);
+    });
+
+    it('Should release a signed partial amount', async function () {
+      await time.increase(VESTING_DURATION / 2);
+      const amount = ethers.parseEther('100');
+      const signed = await signRelease(
+        simpleLockup,
+        beneficiary,
+        beneficiary.address,
+        amount,
+        await deadlineIn(DAY)
+      );
+
+      await simpleLockup
+        .connect(otherAccount)
+        .releaseWithSig(signed.recipient, signed.amount, signed.deadline, signed.signature);
+
+      expect(await token.balanceOf(beneficiary.address)).to.equal(amount);
+      expect((await simpleLockup.lockupInfo()).releasedAmount).to.equal(amount);
+    });
+
+    it('Should reject a replayed signature', async function () {
+      await time.increase(VESTING_DURATION / 2);
+      const signed = await signRelease(
+        simpleLockup,
+        beneficiary,
+        beneficiary.address,
+        ethers.parseEther('100'),
+        await deadlineIn(DAY)
+      );
+      const relay = () =>
+        simpleLockup
+          .connect(otherAccount)
+          .releaseWithSig(signed.recipient, signed.amount, signed.deadline, signed.signature);
+
+      await relay();
+      await expect(relay()).to.be.revertedWithCustomError(simpleLockup, 'InvalidSignature');
+    });
+
+    it('Should reject an expired signature', async function () {
+      await time.increase(VESTING_DURATION / 2);
+      const deadline = await deadlineIn(DAY);
+      const signed = await signRelease(
+        simpleLockup,
+        beneficiary,
+        beneficiary.address,
+        0n,
+        deadline
+      );
+      await time.increase(DAY + 1);
+
+      await expect(simpleLockup.releaseWithSig(signed.recipient, 0, deadline, signed.signature))
+        .to.be.revertedWithCustomError(simpleLockup, 'ExpiredSignature')
+        .withArgs(deadline);
+    });
+
+    it('Should reject signatures from others or for other parameters', async function () {
+      await time.increase(VESTING_DURATION / 2);
+      const deadline = await deadlineIn(DAY);
+      const signed = await signRelease(
+        simpleLockup,
+        beneficiary,
+        beneficiary.address,
+        0n,
+        deadline
+      );
+
+      // Redirected recipient, changed amount or extended deadline
+      for (const [recipient, amount, signedDeadline] of [
+        [otherAccount.address, 0n, deadline],
+        [beneficiary.address, 1n, deadline],
+        [beneficiary.address, 0n, deadline + 1n],
+      ] as const) {
+        await expect(
+          simpleLockup.releaseWithSig(recipient, amount, signedDeadline, signed.signature)
+        ).to.be.revertedWithCustomError(simpleLockup, 'InvalidSignature');
+      }
+
+      // Same message signed by someone else
+      const forged = await otherAccount.signTypedData(
+        {
+          name: 'SimpleLockup',
+          version: '1',
+          chainId: 31337n,
+          verifyingContract: await simpleLockup.getAddress(),
+        },
+        {
+          Release: [
+            { name: 'recipient', type: 'address' },
+            { name: 'amount', type: 'uint256' },
+            { name: 'nonce', type: 'uint256' },
+            { name: 'deadline', type: 'uint256' },
+          ],
+        },
+        { recipient: otherAccount.address, amount: 0n, nonce: 0n, deadline }
+      );
+      await expect(
+        simpleLockup.releaseWithSig(otherAccount.address, 0, deadline, forged)
+      ).to.be.revertedWithCustomError(simpleLockup, 'InvalidSignature');
+      await expect(
+        simpleLockup.releaseWithSig(beneficiary.address, 0, deadline, '0x1234')
+      ).to.be.revertedWithCustomError(simpleLockup, 'InvalidSignature');
+    });
+
+    it('Should invalidate signatures of a previous beneficiary', async function () {
+      await time.increase(VESTING_DURATION / 2);
+      const signed = await signRelease(
+        simpleLockup,
+        beneficiary,
+        beneficiary.address,
+        0n,
+        await deadlineIn(DAY)
+      );
+      await simpleLockup.connect(beneficiary).proposeBeneficiary(otherAccount.address);
+      await simpleLockup.connect(otherAccount).acceptBeneficiary();
+
+      await expect(
+        simpleLockup.releaseWithSig(
+          signed.recipient,
+          signed.amount,
+          signed.deadline,
+          signed.signature
+        )
+      ).to.be.revertedWithCustomError(simpleLockup, 'InvalidSignature');
+    });
+
+    it('Should apply release rules to signed releases', async function () {
+      const signed = await signRelease(
+        simpleLockup,
+        beneficiary,
+        beneficiary.address,
+        0n,
+        await deadlineIn(DAY)
+      );
+
+      // Still in the cliff: the signature is valid but nothing is releasable
+      await expect(
+        simpleLockup.releaseWithSig(
+          signed.recipient,
+          signed.amount,
+          signed.deadline,
+          signed.signature
+        )
+      ).to.be.revertedWithCustomError(simpleLockup, 'NoTokensAvailable');
+    });
+
+    it('Should check payloads before relaying', async function () {
+      await time.increase(VESTING_DURATION / 2);
+      const signed = await signRelease(
+        simpleLockup,
+        beneficiary,
+        beneficiary.address,
+        0n,
+        await deadlineIn(DAY)
+      );
+      const now = BigInt(await time.latest());
+
+      await checkSignedRelease(simpleLockup, signed, now);
+      expect(
+        await errorMessage(checkSignedRelease(simpleLockup, signed, BigInt(signed.deadline) + 1n))
+      ).to.contain('Signature expired');
+      expect(
+        await errorMessage(
+          checkSignedRelease(simpleLockup, { ...signed, recipient: otherAccount.address }, now)
+        )
+      ).to.contain('but the beneficiary is');
+      const SimpleLockupFactory = await ethers.getContractFactory('SimpleLockup');
+      const otherLockup = await SimpleLockupFactory.deploy(await token.getAddress());
+      expect(await errorMessage(checkSignedRelease(otherLockup, signed, now))).to.contain(
+        `Signed for lockup ${signed.lockup}, but relaying to ${await otherLockup.getAddress()}`
+      );
+      const tooMuch = await signRelease(
+        simpleLockup,
+        beneficiary,
+        beneficiary.address,
+        TOTAL_AMOUNT,
+        await deadlineIn(DAY)
+      );
+      expect(await errorMessage(checkSignedRelease(simpleLockup, tooMuch, now))).to.contain(
+        'is releasable'
+      );
+      expect(
+        await errorMessage(signRelease(simpleLockup, otherAccount, otherAccount.address, 0n, now))
+      ).to.contain('is not the beneficiary');
+
+      await simpleLockup.releaseWithSig(
+        signed.recipient,
+        signed.amount,
+        signed.deadline,
+        signed.signature
+      );
+      expect(await errorMessage(checkSignedRelease(simpleLockup, signed, now))).to.contain(
+        'was already used'
+      );
+    });
   });
 
   describe('Revoke', function () {
@@ -341,7 +866,7 @@ describe('SimpleLockup', function () {
       const vested = await simpleLockup.vestedAmount();
       await simpleLockup.revoke();
 
-      await simpleLockup.connect(beneficiary).release();
+      await simpleLockup.connect(beneficiary)['release()']();
 
       const beneficiaryBalance = await token.balanceOf(beneficiary.address);
       expect(beneficiaryBalance).to.be.closeTo(vested, ethers.parseEther('0.1')); // Allow rounding tolerance
@@ -379,7 +904,7 @@ describe('SimpleLockup', function () {
       expect(ownerBalanceAfter).to.equal(ownerBalanceBefore + TOTAL_AMOUNT);
 
       // Beneficiary should not be able to claim anything
-      await expect(simpleLockup.connect(beneficiary).release()).to.be.revertedWithCustomError(
+      await expect(simpleLockup.connect(beneficiary)['release()']()).to.be.revertedWithCustomError(
         simpleLockup,
         'NoTokensAvailable'
       );
@@ -393,6 +918,900 @@ describe('SimpleLockup', function () {
     });
   });
 
+  describe('Beneficiary Rotation', function () {
+    let newBeneficiary: SignerWithAddress;
+    const RECOVERY_DELAY = 30 * 24 * 60 * 60; // 30 days
+
+    beforeEach(async function () {
+      [, , , newBeneficiary] = await ethers.getSigners();
+      await simpleLockup.createLockup(
+        beneficiary.address,
+        TOTAL_AMOUNT,
+        CLIFF_DURATION,
+        VESTING_DURATION,
+        true
+      );
+    });
+
+    it('Should rotate beneficiary after propose and accept', async function () {
+      await expect(simpleLockup.connect(beneficiary).proposeBeneficiary(newBeneficiary.address))
+        .to.emit(simpleLockup, 'BeneficiaryChangeProposed')
+        .withArgs(beneficiary.address, newBeneficiary.address);
+      expect(await simpleLockup.pendingBeneficiary()).to.equal(newBeneficiary.address);
+      expect(await simpleLockup.beneficiary()).to.equal(beneficiary.address);
+
+      await expect(simpleLockup.connect(newBeneficiary).acceptBeneficiary())
+        .to.emit(simpleLockup, 'BeneficiaryChanged')
+        .withArgs(beneficiary.address, newBeneficiary.address);
+      expect(await simpleLockup.beneficiary()).to.equal(newBeneficiary.address);
+      expect(await simpleLockup.pendingBeneficiary()).to.equal(ethers.ZeroAddress);
+    });
+
+    it('Should let only the new beneficiary release after rotation', async function () {
+      await simpleLockup.connect(beneficiary).proposeBeneficiary(newBeneficiary.address);
+      await simpleLockup.connect(newBeneficiary).acceptBeneficiary();
+      await time.increase(VESTING_DURATION);
+
+      await expect(simpleLockup.connect(beneficiary)['release()']()).to.be.revertedWithCustomError(
+        simpleLockup,
+        'NotBeneficiary'
+      );
+      await simpleLockup.connect(newBeneficiary)['release()']();
+      expect(await token.balanceOf(newBeneficiary.address)).to.equal(TOTAL_AMOUNT);
+    });
+
+    it('Should revert propose from non-beneficiary', async function () {
+      await expect(
+        simpleLockup.connect(otherAccount).proposeBeneficiary(newBeneficiary.address)
+      ).to.be.revertedWithCustomError(simpleLockup, 'NotBeneficiary');
+    });
+
+    it('Should revert propose with invalid addresses', async function () {
+      for (const address of [
+        ethers.ZeroAddress,
+        await simpleLockup.getAddress(),
+        beneficiary.address,
+      ]) {
+        await expect(
+          simpleLockup.connect(beneficiary).proposeBeneficiary(address)
+        ).to.be.revertedWithCustomError(simpleLockup, 'InvalidBeneficiary');
+      }
+    });
+
+    it('Should revert accept from an address that was not proposed', async function () {
+      await expect(
+        simpleLockup.connect(newBeneficiary).acceptBeneficiary()
+      ).to.be.revertedWithCustomError(simpleLockup, 'NotPendingBeneficiary');
+
+      await simpleLockup.connect(beneficiary).proposeBeneficiary(newBeneficiary.address);
+      await expect(
+        simpleLockup.connect(otherAccount).acceptBeneficiary()
+      ).to.be.revertedWithCustomError(simpleLockup, 'NotPendingBeneficiary');
+    });
+
+    it('Should let the beneficiary cancel a proposal', async function () {
+      await simpleLockup.connect(beneficiary).proposeBeneficiary(newBeneficiary.address);
+
+      await expect(simpleLockup.connect(beneficiary).cancelBeneficiaryChange())
+        .to.emit(simpleLockup, 'BeneficiaryChangeCancelled')
+        .withArgs(beneficiary.address);
+      await expect(
+        simpleLockup.connect(newBeneficiary).acceptBeneficiary()
+      ).to.be.revertedWithCustomError(simpleLockup, 'NotPendingBeneficiary');
+    });
+
+    it('Should allow rotation after revocation', async function () {
+      await time.increase(VESTING_DURATION / 2);
+      await simpleLockup.revoke();
+
+      await simpleLockup.connect(beneficiary).proposeBeneficiary(newBeneficiary.address);
+      await simpleLockup.connect(newBeneficiary).acceptBeneficiary();
+
+      const lockup = await simpleLockup.lockupInfo();
+      await simpleLockup.connect(newBeneficiary)['release()']();
+      expect(await token.balanceOf(newBeneficiary.address)).to.equal(lockup.vestedAtRevoke);
+    });
+
+    it('Should recover beneficiary through owner after the timelock', async function () {
+      await expect(simpleLockup.connect(beneficiary).setRecoveryEnabled(true))
+        .to.emit(simpleLockup, 'RecoveryEnabledSet')
+        .withArgs(beneficiary.address, true);
+
+      const tx = simpleLockup.initiateBeneficiaryRecovery(newBeneficiary.address);
+      await expect(tx).to.emit(simpleLockup, 'BeneficiaryRecoveryInitiated');
+
+      const eta = await simpleLockup.recoveryEta();
+      expect(eta).to.equal(BigInt(await time.latest()) + BigInt(RECOVERY_DELAY));
+      expect(await simpleLockup.recoveryBeneficiary()).to.equal(newBeneficiary.address);
+
+      await expect(simpleLockup.completeBeneficiaryRecovery())
+        .to.be.revertedWithCustomError(simpleLockup, 'RecoveryNotReady')
+        .withArgs(eta);
+
+      await time.increaseTo(eta);
+      await expect(simpleLockup.completeBeneficiaryRecovery())
+        .to.emit(simpleLockup, 'BeneficiaryChanged')
+        .withArgs(beneficiary.address, newBeneficiary.address);
+      expect(await simpleLockup.beneficiary()).to.equal(newBeneficiary.address);
+      expect(await simpleLockup.recoveryEta()).to.equal(0);
+      // The new beneficiary has not opted in
+      expect(await simpleLockup.recoveryEnabled()).to.equal(false);
+    });
+
+    it('Should reject recovery unless the beneficiary opted in', async function () {
+      await expect(
+        simpleLockup.initiateBeneficiaryRecovery(newBeneficiary.address)
+      ).to.be.revertedWithCustomError(simpleLockup, 'RecoveryNotEnabled');
+    });
+
+    it('Should reject recovery of a non-revocable lockup without opt-in', async function () {
+      const SimpleLockupFactory = await ethers.getContractFactory('SimpleLockup');
+      const fixedLockup = await SimpleLockupFactory.deploy(await token.getAddress());
+      await token.approve(await fixedLockup.getAddress(), TOTAL_AMOUNT);
+      await fixedLockup.createLockup(
+        beneficiary.address,
+        TOTAL_AMOUNT,
+        CLIFF_DURATION,
+        VESTING_DURATION,
+        false
+      );
+
+      await expect(
+        fixedLockup.initiateBeneficiaryRecovery(newBeneficiary.address)
+      ).to.be.revertedWithCustomError(fixedLockup, 'RecoveryNotEnabled');
+
+      // With the beneficiary's consent the lost wallet can still be replaced
+      await fixedLockup.connect(beneficiary).setRecoveryEnabled(true);
+      await fixedLockup.initiateBeneficiaryRecovery(newBeneficiary.address);
+      await time.increase(RECOVERY_DELAY);
+      await fixedLockup.completeBeneficiaryRecovery();
+      expect(await fixedLockup.beneficiary()).to.equal(newBeneficiary.address);
+    });
+
+    it('Should block a pending recovery once the beneficiary opts out', async function () {
+      await simpleLockup.connect(beneficiary).setRecoveryEnabled(true);
+      await simpleLockup.initiateBeneficiaryRecovery(newBeneficiary.address);
+
+      await expect(simpleLockup.connect(beneficiary).setRecoveryEnabled(false))
+        .to.emit(simpleLockup, 'RecoveryEnabledSet')
+        .withArgs(beneficiary.address, false);
+      expect(await simpleLockup.recoveryBeneficiary()).to.equal(ethers.ZeroAddress);
+
+      await time.increase(RECOVERY_DELAY);
+      await expect(simpleLockup.completeBeneficiaryRecovery()).to.be.revertedWithCustomError(
+        simpleLockup,
+        'NoBeneficiaryChangePending'
+      );
+      expect(await simpleLockup.beneficiary()).to.equal(beneficiary.address);
+    });
+
+    it('Should restrict the recovery opt-in to the beneficiary', async function () {
+      for (const account of [owner, otherAccount, newBeneficiary]) {
+        await expect(
+          simpleLockup.connect(account).setRecoveryEnabled(true)
+        ).to.be.revertedWithCustomError(simpleLockup, 'NotBeneficiary');
+      }
+    });
+
+    it('Should let the beneficiary cancel an owner recovery', async function () {
+      await simpleLockup.connect(beneficiary).setRecoveryEnabled(true);
+      await simpleLockup.initiateBeneficiaryRecovery(newBeneficiary.address);
+      await simpleLockup.connect(beneficiary).cancelBeneficiaryChange();
+
+      await time.increase(RECOVERY_DELAY);
+      await expect(simpleLockup.completeBeneficiaryRecovery()).to.be.revertedWithCustomError(
+        simpleLockup,
+        'NoBeneficiaryChangePending'
+      );
+      expect(await simpleLockup.beneficiary()).to.equal(beneficiary.address);
+    });
+
+    it('Should restrict recovery to the owner', async function () {
+      await expect(
+        simpleLockup.connect(otherAccount).initiateBeneficiaryRecovery(newBeneficiary.address)
+      ).to.be.revertedWithCustomError(simpleLockup, 'OwnableUnauthorizedAccount');
+      await expect(
+        simpleLockup.connect(beneficiary).completeBeneficiaryRecovery()
+      ).to.be.revertedWithCustomError(simpleLockup, 'OwnableUnauthorizedAccount');
+    });
+
+    it("Should let the owner cancel only its own recovery, not the beneficiary's proposal", async function () {
+      await simpleLockup.connect(beneficiary).proposeBeneficiary(newBeneficiary.address);
+      await expect(simpleLockup.cancelBeneficiaryChange()).to.be.revertedWithCustomError(
+        simpleLockup,
+        'NoBeneficiaryChangePending'
+      );
+
+      await simpleLockup.connect(beneficiary).setRecoveryEnabled(true);
+      await simpleLockup.initiateBeneficiaryRecovery(otherAccount.address);
+      await expect(simpleLockup.cancelBeneficiaryChange())
+        .to.emit(simpleLockup, 'BeneficiaryChangeCancelled')
+        .withArgs(owner.address);
+
+      expect(await simpleLockup.recoveryBeneficiary()).to.equal(ethers.ZeroAddress);
+      expect(await simpleLockup.recoveryEta()).to.equal(0);
+      expect(await simpleLockup.pendingBeneficiary()).to.equal(newBeneficiary.address);
+      await simpleLockup.connect(newBeneficiary).acceptBeneficiary();
+      expect(await simpleLockup.beneficiary()).to.equal(newBeneficiary.address);
+    });
+
+    it('Should revert cancel from other accounts or with nothing pending', async function () {
+      await expect(simpleLockup.cancelBeneficiaryChange()).to.be.revertedWithCustomError(
+        simpleLockup,
+        'NoBeneficiaryChangePending'
+      );
+
+      await simpleLockup.connect(beneficiary).proposeBeneficiary(newBeneficiary.address);
+      await expect(
+        simpleLockup.connect(otherAccount).cancelBeneficiaryChange()
+      ).to.be.revertedWithCustomError(simpleLockup, 'NotBeneficiary');
+    });
+
+    it('Should revert rotation when no lockup exists', async function () {
+      const SimpleLockupFactory = await ethers.getContractFactory('SimpleLockup');
+      const emptyLockup = await SimpleLockupFactory.deploy(await token.getAddress());
+
+      await expect(
+        emptyLockup.initiateBeneficiaryRecovery(newBeneficiary.address)
+      ).to.be.revertedWithCustomError(emptyLockup, 'NoLockupFound');
+    });
+  });
+
+  describe('Periodic Vesting', function () {
+    const DAY = 24 * 60 * 60;
+    const INTERVAL = 30 * DAY;
+
+    async function createPeriodic(amount: bigint, cliff: number, vesting: number) {
+      await token.approve(await simpleLockup.getAddress(), amount);
+      await simpleLockup.createPeriodicLockup(
+        beneficiary.address,
+        amount,
+        cliff,
+        vesting,
+        INTERVAL,
+        true
+      );
+      return Number((await simpleLockup.lockupInfo()).startTime);
+    }
+
+    it('Should store the release interval', async function () {
+      await expect(
+        simpleLockup.createPeriodicLockup(
+          beneficiary.address,
+          TOTAL_AMOUNT,
+          CLIFF_DURATION,
+          VESTING_DURATION,
+          INTERVAL,
+          true
+        )
+      ).to.emit(simpleLockup, 'TokensLocked');
+
+      const lockup = await simpleLockup.lockupInfo();
+      expect(lockup.releaseInterval).to.equal(INTERVAL);
+      expect(lockup.totalAmount).to.equal(TOTAL_AMOUNT);
+    });
+
+    it('Should keep linear vesting for createLockup', async function () {
+      await simpleLockup.createLockup(
+        beneficiary.address,
+        TOTAL_AMOUNT,
+        CLIFF_DURATION,
+        VESTING_DURATION,
+        true
+      );
+
+      expect((await simpleLockup.lockupInfo()).releaseInterval).to.equal(0);
+    });
+
+    it('Should revert with a zero or too long release interval', async function () {
+      for (const interval of [0, VESTING_DURATION + 1]) {
+        await expect(
+          simpleLockup.createPeriodicLockup(
+            beneficiary.address,
+            TOTAL_AMOUNT,
+            CLIFF_DURATION,
+            VESTING_DURATION,
+            interval,
+            true
+          )
+        ).to.be.revertedWithCustomError(simpleLockup, 'InvalidDuration');
+      }
+    });
+
+    it('Should vest in whole steps with rounding at each step', async function () {
+      // 7 full steps and a shorter 10-day last step; the amount never divides evenly
+      const amount = 1_000_000_007n;
+      const vesting = 7 * INTERVAL + 10 * DAY;
+      const start = await createPeriodic(amount, 0, vesting);
+
+      for (let step = 1; step <= 7; step++) {
+        const boundary = start + step * INTERVAL;
+        const expectedBefore = (amount * BigInt((step - 1) * INTERVAL)) / BigInt(vesting);
+        const expectedAt = (amount * BigInt(step * INTERVAL)) / BigInt(vesting);
+
+        await time.increaseTo(boundary - 1);
+        expect(await simpleLockup.vestedAmount()).to.equal(expectedBefore);
+
+        await time.increaseTo(boundary);
+        expect(await simpleLockup.vestedAmount()).to.equal(expectedAt);
+        expect(await simpleLockup.getVestingProgress()).to.equal(
+          (BigInt(step * INTERVAL) * 100n) / BigInt(vesting)
+        );
+      }
+
+      // The shorter last step vests the rest at vesting end
+      await time.increaseTo(start + vesting - 1);
+      expect(await simpleLockup.vestedAmount()).to.equal(
+        (amount * BigInt(7 * INTERVAL)) / BigInt(vesting)
+      );
+      await time.increaseTo(start + vesting);
+      expect(await simpleLockup.vestedAmount()).to.equal(amount);
+    });
+
+    it('Should unlock the steps that passed during the cliff at the cliff end', async function () {
+      const cliff = 95 * DAY;
+      const start = await createPeriodic(TOTAL_AMOUNT, cliff, VESTING_DURATION);
+
+      await time.increaseTo(start + cliff - 1);
+      expect(await simpleLockup.vestedAmount()).to.equal(0);
+
+      // 3 whole steps (90 days) have passed at the 95-day cliff end
+      await time.increaseTo(start + cliff);
+      const expected = (TOTAL_AMOUNT * BigInt(3 * INTERVAL)) / BigInt(VESTING_DURATION);
+      expect(await simpleLockup.vestedAmount()).to.equal(expected);
+
+      // Nothing more until the 4th step
+      await time.increaseTo(start + 4 * INTERVAL - 1);
+      expect(await simpleLockup.vestedAmount()).to.equal(expected);
+    });
+
+    it('Should release exactly the total amount across step releases', async function () {
+      const amount = 999_999_999_999_999_999n;
+      const vesting = 5 * INTERVAL + DAY;
+      const start = await createPeriodic(amount, 0, vesting);
+
+      for (let step = 1; step <= 5; step++) {
+        await time.increaseTo(start + step * INTERVAL);
+        await simpleLockup.connect(beneficiary)['release()']();
+        expect(await token.balanceOf(beneficiary.address)).to.equal(
+          (amount * BigInt(step * INTERVAL)) / BigInt(vesting)
+        );
+
+        // Nothing more becomes releasable within the same step (next tx is mined 1s later)
+        await time.increaseTo(start + Math.min((step + 1) * INTERVAL, vesting) - 2);
+        await expect(
+          simpleLockup.connect(beneficiary)['release()']()
+        ).to.be.revertedWithCustomError(simpleLockup, 'NoTokensAvailable');
+      }
+
+      // The 1-day last step releases the rest, including rounding dust
+      await time.increaseTo(start + vesting);
+      await simpleLockup.connect(beneficiary)['release()']();
+      expect(await token.balanceOf(beneficiary.address)).to.equal(amount);
+      expect(await token.balanceOf(await simpleLockup.getAddress())).to.equal(0);
+    });
+
+    it('Should freeze the last completed step on revocation', async function () {
+      const start = await createPeriodic(TOTAL_AMOUNT, 0, VESTING_DURATION);
+
+      await time.setNextBlockTimestamp(start + 2 * INTERVAL + 15 * DAY);
+      await simpleLockup.revoke();
+
+      const expected = (TOTAL_AMOUNT * BigInt(2 * INTERVAL)) / BigInt(VESTING_DURATION);
+      expect((await simpleLockup.lockupInfo()).vestedAtRevoke).to.equal(expected);
+      expect(await token.balanceOf(await simpleLockup.getAddress())).to.equal(expected);
+    });
+  });
+
+  describe('Cliff Unlock', function () {
+    const DAY = 24 * 60 * 60;
+    const CLIFF = 90 * DAY;
+    const VESTING = 360 * DAY;
+    const CLIFF_UNLOCK_BPS = 2000; // 20%
+
+    async function createCliffUnlock(cliff = CLIFF, bps = CLIFF_UNLOCK_BPS) {
+      await simpleLockup.createCliffUnlockLockup(
+        beneficiary.address,
+        TOTAL_AMOUNT,
+        cliff,
+        VESTING,
+        bps,
+        true
+      );
+      return Number((await simpleLockup.lockupInfo()).startTime);
+    }
+
+    // 20% at the cliff end plus 80% linear over the 270 days after it
+    function expectedVested(elapsed: number): bigint {
+      const span = BigInt(VESTING - CLIFF);
+      return (TOTAL_AMOUNT * (2000n * span + 8000n * BigInt(elapsed - CLIFF))) / (10000n * span);
+    }
+
+    it('Should store the cliff unlock share', async function () {
+      await expect(createCliffUnlock()).to.not.be.reverted;
+
+      const lockup = await simpleLockup.lockupInfo();
+      expect(lockup.cliffUnlockBps).to.equal(CLIFF_UNLOCK_BPS);
+      expect(lockup.releaseInterval).to.equal(0);
+    });
+
+    it('Should revert with a zero or above 100% cliff unlock', async function () {
+      for (const bps of [0, 10001]) {
+        await expect(
+          simpleLockup.createCliffUnlockLockup(
+            beneficiary.address,
+            TOTAL_AMOUNT,
+            CLIFF,
+            VESTING,
+            bps,
+            true
+          )
+        ).to.be.revertedWithCustomError(simpleLockup, 'InvalidSchedule');
+      }
+    });
+
+    it('Should unlock the share at the cliff end and vest the rest linearly', async function () {
+      const start = await createCliffUnlock();
+
+      await time.increaseTo(start + CLIFF - 1);
+      expect(await simpleLockup.vestedAmount()).to.equal(0);
+      expect(await simpleLockup.getVestingProgress()).to.equal(0);
+
+      await time.increaseTo(start + CLIFF);
+      expect(await simpleLockup.vestedAmount()).to.equal(ethers.parseEther('200'));
+      expect(await simpleLockup.getVestingProgress()).to.equal(20);
+
+      // Halfway between the cliff end and the vesting end: 20% + 80% / 2
+      await time.increaseTo(start + CLIFF + 135 * DAY);
+      expect(await simpleLockup.vestedAmount()).to.equal(ethers.parseEther('600'));
+      expect(await simpleLockup.getVestingProgress()).to.equal(60);
+
+      await time.increaseTo(start + VESTING);
+      expect(await simpleLockup.vestedAmount()).to.equal(TOTAL_AMOUNT);
+    });
+
+    it('Should unlock the share at start without a cliff (TGE)', async function () {
+      await createCliffUnlock(0, 1500);
+
+      expect(await simpleLockup.vestedAmount()).to.equal(ethers.parseEther('150'));
+      await simpleLockup.connect(beneficiary)['release(uint256)'](ethers.parseEther('150'));
+      expect(await token.balanceOf(beneficiary.address)).to.equal(ethers.parseEther('150'));
+    });
+
+    it('Should return everything to the owner when revoked before the cliff', async function () {
+      const start = await createCliffUnlock();
+      const ownerBalanceBefore = await token.balanceOf(owner.address);
+
+      await time.setNextBlockTimestamp(start + CLIFF - 1);
+      await expect(simpleLockup.revoke())
+        .to.emit(simpleLockup, 'LockupRevoked')
+        .withArgs(beneficiary.address, TOTAL_AMOUNT);
+
+      expect((await simpleLockup.lockupInfo()).vestedAtRevoke).to.equal(0);
+      expect(await token.balanceOf(owner.address)).to.equal(ownerBalanceBefore + TOTAL_AMOUNT);
+
+      // The cliff unlock never happens after revocation
+      await time.increaseTo(start + CLIFF + DAY);
+      expect(await simpleLockup.vestedAmount()).to.equal(0);
+      await expect(simpleLockup.connect(beneficiary)['release()']()).to.be.revertedWithCustomError(
+        simpleLockup,
+        'NoTokensAvailable'
+      );
+    });
+
+    it('Should keep the cliff unlock and accrued share when revoked after the cliff', async function () {
+      const start = await createCliffUnlock();
+
+      await time.setNextBlockTimestamp(start + CLIFF);
+      await simpleLockup.connect(beneficiary)['release()']();
+      expect(await token.balanceOf(beneficiary.address)).to.equal(ethers.parseEther('200'));
+
+      await time.setNextBlockTimestamp(start + CLIFF + 30 * DAY);
+      await simpleLockup.revoke();
+
+      const expected = expectedVested(CLIFF + 30 * DAY);
+      expect((await simpleLockup.lockupInfo()).vestedAtRevoke).to.equal(expected);
+      expect(await token.balanceOf(await simpleLockup.getAddress())).to.equal(
+        expected - ethers.parseEther('200')
+      );
+
+      await simpleLockup.connect(beneficiary)['release()']();
+      expect(await token.balanceOf(beneficiary.address)).to.equal(expected);
+      expect(await token.balanceOf(await simpleLockup.getAddress())).to.equal(0);
+    });
+  });
+
+  describe('Scheduled Start', function () {
+    const DAY = 24 * 60 * 60;
+
+    async function createScheduled(startTime: number, interval = 0, cliffUnlockBps = 0) {
+      return simpleLockup.createScheduledLockup(
+        beneficiary.address,
+        TOTAL_AMOUNT,
+        startTime,
+        CLIFF_DURATION,
+        VESTING_DURATION,
+        interval,
+        cliffUnlockBps,
+        true
+      );
+    }
+
+    it('Should record a future start time and emit it', async function () {
+      const startTime = (await time.latest()) + 60 * DAY;
+
+      await expect(createScheduled(startTime))
+        .to.emit(simpleLockup, 'TokensLocked')
+        .withArgs(
+          beneficiary.address,
+          TOTAL_AMOUNT,
+          startTime,
+          CLIFF_DURATION,
+          VESTING_DURATION,
+          true
+        );
+
+      expect((await simpleLockup.lockupInfo()).startTime).to.equal(startTime);
+      expect(await token.balanceOf(await simpleLockup.getAddress())).to.equal(TOTAL_AMOUNT);
+    });
+
+    it('Should vest nothing before a future start', async function () {
+      const startTime = (await time.latest()) + 60 * DAY;
+      await createScheduled(startTime);
+
+      expect(await simpleLockup.vestedAmount()).to.equal(0);
+      expect(await simpleLockup.getVestingProgress()).to.equal(0);
+      // Remaining time includes the wait for the start
+      expect(await simpleLockup.getRemainingVestingTime()).to.equal(
+        startTime + VESTING_DURATION - (await time.latest())
+      );
+      await expect(simpleLockup.connect(beneficiary)['release()']()).to.be.revertedWithCustomError(
+        simpleLockup,
+        'NoTokensAvailable'
+      );
+
+      // The cliff and vesting are counted from the start time
+      await time.increaseTo(startTime + CLIFF_DURATION - 1);
+      expect(await simpleLockup.vestedAmount()).to.equal(0);
+      await time.increaseTo(startTime + VESTING_DURATION / 2);
+      expect(await simpleLockup.vestedAmount()).to.equal(TOTAL_AMOUNT / 2n);
+      expect(await simpleLockup.getRemainingVestingTime()).to.equal(VESTING_DURATION / 2);
+    });
+
+    it('Should make the accrued share releasable at once when backdated', async function () {
+      const startTime = (await time.latest()) - 100 * DAY;
+      await createScheduled(startTime);
+
+      const now = BigInt(await time.latest());
+      const expected = (TOTAL_AMOUNT * (now - BigInt(startTime))) / BigInt(VESTING_DURATION);
+      expect(await simpleLockup.vestedAmount()).to.equal(expected);
+      expect(await simpleLockup.getRemainingVestingTime()).to.equal(
+        BigInt(startTime + VESTING_DURATION) - now
+      );
+    });
+
+    it('Should apply the release interval and cliff unlock from the start time', async function () {
+      const startTime = (await time.latest()) + 10 * DAY;
+      await createScheduled(startTime, 0, 2500);
+
+      await time.increaseTo(startTime + CLIFF_DURATION);
+      expect(await simpleLockup.vestedAmount()).to.equal(TOTAL_AMOUNT / 4n);
+    });
+
+    it('Should revert with a start time outside the bounds', async function () {
+      const maxBackdate = Number(await simpleLockup.MAX_START_BACKDATE());
+      const maxDelay = Number(await simpleLockup.MAX_START_DELAY());
+
+      // Offsets from the creation time (the next block is mined 1s after time.latest())
+      for (const offset of [-maxBackdate - 1, maxDelay + 1, -VESTING_DURATION]) {
+        const startTime = (await time.latest()) + 1 + offset;
+        await expect(createScheduled(startTime)).to.be.revertedWithCustomError(
+          simpleLockup,
+          'InvalidStartTime'
+        );
+      }
+    });
+
+    it('Should revert with an invalid release interval or cliff unlock', async function () {
+      const startTime = await time.latest();
+
+      await expect(createScheduled(startTime, VESTING_DURATION + 1)).to.be.revertedWithCustomError(
+        simpleLockup,
+        'InvalidDuration'
+      );
+      await expect(createScheduled(startTime, 0, 10001)).to.be.revertedWithCustomError(
+        simpleLockup,
+        'InvalidSchedule'
+      );
+      await expect(createScheduled(startTime, 30 * DAY, 2000)).to.be.revertedWithCustomError(
+        simpleLockup,
+        'InvalidSchedule'
+      );
+    });
+
+    it('Should refund everything when revoked before the start', async function () {
+      const startTime = (await time.latest()) + 60 * DAY;
+      await createScheduled(startTime);
+
+      await expect(simpleLockup.revoke())
+        .to.emit(simpleLockup, 'LockupRevoked')
+        .withArgs(beneficiary.address, TOTAL_AMOUNT);
+      expect((await simpleLockup.lockupInfo()).vestedAtRevoke).to.equal(0);
+    });
+  });
+
+  describe('Custom Schedule', function () {
+    const DAY = 24 * 60 * 60;
+    const MONTH = 30 * DAY;
+
+    // 10% at start, 5% per month for 6 months, then linear for the rest until day 730
+    const SCHEDULE = [
+      { offset: 0, cumulativeBps: 1000 },
+      ...[1, 2, 3, 4, 5, 6].flatMap((month) => [
+        { offset: month * MONTH, cumulativeBps: 1000 + (month - 1) * 500 },
+        { offset: month * MONTH, cumulativeBps: 1000 + month * 500 },
+      ]),
+      { offset: 730 * DAY, cumulativeBps: 10000 },
+    ];
+
+    async function createCustom(checkpoints = SCHEDULE, amount = TOTAL_AMOUNT) {
+      await token.approve(await simpleLockup.getAddress(), amount);
+      await simpleLockup.createCustomLockup(beneficiary.address, amount, checkpoints, true);
+      return Number((await simpleLockup.lockupInfo()).startTime);
+    }
+
+    it('Should store the checkpoints and derive cliff and vesting durations', async function () {
+      await expect(
+        simpleLockup.createCustomLockup(beneficiary.address, TOTAL_AMOUNT, SCHEDULE, true)
+      ).to.emit(simpleLockup, 'TokensLocked');
+
+      const checkpoints = await simpleLockup.getCheckpoints();
+      expect(checkpoints.map(({ offset, cumulativeBps }) => [offset, cumulativeBps])).to.deep.equal(
+        SCHEDULE.map(({ offset, cumulativeBps }) => [BigInt(offset), BigInt(cumulativeBps)])
+      );
+
+      const lockup = await simpleLockup.lockupInfo();
+      expect(lockup.cliffDuration).to.equal(0);
+      expect(lockup.vestingDuration).to.equal(730 * DAY);
+      expect(lockup.releaseInterval).to.equal(0);
+    });
+
+    it('Should return no checkpoints for linear lockups', async function () {
+      await simpleLockup.createLockup(
+        beneficiary.address,
+        TOTAL_AMOUNT,
+        CLIFF_DURATION,
+        VESTING_DURATION,
+        true
+      );
+
+      expect(await simpleLockup.getCheckpoints()).to.have.length(0);
+    });
+
+    it('Should unlock steps and interpolate between checkpoints', async function () {
+      const start = await createCustom();
+      const percent = (value: bigint) => (TOTAL_AMOUNT * value) / 100n;
+
+      // 10% right away
+      expect(await simpleLockup.vestedAmount()).to.equal(percent(10n));
+
+      // Flat until each monthly step
+      await time.increaseTo(start + MONTH - 1);
+      expect(await simpleLockup.vestedAmount()).to.equal(percent(10n));
+      await time.increaseTo(start + MONTH);
+      expect(await simpleLockup.vestedAmount()).to.equal(percent(15n));
+      await time.increaseTo(start + 6 * MONTH);
+      expect(await simpleLockup.vestedAmount()).to.equal(percent(40n));
+      expect(await simpleLockup.getVestingProgress()).to.equal(40);
+
+      // Halfway through the linear segment (day 180 → day 730): 40% + 60% / 2
+      await time.increaseTo(start + 455 * DAY);
+      expect(await simpleLockup.vestedAmount()).to.equal(percent(70n));
+      expect(await simpleLockup.getVestingProgress()).to.equal(70);
+
+      await time.increaseTo(start + 730 * DAY);
+      expect(await simpleLockup.vestedAmount()).to.equal(TOTAL_AMOUNT);
+      expect(await simpleLockup.getVestingProgress()).to.equal(100);
+    });
+
+    it('Should vest nothing before the first checkpoint', async function () {
+      const start = await createCustom([
+        { offset: 90 * DAY, cumulativeBps: 2500 },
+        { offset: 360 * DAY, cumulativeBps: 10000 },
+      ]);
+
+      // The release is mined 1s after increaseTo
+      await time.increaseTo(start + 90 * DAY - 2);
+      expect(await simpleLockup.vestedAmount()).to.equal(0);
+      await expect(simpleLockup.connect(beneficiary)['release()']()).to.be.revertedWithCustomError(
+        simpleLockup,
+        'NoTokensAvailable'
+      );
+
+      await time.increaseTo(start + 90 * DAY);
+      expect(await simpleLockup.vestedAmount()).to.equal(TOTAL_AMOUNT / 4n);
+    });
+
+    it('Should revert with an invalid schedule', async function () {
+      const invalid = [
+        [],
+        // Does not end at 100%
+        [
+          { offset: 0, cumulativeBps: 0 },
+          { offset: MONTH, cumulativeBps: 9999 },
+        ],
+        // Offsets decrease
+        [
+          { offset: 2 * MONTH, cumulativeBps: 0 },
+          { offset: MONTH, cumulativeBps: 5000 },
+          { offset: 3 * MONTH, cumulativeBps: 10000 },
+        ],
+        // Cumulative share decreases
+        [
+          { offset: 0, cumulativeBps: 5000 },
+          { offset: MONTH, cumulativeBps: 4000 },
+          { offset: 2 * MONTH, cumulativeBps: 10000 },
+        ],
+        // Too many checkpoints
+        Array.from({ length: 33 }, (_, index) => ({
+          offset: index * DAY,
+          cumulativeBps: index === 32 ? 10000 : index * 100,
+        })),
+      ];
+
+      for (const checkpoints of invalid) {
+        await expect(
+          simpleLockup.createCustomLockup(beneficiary.address, TOTAL_AMOUNT, checkpoints, true)
+        ).to.be.revertedWithCustomError(simpleLockup, 'InvalidSchedule');
+      }
+    });
+
+    it('Should revert when the schedule has no duration or exceeds the maximum', async function () {
+      const invalid = [
+        [{ offset: MONTH, cumulativeBps: 10000 }],
+        [
+          { offset: 0, cumulativeBps: 0 },
+          { offset: 10 * 365 * DAY + 1, cumulativeBps: 10000 },
+        ],
+      ];
+
+      for (const checkpoints of invalid) {
+        await expect(
+          simpleLockup.createCustomLockup(beneficiary.address, TOTAL_AMOUNT, checkpoints, true)
+        ).to.be.revertedWithCustomError(simpleLockup, 'InvalidDuration');
+      }
+    });
+
+    it('Should only allow owner to create a custom lockup', async function () {
+      await expect(
+        simpleLockup
+          .connect(beneficiary)
+          .createCustomLockup(beneficiary.address, TOTAL_AMOUNT, SCHEDULE, true)
+      ).to.be.revertedWithCustomError(simpleLockup, 'OwnableUnauthorizedAccount');
+    });
+
+    it('Should freeze the interpolated amount on revocation', async function () {
+      const start = await createCustom();
+
+      // 10 days into the linear segment: 40% + 60% * 10 / 550
+      await time.setNextBlockTimestamp(start + 190 * DAY);
+      await simpleLockup.revoke();
+
+      const expected = (TOTAL_AMOUNT * (4000n * 550n + 6000n * 10n)) / (10000n * 550n);
+      expect((await simpleLockup.lockupInfo()).vestedAtRevoke).to.equal(expected);
+      expect(await token.balanceOf(await simpleLockup.getAddress())).to.equal(expected);
+    });
+  });
+
+  describe('Top Up', function () {
+    const TOP_UP = ethers.parseEther('1000');
+
+    async function createWithStart(): Promise<number> {
+      await simpleLockup.createLockup(beneficiary.address, TOTAL_AMOUNT, 0, VESTING_DURATION, true);
+      await token.approve(await simpleLockup.getAddress(), TOP_UP);
+      return Number((await simpleLockup.lockupInfo()).startTime);
+    }
+
+    it('Should vest the top-up over the original schedule', async function () {
+      const start = await createWithStart();
+
+      // Refresher grant halfway through: the elapsed half of the top-up vests at once
+      await time.setNextBlockTimestamp(start + VESTING_DURATION / 2);
+      await expect(simpleLockup.topUp(TOP_UP))
+        .to.emit(simpleLockup, 'LockupToppedUp')
+        .withArgs(beneficiary.address, TOP_UP, TOTAL_AMOUNT + TOP_UP);
+
+      const lockup = await simpleLockup.lockupInfo();
+      expect(lockup.totalAmount).to.equal(TOTAL_AMOUNT + TOP_UP);
+      expect(lockup.startTime).to.equal(start);
+      expect(await simpleLockup.vestedAmount()).to.equal(TOTAL_AMOUNT);
+      expect(await token.balanceOf(await simpleLockup.getAddress())).to.equal(
+        TOTAL_AMOUNT + TOP_UP
+      );
+
+      await time.increaseTo(start + VESTING_DURATION);
+      await simpleLockup.connect(beneficiary)['release()']();
+      expect(await token.balanceOf(beneficiary.address)).to.equal(TOTAL_AMOUNT + TOP_UP);
+    });
+
+    it('Should keep released tokens when topping up', async function () {
+      const start = await createWithStart();
+
+      await time.setNextBlockTimestamp(start + VESTING_DURATION / 4);
+      await simpleLockup.connect(beneficiary)['release()']();
+      const released = (await simpleLockup.lockupInfo()).releasedAmount;
+
+      await time.setNextBlockTimestamp(start + VESTING_DURATION / 2);
+      await simpleLockup.topUp(TOP_UP);
+
+      expect((await simpleLockup.lockupInfo()).releasedAmount).to.equal(released);
+      expect(await simpleLockup.releasableAmount()).to.equal(TOTAL_AMOUNT - released);
+    });
+
+    it('Should make a top-up after vesting end fully releasable', async function () {
+      const start = await createWithStart();
+
+      await time.increaseTo(start + VESTING_DURATION);
+      await simpleLockup.connect(beneficiary)['release()']();
+      await simpleLockup.topUp(TOP_UP);
+
+      expect(await simpleLockup.releasableAmount()).to.equal(TOP_UP);
+    });
+
+    it('Should return the unvested part of a top-up on revocation', async function () {
+      const start = await createWithStart();
+
+      await time.setNextBlockTimestamp(start + VESTING_DURATION / 2);
+      await simpleLockup.topUp(TOP_UP);
+
+      const ownerBalanceBefore = await token.balanceOf(owner.address);
+      await time.setNextBlockTimestamp(start + VESTING_DURATION / 2 + 1);
+      await simpleLockup.revoke();
+
+      const vestedAtRevoke = (await simpleLockup.lockupInfo()).vestedAtRevoke;
+      expect(await token.balanceOf(owner.address)).to.equal(
+        ownerBalanceBefore + TOTAL_AMOUNT + TOP_UP - vestedAtRevoke
+      );
+    });
+
+    it('Should revert without a lockup, after revocation or for zero amount', async function () {
+      await expect(simpleLockup.topUp(TOP_UP)).to.be.revertedWithCustomError(
+        simpleLockup,
+        'NoLockupFound'
+      );
+
+      await createWithStart();
+      await expect(simpleLockup.topUp(0)).to.be.revertedWithCustomError(
+        simpleLockup,
+        'InvalidAmount'
+      );
+
+      await simpleLockup.revoke();
+      await expect(simpleLockup.topUp(TOP_UP)).to.be.revertedWithCustomError(
+        simpleLockup,
+        'AlreadyRevoked'
+      );
+    });
+
+    it('Should revert when the allowance is too low', async function () {
+      await createWithStart();
+
+      await expect(simpleLockup.topUp(TOP_UP + 1n)).to.be.revertedWithCustomError(
+        simpleLockup,
+        'InsufficientAllowance'
+      );
+    });
+
+    it('Should only allow owner to top up', async function () {
+      await createWithStart();
+
+      await expect(simpleLockup.connect(otherAccount).topUp(TOP_UP)).to.be.revertedWithCustomError(
+        simpleLockup,
+        'OwnableUnauthorizedAccount'
+      );
+    });
+  });
+
   describe('Precision', function () {
     it('Should handle large amounts with acceptable precision', async function () {
       const LARGE_AMOUNT = ethers.parseEther('50000000'); // 50 million tokens
@@ -412,14 +1831,14 @@ describe('SimpleLockup', function () {
       const vested1 = await simpleLockup.vestedAmount();
       expect(vested1).to.be.gt(0); // Should have some vested amount
 
-      await simpleLockup.connect(beneficiary).release();
+      await simpleLockup.connect(beneficiary)['release()']();
       const balance1 = await token.balanceOf(beneficiary.address);
       expect(balance1).to.be.closeTo(vested1, ethers.parseEther('1000')); // Allow small tolerance
 
       // Day 2
       await time.increase(24 * 60 * 60);
       const vested2 = await simpleLockup.vestedAmount();
-      await simpleLockup.connect(beneficiary).release();
+      await simpleLockup.connect(beneficiary)['release()']();
       const balance2 = await token.balanceOf(beneficiary.address);
 
       // Verify second day's vested amount is roughly 2x first day (auto-correction)
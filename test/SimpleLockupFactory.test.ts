@@ -0,0 +1,259 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { SimpleLockup, SimpleLockupFactory, MockERC20 } from '../typechain-types';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { signRelease } from '../scripts/lib/relay';
+
+describe('SimpleLockupFactory', function () {
+  let factory: SimpleLockupFactory;
+  let implementation: SimpleLockup;
+  let token: MockERC20;
+  let owner: SignerWithAddress;
+  let beneficiary: SignerWithAddress;
+  let otherAccount: SignerWithAddress;
+
+  const TOTAL_AMOUNT = ethers.parseEther('1000');
+  const CLIFF_DURATION = 30 * 24 * 60 * 60; // 30 days
+  const VESTING_DURATION = 365 * 24 * 60 * 60; // 1 year
+
+  async function deployLockup(
+    signer: SignerWithAddress,
+    beneficiaryAddress: string,
+    amount: bigint = TOTAL_AMOUNT
+  ): Promise<SimpleLockup> {
+    await token.connect(signer).approve(await factory.getAddress(), amount);
+    const tx = await factory
+      .connect(signer)
+      .createLockup(beneficiaryAddress, amount, CLIFF_DURATION, VESTING_DURATION, true);
+    const receipt = await tx.wait();
+
+    const event = receipt!.logs
+      .map((log) => factory.interface.parseLog(log))
+      .find((parsed) => parsed?.name === 'LockupDeployed');
+
+    return ethers.getContractAt('SimpleLockup', event!.args.lockup);
+  }
+
+  beforeEach(async function () {
+    [owner, beneficiary, otherAccount] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory('MockERC20');
+    token = await MockERC20Factory.deploy('Test Token', 'TEST', ethers.parseEther('1000000'));
+    await token.waitForDeployment();
+
+    const SimpleLockupFactory = await ethers.getContractFactory('SimpleLockup');
+    implementation = await SimpleLockupFactory.deploy(await token.getAddress());
+    await implementation.waitForDeployment();
+
+    const FactoryFactory = await ethers.getContractFactory('SimpleLockupFactory');
+    factory = await FactoryFactory.deploy(await implementation.getAddress());
+    await factory.waitForDeployment();
+  });
+
+  describe('Deployment', function () {
+    it('Should set implementation and token', async function () {
+      expect(await factory.implementation()).to.equal(await implementation.getAddress());
+      expect(await factory.token()).to.equal(await token.getAddress());
+    });
+
+    it('Should revert with zero implementation address', async function () {
+      const FactoryFactory = await ethers.getContractFactory('SimpleLockupFactory');
+      await expect(FactoryFactory.deploy(ethers.ZeroAddress)).to.be.revertedWithCustomError(
+        factory,
+        'InvalidImplementation'
+      );
+    });
+
+    it('Should revert with EOA implementation address', async function () {
+      const FactoryFactory = await ethers.getContractFactory('SimpleLockupFactory');
+      await expect(FactoryFactory.deploy(otherAccount.address)).to.be.revertedWithCustomError(
+        factory,
+        'InvalidImplementation'
+      );
+    });
+
+    it('Should not allow re-initializing the implementation', async function () {
+      await expect(implementation.initialize(otherAccount.address)).to.be.revertedWithCustomError(
+        implementation,
+        'AlreadyInitialized'
+      );
+    });
+  });
+
+  describe('Create Lockup', function () {
+    it('Should deploy, fund and create a lockup in one transaction', async function () {
+      await token.approve(await factory.getAddress(), TOTAL_AMOUNT);
+
+      const lockupAddress = await factory.createLockup.staticCall(
+        beneficiary.address,
+        TOTAL_AMOUNT,
+        CLIFF_DURATION,
+        VESTING_DURATION,
+        true
+      );
+
+      await expect(
+        factory.createLockup(
+          beneficiary.address,
+          TOTAL_AMOUNT,
+          CLIFF_DURATION,
+          VESTING_DURATION,
+          true
+        )
+      )
+        .to.emit(factory, 'LockupDeployed')
+        .withArgs(beneficiary.address, lockupAddress, await token.getAddress());
+
+      const lockup = await ethers.getContractAt('SimpleLockup', lockupAddress);
+      const info = await lockup.lockupInfo();
+
+      expect(await lockup.beneficiary()).to.equal(beneficiary.address);
+      expect(await lockup.owner()).to.equal(owner.address);
+      expect(await lockup.token()).to.equal(await token.getAddress());
+      expect(info.totalAmount).to.equal(TOTAL_AMOUNT);
+      expect(info.cliffDuration).to.equal(CLIFF_DURATION);
+      expect(info.vestingDuration).to.equal(VESTING_DURATION);
+      expect(await token.balanceOf(lockupAddress)).to.equal(TOTAL_AMOUNT);
+      expect(await token.balanceOf(await factory.getAddress())).to.equal(0);
+    });
+
+    it('Should register lockups by beneficiary and owner', async function () {
+      await token.transfer(otherAccount.address, TOTAL_AMOUNT);
+
+      const first = await deployLockup(owner, beneficiary.address);
+      const second = await deployLockup(otherAccount, beneficiary.address);
+      const third = await deployLockup(owner, otherAccount.address);
+
+      expect(await factory.getLockupsByBeneficiary(beneficiary.address)).to.deep.equal([
+        await first.getAddress(),
+        await second.getAddress(),
+      ]);
+      expect(await factory.getLockupsByOwner(owner.address)).to.deep.equal([
+        await first.getAddress(),
+        await third.getAddress(),
+      ]);
+      expect(await factory.lockupCount()).to.equal(3);
+      expect(await factory.lockupAt(1)).to.equal(await second.getAddress());
+      expect(await factory.isLockup(await third.getAddress())).to.equal(true);
+      expect(await factory.isLockup(await implementation.getAddress())).to.equal(false);
+    });
+
+    it('Should propagate SimpleLockup validation errors', async function () {
+      await token.approve(await factory.getAddress(), TOTAL_AMOUNT);
+
+      await expect(
+        factory.createLockup(
+          beneficiary.address,
+          TOTAL_AMOUNT,
+          VESTING_DURATION,
+          VESTING_DURATION,
+          true
+        )
+      ).to.be.revertedWithCustomError(implementation, 'InvalidDuration');
+
+      await expect(
+        factory.createLockup(ethers.ZeroAddress, TOTAL_AMOUNT, 0, VESTING_DURATION, true)
+      ).to.be.revertedWithCustomError(implementation, 'InvalidBeneficiary');
+    });
+
+    it('Should deploy a periodic lockup', async function () {
+      const releaseInterval = 30 * 24 * 60 * 60;
+      await token.approve(await factory.getAddress(), TOTAL_AMOUNT);
+
+      const lockupAddress = await factory.createPeriodicLockup.staticCall(
+        beneficiary.address,
+        TOTAL_AMOUNT,
+        CLIFF_DURATION,
+        VESTING_DURATION,
+        releaseInterval,
+        true
+      );
+      await factory.createPeriodicLockup(
+        beneficiary.address,
+        TOTAL_AMOUNT,
+        CLIFF_DURATION,
+        VESTING_DURATION,
+        releaseInterval,
+        true
+      );
+
+      const lockup = await ethers.getContractAt('SimpleLockup', lockupAddress);
+      expect((await lockup.lockupInfo()).releaseInterval).to.equal(releaseInterval);
+      expect(await lockup.owner()).to.equal(owner.address);
+      expect(await factory.isLockup(lockupAddress)).to.equal(true);
+
+      await expect(
+        factory.createPeriodicLockup(
+          beneficiary.address,
+          TOTAL_AMOUNT,
+          CLIFF_DURATION,
+          VESTING_DURATION,
+          0,
+          true
+        )
+      ).to.be.revertedWithCustomError(implementation, 'InvalidDuration');
+    });
+
+    it('Should revert without token approval', async function () {
+      await expect(
+        factory.createLockup(beneficiary.address, TOTAL_AMOUNT, 0, VESTING_DURATION, true)
+      ).to.be.revertedWithCustomError(token, 'ERC20InsufficientAllowance');
+    });
+  });
+
+  describe('Clone Behavior', function () {
+    let lockup: SimpleLockup;
+
+    beforeEach(async function () {
+      lockup = await deployLockup(owner, beneficiary.address);
+    });
+
+    it('Should not allow re-initializing a clone', async function () {
+      await expect(
+        lockup.connect(otherAccount).initialize(otherAccount.address)
+      ).to.be.revertedWithCustomError(lockup, 'AlreadyInitialized');
+    });
+
+    it('Should release vested tokens to beneficiary', async function () {
+      await time.increase(VESTING_DURATION + 1);
+
+      await lockup.connect(beneficiary)['release()']();
+
+      expect(await token.balanceOf(beneficiary.address)).to.equal(TOTAL_AMOUNT);
+    });
+
+    it('Should verify signed releases against the clone address', async function () {
+      await time.increase(VESTING_DURATION + 1);
+
+      expect((await lockup.eip712Domain()).verifyingContract).to.equal(await lockup.getAddress());
+      const signed = await signRelease(
+        lockup,
+        beneficiary,
+        beneficiary.address,
+        0n,
+        BigInt(await time.latest()) + 3600n
+      );
+      await lockup
+        .connect(otherAccount)
+        .releaseWithSig(signed.recipient, signed.amount, signed.deadline, signed.signature);
+
+      expect(await token.balanceOf(beneficiary.address)).to.equal(TOTAL_AMOUNT);
+    });
+
+    it('Should allow the caller to revoke as owner', async function () {
+      const ownerBalanceBefore = await token.balanceOf(owner.address);
+
+      await lockup.revoke();
+
+      expect(await token.balanceOf(owner.address)).to.equal(ownerBalanceBefore + TOTAL_AMOUNT);
+    });
+
+    it('Should reject revoke from non-owner', async function () {
+      await expect(lockup.connect(otherAccount).revoke()).to.be.revertedWithCustomError(
+        lockup,
+        'OwnableUnauthorizedAccount'
+      );
+    });
+  });
+});
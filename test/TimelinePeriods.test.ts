@@ -0,0 +1,280 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import {
+  formatReleaseInterval,
+  parseReleaseInterval,
+  parseTimelineOptions,
+} from '../scripts/lib/lockup';
+import {
+  MAX_PERIODS,
+  buildPeriodBreakdown,
+  formatPeriodLabel,
+  nextPeriodStart,
+  parsePeriodUnit,
+  parseRangeTime,
+  parseTimeZone,
+  periodStart,
+  type PeriodRange,
+} from '../scripts/lib/periods';
+import { vestedAt, type VestingSchedule } from '../scripts/lib/vesting';
+
+describe('TimelinePeriods', function () {
+  const DAY = 24 * 60 * 60;
+  const TOTAL_AMOUNT = ethers.parseEther('1000');
+  // Wednesday 2025-01-15 00:00 UTC
+  const START = utc('2025-01-15T00:00:00Z');
+  const VESTING_DURATION = 365 * DAY;
+
+  const schedule: VestingSchedule = {
+    totalAmount: TOTAL_AMOUNT,
+    releasedAmount: 0n,
+    startTime: BigInt(START),
+    cliffDuration: 0n,
+    vestingDuration: BigInt(VESTING_DURATION),
+    releaseInterval: 0n,
+    cliffUnlockBps: 0n,
+    revoked: false,
+    vestedAtRevoke: 0n,
+  };
+
+  function utc(iso: string): number {
+    return Date.parse(iso) / 1000;
+  }
+
+  function range(overrides: Partial<PeriodRange>): PeriodRange {
+    return {
+      unit: 'month',
+      timeZone: 'UTC',
+      from: START,
+      to: START + VESTING_DURATION,
+      ...overrides,
+    };
+  }
+
+  describe('Calendar boundaries', function () {
+    it('Should start months, quarters and years on the 1st', function () {
+      const at = utc('2025-05-20T13:45:00Z');
+
+      expect(periodStart(at, 'day', 'UTC')).to.equal(utc('2025-05-20T00:00:00Z'));
+      expect(periodStart(at, 'month', 'UTC')).to.equal(utc('2025-05-01T00:00:00Z'));
+      expect(periodStart(at, 'quarter', 'UTC')).to.equal(utc('2025-04-01T00:00:00Z'));
+      expect(periodStart(at, 'year', 'UTC')).to.equal(utc('2025-01-01T00:00:00Z'));
+      // Tuesday 2025-05-20 is in the week starting Monday 2025-05-19
+      expect(periodStart(at, 'week', 'UTC')).to.equal(utc('2025-05-19T00:00:00Z'));
+
+      // Month lengths vary, including leap years
+      expect(nextPeriodStart(utc('2024-02-01T00:00:00Z'), 'month', 'UTC')).to.equal(
+        utc('2024-03-01T00:00:00Z')
+      );
+      expect(nextPeriodStart(utc('2025-12-01T00:00:00Z'), 'month', 'UTC')).to.equal(
+        utc('2026-01-01T00:00:00Z')
+      );
+      expect(nextPeriodStart(utc('2025-10-01T00:00:00Z'), 'quarter', 'UTC')).to.equal(
+        utc('2026-01-01T00:00:00Z')
+      );
+    });
+
+    it('Should follow midnight in the timezone across daylight saving changes', function () {
+      const newYork = 'America/New_York';
+
+      // Clocks go forward on 2025-03-09, so that day has 23 hours
+      const march9 = periodStart(utc('2025-03-09T12:00:00Z'), 'day', newYork);
+      expect(march9).to.equal(utc('2025-03-09T05:00:00Z'));
+      expect(nextPeriodStart(march9, 'day', newYork)).to.equal(utc('2025-03-10T04:00:00Z'));
+
+      // Clocks go back on 2025-11-02, so November starts in EDT and December in EST
+      const november = periodStart(utc('2025-11-15T12:00:00Z'), 'month', newYork);
+      expect(november).to.equal(utc('2025-11-01T04:00:00Z'));
+      expect(nextPeriodStart(november, 'month', newYork)).to.equal(utc('2025-12-01T05:00:00Z'));
+
+      // 2025-03-31 23:30 UTC is already April in Berlin (CEST, UTC+2)
+      const april = periodStart(utc('2025-03-31T23:30:00Z'), 'month', 'Europe/Berlin');
+      expect(april).to.equal(utc('2025-03-31T22:00:00Z'));
+      expect(formatPeriodLabel(april, 'month', 'Europe/Berlin')).to.equal('2025-04');
+    });
+
+    it('Should label periods in the calendar of the timezone', function () {
+      const start = utc('2025-08-01T00:00:00Z');
+
+      expect(formatPeriodLabel(start, 'day', 'UTC')).to.equal('2025-08-01');
+      expect(formatPeriodLabel(start, 'month', 'UTC')).to.equal('2025-08');
+      expect(formatPeriodLabel(start, 'quarter', 'UTC')).to.equal('2025-Q3');
+      expect(formatPeriodLabel(start, 'year', 'UTC')).to.equal('2025');
+      expect(formatPeriodLabel(start, 'month', 'America/Los_Angeles')).to.equal('2025-07');
+    });
+  });
+
+  describe('Breakdown', function () {
+    it('Should list calendar months with cumulative amounts and per-month changes', function () {
+      const rows = buildPeriodBreakdown(schedule, range({}));
+
+      // 2025-01-15 to 2026-01-10
+      expect(rows.map((row) => row.label)).to.deep.equal([
+        '2025-01',
+        '2025-02',
+        '2025-03',
+        '2025-04',
+        '2025-05',
+        '2025-06',
+        '2025-07',
+        '2025-08',
+        '2025-09',
+        '2025-10',
+        '2025-11',
+        '2025-12',
+        '2026-01',
+      ]);
+      expect(rows[0].start).to.equal(START);
+      expect(rows[0].end).to.equal(utc('2025-02-01T00:00:00Z') - 1);
+      expect(rows[1].start).to.equal(utc('2025-02-01T00:00:00Z'));
+      expect(rows[rows.length - 1].end).to.equal(START + VESTING_DURATION);
+      expect(rows[rows.length - 1].vestedAmount).to.equal(TOTAL_AMOUNT);
+
+      for (const [index, row] of rows.entries()) {
+        expect(row.vestedAmount).to.equal(vestedAt(schedule, BigInt(row.end)));
+        const previous = index > 0 ? rows[index - 1].vestedAmount : 0n;
+        expect(row.deltaAmount).to.equal(row.vestedAmount - previous);
+      }
+      expect(rows.reduce((sum, row) => sum + row.deltaAmount, 0n)).to.equal(TOTAL_AMOUNT);
+      // February has fewer days than March, so less vests in it
+      expect(rows[1].deltaAmount).to.be.lessThan(rows[2].deltaAmount);
+    });
+
+    it('Should cover quarters and years', function () {
+      const quarters = buildPeriodBreakdown(schedule, range({ unit: 'quarter' }));
+      expect(quarters.map((row) => row.label)).to.deep.equal([
+        '2025-Q1',
+        '2025-Q2',
+        '2025-Q3',
+        '2025-Q4',
+        '2026-Q1',
+      ]);
+
+      const years = buildPeriodBreakdown(schedule, range({ unit: 'year' }));
+      expect(years.map((row) => row.label)).to.deep.equal(['2025', '2026']);
+      expect(years[0].deltaAmount + years[1].deltaAmount).to.equal(TOTAL_AMOUNT);
+    });
+
+    it('Should cut the first and last periods to an arbitrary range', function () {
+      const from = utc('2025-02-10T00:00:00Z');
+      const to = utc('2025-03-20T00:00:00Z');
+      const rows = buildPeriodBreakdown(schedule, range({ from, to }));
+
+      expect(rows.map((row) => [row.label, row.start, row.end])).to.deep.equal([
+        ['2025-02', from, utc('2025-03-01T00:00:00Z') - 1],
+        ['2025-03', utc('2025-03-01T00:00:00Z'), to],
+      ]);
+      // The change counts from the start of the range, not from zero
+      expect(rows[0].deltaAmount).to.equal(
+        vestedAt(schedule, BigInt(rows[0].end)) - vestedAt(schedule, BigInt(from - 1))
+      );
+      expect(rows[1].vestedAmount).to.equal(vestedAt(schedule, BigInt(to)));
+    });
+
+    it('Should cover ranges outside the vesting period', function () {
+      const before = buildPeriodBreakdown(
+        schedule,
+        range({ from: utc('2024-01-01T00:00:00Z'), to: START - 1 })
+      );
+      expect(before).to.have.length(13);
+      expect(before.every((row) => row.vestedAmount === 0n && row.deltaAmount === 0n)).to.equal(
+        true
+      );
+
+      const after = buildPeriodBreakdown(
+        schedule,
+        range({ unit: 'year', from: START, to: utc('2030-12-31T23:59:59Z') })
+      );
+      expect(after).to.have.length(6);
+      expect(after[after.length - 1].vestedAmount).to.equal(TOTAL_AMOUNT);
+      expect(after[after.length - 1].deltaAmount).to.equal(0n);
+    });
+
+    it('Should reject empty and oversized ranges', function () {
+      expect(() => buildPeriodBreakdown(schedule, range({ to: START - 1 }))).to.throw(
+        'Range ends before it starts'
+      );
+      expect(() =>
+        buildPeriodBreakdown(schedule, range({ unit: 'day', to: START + (MAX_PERIODS + 1) * DAY }))
+      ).to.throw(`more than ${MAX_PERIODS} periods`);
+    });
+  });
+
+  describe('Release intervals', function () {
+    it('Should unlock named intervals at fixed lengths, not on calendar boundaries', function () {
+      const start = utc('2025-01-01T00:00:00Z');
+      const unlocks = (interval: string, count: number) => {
+        const releaseInterval = parseReleaseInterval(interval);
+        const periodic = { ...schedule, startTime: BigInt(start), releaseInterval };
+        return Array.from({ length: count }, (_, index) => {
+          const step = BigInt(start) + BigInt(index + 1) * releaseInterval;
+          // Nothing more vests until the step boundary
+          expect(vestedAt(periodic, step - 1n)).to.be.lessThan(vestedAt(periodic, step));
+          return new Date(Number(step) * 1000).toISOString();
+        });
+      };
+
+      expect(unlocks('quarterly', 4)).to.deep.equal([
+        '2025-04-02T06:00:00.000Z',
+        '2025-07-02T12:00:00.000Z',
+        '2025-10-01T18:00:00.000Z',
+        '2026-01-01T00:00:00.000Z',
+      ]);
+      expect(unlocks('monthly', 3)).to.deep.equal([
+        '2025-01-31T10:00:00.000Z',
+        '2025-03-02T20:00:00.000Z',
+        '2025-04-02T06:00:00.000Z',
+      ]);
+      expect(formatReleaseInterval(parseReleaseInterval('quarterly'))).to.equal(
+        'quarterly (91.25 days)'
+      );
+    });
+  });
+
+  describe('Parsing', function () {
+    it('Should parse periods and timezones', function () {
+      expect(parsePeriodUnit(' Quarter ')).to.equal('quarter');
+      expect(() => parsePeriodUnit('fortnight')).to.throw('Invalid period');
+
+      expect(parseTimeZone('Europe/Berlin')).to.equal('Europe/Berlin');
+      expect(() => parseTimeZone('Mars/Olympus')).to.throw('Unknown timezone');
+    });
+
+    it('Should parse dates in the timezone, date-times and unix seconds', function () {
+      expect(parseRangeTime('1735689600', 'Europe/Berlin')).to.equal(1735689600);
+      expect(parseRangeTime('2025-01-01', 'UTC')).to.equal(utc('2025-01-01T00:00:00Z'));
+      expect(parseRangeTime('2025-01-01', 'Europe/Berlin')).to.equal(utc('2024-12-31T23:00:00Z'));
+      expect(parseRangeTime('2025-01-01', 'UTC', true)).to.equal(utc('2025-01-02T00:00:00Z') - 1);
+      expect(parseRangeTime('2025-01-01T09:00:00+02:00', 'UTC')).to.equal(
+        utc('2025-01-01T07:00:00Z')
+      );
+
+      for (const input of ['2025-02-30', '2025-01-01T09:00:00', 'tomorrow']) {
+        expect(() => parseRangeTime(input, 'UTC')).to.throw('Invalid date');
+      }
+    });
+
+    it('Should parse timeline options and keep defaults for empty values', function () {
+      expect(parseTimelineOptions({})).to.deep.equal({
+        unit: undefined,
+        timeZone: 'UTC',
+        from: undefined,
+        to: undefined,
+      });
+      expect(
+        parseTimelineOptions({
+          period: 'week',
+          timeZone: 'Asia/Tokyo',
+          from: '2025-01-01',
+          to: '2025-06-30',
+        })
+      ).to.deep.equal({
+        unit: 'week',
+        timeZone: 'Asia/Tokyo',
+        from: utc('2024-12-31T15:00:00Z'),
+        // The whole last day is included
+        to: utc('2025-06-30T15:00:00Z') - 1,
+      });
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import type { ContractRunner } from 'ethers';
+import { DEFAULT_DECIMALS, loadTokenMetadata } from '../scripts/lib/token';
+
+describe('TokenMetadata', function () {
+  it('Should read decimals and symbol', async function () {
+    const MockERC20Factory = await ethers.getContractFactory('MockERC20');
+    const token = await MockERC20Factory.deploy('Test Token', 'TEST', 0n);
+    await token.waitForDeployment();
+
+    expect(await loadTokenMetadata(await token.getAddress(), ethers.provider)).to.deep.equal({
+      address: await token.getAddress(),
+      symbol: 'TEST',
+      decimals: 18,
+      decimalsFallback: false,
+    });
+  });
+
+  it('Should assume the default decimals when decimals() reverts or returns nothing', async function () {
+    const [owner, other] = await ethers.getSigners();
+    const MockSafeFactory = await ethers.getContractFactory('MockSafe');
+    const safe = await MockSafeFactory.deploy([owner.address], 1);
+    await safe.waitForDeployment();
+
+    // A contract without decimals() reverts, an account without code returns no data
+    for (const address of [await safe.getAddress(), other.address]) {
+      expect(await loadTokenMetadata(address, ethers.provider)).to.include({
+        symbol: 'tokens',
+        decimals: DEFAULT_DECIMALS,
+        decimalsFallback: true,
+      });
+    }
+  });
+
+  it('Should pass on provider errors instead of assuming the default decimals', async function () {
+    const runner: ContractRunner = {
+      provider: ethers.provider,
+      call: async () => {
+        throw new Error('429 Too Many Requests');
+      },
+    };
+
+    let message = '';
+    try {
+      await loadTokenMetadata(ethers.Wallet.createRandom().address, runner);
+    } catch (error) {
+      message = (error as Error).message;
+    }
+    expect(message).to.contain('429 Too Many Requests');
+  });
+});
@@ -0,0 +1,216 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { SimpleLockup, MockERC20 } from '../typechain-types';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import {
+  buildCalendarEvents,
+  buildVestingSchedule,
+  toIcs,
+  toScheduleCsv,
+} from '../scripts/lib/calendar';
+import { LockupStatus, getLockupStatus } from '../scripts/lib/lockup';
+import { formatPeriodLabel } from '../scripts/lib/periods';
+import { TokenMetadata, loadLockupToken } from '../scripts/lib/token';
+
+describe('VestingCalendar', function () {
+  let simpleLockup: SimpleLockup;
+  let token: MockERC20;
+  let tokenInfo: TokenMetadata;
+  let lockupAddress: string;
+  let beneficiary: SignerWithAddress;
+
+  const DAY = 24 * 60 * 60;
+  const TOTAL_AMOUNT = ethers.parseEther('1000');
+  const CLIFF_DURATION = 30 * DAY;
+  const VESTING_DURATION = 2 * 365 * DAY; // 2 years
+
+  async function createLockup(): Promise<LockupStatus> {
+    await token.approve(lockupAddress, TOTAL_AMOUNT);
+    await simpleLockup.createLockup(
+      beneficiary.address,
+      TOTAL_AMOUNT,
+      CLIFF_DURATION,
+      VESTING_DURATION,
+      true
+    );
+    return getLockupStatus(simpleLockup);
+  }
+
+  beforeEach(async function () {
+    [, beneficiary] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory('MockERC20');
+    token = await MockERC20Factory.deploy('Test Token', 'TEST', ethers.parseEther('1000000'));
+    await token.waitForDeployment();
+
+    const SimpleLockupFactory = await ethers.getContractFactory('SimpleLockup');
+    simpleLockup = await SimpleLockupFactory.deploy(await token.getAddress());
+    await simpleLockup.waitForDeployment();
+
+    lockupAddress = await simpleLockup.getAddress();
+    tokenInfo = await loadLockupToken(simpleLockup, ethers.provider);
+  });
+
+  describe('CSV schedule', function () {
+    it('Should cover the whole vesting duration', async function () {
+      const status = await createLockup();
+
+      const rows = buildVestingSchedule(status, 'month', 'UTC');
+      expect(rows[0].start).to.equal(Number(status.startTime));
+      expect(rows[0].label).to.equal(formatPeriodLabel(rows[0].start, 'month', 'UTC'));
+      expect(rows[0].vestedAmount).to.equal(0n);
+      expect(rows[rows.length - 1].end).to.equal(Number(status.vestingEnd));
+      expect(rows[rows.length - 1].vestedAmount).to.equal(TOTAL_AMOUNT);
+      expect(rows.reduce((sum, row) => sum + row.deltaAmount, 0n)).to.equal(TOTAL_AMOUNT);
+      // Every later row starts on the 1st of a month
+      for (const row of rows.slice(1)) {
+        expect(new Date(row.start * 1000).toISOString()).to.match(/-01T00:00:00\.000Z$/);
+      }
+
+      // 730 days starting mid-day touch 731 calendar days
+      expect(buildVestingSchedule(status, 'day', 'UTC')).to.have.length(731);
+    });
+
+    it('Should write amounts in token units with the symbol', async function () {
+      const status = await createLockup();
+      const rows = buildVestingSchedule(status, 'month', 'UTC');
+
+      const lines = toScheduleCsv(rows, status, tokenInfo).trimEnd().split('\n');
+      expect(lines[0]).to.equal('period,start,end,vested,unlocked,vested_percent,token');
+      expect(lines[1]).to.equal(
+        [
+          rows[0].label,
+          new Date(rows[0].start * 1000).toISOString(),
+          new Date(rows[0].end * 1000).toISOString(),
+          '0.0,0.0,0.00,TEST',
+        ].join(',')
+      );
+      expect(lines[lines.length - 1]).to.match(/,1000\.0,[\d.]+,100\.00,TEST$/);
+
+      const usdc = { ...tokenInfo, symbol: 'USDC', decimals: 6 };
+      const sixDecimals = toScheduleCsv([{ ...rows[0], vestedAmount: 1_500_000n }], status, usdc);
+      expect(sixDecimals).to.contain(',1.5,0.0,');
+    });
+  });
+
+  describe('Calendar events', function () {
+    it('Should list the cliff end, unlock reminders and the vesting end', async function () {
+      const status = await createLockup();
+
+      const events = buildCalendarEvents(status, 'month', 'UTC');
+      expect(events[0].kind).to.equal('cliff');
+      expect(events[0].timestamp).to.equal(Number(status.cliffEnd));
+      expect(events[events.length - 1].kind).to.equal('end');
+      expect(events[events.length - 1].vestedAmount).to.equal(TOTAL_AMOUNT);
+      // Nothing vests before the cliff, so there are no earlier reminders
+      expect(events.every((event) => event.timestamp >= Number(status.cliffEnd))).to.equal(true);
+      // Linear vesting is reminded at the start of every calendar month
+      const unlocks = events.filter((event) => event.kind === 'unlock');
+      expect(unlocks.length).to.be.within(22, 24);
+      for (const event of unlocks) {
+        expect(new Date(event.timestamp * 1000).toISOString()).to.match(/-01T00:00:00\.000Z$/);
+      }
+    });
+
+    it('Should use the step boundaries of periodic lockups', async function () {
+      const releaseInterval = VESTING_DURATION / 4;
+      await token.approve(lockupAddress, TOTAL_AMOUNT);
+      await simpleLockup.createPeriodicLockup(
+        beneficiary.address,
+        TOTAL_AMOUNT,
+        0,
+        VESTING_DURATION,
+        releaseInterval,
+        true
+      );
+      const status = await getLockupStatus(simpleLockup);
+      const startTime = Number(status.startTime);
+
+      const events = buildCalendarEvents(status, 'day', 'UTC');
+      expect(events.map((event) => [event.kind, event.timestamp])).to.deep.equal([
+        ['unlock', startTime + releaseInterval],
+        ['unlock', startTime + 2 * releaseInterval],
+        ['unlock', startTime + 3 * releaseInterval],
+        ['end', startTime + VESTING_DURATION],
+      ]);
+      expect(events.map((event) => event.unlockedAmount)).to.deep.equal(
+        Array(4).fill(ethers.parseEther('250'))
+      );
+    });
+
+    it('Should drop dates after a revocation', async function () {
+      const original = await createLockup();
+      await time.increase(VESTING_DURATION / 2);
+      await simpleLockup.revoke();
+      const status = await getLockupStatus(simpleLockup);
+      const revokedAt = Number(status.currentTime);
+
+      // Every reminder up to the revocation keeps its amount; nothing after it remains
+      const events = buildCalendarEvents(status, 'month', 'UTC');
+      expect(events).to.deep.equal(
+        buildCalendarEvents(original, 'month', 'UTC').filter(
+          (event) => event.timestamp <= revokedAt
+        )
+      );
+      expect(events[0].kind).to.equal('cliff');
+      expect(events.filter((event) => event.kind === 'unlock').length).to.be.within(10, 12);
+      expect(events[events.length - 1].timestamp).to.be.greaterThan(revokedAt - 31 * DAY);
+    });
+
+    it('Should keep the steps of a periodic lockup before its revocation', async function () {
+      const releaseInterval = VESTING_DURATION / 4;
+      await token.approve(lockupAddress, TOTAL_AMOUNT);
+      await simpleLockup.createPeriodicLockup(
+        beneficiary.address,
+        TOTAL_AMOUNT,
+        0,
+        VESTING_DURATION,
+        releaseInterval,
+        true
+      );
+      const startTime = Number((await simpleLockup.lockupInfo()).startTime);
+      await time.increaseTo(startTime + 2 * releaseInterval + DAY);
+      await simpleLockup.revoke();
+
+      const events = buildCalendarEvents(await getLockupStatus(simpleLockup), 'day', 'UTC');
+      expect(events).to.deep.equal([
+        {
+          kind: 'unlock',
+          timestamp: startTime + releaseInterval,
+          vestedAmount: ethers.parseEther('250'),
+          unlockedAmount: ethers.parseEther('250'),
+        },
+        {
+          kind: 'unlock',
+          timestamp: startTime + 2 * releaseInterval,
+          vestedAmount: ethers.parseEther('500'),
+          unlockedAmount: ethers.parseEther('250'),
+        },
+      ]);
+    });
+  });
+
+  describe('iCalendar', function () {
+    it('Should write a valid calendar with folded lines and a reminder per event', async function () {
+      const status = await createLockup();
+      const events = buildCalendarEvents(status, 'month', 'UTC');
+
+      const ics = toIcs(lockupAddress, events, status, tokenInfo);
+      const lines = ics.split('\r\n');
+      expect(lines[0]).to.equal('BEGIN:VCALENDAR');
+      expect(lines[lines.length - 2]).to.equal('END:VCALENDAR');
+      expect(lines.every((line) => Buffer.byteLength(line) <= 75)).to.equal(true);
+      expect(ics.match(/BEGIN:VEVENT/g)).to.have.length(events.length);
+      expect(ics.match(/BEGIN:VALARM/g)).to.have.length(events.length);
+
+      const cliffStart = new Date(Number(status.cliffEnd) * 1000)
+        .toISOString()
+        .replace(/[-:]/g, '')
+        .replace(/\.\d{3}/, '');
+      expect(ics).to.contain(`DTSTART:${cliffStart}\r\n`);
+      expect(ics).to.contain('SUMMARY:Vesting cliff ends (41.095890410958904109 TEST vested)');
+      expect(ics).to.contain(`UID:end-${status.vestingEnd}-${lockupAddress.toLowerCase()}`);
+    });
+  });
+});
@@ -0,0 +1,254 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { SimpleLockup, MockERC20 } from '../typechain-types';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import {
+  formatPercent,
+  nextStepAt,
+  progressAt,
+  releasableAt,
+  remainingAt,
+  toVestingSchedule,
+  vestedAt,
+} from '../scripts/lib/vesting';
+
+/**
+ * Differential tests: scripts/lib/vesting.ts against the deployed contract
+ * Every sample moves the chain to a random timestamp and compares the off-chain result with
+ * the contract views at that block.
+ */
+describe('VestingMath', function () {
+  let simpleLockup: SimpleLockup;
+  let token: MockERC20;
+  let beneficiary: SignerWithAddress;
+
+  const SAMPLES = 25;
+  const DAY = 24 * 60 * 60;
+
+  // Deterministic PRNG (mulberry32) so failures are reproducible
+  function random(seed: number): () => number {
+    let state = seed;
+    return () => {
+      state = (state + 0x6d2b79f5) | 0;
+      let t = Math.imul(state ^ (state >>> 15), 1 | state);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  function randomTimestamps(seed: number, from: number, to: number): number[] {
+    const next = random(seed);
+    const timestamps = Array.from(
+      { length: SAMPLES },
+      () => from + Math.floor(next() * (to - from))
+    );
+    return [...new Set(timestamps)].sort((a, b) => a - b);
+  }
+
+  async function expectMatchesContract() {
+    const info = toVestingSchedule(
+      await simpleLockup.lockupInfo(),
+      await simpleLockup.getCheckpoints()
+    );
+    const block = await ethers.provider.getBlock('latest');
+    const timestamp = BigInt(block!.timestamp);
+
+    expect(vestedAt(info, timestamp)).to.equal(await simpleLockup.vestedAmount());
+    expect(releasableAt(info, timestamp)).to.equal(await simpleLockup.releasableAmount());
+    expect(progressAt(info, timestamp)).to.equal(await simpleLockup.getVestingProgress());
+    expect(remainingAt(info, timestamp)).to.equal(await simpleLockup.getRemainingVestingTime());
+  }
+
+  async function createLockup(amount: bigint, cliff: number, vesting: number, interval = 0) {
+    await token.approve(await simpleLockup.getAddress(), amount);
+    if (interval > 0) {
+      await simpleLockup.createPeriodicLockup(
+        beneficiary.address,
+        amount,
+        cliff,
+        vesting,
+        interval,
+        true
+      );
+    } else {
+      await simpleLockup.createLockup(beneficiary.address, amount, cliff, vesting, true);
+    }
+    const info = await simpleLockup.lockupInfo();
+    return Number(info.startTime);
+  }
+
+  async function sampleUntil(
+    seed: number,
+    from: number,
+    to: number,
+    onSample?: () => Promise<void>
+  ) {
+    for (const timestamp of randomTimestamps(seed, from, to)) {
+      const latest = await time.latest();
+      if (timestamp <= latest) continue;
+      await time.increaseTo(timestamp);
+      await expectMatchesContract();
+      if (onSample) await onSample();
+    }
+  }
+
+  beforeEach(async function () {
+    [, beneficiary] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory('MockERC20');
+    token = await MockERC20Factory.deploy('Test Token', 'TEST', ethers.parseEther('100000000'));
+    await token.waitForDeployment();
+
+    const SimpleLockupFactory = await ethers.getContractFactory('SimpleLockup');
+    simpleLockup = await SimpleLockupFactory.deploy(await token.getAddress());
+    await simpleLockup.waitForDeployment();
+  });
+
+  it('Should match the contract when no lockup exists', async function () {
+    await expectMatchesContract();
+  });
+
+  it('Should match the contract across cliff, vesting and after end', async function () {
+    const cliff = 30 * DAY;
+    const vesting = 365 * DAY;
+    const start = await createLockup(ethers.parseEther('1000'), cliff, vesting);
+
+    await sampleUntil(1, start, start + vesting + 60 * DAY);
+  });
+
+  it('Should match the contract with rounding dust and no cliff', async function () {
+    // Amount and duration chosen so that linear vesting never divides evenly
+    const vesting = 7 * DAY + 3;
+    const start = await createLockup(1_000_000_007n, 0, vesting);
+
+    await sampleUntil(2, start, start + vesting + DAY);
+  });
+
+  it('Should match the contract with partial releases and the end-of-vesting dust rule', async function () {
+    const vesting = 100 * DAY + 1;
+    const start = await createLockup(999_999_999_999_999_999n, 10 * DAY, vesting);
+
+    const next = random(3);
+    await sampleUntil(3, start, start + vesting + 10 * DAY, async () => {
+      if (next() < 0.4 && (await simpleLockup.releasableAmount()) > 0n) {
+        await simpleLockup.connect(beneficiary)['release()']();
+        await expectMatchesContract();
+      }
+    });
+  });
+
+  it('Should match the contract after revocation', async function () {
+    const cliff = 20 * DAY;
+    const vesting = 200 * DAY;
+    const start = await createLockup(ethers.parseEther('12345.678'), cliff, vesting);
+
+    await sampleUntil(4, start, start + vesting / 3);
+    await simpleLockup.revoke();
+    await expectMatchesContract();
+    await sampleUntil(5, start + vesting / 3, start + vesting + 30 * DAY);
+  });
+
+  it('Should match the contract with periodic vesting', async function () {
+    // Cliff ends mid-step and the last step is shorter than the interval
+    const interval = 7 * DAY;
+    const vesting = 10 * interval + 2 * DAY;
+    const start = await createLockup(1_000_000_007n, 3 * DAY + 5, vesting, interval);
+
+    await sampleUntil(6, start, start + vesting + 7 * DAY);
+  });
+
+  it('Should match the contract with a cliff unlock', async function () {
+    const cliff = 45 * DAY + 17;
+    const vesting = 400 * DAY + 3;
+    const amount = 1_000_000_007n;
+    await token.approve(await simpleLockup.getAddress(), amount);
+    await simpleLockup.createCliffUnlockLockup(
+      beneficiary.address,
+      amount,
+      cliff,
+      vesting,
+      1234,
+      true
+    );
+    const start = Number((await simpleLockup.lockupInfo()).startTime);
+    const revokeAt = start + Math.floor(vesting / 2);
+
+    await sampleUntil(8, start, revokeAt);
+    await simpleLockup.revoke();
+    await expectMatchesContract();
+    await sampleUntil(9, revokeAt, start + vesting + 10 * DAY);
+  });
+
+  it('Should match the contract before and after a future start time', async function () {
+    const amount = ethers.parseEther('777.777');
+    const start = (await time.latest()) + 40 * DAY;
+    const vesting = 180 * DAY + 1;
+    await token.approve(await simpleLockup.getAddress(), amount);
+    await simpleLockup.createScheduledLockup(
+      beneficiary.address,
+      amount,
+      start,
+      15 * DAY,
+      vesting,
+      0,
+      0,
+      true
+    );
+
+    await expectMatchesContract();
+    await sampleUntil(10, start - 40 * DAY, start + vesting + DAY);
+  });
+
+  it('Should match the contract with a custom checkpoint schedule', async function () {
+    // Cliff with an initial unlock, uneven linear segments, an instant step and a flat segment
+    const checkpoints = [
+      { offset: 10 * DAY, cumulativeBps: 500 },
+      { offset: 10 * DAY, cumulativeBps: 1200 },
+      { offset: 47 * DAY + 11, cumulativeBps: 3333 },
+      { offset: 90 * DAY, cumulativeBps: 3333 },
+      { offset: 90 * DAY, cumulativeBps: 6000 },
+      { offset: 200 * DAY - 7, cumulativeBps: 10000 },
+    ];
+    const amount = 1_000_000_007n;
+    await token.approve(await simpleLockup.getAddress(), amount);
+    await simpleLockup.createCustomLockup(beneficiary.address, amount, checkpoints, true);
+    const start = Number((await simpleLockup.lockupInfo()).startTime);
+
+    await sampleUntil(7, start, start + 210 * DAY);
+  });
+
+  it('Should find the next step boundary of periodic schedules', function () {
+    const schedule = {
+      totalAmount: 1000n,
+      releasedAmount: 0n,
+      startTime: 1000n,
+      cliffDuration: 250n,
+      vestingDuration: 1050n,
+      releaseInterval: 100n,
+      revoked: false,
+      cliffUnlockBps: 0n,
+      vestedAtRevoke: 0n,
+    };
+
+    // Steps 1 and 2 unlock together at the cliff end
+    expect(nextStepAt(schedule, 1000n)).to.equal(1250n);
+    expect(nextStepAt(schedule, 1250n)).to.equal(1300n);
+    expect(nextStepAt(schedule, 1999n)).to.equal(2000n);
+    // Shorter last step ends at vesting end
+    expect(nextStepAt(schedule, 2000n)).to.equal(2050n);
+    expect(nextStepAt(schedule, 2050n)).to.equal(0n);
+    // Cliff shorter than one step
+    expect(nextStepAt({ ...schedule, cliffDuration: 50n }, 1000n)).to.equal(1100n);
+    expect(nextStepAt({ ...schedule, releaseInterval: 0n }, 1000n)).to.equal(0n);
+  });
+
+  it('Should format percentages without floating point loss', function () {
+    expect(formatPercent(1n, 3n)).to.equal('33.3%');
+    expect(formatPercent(2n, 3n, 2)).to.equal('66.66%');
+    expect(formatPercent(5n, 5n, 0)).to.equal('100%');
+    expect(formatPercent(0n, 0n)).to.equal('0%');
+    // Beyond Number precision
+    expect(formatPercent(2n ** 200n - 1n, 2n ** 201n)).to.equal('49.9%');
+  });
+});
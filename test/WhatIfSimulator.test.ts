@@ -0,0 +1,279 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { SimpleLockup, MockERC20 } from '../typechain-types';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { getLockupStatus } from '../scripts/lib/lockup';
+import {
+  SimulationBalances,
+  SimulationResult,
+  buildSimulatedLockup,
+  parseDuration,
+  parseSimulationActions,
+  simulateActions,
+} from '../scripts/lib/simulate';
+import { TokenMetadata, loadLockupToken } from '../scripts/lib/token';
+
+/**
+ * The simulator is checked against the contract: every sequence is simulated first, then sent
+ * to SimpleLockup at the same timestamps, comparing outcomes and token balances step by step.
+ */
+describe('WhatIfSimulator', function () {
+  let simpleLockup: SimpleLockup;
+  let token: MockERC20;
+  let tokenInfo: TokenMetadata;
+  let lockupAddress: string;
+  let owner: SignerWithAddress;
+  let beneficiary: SignerWithAddress;
+
+  const DAY = 24 * 60 * 60;
+  const TOTAL_AMOUNT = ethers.parseEther('1000');
+  const CLIFF_DURATION = 90 * DAY;
+  const VESTING_DURATION = 365 * DAY;
+
+  async function createLockup(revocable = true): Promise<void> {
+    await token.approve(lockupAddress, TOTAL_AMOUNT);
+    await simpleLockup.createLockup(
+      beneficiary.address,
+      TOTAL_AMOUNT,
+      CLIFF_DURATION,
+      VESTING_DURATION,
+      revocable
+    );
+  }
+
+  async function balances(): Promise<SimulationBalances> {
+    const [beneficiaryBalance, ownerBalance, lockupBalance] = await Promise.all([
+      token.balanceOf(beneficiary.address),
+      token.balanceOf(owner.address),
+      token.balanceOf(lockupAddress),
+    ]);
+    return { beneficiary: beneficiaryBalance, owner: ownerBalance, lockup: lockupBalance };
+  }
+
+  async function simulate(actions: string): Promise<SimulationResult> {
+    const status = await getLockupStatus(simpleLockup);
+    return simulateActions(
+      status,
+      parseSimulationActions(actions, tokenInfo, status.startTime),
+      await balances(),
+      status.currentTime
+    );
+  }
+
+  // Send every simulated action to the contract and compare the results
+  async function replayOnChain(result: SimulationResult): Promise<void> {
+    for (const step of result.steps) {
+      await time.setNextBlockTimestamp(step.action.timestamp);
+      const call =
+        step.action.type === 'revoke'
+          ? simpleLockup.connect(owner).revoke()
+          : step.action.amount === undefined
+            ? simpleLockup.connect(beneficiary)['release()']()
+            : simpleLockup.connect(beneficiary)['release(uint256)'](step.action.amount);
+
+      if (step.outcome === 'released' || step.outcome === 'revoked') {
+        await call;
+      } else {
+        await expect(call).to.be.revertedWithCustomError(simpleLockup, step.outcome);
+      }
+
+      expect(await balances()).to.deep.equal(step.state.balances);
+      const info = await simpleLockup.lockupInfo();
+      expect(info.releasedAmount).to.equal(step.state.releasedAmount);
+      expect(info.revoked).to.equal(step.state.revoked);
+    }
+  }
+
+  beforeEach(async function () {
+    [owner, beneficiary] = await ethers.getSigners();
+
+    const MockERC20Factory = await ethers.getContractFactory('MockERC20');
+    token = await MockERC20Factory.deploy('Test Token', 'TEST', ethers.parseEther('1000000'));
+    await token.waitForDeployment();
+
+    const SimpleLockupFactory = await ethers.getContractFactory('SimpleLockup');
+    simpleLockup = await SimpleLockupFactory.deploy(await token.getAddress());
+    await simpleLockup.waitForDeployment();
+
+    lockupAddress = await simpleLockup.getAddress();
+    tokenInfo = await loadLockupToken(simpleLockup, ethers.provider);
+  });
+
+  describe('Actions', function () {
+    it('Should parse dates, relative times and partial amounts', function () {
+      const start = 1_767_225_600n; // 2026-01-01
+
+      const actions = parseSimulationActions(
+        'release@2026-02-01; Revoke@2026-07-01T12:00:00+02:00,\nrelease:12.5@+400d',
+        tokenInfo,
+        start
+      );
+
+      expect(actions).to.deep.equal([
+        { type: 'release', timestamp: 1_769_904_000n },
+        { type: 'revoke', timestamp: 1_782_900_000n },
+        { type: 'release', timestamp: start + 400n * 86400n, amount: ethers.parseEther('12.5') },
+      ]);
+    });
+
+    it('Should reject malformed actions', function () {
+      const cases: [string, string][] = [
+        ['', 'No actions to simulate'],
+        ['claim@2026-01-01', 'Invalid action "claim@2026-01-01"'],
+        ['release', 'Invalid action "release"'],
+        ['revoke:5@2026-01-01', 'revoke takes no amount'],
+        ['release:0@2026-01-01', 'amount must be greater than 0'],
+        ['release@2026-02-30', 'Invalid start time'],
+        ['release@+3w', 'Invalid duration'],
+      ];
+
+      for (const [input, message] of cases) {
+        expect(() => parseSimulationActions(input, tokenInfo, 0n)).to.throw(message);
+      }
+    });
+  });
+
+  describe('Hypothetical lockups', function () {
+    it('Should apply the contract parameter rules', function () {
+      const params = {
+        totalAmount: TOTAL_AMOUNT,
+        startTime: 1_767_225_600n,
+        cliffDuration: parseDuration('90d'),
+        vestingDuration: parseDuration('365d'),
+        releaseInterval: 0n,
+        cliffUnlockBps: 0n,
+        revocable: true,
+      };
+
+      expect(buildSimulatedLockup(params)).to.include({ releasedAmount: 0n, revoked: false });
+      expect(() => buildSimulatedLockup({ ...params, totalAmount: 0n })).to.throw(
+        'Amount must be greater than 0'
+      );
+      expect(() =>
+        buildSimulatedLockup({ ...params, cliffDuration: params.vestingDuration })
+      ).to.throw('Cliff must be shorter');
+      expect(() =>
+        buildSimulatedLockup({ ...params, releaseInterval: 86400n, cliffUnlockBps: 2000n })
+      ).to.throw('both a release interval and a cliff unlock');
+    });
+
+    it('Should show what each party ends up with for a revocation date', function () {
+      const lockup = buildSimulatedLockup({
+        totalAmount: TOTAL_AMOUNT,
+        startTime: 0n,
+        cliffDuration: BigInt(CLIFF_DURATION),
+        vestingDuration: BigInt(VESTING_DURATION),
+        releaseInterval: 0n,
+        cliffUnlockBps: 0n,
+        revocable: true,
+      });
+      const actions = parseSimulationActions('revoke@+73d', tokenInfo, 0n);
+
+      // Revoked during the cliff: the owner recovers everything
+      const result = simulateActions(
+        lockup,
+        actions,
+        { beneficiary: 0n, owner: 0n, lockup: TOTAL_AMOUNT },
+        0n
+      );
+      expect(result.beneficiaryKeeps).to.equal(0n);
+      expect(result.ownerRecovers).to.equal(TOTAL_AMOUNT);
+      expect(result.steps[0].state.balances).to.deep.equal({
+        beneficiary: 0n,
+        owner: TOTAL_AMOUNT,
+        lockup: 0n,
+      });
+      // Without a revocation the beneficiary keeps everything
+      expect(simulateActions(lockup, [], result.initial.balances, 0n).beneficiaryKeeps).to.equal(
+        TOTAL_AMOUNT
+      );
+    });
+
+    it('Should reject actions out of chronological order', function () {
+      const lockup = buildSimulatedLockup({
+        totalAmount: TOTAL_AMOUNT,
+        startTime: 1000n,
+        cliffDuration: 0n,
+        vestingDuration: BigInt(VESTING_DURATION),
+        releaseInterval: 0n,
+        cliffUnlockBps: 0n,
+        revocable: true,
+      });
+      const empty = { beneficiary: 0n, owner: 0n, lockup: TOTAL_AMOUNT };
+
+      expect(() =>
+        simulateActions(
+          lockup,
+          parseSimulationActions('release@+10d, revoke@+5d', tokenInfo, 1000n),
+          empty,
+          1000n
+        )
+      ).to.throw('chronological order');
+      expect(() =>
+        simulateActions(
+          lockup,
+          parseSimulationActions('release@500', tokenInfo, 1000n),
+          empty,
+          1000n
+        )
+      ).to.throw('chronological order');
+    });
+  });
+
+  describe('Against the contract', function () {
+    it('Should match releases around a revocation, including NoTokensAvailable', async function () {
+      await createLockup();
+
+      const result = await simulate(
+        'release@+30d, release@+120d, revoke@+200d, release:1@+250d, release@+300d, release@+400d, revoke@+410d'
+      );
+      expect(result.steps.map((step) => step.outcome)).to.deep.equal([
+        'NoTokensAvailable',
+        'released',
+        'revoked',
+        'released',
+        'released',
+        'NoTokensAvailable',
+        'AlreadyRevoked',
+      ]);
+
+      await replayOnChain(result);
+
+      const info = await simpleLockup.lockupInfo();
+      expect(result.beneficiaryKeeps).to.equal(info.vestedAtRevoke);
+      expect(result.ownerRecovers).to.equal(TOTAL_AMOUNT - info.vestedAtRevoke);
+    });
+
+    it('Should match NothingToRevoke once everything has vested', async function () {
+      await createLockup();
+
+      const result = await simulate(
+        'release:100@+100d, release:1000@+200d, revoke@+365d, release@+366d'
+      );
+      expect(result.steps.map((step) => step.outcome)).to.deep.equal([
+        'released',
+        'AmountExceedsReleasable',
+        'NothingToRevoke',
+        'released',
+      ]);
+      expect(result.ownerRecovers).to.equal(0n);
+
+      await replayOnChain(result);
+      expect(await token.balanceOf(beneficiary.address)).to.equal(TOTAL_AMOUNT);
+    });
+
+    it('Should match NotRevocable and start from a partly released lockup', async function () {
+      await createLockup(false);
+      await time.increase(CLIFF_DURATION);
+      await simpleLockup.connect(beneficiary)['release()']();
+
+      const result = await simulate('revoke@+180d, release@+181d');
+      expect(result.initial.releasedAmount).to.be.greaterThan(0n);
+      expect(result.steps.map((step) => step.outcome)).to.deep.equal(['NotRevocable', 'released']);
+      expect(result.beneficiaryKeeps).to.equal(TOTAL_AMOUNT);
+
+      await replayOnChain(result);
+    });
+  });
+});
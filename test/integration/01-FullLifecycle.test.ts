@@ -67,7 +67,7 @@ describe('Integration: Full Vesting Lifecycle', function () {
       console.log(`  Expected: ${ethers.formatEther(expected25)} tokens`);
       console.log(`  Actual: ${ethers.formatEther(vested25)} tokens`);
 
-      await simpleLockup.connect(beneficiary).release();
+      await simpleLockup.connect(beneficiary)['release()']();
       expect(await token.balanceOf(beneficiary.address)).to.be.closeTo(
         expected25,
         ethers.parseEther('2000')
@@ -100,7 +100,7 @@ describe('Integration: Full Vesting Lifecycle', function () {
       console.log(`  Expected: ${ethers.formatEther(TOTAL_AMOUNT)} tokens`);
 
       // Release all remaining tokens
-      await simpleLockup.connect(beneficiary).release();
+      await simpleLockup.connect(beneficiary)['release()']();
       expect(await token.balanceOf(beneficiary.address)).to.equal(TOTAL_AMOUNT);
 
       console.log('\n✅ Full lifecycle completed successfully');
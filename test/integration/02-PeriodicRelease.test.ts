@@ -3,6 +3,7 @@ import { ethers } from 'hardhat';
 import { time } from '@nomicfoundation/hardhat-network-helpers';
 import { SimpleLockup, MockERC20 } from '../../typechain-types';
 import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { ScheduleBuilder } from '../../scripts/lib/schedule';
 
 /**
  * Integration Test: Periodic Release
@@ -60,7 +61,7 @@ describe('Integration: Periodic Release', function () {
 
       const releasable = await simpleLockup.releasableAmount();
       if (releasable > 0n) {
-        await simpleLockup.connect(beneficiary).release();
+        await simpleLockup.connect(beneficiary)['release()']();
         totalReleased += releasable;
 
         console.log(`\n📅 Month ${month}:`);
@@ -73,4 +74,112 @@ describe('Integration: Periodic Release', function () {
     expect(await token.balanceOf(beneficiary.address)).to.equal(TOTAL_AMOUNT);
     console.log('\n✅ All tokens released successfully');
   });
+
+  it('Should handle fixed-amount partial releases', async function () {
+    await simpleLockup.createLockup(
+      beneficiary.address,
+      TOTAL_AMOUNT,
+      0, // No cliff
+      VESTING_DURATION,
+      true
+    );
+
+    const FIXED_AMOUNT = ethers.parseEther('500'); // Half of each month's vesting
+    console.log('✅ Lockup created for fixed-amount releases');
+    console.log(`  Claiming ${ethers.formatEther(FIXED_AMOUNT)} tokens per month`);
+
+    // Claim a fixed amount every month, leaving the rest vested but unclaimed
+    for (let month = 1; month <= 12; month++) {
+      await time.increase(MONTH);
+      await simpleLockup.connect(beneficiary)['release(uint256)'](FIXED_AMOUNT);
+    }
+
+    const claimed = FIXED_AMOUNT * 12n;
+    expect(await token.balanceOf(beneficiary.address)).to.equal(claimed);
+    expect(await simpleLockup.releasableAmount()).to.equal(TOTAL_AMOUNT - claimed);
+    console.log(`\n📊 Claimed: ${ethers.formatEther(claimed)} tokens`);
+
+    // Amounts above the releasable balance are rejected
+    await expect(
+      simpleLockup.connect(beneficiary)['release(uint256)'](TOTAL_AMOUNT)
+    ).to.be.revertedWithCustomError(simpleLockup, 'AmountExceedsReleasable');
+
+    // The unclaimed remainder can still be released in full
+    await simpleLockup.connect(beneficiary)['release()']();
+    expect(await token.balanceOf(beneficiary.address)).to.equal(TOTAL_AMOUNT);
+    console.log('\n✅ Remainder released after fixed-amount claims');
+  });
+
+  it('Should unlock monthly steps after a cliff', async function () {
+    const CLIFF = 3 * MONTH;
+    await simpleLockup.createPeriodicLockup(
+      beneficiary.address,
+      TOTAL_AMOUNT,
+      CLIFF,
+      VESTING_DURATION,
+      MONTH,
+      true
+    );
+    const startTime = Number((await simpleLockup.lockupInfo()).startTime);
+
+    console.log('✅ Periodic lockup created (3-month cliff, monthly unlocks)');
+
+    // Nothing vests during the cliff, then the first 3 steps unlock together
+    await time.increaseTo(startTime + CLIFF - 1);
+    expect(await simpleLockup.vestedAmount()).to.equal(0);
+    await time.increaseTo(startTime + CLIFF);
+    expect(await simpleLockup.vestedAmount()).to.equal(ethers.parseEther('3000'));
+    console.log('\n📅 Cliff end: 3000 tokens unlocked');
+
+    // Halfway through a month nothing more is releasable than at its start
+    await time.increaseTo(startTime + 4 * MONTH + MONTH / 2);
+    await simpleLockup.connect(beneficiary)['release()']();
+    expect(await token.balanceOf(beneficiary.address)).to.equal(ethers.parseEther('4000'));
+    console.log('📅 Month 4.5: 4000 tokens released');
+
+    for (let month = 5; month <= 12; month++) {
+      await time.increaseTo(startTime + month * MONTH);
+      await simpleLockup.connect(beneficiary)['release()']();
+      expect(await token.balanceOf(beneficiary.address)).to.equal(
+        ethers.parseEther((month * 1000).toString())
+      );
+    }
+
+    expect(await token.balanceOf(beneficiary.address)).to.equal(TOTAL_AMOUNT);
+    console.log('\n✅ All monthly steps released');
+  });
+
+  it('Should follow a custom schedule of steps and linear vesting', async function () {
+    // 10% at start, 5% per month for 6 months, then linear until month 12
+    const checkpoints = new ScheduleBuilder()
+      .unlock(1000n)
+      .steps(BigInt(MONTH), 6, 500n)
+      .linearToEnd(BigInt(6 * MONTH))
+      .build();
+    await simpleLockup.createCustomLockup(beneficiary.address, TOTAL_AMOUNT, checkpoints, true);
+    const startTime = Number((await simpleLockup.lockupInfo()).startTime);
+
+    console.log(`✅ Custom lockup created (${checkpoints.length} checkpoints)`);
+
+    await simpleLockup.connect(beneficiary)['release()']();
+    expect(await token.balanceOf(beneficiary.address)).to.equal(ethers.parseEther('1200'));
+    console.log('\n📅 Start: 1200 tokens released');
+
+    // The linear segment starts right at month 6, so pin the release block timestamp
+    await time.setNextBlockTimestamp(startTime + 6 * MONTH);
+    await simpleLockup.connect(beneficiary)['release()']();
+    expect(await token.balanceOf(beneficiary.address)).to.equal(ethers.parseEther('4800'));
+    console.log('📅 Month 6: 4800 tokens released');
+
+    // Halfway through the linear segment: 40% + 60% / 2
+    await time.setNextBlockTimestamp(startTime + 9 * MONTH);
+    await simpleLockup.connect(beneficiary)['release()']();
+    expect(await token.balanceOf(beneficiary.address)).to.equal(ethers.parseEther('8400'));
+    console.log('📅 Month 9: 8400 tokens released');
+
+    await time.increaseTo(startTime + VESTING_DURATION);
+    await simpleLockup.connect(beneficiary)['release()']();
+    expect(await token.balanceOf(beneficiary.address)).to.equal(TOTAL_AMOUNT);
+    console.log('\n✅ Custom schedule fully released');
+  });
 });
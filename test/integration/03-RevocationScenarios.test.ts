@@ -74,7 +74,7 @@ describe('Integration: Revocation Scenarios', function () {
     expect(returned).to.be.closeTo(TOTAL_AMOUNT - vestedBefore, ethers.parseEther('100'));
 
     // Beneficiary can still claim vested tokens
-    await simpleLockup.connect(beneficiary).release();
+    await simpleLockup.connect(beneficiary)['release()']();
     expect(await token.balanceOf(beneficiary.address)).to.be.closeTo(
       vestedBefore,
       ethers.parseEther('0.1')
@@ -117,7 +117,7 @@ describe('Integration: Revocation Scenarios', function () {
     console.log(`\n📊 50% vested: ${ethers.formatEther(vestedBefore)} tokens`);
 
     // Beneficiary releases BEFORE owner revokes (this is acceptable)
-    await simpleLockup.connect(beneficiary).release();
+    await simpleLockup.connect(beneficiary)['release()']();
     const beneficiaryBalance = await token.balanceOf(beneficiary.address);
     expect(beneficiaryBalance).to.be.closeTo(vestedBefore, ethers.parseEther('0.1'));
 
@@ -186,7 +186,7 @@ describe('Integration: Revocation Scenarios', function () {
     console.log('   Owner received 100% of tokens (correct - no vesting during cliff)');
 
     // Beneficiary should not be able to claim anything
-    await expect(simpleLockup.connect(beneficiary).release()).to.be.revertedWithCustomError(
+    await expect(simpleLockup.connect(beneficiary)['release()']()).to.be.revertedWithCustomError(
       simpleLockup,
       'NoTokensAvailable'
     );
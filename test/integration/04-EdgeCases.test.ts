@@ -89,7 +89,7 @@ describe('Integration: Edge Cases', function () {
     console.log('✅ Lockup created with cliff');
 
     // During cliff - should revert
-    await expect(simpleLockup.connect(beneficiary).release()).to.be.revertedWithCustomError(
+    await expect(simpleLockup.connect(beneficiary)['release()']()).to.be.revertedWithCustomError(
       simpleLockup,
       'NoTokensAvailable'
     );
@@ -106,7 +106,7 @@ describe('Integration: Edge Cases', function () {
     await time.increase(12 * MONTH + 1);
 
     // Release all
-    await simpleLockup.connect(beneficiary).release();
+    await simpleLockup.connect(beneficiary)['release()']();
 
     const beneficiaryBalance = await token.balanceOf(beneficiary.address);
     expect(beneficiaryBalance).to.equal(TOTAL_AMOUNT);
@@ -284,7 +284,7 @@ describe('Integration: Security Tests', function () {
       expect(vested).to.equal(TOTAL_AMOUNT);
 
       // Release should get ALL tokens (no rounding dust)
-      await simpleLockup.connect(beneficiary).release();
+      await simpleLockup.connect(beneficiary)['release()']();
       expect(await token.balanceOf(beneficiary.address)).to.equal(TOTAL_AMOUNT);
 
       console.log('  ✅ All tokens released at exact vesting end');